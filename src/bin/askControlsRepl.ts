@@ -0,0 +1,133 @@
+#!/usr/bin/env node
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { ControlManager } from '../controls/ControlManager';
+import { ControlInteractionModelGenerator } from '../interactionModelGeneration/ControlInteractionModelGenerator';
+import { ControlRepl } from '../utils/testSupport/ControlRepl';
+import { NluSimulator } from '../utils/testSupport/NluSimulator';
+
+const USAGE = `Usage: ask-controls-repl <module> [--export <name>] [--model <interactionModel.json>]
+
+Drives the control manager exported by <module> from the command line.
+
+  --export  name of the exported ControlManager class.
+            Default: the first exported class with a createControlTree method.
+  --model   interaction model for recognizing text.
+            Default: the core model of the control tree.`;
+
+function parseArgs(args: string[]): { modulePath: string; exportName?: string; modelPath?: string } {
+    let modulePath: string | undefined;
+    let exportName: string | undefined;
+    let modelPath: string | undefined;
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === '--export') {
+            exportName = args[++i];
+        } else if (args[i] === '--model') {
+            modelPath = args[++i];
+        } else if (args[i] === '--help' || args[i].startsWith('--') || modulePath !== undefined) {
+            throw new Error(USAGE);
+        } else {
+            modulePath = args[i];
+        }
+    }
+    if (modulePath === undefined) {
+        throw new Error(USAGE);
+    }
+    return { modulePath, exportName, modelPath };
+}
+
+function loadControlManager(modulePath: string, exportName?: string): ControlManager {
+    const resolvedPath = path.resolve(modulePath);
+    // Unless already running with ts-node
+    if (/\.ts$/.test(resolvedPath) && require.extensions['.ts'] === undefined) {
+        try {
+            require('ts-node/register');
+        } catch (error) {
+            throw new Error(
+                `Loading ${modulePath} requires ts-node. Install it or compile the module first.`,
+            );
+        }
+    }
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const moduleExports = require(resolvedPath);
+    const controlManagerClass =
+        exportName !== undefined
+            ? moduleExports[exportName]
+            : Object.values(moduleExports).find(
+                  (x: any) => typeof x === 'function' && typeof x.prototype?.createControlTree === 'function',
+              );
+    if (typeof controlManagerClass !== 'function') {
+        throw new Error(
+            exportName !== undefined
+                ? `${modulePath} does not export ${exportName}.`
+                : `${modulePath} does not export a ControlManager class. Use --export <name>.`,
+        );
+    }
+    return new (controlManagerClass as new () => ControlManager)();
+}
+
+function createSimulator(controlManager: ControlManager, modelPath?: string): NluSimulator | undefined {
+    if (modelPath !== undefined) {
+        return new NluSimulator(JSON.parse(fs.readFileSync(modelPath, 'utf8')));
+    }
+    try {
+        return new NluSimulator(
+            new ControlInteractionModelGenerator().buildCoreModelForControls(controlManager).build(),
+        );
+    } catch (error) {
+        console.log(`Text cannot be recognized (${error.message}). Use --model or type intents.`);
+        return undefined;
+    }
+}
+
+function main(): void {
+    const args = parseArgs(process.argv.slice(2));
+    const controlManager = loadControlManager(args.modulePath, args.exportName);
+    const repl = new ControlRepl(controlManager, {
+        simulator: createSimulator(controlManager, args.modelPath),
+    });
+
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout, prompt: 'U: ' });
+    console.log('Enter __ to launch the skill, :help for help.');
+    rl.prompt();
+    // Lines are executed one after the other, also when they are pasted at once.
+    let pending = Promise.resolve();
+    rl.on('line', (line) => {
+        pending = pending.then(async () => {
+            if (line.trim() === ':quit') {
+                rl.close();
+                return;
+            }
+            try {
+                const output = await repl.execute(line);
+                if (output !== '') {
+                    console.log(output);
+                }
+            } catch (error) {
+                console.log(`Error: ${error.message ?? error}`);
+            }
+            rl.prompt();
+        });
+    });
+}
+
+try {
+    main();
+} catch (error) {
+    console.error(error.message);
+    process.exit(1);
+}
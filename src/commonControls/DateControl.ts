@@ -11,7 +11,6 @@
  * permissions and limitations under the License.
  */
 import { Intent, IntentRequest } from 'ask-sdk-model';
-import i18next from 'i18next';
 import _ from 'lodash';
 import { Strings as $ } from '../constants/Strings';
 import {
@@ -246,7 +245,7 @@ export namespace DateControlValidations {
         if (startDateInUTC > now) {
             return {
                 reasonCode: DateValidationFailReasonCode.PAST_DATE_ONLY,
-                renderedReason: i18next.t('DATE_CONTROL_DEFAULT_PROMPT_VALIDATION_FAIL_PAST_DATE_ONLY'),
+                renderedReason: input.i18n.t('DATE_CONTROL_DEFAULT_PROMPT_VALIDATION_FAIL_PAST_DATE_ONLY'),
             };
         }
         return true;
@@ -268,7 +267,7 @@ export namespace DateControlValidations {
         if (endDateInUTC < now) {
             return {
                 reasonCode: DateValidationFailReasonCode.FUTURE_DATE_ONLY,
-                renderedReason: i18next.t('DATE_CONTROL_DEFAULT_PROMPT_VALIDATION_FAIL_FUTURE_DATE_ONLY'),
+                renderedReason: input.i18n.t('DATE_CONTROL_DEFAULT_PROMPT_VALIDATION_FAIL_FUTURE_DATE_ONLY'),
             };
         }
         return true;
@@ -371,52 +370,56 @@ export class DateControl extends Control implements InteractionModelContributor
         const defaults: DeepRequired<DateControlProps> = {
             id: 'dummy',
             prompts: {
-                confirmValue: (act) =>
-                    i18next.t('DATE_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE', {
+                confirmValue: (act, input) =>
+                    input.i18n.t('DATE_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE', {
                         value: act.payload.renderedValue,
                     }),
-                valueAffirmed: i18next.t('DATE_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED'),
-                valueDisaffirmed: i18next.t('DATE_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED'),
-                valueSet: i18next.t('DATE_CONTROL_DEFAULT_PROMPT_VALUE_SET'),
-                valueChanged: (act) =>
-                    i18next.t('DATE_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED', {
+                valueAffirmed: (act, input) => input.i18n.t('DATE_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED'),
+                valueDisaffirmed: (act, input) =>
+                    input.i18n.t('DATE_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED'),
+                valueSet: (act, input) => input.i18n.t('DATE_CONTROL_DEFAULT_PROMPT_VALUE_SET'),
+                valueChanged: (act, input) =>
+                    input.i18n.t('DATE_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED', {
                         old: act.payload.renderedPreviousValue,
                         new: act.payload.renderedValue,
                     }),
-                invalidValue: (act) => {
+                invalidValue: (act, input) => {
                     if (act.payload.renderedReason !== undefined) {
-                        return i18next.t('DATE_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON', {
+                        return input.i18n.t('DATE_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON', {
                             reason: act.payload.renderedReason,
                         });
                     }
-                    return i18next.t('DATE_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE');
+                    return input.i18n.t('DATE_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE');
                 },
-                requestValue: i18next.t('DATE_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE'),
-                requestChangedValue: i18next.t('DATE_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_VALUE'),
+                requestValue: (act, input) => input.i18n.t('DATE_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE'),
+                requestChangedValue: (act, input) =>
+                    input.i18n.t('DATE_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_VALUE'),
             },
             reprompts: {
-                confirmValue: (act) =>
-                    i18next.t('DATE_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE', {
+                confirmValue: (act, input) =>
+                    input.i18n.t('DATE_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE', {
                         value: act.payload.renderedValue,
                     }),
-                valueAffirmed: i18next.t('DATE_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED'),
-                valueDisaffirmed: i18next.t('DATE_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED'),
-                valueSet: i18next.t('DATE_CONTROL_DEFAULT_REPROMPT_VALUE_SET'),
-                valueChanged: (act) =>
-                    i18next.t('DATE_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED', {
+                valueAffirmed: (act, input) => input.i18n.t('DATE_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED'),
+                valueDisaffirmed: (act, input) =>
+                    input.i18n.t('DATE_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED'),
+                valueSet: (act, input) => input.i18n.t('DATE_CONTROL_DEFAULT_REPROMPT_VALUE_SET'),
+                valueChanged: (act, input) =>
+                    input.i18n.t('DATE_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED', {
                         old: act.payload.renderedPreviousValue,
                         new: act.payload.renderedValue,
                     }),
-                invalidValue: (act) => {
+                invalidValue: (act, input) => {
                     if (act.payload.renderedReason !== undefined) {
-                        return i18next.t('DATE_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON', {
+                        return input.i18n.t('DATE_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON', {
                             reason: act.payload.renderedReason,
                         });
                     }
-                    return i18next.t('DATE_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE');
+                    return input.i18n.t('DATE_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE');
                 },
-                requestValue: i18next.t('DATE_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE'),
-                requestChangedValue: i18next.t('DATE_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_VALUE'),
+                requestValue: (act, input) => input.i18n.t('DATE_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE'),
+                requestChangedValue: (act, input) =>
+                    input.i18n.t('DATE_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_VALUE'),
             },
             interactionModel: {
                 actions: {
@@ -680,6 +683,12 @@ export class DateControl extends Control implements InteractionModelContributor
         }
     }
 
+    /**
+     * Names of the initiative handlers, as recorded in the `TurnTrace` by
+     * `canTakeInitiative()`.
+     */
+    readonly initiativeHandlerNames: string[] = ['confirmValue', 'fixInvalidValue', 'elicitValue'];
+
     // tsDoc - see Control
     async canTakeInitiative(input: ControlInput): Promise<boolean> {
         return (
@@ -704,6 +713,7 @@ export class DateControl extends Control implements InteractionModelContributor
     private wantsToElicitValue(input: ControlInput): boolean {
         if (this.state.value === undefined && this.evaluateBooleanProp(this.props.required, input)) {
             this.initiativeFunc = this.elicitValue;
+            input.trace?.recordInitiativeHandler(this.id, 'elicitValue');
             return true;
         }
         return false;
@@ -795,6 +805,7 @@ export class DateControl extends Control implements InteractionModelContributor
             this.evaluateBooleanProp(this.props.confirmationRequired, input)
         ) {
             this.initiativeFunc = this.confirmValue;
+            input.trace?.recordInitiativeHandler(this.id, 'confirmValue');
             return true;
         }
         return false;
@@ -816,6 +827,7 @@ export class DateControl extends Control implements InteractionModelContributor
             (await evaluateValidationProp(this.props.validation, this.state, input)) !== true
         ) {
             this.initiativeFunc = this.fixInvalidValue;
+            input.trace?.recordInitiativeHandler(this.id, 'fixInvalidValue');
             return true;
         }
         return false;
@@ -2,6 +2,11 @@ import { Resource } from 'i18next';
 import { Strings as $ } from '../constants/Strings';
 import { SharedSlotType } from '../interactionModelGeneration/ModelTypes';
 import { Logger } from '../logging/Logger';
+import { britishEnglishI18nResources } from './languageStrings/BritishEnglish';
+import { frenchI18nResources } from './languageStrings/French';
+import { germanI18nResources } from './languageStrings/German';
+import { japaneseI18nResources } from './languageStrings/Japanese';
+import { spanishI18nResources } from './languageStrings/Spanish';
 
 const log = new Logger('AskSdkControls:i18n');
 
@@ -11,6 +16,12 @@ const log = new Logger('AskSdkControls:i18n');
  * Localized data for built-ins.
  *
  * Contains prompts, reprompts, APL strings, and interaction model data.
+ *
+ * Languages:
+ * - en: English. Also the fallback for keys that are missing in other locales.
+ * - en-GB: British additions to the English interaction model data.
+ * - de, es, fr, ja: German, Spanish, French and Japanese. These are complete
+ *   and are used for all regional variants, e.g. de-DE and es-MX.
  */
 export const defaultI18nResources: Resource = {
     en: {
@@ -278,6 +289,7 @@ export const defaultI18nResources: Resource = {
             QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_ASK_IF_COMPLETE_TERSE: '',
             QUESTIONNAIRE_CONTROL_DEFAULT_APL_HEADER_TITLE: 'Please select...',
             QUESTIONNAIRE_CONTROL_DEFAULT_APL_SUBMIT_TEXT: 'Submit >',
+            QUESTIONNAIRE_CONTROL_DEFAULT_ANSWER_SUMMARY_ITEM: '{{choice}} for {{question}}',
 
             // Content Act default prompts
             UNUSABLE_INPUT_VALUE_ACT_DEFAULT_PROMPT: `Sorry, {{value}}.`,
@@ -293,6 +305,7 @@ export const defaultI18nResources: Resource = {
             VALUE_REMOVED_ACT_DEFAULT_PROMPT: `OK, removed {{value}}.`,
             VALUE_CLEARED_ACT_DEFAULT_PROMPT: `OK, cleared {{value}}.`,
             INVALID_REMOVE_VALUE_ACT_DEFAULT_PROMPT: `Sorry, invalid {{value}}.`,
+            STATE_REVERTED_ACT_DEFAULT_PROMPT: 'OK, I undid that.',
 
             // Initiative Act default prompts
             REQUEST_VALUE_ACT_DEFAULT_PROMPT: `What value for {{value}}.`,
@@ -303,6 +316,9 @@ export const defaultI18nResources: Resource = {
             CONFIRM_VALUE_ACT_DEFAULT_PROMPT: `Was that {{value}}.`,
             SUGGEST_VALUE_ACT_DEFAULT_PROMPT: `Did you perhaps mean {{value}}?`,
             SUGGEST_ACTION_ACT_DEFAULT_PROMPT: 'You can add or update values.',
+            RESUME_OFFER_ACT_DEFAULT_PROMPT: 'Would you like to pick up where you left off?',
+            DISAMBIGUATE_TARGET_ACT_DEFAULT_PROMPT: 'Did you mean {{targets}}?',
+            DISAMBIGUATE_TARGET_ACT_DEFAULT_TARGET: 'the {{target}}',
 
             // ControlIntent Samples
 
@@ -943,6 +959,8 @@ export const defaultI18nResources: Resource = {
                                 'go backward',
                                 'back to previous',
                                 'back to last',
+                                'undo',
+                                'undo that',
                             ],
                         },
                     },
@@ -1095,4 +1113,9 @@ export const defaultI18nResources: Resource = {
             },
         },
     },
+    'en-GB': britishEnglishI18nResources,
+    de: germanI18nResources,
+    es: spanishI18nResources,
+    fr: frenchI18nResources,
+    ja: japaneseI18nResources,
 };
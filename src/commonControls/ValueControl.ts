@@ -12,7 +12,6 @@
  */
 
 import { Intent, IntentRequest } from 'ask-sdk-model';
-import i18next from 'i18next';
 import _ from 'lodash';
 import { Strings as $ } from '../constants/Strings';
 import {
@@ -344,60 +343,66 @@ export class ValueControl extends Control implements InteractionModelContributor
                 targets: [$.Target.It],
             },
             prompts: {
-                confirmValue: (act) =>
-                    i18next.t('VALUE_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE', {
+                confirmValue: (act, input) =>
+                    input.i18n.t('VALUE_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE', {
                         value: act.payload.renderedValue,
                     }),
-                valueConfirmed: i18next.t('VALUE_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED'),
-                valueDisconfirmed: i18next.t('VALUE_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED'),
-                valueSet: (act) =>
-                    i18next.t('VALUE_CONTROL_DEFAULT_PROMPT_VALUE_SET', { value: act.payload.renderedValue }),
-                valueChanged: (act) =>
-                    i18next.t('VALUE_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED', {
+                valueConfirmed: (act, input) => input.i18n.t('VALUE_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED'),
+                valueDisconfirmed: (act, input) =>
+                    input.i18n.t('VALUE_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED'),
+                valueSet: (act, input) =>
+                    input.i18n.t('VALUE_CONTROL_DEFAULT_PROMPT_VALUE_SET', {
                         value: act.payload.renderedValue,
                     }),
-                invalidValue: (act) => {
+                valueChanged: (act, input) =>
+                    input.i18n.t('VALUE_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED', {
+                        value: act.payload.renderedValue,
+                    }),
+                invalidValue: (act, input) => {
                     if (act.payload.renderedReason !== undefined) {
-                        return i18next.t('VALUE_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON', {
+                        return input.i18n.t('VALUE_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON', {
                             value: act.payload.renderedValue,
                             reason: act.payload.renderedReason,
                         });
                     }
-                    return i18next.t('VALUE_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE', {
+                    return input.i18n.t('VALUE_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE', {
                         value: act.payload.renderedValue,
                     });
                 },
-                requestValue: () => i18next.t('VALUE_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE'),
-                requestChangedValue: () => i18next.t('VALUE_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_VALUE'),
+                requestValue: (act, input) => input.i18n.t('VALUE_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE'),
+                requestChangedValue: (act, input) =>
+                    input.i18n.t('VALUE_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_VALUE'),
             },
             reprompts: {
-                confirmValue: (act) =>
-                    i18next.t('VALUE_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE', {
+                confirmValue: (act, input) =>
+                    input.i18n.t('VALUE_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE', {
                         value: act.payload.renderedValue,
                     }),
-                valueConfirmed: i18next.t('VALUE_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED'),
-                valueDisconfirmed: i18next.t('VALUE_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED'),
-                valueSet: (act) =>
-                    i18next.t('VALUE_CONTROL_DEFAULT_REPROMPT_VALUE_SET', {
+                valueConfirmed: (act, input) => input.i18n.t('VALUE_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED'),
+                valueDisconfirmed: (act, input) =>
+                    input.i18n.t('VALUE_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED'),
+                valueSet: (act, input) =>
+                    input.i18n.t('VALUE_CONTROL_DEFAULT_REPROMPT_VALUE_SET', {
                         value: act.payload.renderedValue,
                     }),
-                valueChanged: (act) =>
-                    i18next.t('VALUE_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED', {
+                valueChanged: (act, input) =>
+                    input.i18n.t('VALUE_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED', {
                         value: act.payload.renderedValue,
                     }),
-                invalidValue: (act) => {
+                invalidValue: (act, input) => {
                     if (act.payload.renderedReason !== undefined) {
-                        return i18next.t('VALUE_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON', {
+                        return input.i18n.t('VALUE_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON', {
                             value: act.payload.renderedValue,
                             reason: act.payload.renderedReason,
                         });
                     }
-                    return i18next.t('VALUE_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE', {
+                    return input.i18n.t('VALUE_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE', {
                         value: act.payload.renderedValue,
                     });
                 },
-                requestValue: () => i18next.t('VALUE_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE'),
-                requestChangedValue: () => i18next.t('VALUE_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_VALUE'),
+                requestValue: (act, input) => input.i18n.t('VALUE_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE'),
+                requestChangedValue: (act, input) =>
+                    input.i18n.t('VALUE_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_VALUE'),
             },
             inputHandling: {
                 customHandlingFuncs: [],
@@ -764,6 +769,12 @@ export class ValueControl extends Control implements InteractionModelContributor
         this.state = new ValueControlState();
     }
 
+    /**
+     * Names of the initiative handlers, as recorded in the `TurnTrace` by
+     * `canTakeInitiative()`.
+     */
+    readonly initiativeHandlerNames: string[] = ['confirmValue', 'fixInvalidValue', 'elicitValue'];
+
     // tsDoc - see Control
     async canTakeInitiative(input: ControlInput): Promise<boolean> {
         return (
@@ -856,6 +867,7 @@ export class ValueControl extends Control implements InteractionModelContributor
             this.evaluateBooleanProp(this.props.confirmationRequired, input)
         ) {
             this.initiativeFunc = this.confirmValue;
+            input.trace?.recordInitiativeHandler(this.id, 'confirmValue');
             return true;
         }
         return false;
@@ -889,6 +901,7 @@ export class ValueControl extends Control implements InteractionModelContributor
             (await evaluateValidationProp(this.props.validation, this.state, input)) !== true
         ) {
             this.initiativeFunc = this.fixInvalidValue;
+            input.trace?.recordInitiativeHandler(this.id, 'fixInvalidValue');
             return true;
         }
         return false;
@@ -912,6 +925,7 @@ export class ValueControl extends Control implements InteractionModelContributor
     private wantsToElicitValue(input: ControlInput): boolean {
         if (this.state.value === undefined && this.evaluateBooleanProp(this.props.required, input)) {
             this.initiativeFunc = this.elicitValue;
+            input.trace?.recordInitiativeHandler(this.id, 'elicitValue');
             return true;
         }
         return false;
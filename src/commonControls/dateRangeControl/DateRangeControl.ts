@@ -12,7 +12,6 @@
  */
 
 import { IntentRequest } from 'ask-sdk-model';
-import i18next from 'i18next';
 import _ from 'lodash';
 import { ControlInputHandlingProps, InputUtil, StringOrList, ValueControlIntent } from '../..';
 import { Strings as $ } from '../../constants/Strings';
@@ -59,8 +58,16 @@ const log = new Logger('AskSdkControls:DateRangeControl');
 
 /**
  * Props for a ValueControl.
+ *
+ * The arbitration and disambiguation props of `ContainerControlProps` are
+ * omitted as the arbitration between the start and end date controls is
+ * internal to the DateRangeControl.
  */
-export interface DateRangeControlProps extends ContainerControlProps {
+export interface DateRangeControlProps
+    extends Omit<
+        ContainerControlProps,
+        'handlingStrategy' | 'initiativeStrategy' | 'renderDisambiguationTarget'
+    > {
     /**
      * Unique identifier for control instance
      */
@@ -364,7 +371,7 @@ export namespace DateRangeControlValidations {
         if (startDate > endDate) {
             return {
                 reasonCode: DateRangeValidationFailReasonCode.START_BEFORE_END,
-                renderedReason: i18next.t(
+                renderedReason: input.i18n.t(
                     'DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALIDATION_FAIL_START_AFTER_END',
                 ),
             };
@@ -518,168 +525,186 @@ export class DateRangeControl extends ContainerControl implements InteractionMod
             },
             prompts: {
                 startDate: {
-                    confirmValue: (act) =>
-                        i18next.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_CONFIRM_START_DATE', {
+                    confirmValue: (act, input) =>
+                        input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_CONFIRM_START_DATE', {
                             value: act.payload.renderedValue,
                         }),
-                    valueAffirmed: i18next.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_START_DATE_AFFIRMED'),
-                    valueDisaffirmed: i18next.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_START_DATE_DISAFFIRMED'),
-                    valueSet: (act) =>
-                        i18next.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_START_DATE_SET', {
+                    valueAffirmed: (act, input) =>
+                        input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_START_DATE_AFFIRMED'),
+                    valueDisaffirmed: (act, input) =>
+                        input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_START_DATE_DISAFFIRMED'),
+                    valueSet: (act, input) =>
+                        input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_START_DATE_SET', {
                             value: act.payload.renderedValue,
                         }),
-                    valueChanged: (act) =>
-                        i18next.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_START_DATE_CHANGED', {
+                    valueChanged: (act, input) =>
+                        input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_START_DATE_CHANGED', {
                             value: act.payload.renderedValue,
                         }),
-                    invalidValue: (act) => {
+                    invalidValue: (act, input) => {
                         if (act.payload.renderedReason !== undefined) {
-                            return i18next.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_INVALID_START_WITH_REASON', {
-                                reason: act.payload.renderedReason,
-                            });
+                            return input.i18n.t(
+                                'DATE_RANGE_CONTROL_DEFAULT_PROMPT_INVALID_START_WITH_REASON',
+                                {
+                                    reason: act.payload.renderedReason,
+                                },
+                            );
                         }
-                        return i18next.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_DATE');
+                        return input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_DATE');
                     },
-                    requestValue: i18next.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_START_DATE'),
-                    requestChangedValue: i18next.t(
-                        'DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_START_DATE',
-                    ),
+                    requestValue: (act, input) =>
+                        input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_START_DATE'),
+                    requestChangedValue: (act, input) =>
+                        input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_START_DATE'),
                 },
                 endDate: {
-                    confirmValue: (act) =>
-                        i18next.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_CONFIRM_END_DATE', {
+                    confirmValue: (act, input) =>
+                        input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_CONFIRM_END_DATE', {
                             value: act.payload.renderedValue,
                         }),
-                    valueAffirmed: i18next.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_END_DATE_AFFIRMED'),
-                    valueDisaffirmed: i18next.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_END_DATE_DISAFFIRMED'),
-                    valueSet: (act) =>
-                        i18next.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_END_DATE_SET', {
+                    valueAffirmed: (act, input) =>
+                        input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_END_DATE_AFFIRMED'),
+                    valueDisaffirmed: (act, input) =>
+                        input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_END_DATE_DISAFFIRMED'),
+                    valueSet: (act, input) =>
+                        input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_END_DATE_SET', {
                             value: act.payload.renderedValue,
                         }),
-                    valueChanged: (act) =>
-                        i18next.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_END_DATE_CHANGED', {
+                    valueChanged: (act, input) =>
+                        input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_END_DATE_CHANGED', {
                             value: act.payload.renderedValue,
                         }),
-                    invalidValue: (act) => {
+                    invalidValue: (act, input) => {
                         if (act.payload.renderedReason !== undefined) {
-                            return i18next.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_INVALID_END_WITH_REASON', {
+                            return input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_INVALID_END_WITH_REASON', {
                                 reason: act.payload.renderedReason,
                             });
                         }
-                        return i18next.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_DATE');
+                        return input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_DATE');
                     },
-                    requestValue: i18next.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_END_DATE'),
-                    requestChangedValue: i18next.t(
-                        'DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_END_DATE',
-                    ),
+                    requestValue: (act, input) =>
+                        input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_END_DATE'),
+                    requestChangedValue: (act, input) =>
+                        input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_END_DATE'),
                 },
-                requestValue: (act: RequestValueAct) =>
-                    i18next.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE'),
-                valueSet: (act: ValueSetAct<DateRange>) =>
-                    i18next.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALUE_SET', {
+                requestValue: (act: RequestValueAct, input: ControlInput) =>
+                    input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE'),
+                valueSet: (act: ValueSetAct<DateRange>, input: ControlInput) =>
+                    input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALUE_SET', {
                         value: act.payload.renderedValue,
                     }),
-                valueChanged: (act: ValueChangedAct<DateRange>) =>
-                    i18next.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED', {
+                valueChanged: (act: ValueChangedAct<DateRange>, input: ControlInput) =>
+                    input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED', {
                         value: act.payload.renderedValue,
                     }),
-                invalidValue: (act: InvalidValueAct<string>) => {
+                invalidValue: (act: InvalidValueAct<string>, input: ControlInput) => {
                     if (act.payload.renderedReason !== undefined) {
-                        return i18next.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON', {
+                        return input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON', {
                             reason: act.payload.renderedReason,
                         });
                     }
-                    return i18next.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE');
+                    return input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE');
                 },
-                valueAffirmed: i18next.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED'),
-                valueDisaffirmed: i18next.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED'),
-                confirmValue: (act) =>
-                    i18next.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE', {
+                valueAffirmed: (act, input) =>
+                    input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED'),
+                valueDisaffirmed: (act, input) =>
+                    input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED'),
+                confirmValue: (act, input) =>
+                    input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE', {
                         value: act.payload.renderedValue,
                     }),
             },
             reprompts: {
                 startDate: {
-                    confirmValue: (act) =>
-                        i18next.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_CONFIRM_START_DATE', {
+                    confirmValue: (act, input) =>
+                        input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_CONFIRM_START_DATE', {
                             value: act.payload.renderedValue,
                         }),
-                    valueAffirmed: i18next.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_START_DATE_AFFIRMED'),
-                    valueDisaffirmed: i18next.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_START_DATE_DISAFFIRMED'),
-                    valueSet: (act) =>
-                        i18next.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_START_DATE_SET', {
+                    valueAffirmed: (act, input) =>
+                        input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_START_DATE_AFFIRMED'),
+                    valueDisaffirmed: (act, input) =>
+                        input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_START_DATE_DISAFFIRMED'),
+                    valueSet: (act, input) =>
+                        input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_START_DATE_SET', {
                             value: act.payload.renderedValue,
                         }),
-                    valueChanged: (act) =>
-                        i18next.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_START_DATE_CHANGED', {
+                    valueChanged: (act, input) =>
+                        input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_START_DATE_CHANGED', {
                             value: act.payload.renderedValue,
                         }),
-                    invalidValue: (act) => {
+                    invalidValue: (act, input) => {
                         if (act.payload.reasonCode !== undefined) {
-                            return i18next.t(
+                            return input.i18n.t(
                                 'DATE_RANGE_CONTROL_DEFAULT_REPROMPT_INVALID_START_WITH_REASON',
                                 {
                                     reason: act.payload.reasonCode,
                                 },
                             );
                         }
-                        return i18next.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_DATE');
+                        return input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_DATE');
                     },
-                    requestValue: i18next.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_START_DATE'),
-                    requestChangedValue: i18next.t(
-                        'DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_START_DATE',
-                    ),
+                    requestValue: (act, input) =>
+                        input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_START_DATE'),
+                    requestChangedValue: (act, input) =>
+                        input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_START_DATE'),
                 },
                 endDate: {
-                    confirmValue: (act) =>
-                        i18next.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_CONFIRM_END_DATE', {
+                    confirmValue: (act, input) =>
+                        input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_CONFIRM_END_DATE', {
                             value: act.payload.renderedValue,
                         }),
-                    valueAffirmed: i18next.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_END_DATE_AFFIRMED'),
-                    valueDisaffirmed: i18next.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_END_DATE_DISAFFIRMED'),
-                    valueSet: (act) =>
-                        i18next.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_END_DATE_SET', {
+                    valueAffirmed: (act, input) =>
+                        input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_END_DATE_AFFIRMED'),
+                    valueDisaffirmed: (act, input) =>
+                        input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_END_DATE_DISAFFIRMED'),
+                    valueSet: (act, input) =>
+                        input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_END_DATE_SET', {
                             value: act.payload.renderedValue,
                         }),
-                    valueChanged: (act) =>
-                        i18next.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_END_DATE_CHANGED', {
+                    valueChanged: (act, input) =>
+                        input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_END_DATE_CHANGED', {
                             value: act.payload.renderedValue,
                         }),
-                    invalidValue: (act) => {
+                    invalidValue: (act, input) => {
                         if (act.payload.reasonCode !== undefined) {
-                            return i18next.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_INVALID_END_WITH_REASON', {
-                                reason: act.payload.reasonCode,
-                            });
+                            return input.i18n.t(
+                                'DATE_RANGE_CONTROL_DEFAULT_REPROMPT_INVALID_END_WITH_REASON',
+                                {
+                                    reason: act.payload.reasonCode,
+                                },
+                            );
                         }
-                        return i18next.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_DATE');
+                        return input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_DATE');
                     },
-                    requestValue: i18next.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_END_DATE'),
-                    requestChangedValue: i18next.t(
-                        'DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_END_DATE',
-                    ),
+                    requestValue: (act, input) =>
+                        input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_END_DATE'),
+                    requestChangedValue: (act, input) =>
+                        input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_END_DATE'),
                 },
-                requestValue: (act: RequestValueAct) =>
-                    i18next.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE'),
-                valueSet: (act: ValueSetAct<DateRange>) =>
-                    i18next.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_VALUE_SET', {
+                requestValue: (act: RequestValueAct, input: ControlInput) =>
+                    input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE'),
+                valueSet: (act: ValueSetAct<DateRange>, input: ControlInput) =>
+                    input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_VALUE_SET', {
                         value: act.payload.renderedValue,
                     }),
-                valueChanged: (act: ValueChangedAct<DateRange>) =>
-                    i18next.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED', {
+                valueChanged: (act: ValueChangedAct<DateRange>, input: ControlInput) =>
+                    input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED', {
                         value: act.payload.renderedValue,
                     }),
-                invalidValue: (act: InvalidValueAct<string>) => {
+                invalidValue: (act: InvalidValueAct<string>, input: ControlInput) => {
                     if (act.payload.reasonCode !== undefined) {
-                        return i18next.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON', {
+                        return input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON', {
                             reason: act.payload.reasonCode,
                         });
                     }
-                    return i18next.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE');
+                    return input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE');
                 },
-                valueAffirmed: i18next.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED'),
-                valueDisaffirmed: i18next.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED'),
-                confirmValue: (act) =>
-                    i18next.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE', {
+                valueAffirmed: (act, input) =>
+                    input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED'),
+                valueDisaffirmed: (act, input) =>
+                    input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED'),
+                confirmValue: (act, input) =>
+                    input.i18n.t('DATE_RANGE_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE', {
                         value: act.payload.renderedValue,
                     }),
             },
@@ -735,6 +760,19 @@ export class DateRangeControl extends ContainerControl implements InteractionMod
         this.addChild(this.startDateControl).addChild(this.endDateControl);
     }
 
+    /**
+     * Names of the built-in input handlers, as recorded in the `TurnTrace` by
+     * `canHandle()`.
+     */
+    readonly inputHandlerNames: string[] = [
+        'TwoValueInput (built-in)',
+        'DateInterpretedAsDateRange (built-in)',
+        'ChangeBoth (built-in)',
+        'ChangeRange (built-in)',
+        'ConfirmationAffirmed (built-in)',
+        'ConfirmationDisAffirmed (built-in)',
+    ];
+
     // tsDoc - see Control
     async canHandle(input: ControlInput): Promise<boolean> {
         const customCanHandle = await evaluateInputHandlers(this, input);
@@ -913,6 +951,7 @@ export class DateRangeControl extends ContainerControl implements InteractionMod
                 );
             }
             this.handleFunc = this.handleTwoValueInput;
+            input.trace?.recordInputHandler(this.id, 'TwoValueInput (built-in)');
             return true;
         } catch (e) {
             return falseIfGuardFailed(e);
@@ -979,6 +1018,7 @@ export class DateRangeControl extends ContainerControl implements InteractionMod
             );
 
             this.handleFunc = this.handleDateRangeInput;
+            input.trace?.recordInputHandler(this.id, 'DateInterpretedAsDateRange (built-in)');
             return true;
         } catch (e) {
             return falseIfGuardFailed(e);
@@ -1040,6 +1080,7 @@ export class DateRangeControl extends ContainerControl implements InteractionMod
                 );
             }
             this.handleFunc = this.handleChangeValue;
+            input.trace?.recordInputHandler(this.id, 'ChangeBoth (built-in)');
             return true;
         } catch (e) {
             return falseIfGuardFailed(e);
@@ -1069,6 +1110,7 @@ export class DateRangeControl extends ContainerControl implements InteractionMod
                 ),
             );
             this.handleFunc = this.handleChangeValue;
+            input.trace?.recordInputHandler(this.id, 'ChangeRange (built-in)');
             return true;
         } catch (e) {
             return falseIfGuardFailed(e);
@@ -1080,6 +1122,7 @@ export class DateRangeControl extends ContainerControl implements InteractionMod
             okIf(InputUtil.isBareYes(input));
             okIf(this.state.isConfirmingRange);
             this.handleFunc = this.handleConfirmationAffirmed;
+            input.trace?.recordInputHandler(this.id, 'ConfirmationAffirmed (built-in)');
             return true;
         } catch (e) {
             return falseIfGuardFailed(e);
@@ -1118,6 +1161,7 @@ export class DateRangeControl extends ContainerControl implements InteractionMod
             okIf(InputUtil.isBareNo(input));
             okIf(this.state.isConfirmingRange === true);
             this.handleFunc = this.handleConfirmationDisAffirmed;
+            input.trace?.recordInputHandler(this.id, 'ConfirmationDisAffirmed (built-in)');
             return true;
         } catch (e) {
             return falseIfGuardFailed(e);
@@ -0,0 +1,407 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { ResourceLanguage } from 'i18next';
+import { Strings as $ } from '../../constants/Strings';
+import { SharedSlotType } from '../../interactionModelGeneration/ModelTypes';
+
+/**
+ * British English localized data for built-ins.
+ *
+ * Registered as 'en-GB' in `defaultI18nResources`. Only the content that
+ * differs from 'en' is listed here; all other keys fall back to 'en'.
+ */
+export const britishEnglishI18nResources: ResourceLanguage = {
+    translation: {
+        // Shared Slot Type values
+        SHARED_SLOT_TYPES_FEEDBACK: {
+            name: SharedSlotType.FEEDBACK,
+            values: [
+                {
+                    id: $.Feedback.Affirm,
+                    name: {
+                        value: 'affirm',
+                        synonyms: [
+                            'yes I do',
+                            'okay',
+                            'kay',
+                            'k',
+                            'yes',
+                            'yup',
+                            'yep',
+                            'yes',
+                            'ya',
+                            'yes I want',
+                            'yes I need',
+                            'yes I said',
+                            "yes that's right",
+                            "that's correct",
+                            'ah yes',
+                            'affirmative',
+                            'makes sense',
+                            'right',
+                            'sounds good',
+                            'sure',
+                            "that's right",
+                            'totally',
+                            'works for me',
+                            'yeah',
+                            'yeah ok',
+                            'yes ok',
+                            "yes that's good",
+                            'yes sure',
+                            'yes good',
+                            'yes exactly',
+                            'exactly',
+                            'yes I do',
+                            'absolutely',
+                            'yes absolutely',
+                            'fine',
+                            'yes fine',
+                            'I have',
+                            'yes I have',
+                            'brilliant',
+                            'lovely',
+                            'spot on',
+                            'yes please',
+                            'aye',
+                            'righto',
+                            'go on then',
+                        ],
+                    },
+                },
+                {
+                    id: $.Feedback.Disaffirm,
+                    name: {
+                        value: 'disaffirm',
+                        synonyms: [
+                            'no',
+                            'no no',
+                            'no no no',
+                            'no no no no',
+                            'no I want',
+                            'no I said',
+                            'no not that',
+                            'not even close',
+                            'nope',
+                            'incorrect',
+                            'you misunderstood',
+                            'you have it wrong',
+                            "that's wrong",
+                            'thats wrong',
+                            'wrong',
+                            'absolutely not',
+                            "I don't think so",
+                            'naw',
+                            'naw',
+                            'negative',
+                            'never',
+                            'no alexa',
+                            'no amazon',
+                            'no incorrect',
+                            "no that's wrong",
+                            "no it's not",
+                            'definitely not',
+                            'no definitely not',
+                            'not ever',
+                            'oh no',
+                            'ohh no',
+                            'o no no',
+                            'please no',
+                            "that's not what I want",
+                            'that was totally wrong',
+                            'that is totally wrong',
+                            'that is wrong',
+                            'I do not have',
+                            "I don't have",
+                            'I do not',
+                            "I don't",
+                            'no I do not',
+                            "no I don't",
+                            'no I do not have',
+                            'no I do not have',
+                            "no I don't have",
+                            "no I don't have",
+                            'no thanks',
+                            'nah',
+                            'not at all',
+                            'no ta',
+                        ],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_HEAD: {
+            name: SharedSlotType.HEAD,
+            values: [
+                {
+                    id: $.Head,
+                    name: {
+                        value: 'head',
+                        synonyms: [
+                            'I',
+                            "I'll",
+                            'please',
+                            'thanks',
+                            'thank you',
+                            'I will',
+                            'I want you to',
+                            'I want you to just',
+                            'I need you to',
+                            'I need you to just',
+                            'I think',
+                            'I think just',
+                            'I think I want',
+                            'I think I need',
+                            'I think you can',
+                            'I think you can just',
+                            'I think that',
+                            "I'm pretty sure",
+                            "I'm pretty sure that",
+                            'I am pretty sure',
+                            'I am pretty sure that',
+                            'I believe',
+                            'I believe that',
+                            'You can',
+                            'You can just',
+                            'You can just go ahead and',
+                            'You should',
+                            'You should just',
+                            'Just',
+                            'Go ahead and',
+                            'Just go ahead',
+                            'Just go ahead and',
+                            'I only',
+                            "I'd like",
+                            "I'd like you to",
+                            'could you',
+                            'could you just',
+                            'I reckon',
+                            'go on and',
+                        ],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_TAIL: {
+            name: SharedSlotType.TAIL,
+            values: [
+                {
+                    id: $.Tail,
+                    name: {
+                        value: 'tail',
+                        synonyms: [
+                            'please',
+                            'thanks',
+                            'now please',
+                            'now thanks',
+                            'please thanks',
+                            'will be fine',
+                            'will be fine thanks',
+                            'is good',
+                            'is good thanks',
+                            'will be good',
+                            'will be good thanks',
+                            'is plenty',
+                            'is plenty thanks',
+                            'will be plenty',
+                            'will be plenty thanks',
+                            'is great',
+                            'is great thanks',
+                            'will be great',
+                            'will be great thanks',
+                            'will work',
+                            'will work thanks',
+                            'is correct',
+                            'is correct thanks',
+                            'is right',
+                            'is right thanks',
+                            'at a time',
+                            'for some reason',
+                            'cheers',
+                            'ta',
+                            'thanks very much',
+                            'if you would',
+                            'if you could',
+                            'would be lovely',
+                            'would be brilliant',
+                        ],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_ACTION: {
+            name: SharedSlotType.ACTION,
+            values: [
+                {
+                    id: $.Action.Set,
+                    name: {
+                        value: 'set',
+                        synonyms: [
+                            'set',
+                            'assign',
+                            'make',
+                            'will be',
+                            'must be',
+                            'must be set to',
+                            'must be equal to',
+                            'should be',
+                            'should be',
+                            'should be set to',
+                            'should be equal to',
+                            'needs to be',
+                            'needs to be set to',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.Change,
+                    name: {
+                        value: 'change',
+                        synonyms: [
+                            'update',
+                            'move',
+                            'alter',
+                            'change',
+                            'switch',
+                            'should be',
+                            'should be changed to',
+                            'should be changed',
+                            'should be updated to',
+                            'should be updated',
+                            'should be altered to',
+                            'should be altered',
+                            'needs to be changed to',
+                            'needs to be changed',
+                            'needs to be updated to',
+                            'needs to be updated',
+                            'needs to be altered to',
+                            'needs to be altered',
+                            'amend',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.Select,
+                    name: {
+                        value: 'select',
+                        synonyms: [
+                            'select',
+                            'choose',
+                            'take',
+                            'pick',
+                            'want',
+                            'need',
+                            'go with',
+                            'be fine with',
+                            'going to go with',
+                            'gonna pick',
+                            'gonna go with',
+                            'be taking',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.Complete,
+                    name: {
+                        value: 'complete',
+                        synonyms: [
+                            'complete',
+                            'am done',
+                            'can be done',
+                            'am complete',
+                            "don't have anything else",
+                            'nothing further',
+                            "that's it",
+                            'all done',
+                            'no more',
+                            'submit',
+                            'nothing else',
+                            'got nothing else',
+                            'got nothing more',
+                            'not nothing further',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.GoBack,
+                    name: {
+                        value: 'goBack',
+                        synonyms: [
+                            'back',
+                            'go back',
+                            'go back to previous',
+                            'go back to the last',
+                            'go back to last',
+                            'return',
+                            'go backward',
+                            'back to previous',
+                            'back to last',
+                            'undo',
+                            'undo that',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.Start,
+                    name: {
+                        value: 'start',
+                        synonyms: ['start', 'commence', 'begin'],
+                    },
+                },
+                {
+                    id: $.Action.Restart,
+                    name: {
+                        value: 'restart',
+                        synonyms: ['recommence', 'start over'],
+                    },
+                },
+                {
+                    id: $.Action.Resume,
+                    name: {
+                        value: 'resume',
+                        synonyms: ['continue'],
+                    },
+                },
+                {
+                    id: $.Action.Add,
+                    name: {
+                        value: 'add',
+                        synonyms: ['add'],
+                    },
+                },
+                {
+                    id: $.Action.Remove,
+                    name: {
+                        value: 'remove',
+                        synonyms: ['remove', 'delete', 'take off', 'cross off'],
+                    },
+                },
+                {
+                    id: $.Action.Clear,
+                    name: {
+                        value: 'clear',
+                        synonyms: ['remove all', 'clear', 'wipe', 'wipe all'],
+                    },
+                },
+                {
+                    id: $.Action.Ignore,
+                    name: {
+                        value: 'ignore',
+                        synonyms: ['ignore'],
+                    },
+                },
+            ],
+        },
+    },
+};
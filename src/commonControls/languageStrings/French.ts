@@ -0,0 +1,1036 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { ResourceLanguage } from 'i18next';
+import { Strings as $ } from '../../constants/Strings';
+import { SharedSlotType } from '../../interactionModelGeneration/ModelTypes';
+
+/**
+ * French localized data for built-ins.
+ *
+ * Registered as 'fr' in `defaultI18nResources` and therefore used for
+ * fr-FR and fr-CA.
+ */
+export const frenchI18nResources: ResourceLanguage = {
+    translation: {
+        // DateControl Runtime
+        DATE_CONTROL_DEFAULT_PROMPT_VALUE_SET: "D'accord.",
+        DATE_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED: 'Modifié de {{old}} à {{new}}.',
+        DATE_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON:
+            "Désolé, cette date n'est pas valide car {{reason}}.",
+        DATE_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE: 'Désolé, date non valide.',
+        DATE_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE: 'Quelle date ?',
+        DATE_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_VALUE: 'Par quoi dois-je le remplacer ?',
+        DATE_CONTROL_DEFAULT_PROMPT_VALIDATION_FAIL_PAST_DATE_ONLY:
+            "la date ne peut pas être postérieure à aujourd'hui",
+        DATE_CONTROL_DEFAULT_PROMPT_VALIDATION_FAIL_FUTURE_DATE_ONLY:
+            "la date ne peut pas être antérieure à aujourd'hui",
+        DATE_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE: "C'était bien {{value}} ?",
+        DATE_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED: 'Parfait.',
+        DATE_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED: 'Au temps pour moi.',
+        DATE_CONTROL_DEFAULT_REPROMPT_VALUE_SET: "D'accord.",
+        DATE_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED: 'Modifié de {{old}} à {{new}}.',
+        DATE_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON:
+            "Désolé, cette date n'est pas valide car {{reason}}.",
+        DATE_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE: 'Désolé, date non valide.',
+        DATE_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE: 'Quelle date ?',
+        DATE_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_VALUE: 'Par quoi dois-je le remplacer ?',
+        DATE_CONTROL_DEFAULT_REPROMPT_VALIDATION_FAIL_PAST_DATE_ONLY:
+            "la date ne peut pas être postérieure à aujourd'hui",
+        DATE_CONTROL_DEFAULT_REPROMPT_VALIDATION_FAIL_FUTURE_DATE_ONLY:
+            "la date ne peut pas être antérieure à aujourd'hui",
+        DATE_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE: "C'était bien {{value}} ?",
+        DATE_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED: 'Parfait.',
+        DATE_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED: 'Au temps pour moi.',
+
+        // NumberControl Runtime
+        NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_SET: "D'accord. La valeur est maintenant {{value}}.",
+        NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED: "D'accord. La valeur a été changée en {{value}}.",
+        NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_CLEARED: "D'accord, c'est effacé.",
+        NUMBER_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON:
+            "Désolé, ce choix n'est pas valide car {{reason}}.",
+        NUMBER_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE: "Désolé, ce choix n'est pas valide.",
+        NUMBER_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE: 'Quel nombre ?',
+        NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_CONFIRMED: 'Parfait.',
+        NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED: 'Au temps pour moi.',
+        NUMBER_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE: "C'était bien {{value}} ?",
+        NUMBER_CONTROL_DEFAULT_PROMPT_SUGGEST_VALUE: 'Vouliez-vous dire {{value}} ?',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_SET: "D'accord. La valeur est maintenant {{value}}.",
+        NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED: "D'accord. La valeur a été changée en {{value}}.",
+        NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_CLEARED: "D'accord, c'est effacé.",
+        NUMBER_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON:
+            "Désolé, ce choix n'est pas valide car {{reason}}.",
+        NUMBER_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE: "Désolé, ce choix n'est pas valide.",
+        NUMBER_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE: 'Quel nombre ?',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_CONFIRMED: 'Parfait.',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED: 'Au temps pour moi.',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE: "C'était bien {{value}} ?",
+        NUMBER_CONTROL_DEFAULT_REPROMPT_SUGGEST_VALUE: 'Vouliez-vous dire {{value}} ?',
+        NUMBER_CONTROL_DEFAULT_APL_HEADER_TITLE: 'Saisissez un nombre...',
+        NUMBER_CONTROL_DEFAULT_APL_INVALID_VALUE: "Désolé, '{{value}}' n'est pas un choix valide.",
+
+        // ValueControl Runtime
+        VALUE_CONTROL_DEFAULT_PROMPT_VALUE_SET: "D'accord, {{value}}.",
+        VALUE_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED: "D'accord, je l'ai changé en {{value}}.",
+        VALUE_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON:
+            "Désolé, {{value}} n'est pas un choix valide car {{reason}}.",
+        VALUE_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE: "Désolé, {{value}} n'est pas un choix valide.",
+        VALUE_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE: 'Quelle valeur dois-je lui donner ?',
+        VALUE_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_VALUE: 'Par quoi dois-je le remplacer ?',
+        VALUE_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE: "C'était bien {{value}} ?",
+        VALUE_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED: 'Parfait.',
+        VALUE_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED: 'Au temps pour moi.',
+        VALUE_CONTROL_DEFAULT_REPROMPT_VALUE_SET: "D'accord, {{value}}.",
+        VALUE_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED: "D'accord, je l'ai changé en {{value}}.",
+        VALUE_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON:
+            "Désolé, {{value}} n'est pas un choix valide car {{reason}}.",
+        VALUE_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE: "Désolé, {{value}} n'est pas un choix valide.",
+        VALUE_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE: 'Quelle valeur dois-je lui donner ?',
+        VALUE_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_VALUE: 'Par quoi dois-je le remplacer ?',
+        VALUE_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE: "C'était bien {{value}} ?",
+        VALUE_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED: 'Parfait.',
+        VALUE_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED: 'Au temps pour moi.',
+
+        // ListControl Runtime
+        LIST_CONTROL_DEFAULT_PROMPT_VALUE_SET: "D'accord, {{value}}.",
+        LIST_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED: "D'accord, je l'ai changé en {{value}}.",
+        LIST_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE: "Désolé, {{value}} n'est pas un choix valide.",
+        LIST_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON:
+            "Désolé, {{value}} n'est pas un choix valide car {{reason}}.",
+        LIST_CONTROL_DEFAULT_PROMPT_UNUSABLE_INPUT_VALUE: 'Désolé, je ne sais pas comment faire cela.',
+        LIST_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE:
+            'Quel est votre choix ? Voici quelques suggestions : {{suggestions}}.',
+        LIST_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_VALUE:
+            'Par quoi dois-je le remplacer ? Voici quelques suggestions : {{suggestions}}.',
+        LIST_CONTROL_DEFAULT_PROMPT_REQUEST_REMOVED_VALUE:
+            'Quelle valeur voulez-vous supprimer ? Voici quelques suggestions : {{suggestions}}.',
+        LIST_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE: "C'était bien {{value}} ?",
+        LIST_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED: 'Parfait.',
+        LIST_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED: 'Au temps pour moi.',
+        LIST_CONTROL_DEFAULT_REPROMPT_VALUE_SET: "D'accord, {{value}}.",
+        LIST_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED: "D'accord, je l'ai changé en {{value}}.",
+        LIST_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE: "Désolé, {{value}} n'est pas un choix valide.",
+        LIST_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON:
+            "Désolé, {{value}} n'est pas un choix valide car {{reason}}.",
+        LIST_CONTROL_DEFAULT_REPROMPT_UNUSABLE_INPUT_VALUE: 'Désolé, je ne sais pas comment faire cela.',
+        LIST_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE:
+            'Quel est votre choix ? Voici quelques suggestions : {{suggestions}}.',
+        LIST_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_VALUE:
+            'Par quoi dois-je le remplacer ? Voici quelques suggestions : {{suggestions}}.',
+        LIST_CONTROL_DEFAULT_REPROMPT_REQUEST_REMOVED_VALUE:
+            'Quelle valeur voulez-vous supprimer ? Voici quelques suggestions : {{suggestions}}.',
+        LIST_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE: "C'était bien {{value}} ?",
+        LIST_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED: 'Parfait.',
+        LIST_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED: 'Au temps pour moi.',
+        LIST_CONTROL_DEFAULT_APL_HEADER_TITLE: 'Veuillez choisir',
+
+        // MultiValueListControl Runtime
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_VALUE_ADD: "D'accord, {{value}} ajouté.",
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_VALUE_REMOVE: "D'accord, {{value}} supprimé.",
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_VALUE_CLEARED: "D'accord, {{value}} retiré de la liste.",
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_ACTION_SUGGEST:
+            'Vous pouvez ajouter de nouvelles valeurs ou modifier les valeurs existantes',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE:
+            "Désolé, {{value}} ne peut pas être ajouté car il n'existe pas.",
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON:
+            'Désolé, {{value}} ne peut pas être ajouté car {{reason}}.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_REMOVE_VALUE:
+            "Désolé, {{value}} n'est pas dans la liste.",
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE:
+            'Quel est votre choix ? Voici quelques suggestions : {{suggestions}}.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_REQUEST_REMOVED_VALUE:
+            'Quelle valeur voulez-vous supprimer ? Voici quelques suggestions : {{suggestions}}.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_GENERAL_REQUEST_REMOVED_VALUE:
+            'Quelle valeur voulez-vous supprimer ?',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE: "D'accord, j'ai noté {{value}}. C'est tout ?",
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED: 'Parfait.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_VALUE_ADD: "D'accord, {{value}} ajouté.",
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_VALUE_REMOVE: "D'accord, {{value}} supprimé.",
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_VALUE_CLEARED: "D'accord, {{value}} retiré de la liste.",
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_ACTION_SUGGEST:
+            'Vous pouvez ajouter de nouvelles valeurs ou modifier les valeurs existantes',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE:
+            "Désolé, {{value}} ne peut pas être ajouté car il n'existe pas.",
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_REMOVE_VALUE:
+            "Désolé, {{value}} n'est pas dans la liste.",
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON:
+            'Désolé, {{value}} ne peut pas être ajouté car {{reason}}.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE:
+            'Quel est votre choix ? Voici quelques suggestions : {{suggestions}}.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_REQUEST_REMOVED_VALUE:
+            'Quelle valeur voulez-vous supprimer ? Voici quelques suggestions : {{suggestions}}.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_GENERAL_REQUEST_REMOVED_VALUE:
+            'Quelle valeur voulez-vous supprimer ?',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE:
+            "D'accord, j'ai noté {{value}}. C'est tout ?",
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED: 'Parfait.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_HEADER_TITLE: 'Créez votre liste',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_HEADER_SUBTITLE:
+            "Dites un élément ou touchez-le pour l'ajouter à votre liste",
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_SELECTION_TITLE: 'VOS CHOIX',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_SELECTION_SUBTITLE:
+            'Balayez vers la gauche pour supprimer des éléments',
+
+        // DateRangeControl Runtime
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_START_DATE_SET: "C'est noté. La date de début est {{value}}.",
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_START_DATE_CHANGED:
+            "C'est noté. La date de début est maintenant {{value}}.",
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_START_DATE: 'Quelle date de début souhaitez-vous ?',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_START_DATE:
+            'Par quelle date dois-je remplacer la date de début ?',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_CONFIRM_START_DATE: "C'était bien {{value}} ?",
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_START_DATE_AFFIRMED: 'Parfait.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_START_DATE_DISAFFIRMED: 'Au temps pour moi.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_END_DATE_SET: "C'est noté. La date de fin est {{value}}.",
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_END_DATE_CHANGED:
+            "C'est noté. La date de fin est maintenant {{value}}.",
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_END_DATE: 'Quelle date de fin souhaitez-vous ?',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_END_DATE:
+            'Par quelle date dois-je remplacer la date de fin ?',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_CONFIRM_END_DATE: "C'était bien {{value}} ?",
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_END_DATE_AFFIRMED: 'Parfait.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_END_DATE_DISAFFIRMED: 'Au temps pour moi.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE: 'Quelles dates de début et de fin souhaitez-vous ?',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALUE_SET: "C'est noté. La période est {{value}}.",
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED: "C'est noté. La période est maintenant {{value}}.",
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_INVALID_START_WITH_REASON:
+            "Désolé, cette date de début n'est pas valide car {{reason}}.",
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_INVALID_END_WITH_REASON:
+            "Désolé, cette date de fin n'est pas valide car {{reason}}.",
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON:
+            "Désolé, cette période n'est pas valide car {{reason}}.",
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_DATE: 'Désolé, date non valide.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE: 'Désolé, période non valide.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALIDATION_FAIL_START_AFTER_END:
+            'la date de début ne peut pas être postérieure à la date de fin',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED: 'Parfait.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED: 'Au temps pour moi.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE: "C'était bien {{value}} ?",
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_START_DATE_SET: "C'est noté. La date de début est {{value}}.",
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_START_DATE_CHANGED:
+            "C'est noté. La date de début est maintenant {{value}}.",
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_START_DATE: 'Quelle date de début souhaitez-vous ?',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_START_DATE:
+            'Par quelle date dois-je remplacer la date de début ?',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_CONFIRM_START_DATE: "C'était bien {{value}} ?",
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_START_DATE_AFFIRMED: 'Parfait.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_START_DATE_DISAFFIRMED: 'Au temps pour moi.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_END_DATE_SET: "C'est noté. La date de fin est {{value}}.",
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_END_DATE_CHANGED:
+            "C'est noté. La date de fin est maintenant {{value}}.",
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_END_DATE: 'Quelle date de fin souhaitez-vous ?',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_END_DATE:
+            'Par quelle date dois-je remplacer la date de fin ?',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_CONFIRM_END_DATE: "C'était bien {{value}} ?",
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_END_DATE_AFFIRMED: 'Parfait.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_END_DATE_DISAFFIRMED: 'Au temps pour moi.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE:
+            'Quelles dates de début et de fin souhaitez-vous ?',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_VALUE_SET: "C'est noté. La période est {{value}}.",
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED: "C'est noté. La période est maintenant {{value}}.",
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_INVALID_START_WITH_REASON:
+            "Désolé, cette date de début n'est pas valide car {{reason}}.",
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_INVALID_END_WITH_REASON:
+            "Désolé, cette date de fin n'est pas valide car {{reason}}.",
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON:
+            "Désolé, cette période n'est pas valide car {{reason}}.",
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_DATE: 'Désolé, date non valide.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE: 'Désolé, période non valide.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_VALIDATION_FAIL_START_AFTER_END:
+            'la date de début ne peut pas être postérieure à la date de fin',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED: 'Parfait.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED: 'Au temps pour moi.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE: "C'était bien {{value}} ?",
+
+        // QuestionnaireControl
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_QUESTION_ANSWERED_LOW_RISK_OF_MISUNDERSTANDING: '',
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_QUESTION_ANSWERED_RISK_OF_MISUNDERSTANDING_CHOICE:
+            "D'accord, {{choice}}.",
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_QUESTION_ANSWERED_RISK_OF_MISUNDERSTANDING_QUESTION_AND_CHOICE:
+            "D'accord, {{choice}} pour {{question}}.",
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_COMPLETED: 'Parfait, merci.',
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_COMPLETION_REJECTED:
+            "Désolé, {{renderedReason}} n'est pas un choix valide.",
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_ACKNOWLEDGE_NOT_COMPLETE:
+            'Pas de problème. Dites-moi quand vous avez terminé.',
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_ASK_IF_COMPLETE: 'Êtes-vous satisfait de toutes les réponses ?',
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_ASK_IF_COMPLETE_TERSE: '',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_QUESTION_ANSWERED_LOW_RISK_OF_MISUNDERSTANDING: '',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_QUESTION_ANSWERED_RISK_OF_MISUNDERSTANDING_CHOICE:
+            "D'accord, {{choice}}.",
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_QUESTION_ANSWERED_RISK_OF_MISUNDERSTANDING_QUESTION_AND_CHOICE:
+            "D'accord, {{choice}} pour {{question}}.",
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_COMPLETED: 'Parfait, merci.',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_COMPLETION_REJECTED:
+            "Désolé, {{renderedReason}} n'est pas un choix valide.",
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_ACKNOWLEDGE_NOT_COMPLETE:
+            'Pas de problème. Dites-moi quand vous avez terminé.',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_ASK_IF_COMPLETE:
+            'Êtes-vous satisfait de toutes les réponses ?',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_ASK_IF_COMPLETE_TERSE: '',
+        QUESTIONNAIRE_CONTROL_DEFAULT_APL_HEADER_TITLE: 'Veuillez choisir...',
+        QUESTIONNAIRE_CONTROL_DEFAULT_APL_SUBMIT_TEXT: 'Envoyer >',
+        QUESTIONNAIRE_CONTROL_DEFAULT_ANSWER_SUMMARY_ITEM: '{{choice}} pour {{question}}',
+
+        // Content Act default prompts
+        UNUSABLE_INPUT_VALUE_ACT_DEFAULT_PROMPT: 'Désolé, {{value}}.',
+        ACKNOWLEDGE_INPUT_ACT_DEFAULT_PROMPT: "D'accord.",
+        VALUE_SET_ACT_DEFAULT_PROMPT: "D'accord, {{value}}.",
+        VALUE_CHANGED_ACT_DEFAULT_PROMPT: "D'accord, mis à jour avec {{value}}.",
+        INVALID_VALUE_ACT_DEFAULT_PROMPT: 'Désolé, {{value}}.',
+        VALUE_CONFIRMED_ACT_DEFAULT_PROMPT: 'Parfait.',
+        VALUE_DISCONFIRMED_ACT_DEFAULT_PROMPT: 'Au temps pour moi.',
+        NON_UNDERSTANDING_ACT_DEFAULT_PROMPT: "Désolé, je n'ai pas compris.",
+        LAUNCH_ACT_DEFAULT_PROMPT: 'Bienvenue.',
+        VALUE_ADDED_ACT_DEFAULT_PROMPT: "D'accord, {{value}} ajouté.",
+        VALUE_REMOVED_ACT_DEFAULT_PROMPT: "D'accord, {{value}} supprimé.",
+        VALUE_CLEARED_ACT_DEFAULT_PROMPT: "D'accord, {{value}} effacé.",
+        INVALID_REMOVE_VALUE_ACT_DEFAULT_PROMPT: "Désolé, {{value}} n'est pas valide.",
+        STATE_REVERTED_ACT_DEFAULT_PROMPT: "D'accord, j'ai annulé cela.",
+
+        // Initiative Act default prompts
+        REQUEST_VALUE_ACT_DEFAULT_PROMPT: 'Quelle valeur pour {{value}} ?',
+        REQUEST_CHANGED_VALUE_ACT_DEFAULT_PROMPT: 'Quelle est la nouvelle valeur pour {{value}} ?',
+        REQUEST_VALUE_BY_LIST_ACT_DEFAULT_PROMPT:
+            'Quelle valeur pour {{value}} ? Les choix possibles sont {{choices}}.',
+        REQUEST_CHANGED_VALUE_BY_LIST_ACT_DEFAULT_PROMPT:
+            'Quelle est la nouvelle valeur pour {{value}} ? Les choix possibles sont {{choices}}.',
+        REQUEST_REMOVED_VALUE_BY_LIST_ACT_DEFAULT_PROMPT:
+            'Quelle valeur faut-il supprimer pour {{value}} ? Les choix possibles sont {{choices}}.',
+        CONFIRM_VALUE_ACT_DEFAULT_PROMPT: "C'était bien {{value}} ?",
+        SUGGEST_VALUE_ACT_DEFAULT_PROMPT: 'Vouliez-vous dire {{value}} ?',
+        SUGGEST_ACTION_ACT_DEFAULT_PROMPT: 'Vous pouvez ajouter ou modifier des valeurs.',
+        RESUME_OFFER_ACT_DEFAULT_PROMPT: 'Voulez-vous reprendre là où vous vous étiez arrêté ?',
+        DISAMBIGUATE_TARGET_ACT_DEFAULT_PROMPT: 'Vouliez-vous dire {{targets}} ?',
+        DISAMBIGUATE_TARGET_ACT_DEFAULT_TARGET: '{{target}}',
+
+        // ControlIntent Samples
+        CONJUNCTION_CONTROL_INTENT_SAMPLES: [
+            '{action} {target.a} {conjunction} {target.b}',
+            '{feedback} {action} {target.a} {conjunction} {target.b}',
+            '{head} {action} {target.a} {conjunction} {target.b}',
+            '{action} {target.a} {conjunction} {target.b} {tail}',
+            '{feedback} {action} {target.a} {conjunction} {target.b} {tail}',
+            '{head} {action} {target.a} {conjunction} {target.b} {tail}',
+        ],
+        DATE_CONTROL_INTENT_SAMPLES: [
+            '{AMAZON.DATE}',
+            '{action} {preposition} {AMAZON.DATE}',
+            '{action} {target} {preposition} {AMAZON.DATE}',
+            '{target} {preposition} {AMAZON.DATE}',
+            '{feedback} {AMAZON.DATE}',
+            '{feedback} {preposition} {AMAZON.DATE}',
+            '{feedback} {action} {preposition} {AMAZON.DATE}',
+            '{feedback} {action} {target} {preposition} {AMAZON.DATE}',
+            '{feedback} {target} {preposition} {AMAZON.DATE}',
+            '{head} {AMAZON.DATE}',
+            '{head} {action} {preposition} {AMAZON.DATE}',
+            '{head} {action} {target} {preposition} {AMAZON.DATE}',
+            '{head} {target} {preposition} {AMAZON.DATE}',
+            '{AMAZON.DATE} {tail}',
+            '{preposition} {AMAZON.DATE} {tail}',
+            '{action} {preposition} {AMAZON.DATE} {tail}',
+            '{action} {target} {preposition} {AMAZON.DATE} {tail}',
+            '{target} {preposition} {AMAZON.DATE} {tail}',
+            '{feedback} {AMAZON.DATE} {tail}',
+            '{feedback} {preposition} {AMAZON.DATE} {tail}',
+            '{feedback} {action} {preposition} {AMAZON.DATE} {tail}',
+            '{feedback} {action} {target} {preposition} {AMAZON.DATE} {tail}',
+            '{feedback} {target} {preposition} {AMAZON.DATE} {tail}',
+            '{head} {AMAZON.DATE} {tail}',
+            '{head} {preposition} {AMAZON.DATE} {tail}',
+            '{head} {action} {preposition} {AMAZON.DATE} {tail}',
+            '{head} {target} {preposition} {AMAZON.DATE} {tail}',
+            '{head} {action} {target} {preposition} {AMAZON.DATE} {tail}',
+        ],
+        DATE_RANGE_CONTROL_INTENT_SAMPLES: [
+            '{AMAZON.DATE.a} {conjunction} {AMAZON.DATE.b}',
+            '{AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b}',
+            '{preposition.a} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b}',
+            'entre {AMAZON.DATE.a} et {AMAZON.DATE.b}',
+            '{action} {preposition.a} {AMAZON.DATE.a} {conjunction} {AMAZON.DATE.b}',
+            '{action} {preposition.a} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b}',
+            '{action} entre {AMAZON.DATE.a} et {AMAZON.DATE.b}',
+            '{action} {target} {preposition.a} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b}',
+            '{action} {target} entre {AMAZON.DATE.a} et {AMAZON.DATE.b}',
+            '{action} {target.a} {preposition.a} {AMAZON.DATE.a} {conjunction} {target.b} {preposition.b} {AMAZON.DATE.b}',
+            '{feedback} {AMAZON.DATE.a} {conjunction} {AMAZON.DATE.b}',
+            '{feedback} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b}',
+            '{feedback} {preposition.a} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b}',
+            '{feedback} entre {AMAZON.DATE.a} et {AMAZON.DATE.b}',
+            '{head} {AMAZON.DATE.a} {conjunction} {AMAZON.DATE.b}',
+            '{head} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b}',
+            '{head} {preposition.a} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b}',
+            '{head} entre {AMAZON.DATE.a} et {AMAZON.DATE.b}',
+            '{AMAZON.DATE.a} {conjunction} {AMAZON.DATE.b} {tail}',
+            '{AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b} {tail}',
+            '{preposition.a} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b} {tail}',
+            'entre {AMAZON.DATE.a} et {AMAZON.DATE.b} {tail}',
+            '{head} {AMAZON.DATE.a} {conjunction} {AMAZON.DATE.b} {tail}',
+            '{head} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b} {tail}',
+            '{head} {preposition.a} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b} {tail}',
+            '{head} entre {AMAZON.DATE.a} et {AMAZON.DATE.b} {tail}',
+        ],
+        GENERAL_CONTROL_INTENT_SAMPLES: [
+            '{feedback} {action}',
+            '{feedback} {action} {target}',
+            '{filteredFeedback} {tail}',
+            '{feedback} {action} {tail}',
+            '{feedback} {action} {target} {tail}',
+            '{target}',
+            '{feedback} {target}',
+            '{head} {target}',
+            '{target} {tail}',
+            '{action} {target}',
+            '{head} {action}',
+            '{head} {action} {target}',
+            '{action} {tail}',
+            '{action} {target} {tail}',
+            '{head} {action} {tail}',
+            '{head} {action} {target} {tail}',
+        ],
+        NUMBER_CONTROL_INTENT_SAMPLES: [
+            '{AMAZON.NUMBER}',
+            '{action} {AMAZON.NUMBER}',
+            '{action} {preposition} {AMAZON.NUMBER}',
+            '{action} {target} {preposition} {AMAZON.NUMBER}',
+            '{target} {preposition} {AMAZON.NUMBER}',
+            '{feedback} {AMAZON.NUMBER}',
+            '{feedback} {action} {AMAZON.NUMBER}',
+            '{feedback} {preposition} {AMAZON.NUMBER}',
+            '{feedback} {action} {preposition} {AMAZON.NUMBER}',
+            '{feedback} {action} {target} {preposition} {AMAZON.NUMBER}',
+            '{feedback} {target} {preposition} {AMAZON.NUMBER}',
+            '{head} {AMAZON.NUMBER}',
+            '{head} {action} {AMAZON.NUMBER}',
+            '{head} {action} {preposition} {AMAZON.NUMBER}',
+            '{head} {action} {target} {preposition} {AMAZON.NUMBER}',
+            '{head} {target} {preposition} {AMAZON.NUMBER}',
+            '{AMAZON.NUMBER} {tail}',
+            '{preposition} {AMAZON.NUMBER} {tail}',
+            '{action} {preposition} {AMAZON.NUMBER} {tail}',
+            '{action} {target} {preposition} {AMAZON.NUMBER} {tail}',
+            '{target} {preposition} {AMAZON.NUMBER} {tail}',
+            '{feedback} {AMAZON.NUMBER} {tail}',
+            '{feedback} {preposition} {AMAZON.NUMBER} {tail}',
+            '{feedback} {action} {AMAZON.NUMBER} {tail}',
+            '{feedback} {action} {preposition} {AMAZON.NUMBER} {tail}',
+            '{feedback} {action} {target} {preposition} {AMAZON.NUMBER} {tail}',
+            '{feedback} {target} {preposition} {AMAZON.NUMBER} {tail}',
+            '{head} {AMAZON.NUMBER} {tail}',
+            '{head} {preposition} {AMAZON.NUMBER} {tail}',
+            '{head} {action} {AMAZON.NUMBER} {tail}',
+            '{head} {action} {preposition} {AMAZON.NUMBER} {tail}',
+            '{head} {target} {preposition} {AMAZON.NUMBER} {tail}',
+            '{head} {action} {target} {preposition} {AMAZON.NUMBER} {tail}',
+        ],
+        ORDINAL_CONTROL_INTENT_SAMPLES: [
+            '{AMAZON.Ordinal}',
+            '{preposition} {AMAZON.Ordinal}',
+            '{AMAZON.Ordinal} de la liste',
+            '{preposition} {AMAZON.Ordinal} de la liste',
+            '{action} {AMAZON.Ordinal}',
+            '{action} {preposition} {AMAZON.Ordinal}',
+            '{action} {preposition} {AMAZON.Ordinal} de la liste',
+            '{action} {target} {preposition} {AMAZON.Ordinal}',
+            '{target} {preposition} {AMAZON.Ordinal}',
+            '{feedback} {AMAZON.Ordinal}',
+            '{feedback} {preposition} {AMAZON.Ordinal}',
+            '{feedback} {AMAZON.Ordinal} de la liste',
+            '{feedback} {preposition} {AMAZON.Ordinal} de la liste',
+            '{feedback} {action} {AMAZON.Ordinal}',
+            '{feedback} {action} {preposition} {AMAZON.Ordinal}',
+            '{feedback} {action} {preposition} {AMAZON.Ordinal} de la liste',
+            '{feedback} {action} {target} {preposition} {AMAZON.Ordinal}',
+            '{feedback} {target} {preposition} {AMAZON.Ordinal}',
+            '{head} {preposition} {AMAZON.Ordinal}',
+            '{head} {preposition} {AMAZON.Ordinal} de la liste',
+            '{head} {action} {preposition} {AMAZON.Ordinal}',
+            '{head} {action} {target} {preposition} {AMAZON.Ordinal}',
+            '{head} {target} {preposition} {AMAZON.Ordinal}',
+            '{AMAZON.Ordinal} {tail}',
+            '{preposition} {AMAZON.Ordinal} {tail}',
+            '{AMAZON.Ordinal} de la liste {tail}',
+            '{preposition} {AMAZON.Ordinal} de la liste {tail}',
+            '{action} {AMAZON.Ordinal} {tail}',
+            '{action} {target} {preposition} {AMAZON.Ordinal} {tail}',
+            '{target} {preposition} {AMAZON.Ordinal} {tail}',
+            '{feedback} {AMAZON.Ordinal} {tail}',
+            '{feedback} {preposition} {AMAZON.Ordinal} {tail}',
+            '{feedback} {AMAZON.Ordinal} de la liste {tail}',
+            '{feedback} {preposition} {AMAZON.Ordinal} de la liste {tail}',
+            '{feedback} {action} {AMAZON.Ordinal} {tail}',
+            '{feedback} {action} {preposition} {AMAZON.Ordinal} {tail}',
+            '{feedback} {action} {preposition} {AMAZON.Ordinal} de la liste {tail}',
+            '{feedback} {action} {target} {preposition} {AMAZON.Ordinal} {tail}',
+            '{feedback} {target} {preposition} {AMAZON.Ordinal} {tail}',
+            '{head} {AMAZON.Ordinal} {tail}',
+            '{head} {preposition} {AMAZON.Ordinal} {tail}',
+            '{head} {preposition} {AMAZON.Ordinal} de la liste {tail}',
+            '{head} {action} {preposition} {AMAZON.Ordinal} {tail}',
+            '{head} {action} {preposition} {AMAZON.Ordinal} de la liste {tail}',
+            '{head} {target} {preposition} {AMAZON.Ordinal} {tail}',
+            '{head} {action} {target} {preposition} {AMAZON.Ordinal} {tail}',
+        ],
+        VALUE_CONTROL_INTENT_SAMPLES: [
+            '[[filteredValueSlotType]]',
+            '{action} [[valueSlotType]]',
+            '{action} {preposition} [[valueSlotType]]',
+            '{action} {target} {preposition} [[valueSlotType]]',
+            '{target} {preposition} [[valueSlotType]]',
+            '{target} [[valueSlotType]]',
+            '{feedback} [[filteredValueSlotType]]',
+            '{feedback} {action} [[valueSlotType]]',
+            '{feedback} {preposition} [[filteredValueSlotType]]',
+            '{feedback} {action} {preposition} [[valueSlotType]]',
+            '{feedback} {action} {target} {preposition} [[valueSlotType]]',
+            '{feedback} {target} {preposition} [[valueSlotType]]',
+            '{feedback} {target} [[valueSlotType]]',
+            '{head} [[filteredValueSlotType]]',
+            '{head} {action} [[valueSlotType]]',
+            '{head} {action} {preposition} [[valueSlotType]]',
+            '{head} {action} {target} {preposition} [[valueSlotType]]',
+            '{head} {target} {preposition} [[valueSlotType]]',
+            '{head} {target} [[valueSlotType]]',
+            '[[filteredValueSlotType]] {tail}',
+            '{preposition} [[filteredValueSlotType]] {tail}',
+            '{action} {preposition} [[valueSlotType]] {tail}',
+            '{action} {target} {preposition} [[valueSlotType]] {tail}',
+            '{target} {preposition} [[valueSlotType]] {tail}',
+            '{feedback} [[filteredValueSlotType]] {tail}',
+            '{feedback} {preposition} [[filteredValueSlotType]] {tail}',
+            '{feedback} {action} [[valueSlotType]] {tail}',
+            '{feedback} {action} {preposition} [[valueSlotType]] {tail}',
+            '{feedback} {action} {target} {preposition} [[valueSlotType]] {tail}',
+            '{feedback} {target} {preposition} [[valueSlotType]] {tail}',
+            '{feedback} {target} [[valueSlotType]] {tail}',
+            '{head} [[filteredValueSlotType]] {tail}',
+            '{head} {preposition} [[filteredValueSlotType]] {tail}',
+            '{head} {action} [[valueSlotType]] {tail}',
+            '{head} {action} {preposition} [[valueSlotType]] {tail}',
+            '{head} {target} {preposition} [[valueSlotType]] {tail}',
+            '{head} {target} [[valueSlotType]] {tail}',
+            '{head} {action} {target} {preposition} [[valueSlotType]] {tail}',
+            '[[valueSlotType]] {target}',
+            '{feedback} [[valueSlotType]] {target}',
+            '{head} [[valueSlotType]] {target}',
+            '[[valueSlotType]] {target} {tail}',
+            '{head} [[valueSlotType]] {target} {tail}',
+        ],
+
+        // Shared Slot Type values
+        SHARED_SLOT_TYPES_FEEDBACK: {
+            name: SharedSlotType.FEEDBACK,
+            values: [
+                {
+                    id: $.Feedback.Affirm,
+                    name: {
+                        value: 'oui',
+                        synonyms: [
+                            'oui',
+                            'ouais',
+                            'ok',
+                            "d'accord",
+                            'daccord',
+                            'ça marche',
+                            'bien sûr',
+                            'oui bien sûr',
+                            'exactement',
+                            'oui exactement',
+                            "c'est ça",
+                            "oui c'est ça",
+                            "c'est exact",
+                            "c'est correct",
+                            "c'est bon",
+                            'oui oui',
+                            'absolument',
+                            'oui absolument',
+                            'tout à fait',
+                            'parfait',
+                            'volontiers',
+                            'oui volontiers',
+                            'oui je veux',
+                            'oui je voudrais',
+                            "oui j'ai besoin",
+                            "oui j'ai",
+                            "j'ai",
+                            'affirmatif',
+                            'ça me va',
+                            'très bien',
+                            'entendu',
+                            'carrément',
+                        ],
+                    },
+                },
+                {
+                    id: $.Feedback.Disaffirm,
+                    name: {
+                        value: 'non',
+                        synonyms: [
+                            'non',
+                            'non non',
+                            'non non non',
+                            'nan',
+                            'pas du tout',
+                            'absolument pas',
+                            'certainement pas',
+                            'jamais',
+                            "c'est faux",
+                            "non c'est faux",
+                            'faux',
+                            'incorrect',
+                            "ce n'est pas ça",
+                            "non ce n'est pas ça",
+                            "ce n'est pas correct",
+                            'tu as mal compris',
+                            'vous avez mal compris',
+                            'non je veux',
+                            'non je voudrais',
+                            "non j'ai dit",
+                            'je ne pense pas',
+                            'négatif',
+                            'non alexa',
+                            'oh non',
+                            'non merci',
+                            "ce n'est pas ce que je veux",
+                            "je n'ai pas",
+                            "je n'en ai pas",
+                            "non je n'ai pas",
+                            "non je n'en ai pas",
+                        ],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_FILTERED_FEEDBACK: {
+            name: SharedSlotType.FILTERED_FEEDBACK,
+            values: [
+                {
+                    id: 'placeholder',
+                    name: {
+                        value: 'placeholder_awaiting_real_values',
+                        synonyms: ['placeholder_awaiting_real_values_synonym'],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_HEAD: {
+            name: SharedSlotType.HEAD,
+            values: [
+                {
+                    id: $.Head,
+                    name: {
+                        value: 'je',
+                        synonyms: [
+                            'je',
+                            'je veux',
+                            'je voudrais',
+                            "j'aimerais",
+                            "j'ai besoin de",
+                            'je pense',
+                            'je pense que',
+                            'je crois',
+                            'je crois que',
+                            'je suis presque sûr',
+                            'je suis presque sûr que',
+                            'tu peux',
+                            'tu peux juste',
+                            'vous pouvez',
+                            'vous pouvez juste',
+                            'tu dois',
+                            'vous devez',
+                            'juste',
+                            'seulement',
+                            'vas-y et',
+                            'allez-y et',
+                            's’il te plaît',
+                            "s'il vous plaît",
+                            'merci',
+                            'alors',
+                            'bon',
+                        ],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_TAIL: {
+            name: SharedSlotType.TAIL,
+            values: [
+                {
+                    id: $.Tail,
+                    name: {
+                        value: "s'il te plaît",
+                        synonyms: [
+                            "s'il te plaît",
+                            "s'il vous plaît",
+                            'merci',
+                            'maintenant',
+                            "maintenant s'il te plaît",
+                            'merci beaucoup',
+                            'ce sera bien',
+                            'ce sera bien merci',
+                            "c'est bien",
+                            "c'est bien merci",
+                            'ce serait parfait',
+                            'ce serait parfait merci',
+                            "c'est parfait",
+                            "c'est correct",
+                            "c'est correct merci",
+                            'ça ira',
+                            'ça ira merci',
+                            'à la fois',
+                            'pour une raison quelconque',
+                        ],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_CONJUNCTION: {
+            name: SharedSlotType.CONJUNCTION,
+            values: [
+                {
+                    id: $.Conjunction,
+                    name: {
+                        value: 'et',
+                        synonyms: ['et', 'et puis', 'puis', 'et aussi', 'ainsi que'],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_PREPOSITION: {
+            name: SharedSlotType.PREPOSITION,
+            values: [
+                {
+                    id: $.Preposition,
+                    name: {
+                        value: 'à',
+                        synonyms: [
+                            'le',
+                            'la',
+                            'les',
+                            "l'",
+                            'à',
+                            'au',
+                            'aux',
+                            'à la',
+                            'en',
+                            'pour',
+                            'sur',
+                            'dans',
+                            'est',
+                            'être',
+                            'égal à',
+                            'soit',
+                            'aussi',
+                            'de',
+                            'du',
+                            'depuis',
+                            "jusqu'à",
+                            "jusqu'au",
+                            'par',
+                        ],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_ACTION: {
+            name: SharedSlotType.ACTION,
+            values: [
+                {
+                    id: $.Action.Set,
+                    name: {
+                        value: 'définir',
+                        synonyms: [
+                            'définis',
+                            'définir',
+                            'définissez',
+                            'règle',
+                            'régler',
+                            'réglez',
+                            'mets',
+                            'mettre',
+                            'mettez',
+                            'fixe',
+                            'fixer',
+                            'doit être',
+                            'devrait être',
+                            'sera',
+                            'doit être réglé sur',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.Change,
+                    name: {
+                        value: 'changer',
+                        synonyms: [
+                            'change',
+                            'changer',
+                            'changez',
+                            'modifie',
+                            'modifier',
+                            'modifiez',
+                            'mets à jour',
+                            'mettre à jour',
+                            'déplace',
+                            'déplacer',
+                            'remplace',
+                            'remplacer',
+                            'doit être changé',
+                            'doit être changé en',
+                            'devrait être modifié',
+                            'doit être mis à jour',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.Select,
+                    name: {
+                        value: 'choisir',
+                        synonyms: [
+                            'choisis',
+                            'choisir',
+                            'choisissez',
+                            'sélectionne',
+                            'sélectionner',
+                            'sélectionnez',
+                            'prends',
+                            'prendre',
+                            'prenez',
+                            'veux',
+                            'voudrais',
+                            'opte pour',
+                            'je prends',
+                            'je vais prendre',
+                            "j'opte pour",
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.Complete,
+                    name: {
+                        value: 'terminer',
+                        synonyms: [
+                            'terminer',
+                            'termine',
+                            "j'ai terminé",
+                            "j'ai fini",
+                            'fini',
+                            "c'est fini",
+                            "c'est tout",
+                            'rien de plus',
+                            'rien d’autre',
+                            "rien d'autre",
+                            'plus rien',
+                            'envoyer',
+                            'valider',
+                            'soumettre',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.GoBack,
+                    name: {
+                        value: 'retour',
+                        synonyms: [
+                            'retour',
+                            'reviens',
+                            'revenir',
+                            'revenir en arrière',
+                            'retourne',
+                            'retourner',
+                            'précédent',
+                            'revenir au précédent',
+                            'annule',
+                            'annuler',
+                            'annule ça',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.Start,
+                    name: {
+                        value: 'commencer',
+                        synonyms: ['commence', 'commencer', 'démarre', 'démarrer', 'débuter'],
+                    },
+                },
+                {
+                    id: $.Action.Restart,
+                    name: {
+                        value: 'recommencer',
+                        synonyms: [
+                            'recommence',
+                            'recommencer',
+                            'redémarre',
+                            'redémarrer',
+                            'reprendre depuis le début',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.Resume,
+                    name: {
+                        value: 'continuer',
+                        synonyms: ['continue', 'continuer', 'reprends', 'reprendre', 'poursuivre'],
+                    },
+                },
+                {
+                    id: $.Action.Add,
+                    name: {
+                        value: 'ajouter',
+                        synonyms: ['ajoute', 'ajouter', 'ajoutez', 'rajoute', 'rajouter'],
+                    },
+                },
+                {
+                    id: $.Action.Remove,
+                    name: {
+                        value: 'supprimer',
+                        synonyms: [
+                            'supprime',
+                            'supprimer',
+                            'supprimez',
+                            'retire',
+                            'retirer',
+                            'enlève',
+                            'enlever',
+                            'efface',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.Clear,
+                    name: {
+                        value: 'vider',
+                        synonyms: ['tout supprimer', 'tout effacer', 'vider', 'vide', 'effacer tout'],
+                    },
+                },
+                {
+                    id: $.Action.Ignore,
+                    name: {
+                        value: 'ignorer',
+                        synonyms: ['ignore', 'ignorer', 'passe', 'passer'],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_TARGET: {
+            name: SharedSlotType.TARGET,
+            values: [
+                {
+                    id: $.Target.It,
+                    name: {
+                        value: 'ça',
+                        synonyms: [
+                            'ça',
+                            'cela',
+                            'ceci',
+                            'le',
+                            'la',
+                            'les',
+                            'celui-ci',
+                            'celle-ci',
+                            'ceux-ci',
+                            'tous',
+                            'tous ceux-là',
+                            'la plupart',
+                            'la plupart d’entre eux',
+                            "la plupart d'entre eux",
+                            'presque tous',
+                        ],
+                    },
+                },
+                {
+                    id: $.Target.Date,
+                    name: {
+                        value: 'date',
+                        synonyms: ['date', 'la date', 'jour', 'le jour'],
+                    },
+                },
+                {
+                    id: $.Target.Number,
+                    name: {
+                        value: 'nombre',
+                        synonyms: ['nombre', 'le nombre', 'numéro', 'le numéro'],
+                    },
+                },
+                {
+                    id: $.Target.Choice,
+                    name: {
+                        value: 'choix',
+                        synonyms: ['choix', 'mon choix', 'le choix', 'sélection', 'ma sélection'],
+                    },
+                },
+                {
+                    id: $.Target.Start,
+                    name: {
+                        value: 'début',
+                        synonyms: ['début', 'le début'],
+                    },
+                },
+                {
+                    id: $.Target.End,
+                    name: {
+                        value: 'fin',
+                        synonyms: ['fin', 'la fin'],
+                    },
+                },
+                {
+                    id: $.Target.StartDate,
+                    name: {
+                        value: 'date de début',
+                        synonyms: [
+                            'date de début',
+                            'la date de début',
+                            'date de départ',
+                            'la date de départ',
+                        ],
+                    },
+                },
+                {
+                    id: $.Target.EndDate,
+                    name: {
+                        value: 'date de fin',
+                        synonyms: ['date de fin', 'la date de fin', 'date de retour', 'la date de retour'],
+                    },
+                },
+                {
+                    id: $.Target.DateRange,
+                    name: {
+                        value: 'période',
+                        synonyms: [
+                            'période',
+                            'la période',
+                            'dates',
+                            'les dates',
+                            'plage de dates',
+                            'la plage de dates',
+                        ],
+                    },
+                },
+                {
+                    id: $.Target.Questionnaire,
+                    name: {
+                        value: 'questionnaire',
+                        synonyms: [
+                            'questionnaire',
+                            'le questionnaire',
+                            'les questions',
+                            'sondage',
+                            'le sondage',
+                        ],
+                    },
+                },
+            ],
+        },
+    },
+};
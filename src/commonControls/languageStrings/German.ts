@@ -0,0 +1,1036 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { ResourceLanguage } from 'i18next';
+import { Strings as $ } from '../../constants/Strings';
+import { SharedSlotType } from '../../interactionModelGeneration/ModelTypes';
+
+/**
+ * German localized data for built-ins.
+ *
+ * Registered as 'de' in `defaultI18nResources` and therefore used for
+ * de-DE.
+ */
+export const germanI18nResources: ResourceLanguage = {
+    translation: {
+        // DateControl Runtime
+        DATE_CONTROL_DEFAULT_PROMPT_VALUE_SET: 'OK.',
+        DATE_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED: 'Geändert von {{old}} auf {{new}}.',
+        DATE_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON:
+            'Das ist leider kein gültiges Datum, weil {{reason}}.',
+        DATE_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE: 'Das Datum ist leider ungültig.',
+        DATE_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE: 'Welches Datum?',
+        DATE_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_VALUE: 'Worauf soll ich es ändern?',
+        DATE_CONTROL_DEFAULT_PROMPT_VALIDATION_FAIL_PAST_DATE_ONLY: 'das Datum nicht nach heute liegen darf',
+        DATE_CONTROL_DEFAULT_PROMPT_VALIDATION_FAIL_FUTURE_DATE_ONLY: 'das Datum nicht vor heute liegen darf',
+        DATE_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE: 'War das {{value}}?',
+        DATE_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED: 'Super.',
+        DATE_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED: 'Mein Fehler.',
+        DATE_CONTROL_DEFAULT_REPROMPT_VALUE_SET: 'OK.',
+        DATE_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED: 'Geändert von {{old}} auf {{new}}.',
+        DATE_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON:
+            'Das ist leider kein gültiges Datum, weil {{reason}}.',
+        DATE_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE: 'Das Datum ist leider ungültig.',
+        DATE_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE: 'Welches Datum?',
+        DATE_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_VALUE: 'Worauf soll ich es ändern?',
+        DATE_CONTROL_DEFAULT_REPROMPT_VALIDATION_FAIL_PAST_DATE_ONLY:
+            'das Datum nicht nach heute liegen darf',
+        DATE_CONTROL_DEFAULT_REPROMPT_VALIDATION_FAIL_FUTURE_DATE_ONLY:
+            'das Datum nicht vor heute liegen darf',
+        DATE_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE: 'War das {{value}}?',
+        DATE_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED: 'Super.',
+        DATE_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED: 'Mein Fehler.',
+
+        // NumberControl Runtime
+        NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_SET: 'OK. Der Wert ist jetzt {{value}}.',
+        NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED: 'OK. Der Wert wurde auf {{value}} geändert.',
+        NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_CLEARED: 'OK, gelöscht.',
+        NUMBER_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON:
+            'Das ist leider keine gültige Auswahl, weil {{reason}}.',
+        NUMBER_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE: 'Das ist leider keine gültige Auswahl.',
+        NUMBER_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE: 'Welche Zahl?',
+        NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_CONFIRMED: 'Super.',
+        NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED: 'Mein Fehler.',
+        NUMBER_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE: 'War das {{value}}?',
+        NUMBER_CONTROL_DEFAULT_PROMPT_SUGGEST_VALUE: 'Meintest du vielleicht {{value}}?',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_SET: 'OK. Der Wert ist jetzt {{value}}.',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED: 'OK. Der Wert wurde auf {{value}} geändert.',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_CLEARED: 'OK, gelöscht.',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON:
+            'Das ist leider keine gültige Auswahl, weil {{reason}}.',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE: 'Das ist leider keine gültige Auswahl.',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE: 'Welche Zahl?',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_CONFIRMED: 'Super.',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED: 'Mein Fehler.',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE: 'War das {{value}}?',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_SUGGEST_VALUE: 'Meintest du vielleicht {{value}}?',
+        NUMBER_CONTROL_DEFAULT_APL_HEADER_TITLE: 'Gib eine Zahl ein...',
+        NUMBER_CONTROL_DEFAULT_APL_INVALID_VALUE: "'{{value}}' ist leider keine gültige Auswahl.",
+
+        // ValueControl Runtime
+        VALUE_CONTROL_DEFAULT_PROMPT_VALUE_SET: 'OK, {{value}}.',
+        VALUE_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED: 'OK, ich habe es auf {{value}} geändert.',
+        VALUE_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON:
+            '{{value}} ist leider keine gültige Auswahl, weil {{reason}}.',
+        VALUE_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE: '{{value}} ist leider keine gültige Auswahl.',
+        VALUE_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE: 'Worauf soll ich es setzen?',
+        VALUE_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_VALUE: 'Worauf soll ich es ändern?',
+        VALUE_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE: 'War das {{value}}?',
+        VALUE_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED: 'Super.',
+        VALUE_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED: 'Mein Fehler.',
+        VALUE_CONTROL_DEFAULT_REPROMPT_VALUE_SET: 'OK, {{value}}.',
+        VALUE_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED: 'OK, ich habe es auf {{value}} geändert.',
+        VALUE_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON:
+            '{{value}} ist leider keine gültige Auswahl, weil {{reason}}.',
+        VALUE_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE: '{{value}} ist leider keine gültige Auswahl.',
+        VALUE_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE: 'Worauf soll ich es setzen?',
+        VALUE_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_VALUE: 'Worauf soll ich es ändern?',
+        VALUE_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE: 'War das {{value}}?',
+        VALUE_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED: 'Super.',
+        VALUE_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED: 'Mein Fehler.',
+
+        // ListControl Runtime
+        LIST_CONTROL_DEFAULT_PROMPT_VALUE_SET: 'OK, {{value}}.',
+        LIST_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED: 'OK, ich habe es auf {{value}} geändert.',
+        LIST_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE: '{{value}} ist leider keine gültige Auswahl.',
+        LIST_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON:
+            '{{value}} ist leider keine gültige Auswahl, weil {{reason}}.',
+        LIST_CONTROL_DEFAULT_PROMPT_UNUSABLE_INPUT_VALUE:
+            'Entschuldigung, ich weiß nicht, wie ich das machen soll.',
+        LIST_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE: 'Was ist deine Auswahl? Vorschläge sind {{suggestions}}.',
+        LIST_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_VALUE:
+            'Worauf soll ich es ändern? Vorschläge sind {{suggestions}}.',
+        LIST_CONTROL_DEFAULT_PROMPT_REQUEST_REMOVED_VALUE:
+            'Welchen Wert möchtest du entfernen? Vorschläge sind {{suggestions}}.',
+        LIST_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE: 'War das {{value}}?',
+        LIST_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED: 'Super.',
+        LIST_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED: 'Mein Fehler.',
+        LIST_CONTROL_DEFAULT_REPROMPT_VALUE_SET: 'OK, {{value}}.',
+        LIST_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED: 'OK, ich habe es auf {{value}} geändert.',
+        LIST_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE: '{{value}} ist leider keine gültige Auswahl.',
+        LIST_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON:
+            '{{value}} ist leider keine gültige Auswahl, weil {{reason}}.',
+        LIST_CONTROL_DEFAULT_REPROMPT_UNUSABLE_INPUT_VALUE:
+            'Entschuldigung, ich weiß nicht, wie ich das machen soll.',
+        LIST_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE:
+            'Was ist deine Auswahl? Vorschläge sind {{suggestions}}.',
+        LIST_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_VALUE:
+            'Worauf soll ich es ändern? Vorschläge sind {{suggestions}}.',
+        LIST_CONTROL_DEFAULT_REPROMPT_REQUEST_REMOVED_VALUE:
+            'Welchen Wert möchtest du entfernen? Vorschläge sind {{suggestions}}.',
+        LIST_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE: 'War das {{value}}?',
+        LIST_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED: 'Super.',
+        LIST_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED: 'Mein Fehler.',
+        LIST_CONTROL_DEFAULT_APL_HEADER_TITLE: 'Bitte auswählen',
+
+        // MultiValueListControl Runtime
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_VALUE_ADD: 'OK, {{value}} hinzugefügt.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_VALUE_REMOVE: 'OK, {{value}} entfernt.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_VALUE_CLEARED: 'OK, {{value}} aus der Liste gelöscht.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_ACTION_SUGGEST:
+            'Du kannst neue Werte hinzufügen oder vorhandene Werte ändern',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE:
+            '{{value}} kann leider nicht hinzugefügt werden, weil es nicht existiert.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON:
+            '{{value}} kann leider nicht hinzugefügt werden, weil {{reason}}.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_REMOVE_VALUE:
+            '{{value}} ist leider nicht in der Liste.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE:
+            'Was ist deine Auswahl? Vorschläge sind {{suggestions}}.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_REQUEST_REMOVED_VALUE:
+            'Welchen Wert möchtest du entfernen? Vorschläge sind {{suggestions}}.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_GENERAL_REQUEST_REMOVED_VALUE:
+            'Welchen Wert möchtest du entfernen?',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE: 'OK, ich habe {{value}}. Ist das alles?',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED: 'Super.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_VALUE_ADD: 'OK, {{value}} hinzugefügt.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_VALUE_REMOVE: 'OK, {{value}} entfernt.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_VALUE_CLEARED: 'OK, {{value}} aus der Liste gelöscht.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_ACTION_SUGGEST:
+            'Du kannst neue Werte hinzufügen oder vorhandene Werte ändern',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE:
+            '{{value}} kann leider nicht hinzugefügt werden, weil es nicht existiert.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_REMOVE_VALUE:
+            '{{value}} ist leider nicht in der Liste.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON:
+            '{{value}} kann leider nicht hinzugefügt werden, weil {{reason}}.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE:
+            'Was ist deine Auswahl? Vorschläge sind {{suggestions}}.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_REQUEST_REMOVED_VALUE:
+            'Welchen Wert möchtest du entfernen? Vorschläge sind {{suggestions}}.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_GENERAL_REQUEST_REMOVED_VALUE:
+            'Welchen Wert möchtest du entfernen?',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE: 'OK, ich habe {{value}}. Ist das alles?',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED: 'Super.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_HEADER_TITLE: 'Erstelle deine Liste',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_HEADER_SUBTITLE:
+            'Sage einen Eintrag oder tippe ihn an, um ihn deiner Liste hinzuzufügen',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_SELECTION_TITLE: 'DEINE AUSWAHL',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_SELECTION_SUBTITLE:
+            'Nach links wischen, um Einträge zu entfernen',
+
+        // DateRangeControl Runtime
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_START_DATE_SET: 'Alles klar. Das Startdatum ist {{value}}.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_START_DATE_CHANGED:
+            'Alles klar. Das Startdatum wurde auf {{value}} geändert.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_START_DATE: 'Welches Startdatum möchtest du?',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_START_DATE:
+            'Auf welches Datum soll ich das Startdatum ändern?',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_CONFIRM_START_DATE: 'War das {{value}}?',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_START_DATE_AFFIRMED: 'Super.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_START_DATE_DISAFFIRMED: 'Mein Fehler.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_END_DATE_SET: 'Alles klar. Das Enddatum ist {{value}}.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_END_DATE_CHANGED:
+            'Alles klar. Das Enddatum wurde auf {{value}} geändert.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_END_DATE: 'Welches Enddatum möchtest du?',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_END_DATE:
+            'Auf welches Datum soll ich das Enddatum ändern?',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_CONFIRM_END_DATE: 'War das {{value}}?',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_END_DATE_AFFIRMED: 'Super.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_END_DATE_DISAFFIRMED: 'Mein Fehler.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE: 'Welches Start- und Enddatum möchtest du?',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALUE_SET: 'Alles klar. Der Zeitraum ist {{value}}.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED:
+            'Alles klar. Der Zeitraum wurde auf {{value}} geändert.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_INVALID_START_WITH_REASON:
+            'Das ist leider kein gültiges Startdatum, weil {{reason}}.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_INVALID_END_WITH_REASON:
+            'Das ist leider kein gültiges Enddatum, weil {{reason}}.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON:
+            'Der Zeitraum ist leider ungültig, weil {{reason}}.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_DATE: 'Das Datum ist leider ungültig.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE: 'Der Zeitraum ist leider ungültig.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALIDATION_FAIL_START_AFTER_END:
+            'das Startdatum nicht nach dem Enddatum liegen darf',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED: 'Super.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED: 'Mein Fehler.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE: 'War das {{value}}?',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_START_DATE_SET: 'Alles klar. Das Startdatum ist {{value}}.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_START_DATE_CHANGED:
+            'Alles klar. Das Startdatum wurde auf {{value}} geändert.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_START_DATE: 'Welches Startdatum möchtest du?',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_START_DATE:
+            'Auf welches Datum soll ich das Startdatum ändern?',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_CONFIRM_START_DATE: 'War das {{value}}?',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_START_DATE_AFFIRMED: 'Super.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_START_DATE_DISAFFIRMED: 'Mein Fehler.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_END_DATE_SET: 'Alles klar. Das Enddatum ist {{value}}.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_END_DATE_CHANGED:
+            'Alles klar. Das Enddatum wurde auf {{value}} geändert.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_END_DATE: 'Welches Enddatum möchtest du?',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_END_DATE:
+            'Auf welches Datum soll ich das Enddatum ändern?',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_CONFIRM_END_DATE: 'War das {{value}}?',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_END_DATE_AFFIRMED: 'Super.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_END_DATE_DISAFFIRMED: 'Mein Fehler.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE: 'Welches Start- und Enddatum möchtest du?',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_VALUE_SET: 'Alles klar. Der Zeitraum ist {{value}}.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED:
+            'Alles klar. Der Zeitraum wurde auf {{value}} geändert.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_INVALID_START_WITH_REASON:
+            'Das ist leider kein gültiges Startdatum, weil {{reason}}.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_INVALID_END_WITH_REASON:
+            'Das ist leider kein gültiges Enddatum, weil {{reason}}.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON:
+            'Der Zeitraum ist leider ungültig, weil {{reason}}.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_DATE: 'Das Datum ist leider ungültig.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE: 'Der Zeitraum ist leider ungültig.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_VALIDATION_FAIL_START_AFTER_END:
+            'das Startdatum nicht nach dem Enddatum liegen darf',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED: 'Super.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED: 'Mein Fehler.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE: 'War das {{value}}?',
+
+        // QuestionnaireControl
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_QUESTION_ANSWERED_LOW_RISK_OF_MISUNDERSTANDING: '',
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_QUESTION_ANSWERED_RISK_OF_MISUNDERSTANDING_CHOICE:
+            'OK, {{choice}}.',
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_QUESTION_ANSWERED_RISK_OF_MISUNDERSTANDING_QUESTION_AND_CHOICE:
+            'OK, {{choice}} für {{question}}.',
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_COMPLETED: 'Super, danke.',
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_COMPLETION_REJECTED:
+            '{{renderedReason}} ist leider keine gültige Auswahl.',
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_ACKNOWLEDGE_NOT_COMPLETE:
+            'Kein Problem. Sag mir einfach Bescheid, wenn du fertig bist.',
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_ASK_IF_COMPLETE: 'Bist du mit allen Antworten zufrieden?',
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_ASK_IF_COMPLETE_TERSE: '',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_QUESTION_ANSWERED_LOW_RISK_OF_MISUNDERSTANDING: '',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_QUESTION_ANSWERED_RISK_OF_MISUNDERSTANDING_CHOICE:
+            'OK, {{choice}}.',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_QUESTION_ANSWERED_RISK_OF_MISUNDERSTANDING_QUESTION_AND_CHOICE:
+            'OK, {{choice}} für {{question}}.',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_COMPLETED: 'Super, danke.',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_COMPLETION_REJECTED:
+            '{{renderedReason}} ist leider keine gültige Auswahl.',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_ACKNOWLEDGE_NOT_COMPLETE:
+            'Kein Problem. Sag mir einfach Bescheid, wenn du fertig bist.',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_ASK_IF_COMPLETE: 'Bist du mit allen Antworten zufrieden?',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_ASK_IF_COMPLETE_TERSE: '',
+        QUESTIONNAIRE_CONTROL_DEFAULT_APL_HEADER_TITLE: 'Bitte auswählen...',
+        QUESTIONNAIRE_CONTROL_DEFAULT_APL_SUBMIT_TEXT: 'Absenden >',
+        QUESTIONNAIRE_CONTROL_DEFAULT_ANSWER_SUMMARY_ITEM: '{{choice}} für {{question}}',
+
+        // Content Act default prompts
+        UNUSABLE_INPUT_VALUE_ACT_DEFAULT_PROMPT: 'Entschuldigung, {{value}}.',
+        ACKNOWLEDGE_INPUT_ACT_DEFAULT_PROMPT: 'OK.',
+        VALUE_SET_ACT_DEFAULT_PROMPT: 'OK, {{value}}.',
+        VALUE_CHANGED_ACT_DEFAULT_PROMPT: 'OK, auf {{value}} aktualisiert.',
+        INVALID_VALUE_ACT_DEFAULT_PROMPT: 'Entschuldigung, {{value}}.',
+        VALUE_CONFIRMED_ACT_DEFAULT_PROMPT: 'Super.',
+        VALUE_DISCONFIRMED_ACT_DEFAULT_PROMPT: 'Mein Fehler.',
+        NON_UNDERSTANDING_ACT_DEFAULT_PROMPT: 'Das habe ich leider nicht verstanden.',
+        LAUNCH_ACT_DEFAULT_PROMPT: 'Willkommen.',
+        VALUE_ADDED_ACT_DEFAULT_PROMPT: 'OK, {{value}} hinzugefügt.',
+        VALUE_REMOVED_ACT_DEFAULT_PROMPT: 'OK, {{value}} entfernt.',
+        VALUE_CLEARED_ACT_DEFAULT_PROMPT: 'OK, {{value}} gelöscht.',
+        INVALID_REMOVE_VALUE_ACT_DEFAULT_PROMPT: 'Leider ungültig: {{value}}.',
+        STATE_REVERTED_ACT_DEFAULT_PROMPT: 'OK, ich habe das rückgängig gemacht.',
+
+        // Initiative Act default prompts
+        REQUEST_VALUE_ACT_DEFAULT_PROMPT: 'Welcher Wert für {{value}}?',
+        REQUEST_CHANGED_VALUE_ACT_DEFAULT_PROMPT: 'Was ist der neue Wert für {{value}}?',
+        REQUEST_VALUE_BY_LIST_ACT_DEFAULT_PROMPT:
+            'Welcher Wert für {{value}}? Zur Auswahl stehen {{choices}}.',
+        REQUEST_CHANGED_VALUE_BY_LIST_ACT_DEFAULT_PROMPT:
+            'Was ist der neue Wert für {{value}}? Zur Auswahl stehen {{choices}}.',
+        REQUEST_REMOVED_VALUE_BY_LIST_ACT_DEFAULT_PROMPT:
+            'Welcher Wert soll aus {{value}} entfernt werden? Zur Auswahl stehen {{choices}}.',
+        CONFIRM_VALUE_ACT_DEFAULT_PROMPT: 'War das {{value}}?',
+        SUGGEST_VALUE_ACT_DEFAULT_PROMPT: 'Meintest du vielleicht {{value}}?',
+        SUGGEST_ACTION_ACT_DEFAULT_PROMPT: 'Du kannst Werte hinzufügen oder ändern.',
+        RESUME_OFFER_ACT_DEFAULT_PROMPT: 'Möchtest du dort weitermachen, wo du aufgehört hast?',
+        DISAMBIGUATE_TARGET_ACT_DEFAULT_PROMPT: 'Meintest du {{targets}}?',
+        DISAMBIGUATE_TARGET_ACT_DEFAULT_TARGET: '{{target}}',
+
+        // ControlIntent Samples
+        CONJUNCTION_CONTROL_INTENT_SAMPLES: [
+            '{action} {target.a} {conjunction} {target.b}',
+            '{feedback} {action} {target.a} {conjunction} {target.b}',
+            '{head} {action} {target.a} {conjunction} {target.b}',
+            '{action} {target.a} {conjunction} {target.b} {tail}',
+            '{feedback} {action} {target.a} {conjunction} {target.b} {tail}',
+            '{head} {action} {target.a} {conjunction} {target.b} {tail}',
+        ],
+        DATE_CONTROL_INTENT_SAMPLES: [
+            '{AMAZON.DATE}',
+            '{action} {preposition} {AMAZON.DATE}',
+            '{action} {target} {preposition} {AMAZON.DATE}',
+            '{target} {preposition} {AMAZON.DATE}',
+            '{feedback} {AMAZON.DATE}',
+            '{feedback} {preposition} {AMAZON.DATE}',
+            '{feedback} {action} {preposition} {AMAZON.DATE}',
+            '{feedback} {action} {target} {preposition} {AMAZON.DATE}',
+            '{feedback} {target} {preposition} {AMAZON.DATE}',
+            '{head} {AMAZON.DATE}',
+            '{head} {action} {preposition} {AMAZON.DATE}',
+            '{head} {action} {target} {preposition} {AMAZON.DATE}',
+            '{head} {target} {preposition} {AMAZON.DATE}',
+            '{AMAZON.DATE} {tail}',
+            '{preposition} {AMAZON.DATE} {tail}',
+            '{action} {preposition} {AMAZON.DATE} {tail}',
+            '{action} {target} {preposition} {AMAZON.DATE} {tail}',
+            '{target} {preposition} {AMAZON.DATE} {tail}',
+            '{feedback} {AMAZON.DATE} {tail}',
+            '{feedback} {preposition} {AMAZON.DATE} {tail}',
+            '{feedback} {action} {preposition} {AMAZON.DATE} {tail}',
+            '{feedback} {action} {target} {preposition} {AMAZON.DATE} {tail}',
+            '{feedback} {target} {preposition} {AMAZON.DATE} {tail}',
+            '{head} {AMAZON.DATE} {tail}',
+            '{head} {preposition} {AMAZON.DATE} {tail}',
+            '{head} {action} {preposition} {AMAZON.DATE} {tail}',
+            '{head} {target} {preposition} {AMAZON.DATE} {tail}',
+            '{head} {action} {target} {preposition} {AMAZON.DATE} {tail}',
+            '{AMAZON.DATE} {action}',
+            '{target} {preposition} {AMAZON.DATE} {action}',
+            '{head} {target} {preposition} {AMAZON.DATE} {action}',
+        ],
+        DATE_RANGE_CONTROL_INTENT_SAMPLES: [
+            '{AMAZON.DATE.a} {conjunction} {AMAZON.DATE.b}',
+            '{AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b}',
+            '{preposition.a} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b}',
+            'zwischen {AMAZON.DATE.a} und {AMAZON.DATE.b}',
+            '{action} {preposition.a} {AMAZON.DATE.a} {conjunction} {AMAZON.DATE.b}',
+            '{action} {preposition.a} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b}',
+            '{action} zwischen {AMAZON.DATE.a} und {AMAZON.DATE.b}',
+            '{action} {target} {preposition.a} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b}',
+            '{action} {target} zwischen {AMAZON.DATE.a} und {AMAZON.DATE.b}',
+            '{action} {target.a} {preposition.a} {AMAZON.DATE.a} {conjunction} {target.b} {preposition.b} {AMAZON.DATE.b}',
+            '{feedback} {AMAZON.DATE.a} {conjunction} {AMAZON.DATE.b}',
+            '{feedback} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b}',
+            '{feedback} {preposition.a} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b}',
+            '{feedback} zwischen {AMAZON.DATE.a} und {AMAZON.DATE.b}',
+            '{head} {AMAZON.DATE.a} {conjunction} {AMAZON.DATE.b}',
+            '{head} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b}',
+            '{head} {preposition.a} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b}',
+            '{head} zwischen {AMAZON.DATE.a} und {AMAZON.DATE.b}',
+            '{AMAZON.DATE.a} {conjunction} {AMAZON.DATE.b} {tail}',
+            '{AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b} {tail}',
+            '{preposition.a} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b} {tail}',
+            'zwischen {AMAZON.DATE.a} und {AMAZON.DATE.b} {tail}',
+            '{head} {AMAZON.DATE.a} {conjunction} {AMAZON.DATE.b} {tail}',
+            '{head} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b} {tail}',
+            '{head} {preposition.a} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b} {tail}',
+            '{head} zwischen {AMAZON.DATE.a} und {AMAZON.DATE.b} {tail}',
+        ],
+        GENERAL_CONTROL_INTENT_SAMPLES: [
+            '{feedback} {action}',
+            '{feedback} {action} {target}',
+            '{filteredFeedback} {tail}',
+            '{feedback} {action} {tail}',
+            '{feedback} {action} {target} {tail}',
+            '{target}',
+            '{feedback} {target}',
+            '{head} {target}',
+            '{target} {tail}',
+            '{action} {target}',
+            '{head} {action}',
+            '{head} {action} {target}',
+            '{action} {tail}',
+            '{action} {target} {tail}',
+            '{head} {action} {tail}',
+            '{head} {action} {target} {tail}',
+            '{target} {action}',
+            '{head} {target} {action}',
+            '{target} {action} {tail}',
+        ],
+        NUMBER_CONTROL_INTENT_SAMPLES: [
+            '{AMAZON.NUMBER}',
+            '{action} {AMAZON.NUMBER}',
+            '{action} {preposition} {AMAZON.NUMBER}',
+            '{action} {target} {preposition} {AMAZON.NUMBER}',
+            '{target} {preposition} {AMAZON.NUMBER}',
+            '{feedback} {AMAZON.NUMBER}',
+            '{feedback} {action} {AMAZON.NUMBER}',
+            '{feedback} {preposition} {AMAZON.NUMBER}',
+            '{feedback} {action} {preposition} {AMAZON.NUMBER}',
+            '{feedback} {action} {target} {preposition} {AMAZON.NUMBER}',
+            '{feedback} {target} {preposition} {AMAZON.NUMBER}',
+            '{head} {AMAZON.NUMBER}',
+            '{head} {action} {AMAZON.NUMBER}',
+            '{head} {action} {preposition} {AMAZON.NUMBER}',
+            '{head} {action} {target} {preposition} {AMAZON.NUMBER}',
+            '{head} {target} {preposition} {AMAZON.NUMBER}',
+            '{AMAZON.NUMBER} {tail}',
+            '{preposition} {AMAZON.NUMBER} {tail}',
+            '{action} {preposition} {AMAZON.NUMBER} {tail}',
+            '{action} {target} {preposition} {AMAZON.NUMBER} {tail}',
+            '{target} {preposition} {AMAZON.NUMBER} {tail}',
+            '{feedback} {AMAZON.NUMBER} {tail}',
+            '{feedback} {preposition} {AMAZON.NUMBER} {tail}',
+            '{feedback} {action} {AMAZON.NUMBER} {tail}',
+            '{feedback} {action} {preposition} {AMAZON.NUMBER} {tail}',
+            '{feedback} {action} {target} {preposition} {AMAZON.NUMBER} {tail}',
+            '{feedback} {target} {preposition} {AMAZON.NUMBER} {tail}',
+            '{head} {AMAZON.NUMBER} {tail}',
+            '{head} {preposition} {AMAZON.NUMBER} {tail}',
+            '{head} {action} {AMAZON.NUMBER} {tail}',
+            '{head} {action} {preposition} {AMAZON.NUMBER} {tail}',
+            '{head} {target} {preposition} {AMAZON.NUMBER} {tail}',
+            '{head} {action} {target} {preposition} {AMAZON.NUMBER} {tail}',
+            '{AMAZON.NUMBER} {action}',
+            '{target} {preposition} {AMAZON.NUMBER} {action}',
+            '{head} {target} {preposition} {AMAZON.NUMBER} {action}',
+        ],
+        ORDINAL_CONTROL_INTENT_SAMPLES: [
+            '{AMAZON.Ordinal}',
+            '{preposition} {AMAZON.Ordinal}',
+            '{AMAZON.Ordinal} davon',
+            '{preposition} {AMAZON.Ordinal} davon',
+            '{action} {AMAZON.Ordinal}',
+            '{action} {preposition} {AMAZON.Ordinal}',
+            '{action} {preposition} {AMAZON.Ordinal} davon',
+            '{action} {target} {preposition} {AMAZON.Ordinal}',
+            '{target} {preposition} {AMAZON.Ordinal}',
+            '{feedback} {AMAZON.Ordinal}',
+            '{feedback} {preposition} {AMAZON.Ordinal}',
+            '{feedback} {AMAZON.Ordinal} davon',
+            '{feedback} {preposition} {AMAZON.Ordinal} davon',
+            '{feedback} {action} {AMAZON.Ordinal}',
+            '{feedback} {action} {preposition} {AMAZON.Ordinal}',
+            '{feedback} {action} {preposition} {AMAZON.Ordinal} davon',
+            '{feedback} {action} {target} {preposition} {AMAZON.Ordinal}',
+            '{feedback} {target} {preposition} {AMAZON.Ordinal}',
+            '{head} {preposition} {AMAZON.Ordinal}',
+            '{head} {preposition} {AMAZON.Ordinal} davon',
+            '{head} {action} {preposition} {AMAZON.Ordinal}',
+            '{head} {action} {target} {preposition} {AMAZON.Ordinal}',
+            '{head} {target} {preposition} {AMAZON.Ordinal}',
+            '{AMAZON.Ordinal} {tail}',
+            '{preposition} {AMAZON.Ordinal} {tail}',
+            '{AMAZON.Ordinal} davon {tail}',
+            '{preposition} {AMAZON.Ordinal} davon {tail}',
+            '{action} {AMAZON.Ordinal} {tail}',
+            '{action} {target} {preposition} {AMAZON.Ordinal} {tail}',
+            '{target} {preposition} {AMAZON.Ordinal} {tail}',
+            '{feedback} {AMAZON.Ordinal} {tail}',
+            '{feedback} {preposition} {AMAZON.Ordinal} {tail}',
+            '{feedback} {AMAZON.Ordinal} davon {tail}',
+            '{feedback} {preposition} {AMAZON.Ordinal} davon {tail}',
+            '{feedback} {action} {AMAZON.Ordinal} {tail}',
+            '{feedback} {action} {preposition} {AMAZON.Ordinal} {tail}',
+            '{feedback} {action} {preposition} {AMAZON.Ordinal} davon {tail}',
+            '{feedback} {action} {target} {preposition} {AMAZON.Ordinal} {tail}',
+            '{feedback} {target} {preposition} {AMAZON.Ordinal} {tail}',
+            '{head} {AMAZON.Ordinal} {tail}',
+            '{head} {preposition} {AMAZON.Ordinal} {tail}',
+            '{head} {preposition} {AMAZON.Ordinal} davon {tail}',
+            '{head} {action} {preposition} {AMAZON.Ordinal} {tail}',
+            '{head} {action} {preposition} {AMAZON.Ordinal} davon {tail}',
+            '{head} {target} {preposition} {AMAZON.Ordinal} {tail}',
+            '{head} {action} {target} {preposition} {AMAZON.Ordinal} {tail}',
+            '{preposition} {AMAZON.Ordinal} {action}',
+            '{target} {preposition} {AMAZON.Ordinal} {action}',
+        ],
+        VALUE_CONTROL_INTENT_SAMPLES: [
+            '[[filteredValueSlotType]]',
+            '{action} [[valueSlotType]]',
+            '{action} {preposition} [[valueSlotType]]',
+            '{action} {target} {preposition} [[valueSlotType]]',
+            '{target} {preposition} [[valueSlotType]]',
+            '{target} [[valueSlotType]]',
+            '{feedback} [[filteredValueSlotType]]',
+            '{feedback} {action} [[valueSlotType]]',
+            '{feedback} {preposition} [[filteredValueSlotType]]',
+            '{feedback} {action} {preposition} [[valueSlotType]]',
+            '{feedback} {action} {target} {preposition} [[valueSlotType]]',
+            '{feedback} {target} {preposition} [[valueSlotType]]',
+            '{feedback} {target} [[valueSlotType]]',
+            '{head} [[filteredValueSlotType]]',
+            '{head} {action} [[valueSlotType]]',
+            '{head} {action} {preposition} [[valueSlotType]]',
+            '{head} {action} {target} {preposition} [[valueSlotType]]',
+            '{head} {target} {preposition} [[valueSlotType]]',
+            '{head} {target} [[valueSlotType]]',
+            '[[filteredValueSlotType]] {tail}',
+            '{preposition} [[filteredValueSlotType]] {tail}',
+            '{action} {preposition} [[valueSlotType]] {tail}',
+            '{action} {target} {preposition} [[valueSlotType]] {tail}',
+            '{target} {preposition} [[valueSlotType]] {tail}',
+            '{feedback} [[filteredValueSlotType]] {tail}',
+            '{feedback} {preposition} [[filteredValueSlotType]] {tail}',
+            '{feedback} {action} [[valueSlotType]] {tail}',
+            '{feedback} {action} {preposition} [[valueSlotType]] {tail}',
+            '{feedback} {action} {target} {preposition} [[valueSlotType]] {tail}',
+            '{feedback} {target} {preposition} [[valueSlotType]] {tail}',
+            '{feedback} {target} [[valueSlotType]] {tail}',
+            '{head} [[filteredValueSlotType]] {tail}',
+            '{head} {preposition} [[filteredValueSlotType]] {tail}',
+            '{head} {action} [[valueSlotType]] {tail}',
+            '{head} {action} {preposition} [[valueSlotType]] {tail}',
+            '{head} {target} {preposition} [[valueSlotType]] {tail}',
+            '{head} {target} [[valueSlotType]] {tail}',
+            '{head} {action} {target} {preposition} [[valueSlotType]] {tail}',
+            '[[valueSlotType]] {target}',
+            '{feedback} [[valueSlotType]] {target}',
+            '{head} [[valueSlotType]] {target}',
+            '[[valueSlotType]] {target} {tail}',
+            '{head} [[valueSlotType]] {target} {tail}',
+            '[[valueSlotType]] {action}',
+            '{target} {preposition} [[valueSlotType]] {action}',
+            '{head} {target} {preposition} [[valueSlotType]] {action}',
+        ],
+
+        // Shared Slot Type values
+        SHARED_SLOT_TYPES_FEEDBACK: {
+            name: SharedSlotType.FEEDBACK,
+            values: [
+                {
+                    id: $.Feedback.Affirm,
+                    name: {
+                        value: 'ja',
+                        synonyms: [
+                            'ja',
+                            'jawohl',
+                            'jo',
+                            'okay',
+                            'ok',
+                            'genau',
+                            'richtig',
+                            'stimmt',
+                            'das stimmt',
+                            'ja genau',
+                            'ja richtig',
+                            'ja das stimmt',
+                            'korrekt',
+                            'sicher',
+                            'klar',
+                            'na klar',
+                            'natürlich',
+                            'gerne',
+                            'ja gerne',
+                            'passt',
+                            'passt so',
+                            'in ordnung',
+                            'einverstanden',
+                            'auf jeden fall',
+                            'absolut',
+                            'ja bitte',
+                            'ja ich will',
+                            'ja ich möchte',
+                            'ja ich brauche',
+                            'ja ich habe',
+                            'ich habe',
+                            'klingt gut',
+                            'hört sich gut an',
+                        ],
+                    },
+                },
+                {
+                    id: $.Feedback.Disaffirm,
+                    name: {
+                        value: 'nein',
+                        synonyms: [
+                            'nein',
+                            'nein nein',
+                            'nö',
+                            'ne',
+                            'nee',
+                            'auf keinen fall',
+                            'falsch',
+                            'das ist falsch',
+                            'nein das ist falsch',
+                            'das stimmt nicht',
+                            'nein das stimmt nicht',
+                            'stimmt nicht',
+                            'nicht richtig',
+                            'das ist nicht richtig',
+                            'du hast mich falsch verstanden',
+                            'das meinte ich nicht',
+                            'nein das meinte ich nicht',
+                            'nein ich will',
+                            'nein ich möchte',
+                            'nein ich sagte',
+                            'absolut nicht',
+                            'ich glaube nicht',
+                            'niemals',
+                            'nein alexa',
+                            'auf gar keinen fall',
+                            'oh nein',
+                            'bitte nicht',
+                            'das will ich nicht',
+                            'ich habe nicht',
+                            'ich habe kein',
+                            'ich habe keine',
+                            'nein ich habe nicht',
+                            'nein ich habe kein',
+                            'nein ich habe keine',
+                        ],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_FILTERED_FEEDBACK: {
+            name: SharedSlotType.FILTERED_FEEDBACK,
+            values: [
+                {
+                    id: 'placeholder',
+                    name: {
+                        value: 'placeholder_awaiting_real_values',
+                        synonyms: ['placeholder_awaiting_real_values_synonym'],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_HEAD: {
+            name: SharedSlotType.HEAD,
+            values: [
+                {
+                    id: $.Head,
+                    name: {
+                        value: 'ich',
+                        synonyms: [
+                            'ich',
+                            'ich will',
+                            'ich möchte',
+                            'ich würde gerne',
+                            'ich brauche',
+                            'bitte',
+                            'danke',
+                            'ich denke',
+                            'ich glaube',
+                            'ich glaube dass',
+                            'ich bin mir ziemlich sicher',
+                            'ich bin mir ziemlich sicher dass',
+                            'du kannst',
+                            'du kannst einfach',
+                            'du sollst',
+                            'du sollst einfach',
+                            'du solltest',
+                            'einfach',
+                            'nur',
+                            'mach einfach',
+                            'ich möchte dass du',
+                            'ich will dass du',
+                            'ich brauche dass du',
+                            'dann',
+                            'also',
+                        ],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_TAIL: {
+            name: SharedSlotType.TAIL,
+            values: [
+                {
+                    id: $.Tail,
+                    name: {
+                        value: 'bitte',
+                        synonyms: [
+                            'bitte',
+                            'danke',
+                            'jetzt bitte',
+                            'jetzt danke',
+                            'bitte danke',
+                            'danke schön',
+                            'ist gut',
+                            'ist gut danke',
+                            'wäre gut',
+                            'wäre gut danke',
+                            'wäre super',
+                            'wäre super danke',
+                            'ist super',
+                            'ist richtig',
+                            'ist richtig danke',
+                            'ist korrekt',
+                            'passt',
+                            'passt danke',
+                            'reicht',
+                            'reicht danke',
+                            'auf einmal',
+                            'aus irgendeinem grund',
+                        ],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_CONJUNCTION: {
+            name: SharedSlotType.CONJUNCTION,
+            values: [
+                {
+                    id: $.Conjunction,
+                    name: {
+                        value: 'und',
+                        synonyms: ['und', 'und dann', 'dann', 'und auch', 'sowie'],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_PREPOSITION: {
+            name: SharedSlotType.PREPOSITION,
+            values: [
+                {
+                    id: $.Preposition,
+                    name: {
+                        value: 'auf',
+                        synonyms: [
+                            'der',
+                            'die',
+                            'das',
+                            'den',
+                            'dem',
+                            'auf',
+                            'auf den',
+                            'auf die',
+                            'auf das',
+                            'zu',
+                            'zum',
+                            'zur',
+                            'in',
+                            'ins',
+                            'ist',
+                            'sein',
+                            'soll sein',
+                            'gleich',
+                            'auch',
+                            'von',
+                            'vom',
+                            'ab',
+                            'bis',
+                            'bis zum',
+                            'an',
+                            'am',
+                        ],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_ACTION: {
+            name: SharedSlotType.ACTION,
+            values: [
+                {
+                    id: $.Action.Set,
+                    name: {
+                        value: 'setzen',
+                        synonyms: [
+                            'setze',
+                            'setzen',
+                            'stelle',
+                            'stell',
+                            'einstellen',
+                            'lege fest',
+                            'festlegen',
+                            'mache',
+                            'mach',
+                            'soll',
+                            'soll sein',
+                            'muss',
+                            'muss sein',
+                            'muss gesetzt werden auf',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.Change,
+                    name: {
+                        value: 'ändern',
+                        synonyms: [
+                            'ändere',
+                            'ändern',
+                            'änder',
+                            'aktualisiere',
+                            'aktualisieren',
+                            'verschiebe',
+                            'verschieben',
+                            'wechsle',
+                            'wechseln',
+                            'tausche',
+                            'soll geändert werden',
+                            'soll geändert werden auf',
+                            'muss geändert werden',
+                            'muss geändert werden auf',
+                            'soll aktualisiert werden',
+                            'muss aktualisiert werden',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.Select,
+                    name: {
+                        value: 'auswählen',
+                        synonyms: [
+                            'wähle',
+                            'wählen',
+                            'auswählen',
+                            'wähle aus',
+                            'nimm',
+                            'nehmen',
+                            'ich nehme',
+                            'möchte',
+                            'brauche',
+                            'entscheide mich für',
+                            'nehme',
+                            'hätte gerne',
+                            'gehe mit',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.Complete,
+                    name: {
+                        value: 'fertig',
+                        synonyms: [
+                            'fertig',
+                            'bin fertig',
+                            'abschließen',
+                            'abgeschlossen',
+                            'das war es',
+                            'das wars',
+                            'das ist alles',
+                            'nichts weiter',
+                            'nichts mehr',
+                            'sonst nichts',
+                            'absenden',
+                            'abschicken',
+                            'erledigt',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.GoBack,
+                    name: {
+                        value: 'zurück',
+                        synonyms: [
+                            'zurück',
+                            'geh zurück',
+                            'gehe zurück',
+                            'zurück zum vorherigen',
+                            'zurück zum letzten',
+                            'zum vorherigen',
+                            'rückgängig',
+                            'rückgängig machen',
+                            'mach das rückgängig',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.Start,
+                    name: {
+                        value: 'starten',
+                        synonyms: ['starte', 'starten', 'beginne', 'beginnen', 'anfangen', 'fang an'],
+                    },
+                },
+                {
+                    id: $.Action.Restart,
+                    name: {
+                        value: 'neu starten',
+                        synonyms: [
+                            'neu starten',
+                            'starte neu',
+                            'von vorne',
+                            'fang von vorne an',
+                            'neu beginnen',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.Resume,
+                    name: {
+                        value: 'fortsetzen',
+                        synonyms: ['fortsetzen', 'setze fort', 'weiter', 'weitermachen', 'mach weiter'],
+                    },
+                },
+                {
+                    id: $.Action.Add,
+                    name: {
+                        value: 'hinzufügen',
+                        synonyms: ['hinzufügen', 'füge hinzu', 'füge', 'ergänze', 'ergänzen'],
+                    },
+                },
+                {
+                    id: $.Action.Remove,
+                    name: {
+                        value: 'entfernen',
+                        synonyms: ['entferne', 'entfernen', 'lösche', 'löschen', 'streiche', 'streichen'],
+                    },
+                },
+                {
+                    id: $.Action.Clear,
+                    name: {
+                        value: 'leeren',
+                        synonyms: ['alle entfernen', 'alles löschen', 'leeren', 'leere', 'zurücksetzen'],
+                    },
+                },
+                {
+                    id: $.Action.Ignore,
+                    name: {
+                        value: 'ignorieren',
+                        synonyms: ['ignoriere', 'ignorieren', 'überspringe', 'überspringen'],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_TARGET: {
+            name: SharedSlotType.TARGET,
+            values: [
+                {
+                    id: $.Target.It,
+                    name: {
+                        value: 'es',
+                        synonyms: [
+                            'es',
+                            'das',
+                            'dies',
+                            'dieses',
+                            'diese',
+                            'die',
+                            'sie',
+                            'sie alle',
+                            'alle',
+                            'die meisten',
+                            'die meisten davon',
+                            'fast alle',
+                            'fast alle davon',
+                        ],
+                    },
+                },
+                {
+                    id: $.Target.Date,
+                    name: {
+                        value: 'datum',
+                        synonyms: ['datum', 'das datum', 'tag', 'der tag', 'den tag'],
+                    },
+                },
+                {
+                    id: $.Target.Number,
+                    name: {
+                        value: 'zahl',
+                        synonyms: ['zahl', 'die zahl', 'nummer', 'die nummer'],
+                    },
+                },
+                {
+                    id: $.Target.Choice,
+                    name: {
+                        value: 'auswahl',
+                        synonyms: ['auswahl', 'meine auswahl', 'die auswahl', 'wahl', 'meine wahl'],
+                    },
+                },
+                {
+                    id: $.Target.Start,
+                    name: {
+                        value: 'anfang',
+                        synonyms: ['anfang', 'den anfang', 'der anfang', 'beginn', 'den beginn'],
+                    },
+                },
+                {
+                    id: $.Target.End,
+                    name: {
+                        value: 'ende',
+                        synonyms: ['ende', 'das ende'],
+                    },
+                },
+                {
+                    id: $.Target.StartDate,
+                    name: {
+                        value: 'startdatum',
+                        synonyms: [
+                            'startdatum',
+                            'das startdatum',
+                            'anfangsdatum',
+                            'das anfangsdatum',
+                            'beginn datum',
+                        ],
+                    },
+                },
+                {
+                    id: $.Target.EndDate,
+                    name: {
+                        value: 'enddatum',
+                        synonyms: ['enddatum', 'das enddatum', 'schlussdatum', 'das schlussdatum'],
+                    },
+                },
+                {
+                    id: $.Target.DateRange,
+                    name: {
+                        value: 'zeitraum',
+                        synonyms: ['zeitraum', 'den zeitraum', 'der zeitraum', 'daten', 'die daten'],
+                    },
+                },
+                {
+                    id: $.Target.Questionnaire,
+                    name: {
+                        value: 'fragebogen',
+                        synonyms: [
+                            'fragebogen',
+                            'den fragebogen',
+                            'der fragebogen',
+                            'die fragen',
+                            'umfrage',
+                            'die umfrage',
+                        ],
+                    },
+                },
+            ],
+        },
+    },
+};
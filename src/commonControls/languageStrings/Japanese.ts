@@ -0,0 +1,925 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { ResourceLanguage } from 'i18next';
+import { Strings as $ } from '../../constants/Strings';
+import { SharedSlotType } from '../../interactionModelGeneration/ModelTypes';
+
+/**
+ * Japanese localized data for built-ins.
+ *
+ * Registered as 'ja' in `defaultI18nResources` and therefore used for
+ * ja-JP.
+ */
+export const japaneseI18nResources: ResourceLanguage = {
+    translation: {
+        // DateControl Runtime
+        DATE_CONTROL_DEFAULT_PROMPT_VALUE_SET: 'わかりました。',
+        DATE_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED: '{{old}}から{{new}}に変更しました。',
+        DATE_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON:
+            'すみません、{{reason}}ため、その日付は使えません。',
+        DATE_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE: 'すみません、無効な日付です。',
+        DATE_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE: '何日ですか？',
+        DATE_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_VALUE: '何に変更しますか？',
+        DATE_CONTROL_DEFAULT_PROMPT_VALIDATION_FAIL_PAST_DATE_ONLY: '今日より後の日付は指定できない',
+        DATE_CONTROL_DEFAULT_PROMPT_VALIDATION_FAIL_FUTURE_DATE_ONLY: '今日より前の日付は指定できない',
+        DATE_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE: '{{value}}でよろしいですか？',
+        DATE_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED: 'よかったです。',
+        DATE_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED: '失礼しました。',
+        DATE_CONTROL_DEFAULT_REPROMPT_VALUE_SET: 'わかりました。',
+        DATE_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED: '{{old}}から{{new}}に変更しました。',
+        DATE_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON:
+            'すみません、{{reason}}ため、その日付は使えません。',
+        DATE_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE: 'すみません、無効な日付です。',
+        DATE_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE: '何日ですか？',
+        DATE_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_VALUE: '何に変更しますか？',
+        DATE_CONTROL_DEFAULT_REPROMPT_VALIDATION_FAIL_PAST_DATE_ONLY: '今日より後の日付は指定できない',
+        DATE_CONTROL_DEFAULT_REPROMPT_VALIDATION_FAIL_FUTURE_DATE_ONLY: '今日より前の日付は指定できない',
+        DATE_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE: '{{value}}でよろしいですか？',
+        DATE_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED: 'よかったです。',
+        DATE_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED: '失礼しました。',
+
+        // NumberControl Runtime
+        NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_SET: 'わかりました。{{value}}に設定しました。',
+        NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED: 'わかりました。{{value}}に変更しました。',
+        NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_CLEARED: 'わかりました。消去しました。',
+        NUMBER_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON:
+            'すみません、{{reason}}ため、それは選べません。',
+        NUMBER_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE: 'すみません、それは選べません。',
+        NUMBER_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE: 'いくつですか？',
+        NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_CONFIRMED: 'よかったです。',
+        NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED: '失礼しました。',
+        NUMBER_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE: '{{value}}でよろしいですか？',
+        NUMBER_CONTROL_DEFAULT_PROMPT_SUGGEST_VALUE: 'もしかして{{value}}ですか？',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_SET: 'わかりました。{{value}}に設定しました。',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED: 'わかりました。{{value}}に変更しました。',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_CLEARED: 'わかりました。消去しました。',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON:
+            'すみません、{{reason}}ため、それは選べません。',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE: 'すみません、それは選べません。',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE: 'いくつですか？',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_CONFIRMED: 'よかったです。',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED: '失礼しました。',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE: '{{value}}でよろしいですか？',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_SUGGEST_VALUE: 'もしかして{{value}}ですか？',
+        NUMBER_CONTROL_DEFAULT_APL_HEADER_TITLE: '数字を入力してください...',
+        NUMBER_CONTROL_DEFAULT_APL_INVALID_VALUE: 'すみません、「{{value}}」は選べません。',
+
+        // ValueControl Runtime
+        VALUE_CONTROL_DEFAULT_PROMPT_VALUE_SET: 'わかりました。{{value}}ですね。',
+        VALUE_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED: 'わかりました。{{value}}に変更しました。',
+        VALUE_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON:
+            'すみません、{{reason}}ため、{{value}}は選べません。',
+        VALUE_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE: 'すみません、{{value}}は選べません。',
+        VALUE_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE: '何に設定しますか？',
+        VALUE_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_VALUE: '何に変更しますか？',
+        VALUE_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE: '{{value}}でよろしいですか？',
+        VALUE_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED: 'よかったです。',
+        VALUE_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED: '失礼しました。',
+        VALUE_CONTROL_DEFAULT_REPROMPT_VALUE_SET: 'わかりました。{{value}}ですね。',
+        VALUE_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED: 'わかりました。{{value}}に変更しました。',
+        VALUE_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON:
+            'すみません、{{reason}}ため、{{value}}は選べません。',
+        VALUE_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE: 'すみません、{{value}}は選べません。',
+        VALUE_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE: '何に設定しますか？',
+        VALUE_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_VALUE: '何に変更しますか？',
+        VALUE_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE: '{{value}}でよろしいですか？',
+        VALUE_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED: 'よかったです。',
+        VALUE_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED: '失礼しました。',
+
+        // ListControl Runtime
+        LIST_CONTROL_DEFAULT_PROMPT_VALUE_SET: 'わかりました。{{value}}ですね。',
+        LIST_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED: 'わかりました。{{value}}に変更しました。',
+        LIST_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE: 'すみません、{{value}}は選べません。',
+        LIST_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON:
+            'すみません、{{reason}}ため、{{value}}は選べません。',
+        LIST_CONTROL_DEFAULT_PROMPT_UNUSABLE_INPUT_VALUE: 'すみません、その操作はできません。',
+        LIST_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE: 'どれにしますか？たとえば、{{suggestions}}があります。',
+        LIST_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_VALUE:
+            '何に変更しますか？たとえば、{{suggestions}}があります。',
+        LIST_CONTROL_DEFAULT_PROMPT_REQUEST_REMOVED_VALUE:
+            'どれを削除しますか？たとえば、{{suggestions}}があります。',
+        LIST_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE: '{{value}}でよろしいですか？',
+        LIST_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED: 'よかったです。',
+        LIST_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED: '失礼しました。',
+        LIST_CONTROL_DEFAULT_REPROMPT_VALUE_SET: 'わかりました。{{value}}ですね。',
+        LIST_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED: 'わかりました。{{value}}に変更しました。',
+        LIST_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE: 'すみません、{{value}}は選べません。',
+        LIST_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON:
+            'すみません、{{reason}}ため、{{value}}は選べません。',
+        LIST_CONTROL_DEFAULT_REPROMPT_UNUSABLE_INPUT_VALUE: 'すみません、その操作はできません。',
+        LIST_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE: 'どれにしますか？たとえば、{{suggestions}}があります。',
+        LIST_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_VALUE:
+            '何に変更しますか？たとえば、{{suggestions}}があります。',
+        LIST_CONTROL_DEFAULT_REPROMPT_REQUEST_REMOVED_VALUE:
+            'どれを削除しますか？たとえば、{{suggestions}}があります。',
+        LIST_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE: '{{value}}でよろしいですか？',
+        LIST_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED: 'よかったです。',
+        LIST_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED: '失礼しました。',
+        LIST_CONTROL_DEFAULT_APL_HEADER_TITLE: '選んでください',
+
+        // MultiValueListControl Runtime
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_VALUE_ADD: 'わかりました。{{value}}を追加しました。',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_VALUE_REMOVE: 'わかりました。{{value}}を削除しました。',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_VALUE_CLEARED:
+            'わかりました。リストから{{value}}を消去しました。',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_ACTION_SUGGEST:
+            '新しい項目を追加するか、既存の項目を変更できます',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE:
+            'すみません、{{value}}は存在しないため追加できません。',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON:
+            'すみません、{{reason}}ため、{{value}}は追加できません。',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_REMOVE_VALUE:
+            'すみません、{{value}}はリストにありません。',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE:
+            'どれにしますか？たとえば、{{suggestions}}があります。',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_REQUEST_REMOVED_VALUE:
+            'どれを削除しますか？たとえば、{{suggestions}}があります。',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_GENERAL_REQUEST_REMOVED_VALUE: 'どれを削除しますか？',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE:
+            'わかりました。{{value}}ですね。以上でよろしいですか？',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED: 'よかったです。',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_VALUE_ADD: 'わかりました。{{value}}を追加しました。',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_VALUE_REMOVE: 'わかりました。{{value}}を削除しました。',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_VALUE_CLEARED:
+            'わかりました。リストから{{value}}を消去しました。',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_ACTION_SUGGEST:
+            '新しい項目を追加するか、既存の項目を変更できます',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE:
+            'すみません、{{value}}は存在しないため追加できません。',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_REMOVE_VALUE:
+            'すみません、{{value}}はリストにありません。',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON:
+            'すみません、{{reason}}ため、{{value}}は追加できません。',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE:
+            'どれにしますか？たとえば、{{suggestions}}があります。',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_REQUEST_REMOVED_VALUE:
+            'どれを削除しますか？たとえば、{{suggestions}}があります。',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_GENERAL_REQUEST_REMOVED_VALUE: 'どれを削除しますか？',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE:
+            'わかりました。{{value}}ですね。以上でよろしいですか？',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED: 'よかったです。',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_HEADER_TITLE: 'リストを作成',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_HEADER_SUBTITLE:
+            '項目を言うかタップしてリストに追加してください',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_SELECTION_TITLE: '選択した項目',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_SELECTION_SUBTITLE: '左にスワイプすると項目を削除できます',
+
+        // DateRangeControl Runtime
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_START_DATE_SET: 'わかりました。開始日は{{value}}です。',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_START_DATE_CHANGED:
+            'わかりました。開始日を{{value}}に変更しました。',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_START_DATE: '開始日はいつにしますか？',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_START_DATE: '開始日をいつに変更しますか？',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_CONFIRM_START_DATE: '{{value}}でよろしいですか？',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_START_DATE_AFFIRMED: 'よかったです。',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_START_DATE_DISAFFIRMED: '失礼しました。',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_END_DATE_SET: 'わかりました。終了日は{{value}}です。',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_END_DATE_CHANGED: 'わかりました。終了日を{{value}}に変更しました。',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_END_DATE: '終了日はいつにしますか？',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_END_DATE: '終了日をいつに変更しますか？',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_CONFIRM_END_DATE: '{{value}}でよろしいですか？',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_END_DATE_AFFIRMED: 'よかったです。',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_END_DATE_DISAFFIRMED: '失礼しました。',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE: '開始日と終了日はいつにしますか？',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALUE_SET: 'わかりました。期間は{{value}}です。',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED: 'わかりました。期間を{{value}}に変更しました。',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_INVALID_START_WITH_REASON:
+            'すみません、{{reason}}ため、その開始日は使えません。',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_INVALID_END_WITH_REASON:
+            'すみません、{{reason}}ため、その終了日は使えません。',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON:
+            'すみません、{{reason}}ため、その期間は使えません。',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_DATE: 'すみません、無効な日付です。',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE: 'すみません、無効な期間です。',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALIDATION_FAIL_START_AFTER_END: '開始日を終了日より後にはできない',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED: 'よかったです。',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED: '失礼しました。',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE: '{{value}}でよろしいですか？',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_START_DATE_SET: 'わかりました。開始日は{{value}}です。',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_START_DATE_CHANGED:
+            'わかりました。開始日を{{value}}に変更しました。',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_START_DATE: '開始日はいつにしますか？',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_START_DATE: '開始日をいつに変更しますか？',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_CONFIRM_START_DATE: '{{value}}でよろしいですか？',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_START_DATE_AFFIRMED: 'よかったです。',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_START_DATE_DISAFFIRMED: '失礼しました。',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_END_DATE_SET: 'わかりました。終了日は{{value}}です。',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_END_DATE_CHANGED:
+            'わかりました。終了日を{{value}}に変更しました。',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_END_DATE: '終了日はいつにしますか？',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_END_DATE: '終了日をいつに変更しますか？',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_CONFIRM_END_DATE: '{{value}}でよろしいですか？',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_END_DATE_AFFIRMED: 'よかったです。',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_END_DATE_DISAFFIRMED: '失礼しました。',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE: '開始日と終了日はいつにしますか？',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_VALUE_SET: 'わかりました。期間は{{value}}です。',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED: 'わかりました。期間を{{value}}に変更しました。',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_INVALID_START_WITH_REASON:
+            'すみません、{{reason}}ため、その開始日は使えません。',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_INVALID_END_WITH_REASON:
+            'すみません、{{reason}}ため、その終了日は使えません。',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON:
+            'すみません、{{reason}}ため、その期間は使えません。',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_DATE: 'すみません、無効な日付です。',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE: 'すみません、無効な期間です。',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_VALIDATION_FAIL_START_AFTER_END:
+            '開始日を終了日より後にはできない',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED: 'よかったです。',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED: '失礼しました。',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE: '{{value}}でよろしいですか？',
+
+        // QuestionnaireControl
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_QUESTION_ANSWERED_LOW_RISK_OF_MISUNDERSTANDING: '',
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_QUESTION_ANSWERED_RISK_OF_MISUNDERSTANDING_CHOICE:
+            'わかりました。{{choice}}ですね。',
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_QUESTION_ANSWERED_RISK_OF_MISUNDERSTANDING_QUESTION_AND_CHOICE:
+            'わかりました。{{question}}は{{choice}}ですね。',
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_COMPLETED: 'ありがとうございました。',
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_COMPLETION_REJECTED:
+            'すみません、{{renderedReason}}は選べません。',
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_ACKNOWLEDGE_NOT_COMPLETE:
+            'わかりました。終わったら教えてください。',
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_ASK_IF_COMPLETE: 'すべての回答でよろしいですか？',
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_ASK_IF_COMPLETE_TERSE: '',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_QUESTION_ANSWERED_LOW_RISK_OF_MISUNDERSTANDING: '',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_QUESTION_ANSWERED_RISK_OF_MISUNDERSTANDING_CHOICE:
+            'わかりました。{{choice}}ですね。',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_QUESTION_ANSWERED_RISK_OF_MISUNDERSTANDING_QUESTION_AND_CHOICE:
+            'わかりました。{{question}}は{{choice}}ですね。',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_COMPLETED: 'ありがとうございました。',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_COMPLETION_REJECTED:
+            'すみません、{{renderedReason}}は選べません。',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_ACKNOWLEDGE_NOT_COMPLETE:
+            'わかりました。終わったら教えてください。',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_ASK_IF_COMPLETE: 'すべての回答でよろしいですか？',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_ASK_IF_COMPLETE_TERSE: '',
+        QUESTIONNAIRE_CONTROL_DEFAULT_APL_HEADER_TITLE: '選んでください...',
+        QUESTIONNAIRE_CONTROL_DEFAULT_APL_SUBMIT_TEXT: '送信 >',
+        QUESTIONNAIRE_CONTROL_DEFAULT_ANSWER_SUMMARY_ITEM: '{{question}}は{{choice}}',
+
+        // Content Act default prompts
+        UNUSABLE_INPUT_VALUE_ACT_DEFAULT_PROMPT: 'すみません、{{value}}。',
+        ACKNOWLEDGE_INPUT_ACT_DEFAULT_PROMPT: 'わかりました。',
+        VALUE_SET_ACT_DEFAULT_PROMPT: 'わかりました。{{value}}ですね。',
+        VALUE_CHANGED_ACT_DEFAULT_PROMPT: 'わかりました。{{value}}に更新しました。',
+        INVALID_VALUE_ACT_DEFAULT_PROMPT: 'すみません、{{value}}。',
+        VALUE_CONFIRMED_ACT_DEFAULT_PROMPT: 'よかったです。',
+        VALUE_DISCONFIRMED_ACT_DEFAULT_PROMPT: '失礼しました。',
+        NON_UNDERSTANDING_ACT_DEFAULT_PROMPT: 'すみません、よくわかりませんでした。',
+        LAUNCH_ACT_DEFAULT_PROMPT: 'ようこそ。',
+        VALUE_ADDED_ACT_DEFAULT_PROMPT: 'わかりました。{{value}}を追加しました。',
+        VALUE_REMOVED_ACT_DEFAULT_PROMPT: 'わかりました。{{value}}を削除しました。',
+        VALUE_CLEARED_ACT_DEFAULT_PROMPT: 'わかりました。{{value}}を消去しました。',
+        INVALID_REMOVE_VALUE_ACT_DEFAULT_PROMPT: 'すみません、{{value}}は無効です。',
+        STATE_REVERTED_ACT_DEFAULT_PROMPT: 'わかりました。元に戻しました。',
+
+        // Initiative Act default prompts
+        REQUEST_VALUE_ACT_DEFAULT_PROMPT: '{{value}}は何にしますか？',
+        REQUEST_CHANGED_VALUE_ACT_DEFAULT_PROMPT: '{{value}}を何に変更しますか？',
+        REQUEST_VALUE_BY_LIST_ACT_DEFAULT_PROMPT: '{{value}}は何にしますか？{{choices}}などから選べます。',
+        REQUEST_CHANGED_VALUE_BY_LIST_ACT_DEFAULT_PROMPT:
+            '{{value}}を何に変更しますか？{{choices}}などから選べます。',
+        REQUEST_REMOVED_VALUE_BY_LIST_ACT_DEFAULT_PROMPT:
+            '{{value}}から何を削除しますか？{{choices}}などから選べます。',
+        CONFIRM_VALUE_ACT_DEFAULT_PROMPT: '{{value}}でよろしいですか？',
+        SUGGEST_VALUE_ACT_DEFAULT_PROMPT: 'もしかして{{value}}ですか？',
+        SUGGEST_ACTION_ACT_DEFAULT_PROMPT: '項目を追加または変更できます。',
+        RESUME_OFFER_ACT_DEFAULT_PROMPT: '前回の続きから始めますか？',
+        DISAMBIGUATE_TARGET_ACT_DEFAULT_PROMPT: '{{targets}}のどちらですか？',
+        DISAMBIGUATE_TARGET_ACT_DEFAULT_TARGET: '{{target}}',
+
+        // ControlIntent Samples
+        CONJUNCTION_CONTROL_INTENT_SAMPLES: [
+            '{target.a} {conjunction} {target.b} を {action}',
+            '{target.a} {conjunction} {target.b} を {action} {tail}',
+            '{feedback} {target.a} {conjunction} {target.b} を {action}',
+            '{feedback} {target.a} {conjunction} {target.b} を {action} {tail}',
+            '{head} {target.a} {conjunction} {target.b} を {action}',
+            '{head} {target.a} {conjunction} {target.b} を {action} {tail}',
+        ],
+        DATE_CONTROL_INTENT_SAMPLES: [
+            '{AMAZON.DATE}',
+            '{AMAZON.DATE} {tail}',
+            '{feedback} {AMAZON.DATE}',
+            '{feedback} {AMAZON.DATE} {tail}',
+            '{head} {AMAZON.DATE}',
+            '{head} {AMAZON.DATE} {tail}',
+            '{AMAZON.DATE} {action}',
+            '{AMAZON.DATE} {action} {tail}',
+            '{feedback} {AMAZON.DATE} {action}',
+            '{feedback} {AMAZON.DATE} {action} {tail}',
+            '{head} {AMAZON.DATE} {action}',
+            '{head} {AMAZON.DATE} {action} {tail}',
+            '{AMAZON.DATE} {preposition} {action}',
+            '{AMAZON.DATE} {preposition} {action} {tail}',
+            '{feedback} {AMAZON.DATE} {preposition} {action}',
+            '{feedback} {AMAZON.DATE} {preposition} {action} {tail}',
+            '{head} {AMAZON.DATE} {preposition} {action}',
+            '{head} {AMAZON.DATE} {preposition} {action} {tail}',
+            '{target} {preposition} {AMAZON.DATE}',
+            '{target} {preposition} {AMAZON.DATE} {tail}',
+            '{feedback} {target} {preposition} {AMAZON.DATE}',
+            '{feedback} {target} {preposition} {AMAZON.DATE} {tail}',
+            '{head} {target} {preposition} {AMAZON.DATE}',
+            '{head} {target} {preposition} {AMAZON.DATE} {tail}',
+            '{target} を {AMAZON.DATE} {preposition} {action}',
+            '{target} を {AMAZON.DATE} {preposition} {action} {tail}',
+            '{feedback} {target} を {AMAZON.DATE} {preposition} {action}',
+            '{feedback} {target} を {AMAZON.DATE} {preposition} {action} {tail}',
+            '{head} {target} を {AMAZON.DATE} {preposition} {action}',
+            '{head} {target} を {AMAZON.DATE} {preposition} {action} {tail}',
+        ],
+        DATE_RANGE_CONTROL_INTENT_SAMPLES: [
+            '{AMAZON.DATE.a} {conjunction} {AMAZON.DATE.b}',
+            '{AMAZON.DATE.a} {conjunction} {AMAZON.DATE.b} {tail}',
+            '{feedback} {AMAZON.DATE.a} {conjunction} {AMAZON.DATE.b}',
+            '{feedback} {AMAZON.DATE.a} {conjunction} {AMAZON.DATE.b} {tail}',
+            '{head} {AMAZON.DATE.a} {conjunction} {AMAZON.DATE.b}',
+            '{head} {AMAZON.DATE.a} {conjunction} {AMAZON.DATE.b} {tail}',
+            '{AMAZON.DATE.a} {preposition.a} {AMAZON.DATE.b} {preposition.b}',
+            '{AMAZON.DATE.a} {preposition.a} {AMAZON.DATE.b} {preposition.b} {tail}',
+            '{feedback} {AMAZON.DATE.a} {preposition.a} {AMAZON.DATE.b} {preposition.b}',
+            '{feedback} {AMAZON.DATE.a} {preposition.a} {AMAZON.DATE.b} {preposition.b} {tail}',
+            '{head} {AMAZON.DATE.a} {preposition.a} {AMAZON.DATE.b} {preposition.b}',
+            '{head} {AMAZON.DATE.a} {preposition.a} {AMAZON.DATE.b} {preposition.b} {tail}',
+            '{AMAZON.DATE.a} から {AMAZON.DATE.b} まで',
+            '{AMAZON.DATE.a} から {AMAZON.DATE.b} まで {tail}',
+            '{feedback} {AMAZON.DATE.a} から {AMAZON.DATE.b} まで',
+            '{feedback} {AMAZON.DATE.a} から {AMAZON.DATE.b} まで {tail}',
+            '{head} {AMAZON.DATE.a} から {AMAZON.DATE.b} まで',
+            '{head} {AMAZON.DATE.a} から {AMAZON.DATE.b} まで {tail}',
+            '{AMAZON.DATE.a} {preposition.a} {AMAZON.DATE.b} {preposition.b} {action}',
+            '{AMAZON.DATE.a} から {AMAZON.DATE.b} まで {action}',
+            '{target} を {AMAZON.DATE.a} {preposition.a} {AMAZON.DATE.b} {preposition.b} {action}',
+            '{target} を {AMAZON.DATE.a} から {AMAZON.DATE.b} まで {action}',
+            '{target.a} を {AMAZON.DATE.a} {preposition.a} {conjunction} {target.b} を {AMAZON.DATE.b} {preposition.b} {action}',
+        ],
+        GENERAL_CONTROL_INTENT_SAMPLES: [
+            '{feedback} {action}',
+            '{feedback} {target} を {action}',
+            '{filteredFeedback} {tail}',
+            '{feedback} {action} {tail}',
+            '{feedback} {target} を {action} {tail}',
+            '{target}',
+            '{feedback} {target}',
+            '{head} {target}',
+            '{target} {tail}',
+            '{target} を {action}',
+            '{head} {action}',
+            '{head} {target} を {action}',
+            '{action} {tail}',
+            '{target} を {action} {tail}',
+            '{head} {action} {tail}',
+            '{head} {target} を {action} {tail}',
+        ],
+        NUMBER_CONTROL_INTENT_SAMPLES: [
+            '{AMAZON.NUMBER}',
+            '{AMAZON.NUMBER} {tail}',
+            '{feedback} {AMAZON.NUMBER}',
+            '{feedback} {AMAZON.NUMBER} {tail}',
+            '{head} {AMAZON.NUMBER}',
+            '{head} {AMAZON.NUMBER} {tail}',
+            '{AMAZON.NUMBER} {action}',
+            '{AMAZON.NUMBER} {action} {tail}',
+            '{feedback} {AMAZON.NUMBER} {action}',
+            '{feedback} {AMAZON.NUMBER} {action} {tail}',
+            '{head} {AMAZON.NUMBER} {action}',
+            '{head} {AMAZON.NUMBER} {action} {tail}',
+            '{AMAZON.NUMBER} {preposition} {action}',
+            '{AMAZON.NUMBER} {preposition} {action} {tail}',
+            '{feedback} {AMAZON.NUMBER} {preposition} {action}',
+            '{feedback} {AMAZON.NUMBER} {preposition} {action} {tail}',
+            '{head} {AMAZON.NUMBER} {preposition} {action}',
+            '{head} {AMAZON.NUMBER} {preposition} {action} {tail}',
+            '{target} {preposition} {AMAZON.NUMBER}',
+            '{target} {preposition} {AMAZON.NUMBER} {tail}',
+            '{feedback} {target} {preposition} {AMAZON.NUMBER}',
+            '{feedback} {target} {preposition} {AMAZON.NUMBER} {tail}',
+            '{head} {target} {preposition} {AMAZON.NUMBER}',
+            '{head} {target} {preposition} {AMAZON.NUMBER} {tail}',
+            '{target} を {AMAZON.NUMBER} {preposition} {action}',
+            '{target} を {AMAZON.NUMBER} {preposition} {action} {tail}',
+            '{feedback} {target} を {AMAZON.NUMBER} {preposition} {action}',
+            '{feedback} {target} を {AMAZON.NUMBER} {preposition} {action} {tail}',
+            '{head} {target} を {AMAZON.NUMBER} {preposition} {action}',
+            '{head} {target} を {AMAZON.NUMBER} {preposition} {action} {tail}',
+        ],
+        ORDINAL_CONTROL_INTENT_SAMPLES: [
+            '{AMAZON.Ordinal}',
+            '{AMAZON.Ordinal} {tail}',
+            '{feedback} {AMAZON.Ordinal}',
+            '{feedback} {AMAZON.Ordinal} {tail}',
+            '{head} {AMAZON.Ordinal}',
+            '{head} {AMAZON.Ordinal} {tail}',
+            '{AMAZON.Ordinal} のもの',
+            '{AMAZON.Ordinal} のもの {tail}',
+            '{feedback} {AMAZON.Ordinal} のもの',
+            '{feedback} {AMAZON.Ordinal} のもの {tail}',
+            '{head} {AMAZON.Ordinal} のもの',
+            '{head} {AMAZON.Ordinal} のもの {tail}',
+            '{AMAZON.Ordinal} {action}',
+            '{AMAZON.Ordinal} {action} {tail}',
+            '{feedback} {AMAZON.Ordinal} {action}',
+            '{feedback} {AMAZON.Ordinal} {action} {tail}',
+            '{head} {AMAZON.Ordinal} {action}',
+            '{head} {AMAZON.Ordinal} {action} {tail}',
+            '{AMAZON.Ordinal} {preposition} {action}',
+            '{AMAZON.Ordinal} {preposition} {action} {tail}',
+            '{feedback} {AMAZON.Ordinal} {preposition} {action}',
+            '{feedback} {AMAZON.Ordinal} {preposition} {action} {tail}',
+            '{head} {AMAZON.Ordinal} {preposition} {action}',
+            '{head} {AMAZON.Ordinal} {preposition} {action} {tail}',
+            '{AMAZON.Ordinal} のもの {preposition} {action}',
+            '{AMAZON.Ordinal} のもの {preposition} {action} {tail}',
+            '{feedback} {AMAZON.Ordinal} のもの {preposition} {action}',
+            '{feedback} {AMAZON.Ordinal} のもの {preposition} {action} {tail}',
+            '{head} {AMAZON.Ordinal} のもの {preposition} {action}',
+            '{head} {AMAZON.Ordinal} のもの {preposition} {action} {tail}',
+            '{target} {preposition} {AMAZON.Ordinal}',
+            '{target} {preposition} {AMAZON.Ordinal} {tail}',
+            '{feedback} {target} {preposition} {AMAZON.Ordinal}',
+            '{feedback} {target} {preposition} {AMAZON.Ordinal} {tail}',
+            '{head} {target} {preposition} {AMAZON.Ordinal}',
+            '{head} {target} {preposition} {AMAZON.Ordinal} {tail}',
+            '{target} を {AMAZON.Ordinal} {preposition} {action}',
+            '{target} を {AMAZON.Ordinal} {preposition} {action} {tail}',
+            '{feedback} {target} を {AMAZON.Ordinal} {preposition} {action}',
+            '{feedback} {target} を {AMAZON.Ordinal} {preposition} {action} {tail}',
+            '{head} {target} を {AMAZON.Ordinal} {preposition} {action}',
+            '{head} {target} を {AMAZON.Ordinal} {preposition} {action} {tail}',
+        ],
+        VALUE_CONTROL_INTENT_SAMPLES: [
+            '[[filteredValueSlotType]]',
+            '{feedback} [[filteredValueSlotType]]',
+            '{head} [[filteredValueSlotType]]',
+            '[[filteredValueSlotType]] {tail}',
+            '{feedback} [[filteredValueSlotType]] {tail}',
+            '{head} [[filteredValueSlotType]] {tail}',
+            '[[valueSlotType]] {action}',
+            '[[valueSlotType]] {action} {tail}',
+            '{feedback} [[valueSlotType]] {action}',
+            '{feedback} [[valueSlotType]] {action} {tail}',
+            '{head} [[valueSlotType]] {action}',
+            '{head} [[valueSlotType]] {action} {tail}',
+            '[[valueSlotType]] {preposition} {action}',
+            '[[valueSlotType]] {preposition} {action} {tail}',
+            '{feedback} [[valueSlotType]] {preposition} {action}',
+            '{feedback} [[valueSlotType]] {preposition} {action} {tail}',
+            '{head} [[valueSlotType]] {preposition} {action}',
+            '{head} [[valueSlotType]] {preposition} {action} {tail}',
+            '{target} {preposition} [[valueSlotType]]',
+            '{target} {preposition} [[valueSlotType]] {tail}',
+            '{feedback} {target} {preposition} [[valueSlotType]]',
+            '{feedback} {target} {preposition} [[valueSlotType]] {tail}',
+            '{head} {target} {preposition} [[valueSlotType]]',
+            '{head} {target} {preposition} [[valueSlotType]] {tail}',
+            '{target} を [[valueSlotType]] {preposition} {action}',
+            '{target} を [[valueSlotType]] {preposition} {action} {tail}',
+            '{feedback} {target} を [[valueSlotType]] {preposition} {action}',
+            '{feedback} {target} を [[valueSlotType]] {preposition} {action} {tail}',
+            '{head} {target} を [[valueSlotType]] {preposition} {action}',
+            '{head} {target} を [[valueSlotType]] {preposition} {action} {tail}',
+            '{target} [[valueSlotType]]',
+            '{target} [[valueSlotType]] {tail}',
+            '{feedback} {target} [[valueSlotType]]',
+            '{feedback} {target} [[valueSlotType]] {tail}',
+            '{head} {target} [[valueSlotType]]',
+            '{head} {target} [[valueSlotType]] {tail}',
+            '[[valueSlotType]] {target}',
+            '[[valueSlotType]] {target} {tail}',
+            '{feedback} [[valueSlotType]] {target}',
+            '{feedback} [[valueSlotType]] {target} {tail}',
+            '{head} [[valueSlotType]] {target}',
+            '{head} [[valueSlotType]] {target} {tail}',
+        ],
+
+        // Shared Slot Type values
+        SHARED_SLOT_TYPES_FEEDBACK: {
+            name: SharedSlotType.FEEDBACK,
+            values: [
+                {
+                    id: $.Feedback.Affirm,
+                    name: {
+                        value: 'はい',
+                        synonyms: [
+                            'はい',
+                            'うん',
+                            'ええ',
+                            'そう',
+                            'そうです',
+                            'そうだよ',
+                            'そのとおり',
+                            'その通りです',
+                            '正解',
+                            '合ってる',
+                            '合っています',
+                            'いいよ',
+                            'いいです',
+                            'いいですよ',
+                            'オッケー',
+                            'OK',
+                            'もちろん',
+                            'ぜひ',
+                            'お願い',
+                            'お願いします',
+                            'はい お願いします',
+                            'はい そうです',
+                            '大丈夫',
+                            '大丈夫です',
+                            'それで',
+                            'それでいい',
+                            'それでお願いします',
+                            'あります',
+                            'はい あります',
+                        ],
+                    },
+                },
+                {
+                    id: $.Feedback.Disaffirm,
+                    name: {
+                        value: 'いいえ',
+                        synonyms: [
+                            'いいえ',
+                            'いや',
+                            'ううん',
+                            'ちがう',
+                            '違う',
+                            '違います',
+                            'いいえ 違います',
+                            'そうじゃない',
+                            'そうではありません',
+                            'だめ',
+                            'ダメ',
+                            '間違い',
+                            '間違っています',
+                            'それじゃない',
+                            'それではありません',
+                            '全然違う',
+                            '絶対違う',
+                            'いいえ 結構です',
+                            '結構です',
+                            'やめて',
+                            'ありません',
+                            'ない',
+                            'いいえ ありません',
+                        ],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_FILTERED_FEEDBACK: {
+            name: SharedSlotType.FILTERED_FEEDBACK,
+            values: [
+                {
+                    id: 'placeholder',
+                    name: {
+                        value: 'placeholder_awaiting_real_values',
+                        synonyms: ['placeholder_awaiting_real_values_synonym'],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_HEAD: {
+            name: SharedSlotType.HEAD,
+            values: [
+                {
+                    id: $.Head,
+                    name: {
+                        value: 'えっと',
+                        synonyms: [
+                            'えっと',
+                            'ええと',
+                            'あの',
+                            'じゃあ',
+                            'では',
+                            'それでは',
+                            'それなら',
+                            'なら',
+                            'たぶん',
+                            '多分',
+                            'やっぱり',
+                            'ちょっと',
+                            'ただ',
+                            'とりあえず',
+                            'えーと',
+                            'うーん',
+                        ],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_TAIL: {
+            name: SharedSlotType.TAIL,
+            values: [
+                {
+                    id: $.Tail,
+                    name: {
+                        value: 'お願いします',
+                        synonyms: [
+                            'お願いします',
+                            'お願い',
+                            'ください',
+                            'してください',
+                            'でお願いします',
+                            'で',
+                            'でいい',
+                            'でいいです',
+                            'で大丈夫',
+                            'で大丈夫です',
+                            'がいい',
+                            'がいいです',
+                            'にして',
+                            'にしてください',
+                            'ありがとう',
+                            'ありがとうございます',
+                            'です',
+                            'だよ',
+                            'かな',
+                            '一度に',
+                        ],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_CONJUNCTION: {
+            name: SharedSlotType.CONJUNCTION,
+            values: [
+                {
+                    id: $.Conjunction,
+                    name: {
+                        value: 'と',
+                        synonyms: ['と', 'そして', 'それから', 'あと', 'および', 'や'],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_PREPOSITION: {
+            name: SharedSlotType.PREPOSITION,
+            values: [
+                {
+                    id: $.Preposition,
+                    name: {
+                        value: 'に',
+                        synonyms: ['に', 'を', 'は', 'が', 'で', 'へ', 'から', 'まで', 'の', 'には', 'では'],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_ACTION: {
+            name: SharedSlotType.ACTION,
+            values: [
+                {
+                    id: $.Action.Set,
+                    name: {
+                        value: '設定',
+                        synonyms: [
+                            '設定',
+                            '設定して',
+                            '設定する',
+                            'セット',
+                            'セットして',
+                            'して',
+                            'にして',
+                            'する',
+                            '決めて',
+                            '指定して',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.Change,
+                    name: {
+                        value: '変更',
+                        synonyms: [
+                            '変更',
+                            '変更して',
+                            '変更する',
+                            '変えて',
+                            '変える',
+                            '更新',
+                            '更新して',
+                            '移動',
+                            '移動して',
+                            '切り替えて',
+                            '直して',
+                            '修正して',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.Select,
+                    name: {
+                        value: '選択',
+                        synonyms: [
+                            '選択',
+                            '選択して',
+                            '選んで',
+                            '選ぶ',
+                            'にする',
+                            'がいい',
+                            'ほしい',
+                            '欲しい',
+                            '必要',
+                            'もらう',
+                            'で決まり',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.Complete,
+                    name: {
+                        value: '完了',
+                        synonyms: [
+                            '完了',
+                            '完了して',
+                            '終わり',
+                            '終わった',
+                            '終わりました',
+                            '以上',
+                            '以上です',
+                            'それだけ',
+                            'それで全部',
+                            'もうない',
+                            'ほかにない',
+                            '送信',
+                            '送信して',
+                            '確定',
+                            '確定して',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.GoBack,
+                    name: {
+                        value: '戻る',
+                        synonyms: [
+                            '戻る',
+                            '戻って',
+                            '前に戻る',
+                            '前に戻って',
+                            '一つ前',
+                            'ひとつ前',
+                            '元に戻して',
+                            '取り消して',
+                            '取り消し',
+                            'やり直し',
+                            'アンドゥ',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.Start,
+                    name: {
+                        value: '開始',
+                        synonyms: ['開始', '開始して', 'スタート', '始めて', '始める'],
+                    },
+                },
+                {
+                    id: $.Action.Restart,
+                    name: {
+                        value: '最初から',
+                        synonyms: [
+                            '最初から',
+                            '最初からやり直して',
+                            'もう一度最初から',
+                            'リスタート',
+                            '再開始',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.Resume,
+                    name: {
+                        value: '続ける',
+                        synonyms: ['続ける', '続けて', '続きから', '再開', '再開して'],
+                    },
+                },
+                {
+                    id: $.Action.Add,
+                    name: {
+                        value: '追加',
+                        synonyms: ['追加', '追加して', '足して', '加えて', '入れて'],
+                    },
+                },
+                {
+                    id: $.Action.Remove,
+                    name: {
+                        value: '削除',
+                        synonyms: ['削除', '削除して', '消して', '外して', '取り除いて'],
+                    },
+                },
+                {
+                    id: $.Action.Clear,
+                    name: {
+                        value: 'クリア',
+                        synonyms: ['クリア', 'クリアして', '全部消して', 'すべて削除して', '全部削除して'],
+                    },
+                },
+                {
+                    id: $.Action.Ignore,
+                    name: {
+                        value: '無視',
+                        synonyms: ['無視', '無視して', 'スキップ', 'スキップして', '飛ばして'],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_TARGET: {
+            name: SharedSlotType.TARGET,
+            values: [
+                {
+                    id: $.Target.It,
+                    name: {
+                        value: 'それ',
+                        synonyms: [
+                            'それ',
+                            'これ',
+                            'あれ',
+                            'それら',
+                            'これら',
+                            '全部',
+                            'すべて',
+                            'ほとんど',
+                            'ほとんど全部',
+                            'だいたい全部',
+                        ],
+                    },
+                },
+                {
+                    id: $.Target.Date,
+                    name: {
+                        value: '日付',
+                        synonyms: ['日付', '日にち', '日'],
+                    },
+                },
+                {
+                    id: $.Target.Number,
+                    name: {
+                        value: '数字',
+                        synonyms: ['数字', '数', '番号'],
+                    },
+                },
+                {
+                    id: $.Target.Choice,
+                    name: {
+                        value: '選択',
+                        synonyms: ['選択', '選択肢', '私の選択', '選んだもの'],
+                    },
+                },
+                {
+                    id: $.Target.Start,
+                    name: {
+                        value: '最初',
+                        synonyms: ['最初', 'はじめ', '始まり'],
+                    },
+                },
+                {
+                    id: $.Target.End,
+                    name: {
+                        value: '最後',
+                        synonyms: ['最後', '終わり'],
+                    },
+                },
+                {
+                    id: $.Target.StartDate,
+                    name: {
+                        value: '開始日',
+                        synonyms: ['開始日', '始まりの日', '出発日', '初日'],
+                    },
+                },
+                {
+                    id: $.Target.EndDate,
+                    name: {
+                        value: '終了日',
+                        synonyms: ['終了日', '終わりの日', '最終日', '帰りの日'],
+                    },
+                },
+                {
+                    id: $.Target.DateRange,
+                    name: {
+                        value: '期間',
+                        synonyms: ['期間', '日程', '日付の範囲'],
+                    },
+                },
+                {
+                    id: $.Target.Questionnaire,
+                    name: {
+                        value: 'アンケート',
+                        synonyms: ['アンケート', '質問', '質問票', '調査'],
+                    },
+                },
+            ],
+        },
+    },
+};
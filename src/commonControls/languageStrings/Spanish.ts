@@ -0,0 +1,1022 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { ResourceLanguage } from 'i18next';
+import { Strings as $ } from '../../constants/Strings';
+import { SharedSlotType } from '../../interactionModelGeneration/ModelTypes';
+
+/**
+ * Spanish localized data for built-ins.
+ *
+ * Registered as 'es' in `defaultI18nResources` and therefore used for
+ * es-ES, es-MX and es-US.
+ */
+export const spanishI18nResources: ResourceLanguage = {
+    translation: {
+        // DateControl Runtime
+        DATE_CONTROL_DEFAULT_PROMPT_VALUE_SET: 'De acuerdo.',
+        DATE_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED: 'Cambiado de {{old}} a {{new}}.',
+        DATE_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON:
+            'Lo siento, esa fecha no es válida porque {{reason}}.',
+        DATE_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE: 'Lo siento, fecha no válida.',
+        DATE_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE: '¿Qué fecha?',
+        DATE_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_VALUE: '¿Por qué lo cambio?',
+        DATE_CONTROL_DEFAULT_PROMPT_VALIDATION_FAIL_PAST_DATE_ONLY: 'la fecha no puede ser posterior a hoy',
+        DATE_CONTROL_DEFAULT_PROMPT_VALIDATION_FAIL_FUTURE_DATE_ONLY: 'la fecha no puede ser anterior a hoy',
+        DATE_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE: '¿Era {{value}}?',
+        DATE_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED: 'Genial.',
+        DATE_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED: 'Error mío.',
+        DATE_CONTROL_DEFAULT_REPROMPT_VALUE_SET: 'De acuerdo.',
+        DATE_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED: 'Cambiado de {{old}} a {{new}}.',
+        DATE_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON:
+            'Lo siento, esa fecha no es válida porque {{reason}}.',
+        DATE_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE: 'Lo siento, fecha no válida.',
+        DATE_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE: '¿Qué fecha?',
+        DATE_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_VALUE: '¿Por qué lo cambio?',
+        DATE_CONTROL_DEFAULT_REPROMPT_VALIDATION_FAIL_PAST_DATE_ONLY: 'la fecha no puede ser posterior a hoy',
+        DATE_CONTROL_DEFAULT_REPROMPT_VALIDATION_FAIL_FUTURE_DATE_ONLY:
+            'la fecha no puede ser anterior a hoy',
+        DATE_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE: '¿Era {{value}}?',
+        DATE_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED: 'Genial.',
+        DATE_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED: 'Error mío.',
+
+        // NumberControl Runtime
+        NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_SET: 'De acuerdo. El valor es {{value}}.',
+        NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED: 'De acuerdo. El valor se ha cambiado a {{value}}.',
+        NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_CLEARED: 'De acuerdo, borrado.',
+        NUMBER_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON:
+            'Lo siento, esa opción no es válida porque {{reason}}.',
+        NUMBER_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE: 'Lo siento, esa opción no es válida.',
+        NUMBER_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE: '¿Qué número?',
+        NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_CONFIRMED: 'Genial.',
+        NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED: 'Error mío.',
+        NUMBER_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE: '¿Era {{value}}?',
+        NUMBER_CONTROL_DEFAULT_PROMPT_SUGGEST_VALUE: '¿Quizás quisiste decir {{value}}?',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_SET: 'De acuerdo. El valor es {{value}}.',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED: 'De acuerdo. El valor se ha cambiado a {{value}}.',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_CLEARED: 'De acuerdo, borrado.',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON:
+            'Lo siento, esa opción no es válida porque {{reason}}.',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE: 'Lo siento, esa opción no es válida.',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE: '¿Qué número?',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_CONFIRMED: 'Genial.',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED: 'Error mío.',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE: '¿Era {{value}}?',
+        NUMBER_CONTROL_DEFAULT_REPROMPT_SUGGEST_VALUE: '¿Quizás quisiste decir {{value}}?',
+        NUMBER_CONTROL_DEFAULT_APL_HEADER_TITLE: 'Introduce un número...',
+        NUMBER_CONTROL_DEFAULT_APL_INVALID_VALUE: "Lo siento, '{{value}}' no es una opción válida.",
+
+        // ValueControl Runtime
+        VALUE_CONTROL_DEFAULT_PROMPT_VALUE_SET: 'De acuerdo, {{value}}.',
+        VALUE_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED: 'De acuerdo, lo he cambiado a {{value}}.',
+        VALUE_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON:
+            'Lo siento, {{value}} no es una opción válida porque {{reason}}.',
+        VALUE_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE: 'Lo siento, {{value}} no es una opción válida.',
+        VALUE_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE: '¿Qué valor le pongo?',
+        VALUE_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_VALUE: '¿Por qué lo cambio?',
+        VALUE_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE: '¿Era {{value}}?',
+        VALUE_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED: 'Genial.',
+        VALUE_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED: 'Error mío.',
+        VALUE_CONTROL_DEFAULT_REPROMPT_VALUE_SET: 'De acuerdo, {{value}}.',
+        VALUE_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED: 'De acuerdo, lo he cambiado a {{value}}.',
+        VALUE_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON:
+            'Lo siento, {{value}} no es una opción válida porque {{reason}}.',
+        VALUE_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE: 'Lo siento, {{value}} no es una opción válida.',
+        VALUE_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE: '¿Qué valor le pongo?',
+        VALUE_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_VALUE: '¿Por qué lo cambio?',
+        VALUE_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE: '¿Era {{value}}?',
+        VALUE_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED: 'Genial.',
+        VALUE_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED: 'Error mío.',
+
+        // ListControl Runtime
+        LIST_CONTROL_DEFAULT_PROMPT_VALUE_SET: 'De acuerdo, {{value}}.',
+        LIST_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED: 'De acuerdo, lo he cambiado a {{value}}.',
+        LIST_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE: 'Lo siento, {{value}} no es una opción válida.',
+        LIST_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON:
+            'Lo siento, {{value}} no es una opción válida porque {{reason}}.',
+        LIST_CONTROL_DEFAULT_PROMPT_UNUSABLE_INPUT_VALUE: 'Lo siento, no sé cómo hacer eso.',
+        LIST_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE: '¿Qué eliges? Algunas sugerencias son {{suggestions}}.',
+        LIST_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_VALUE:
+            '¿Por qué lo cambio? Algunas sugerencias son {{suggestions}}.',
+        LIST_CONTROL_DEFAULT_PROMPT_REQUEST_REMOVED_VALUE:
+            '¿Qué valor quieres quitar? Algunas sugerencias son {{suggestions}}.',
+        LIST_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE: '¿Era {{value}}?',
+        LIST_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED: 'Genial.',
+        LIST_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED: 'Error mío.',
+        LIST_CONTROL_DEFAULT_REPROMPT_VALUE_SET: 'De acuerdo, {{value}}.',
+        LIST_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED: 'De acuerdo, lo he cambiado a {{value}}.',
+        LIST_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE: 'Lo siento, {{value}} no es una opción válida.',
+        LIST_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON:
+            'Lo siento, {{value}} no es una opción válida porque {{reason}}.',
+        LIST_CONTROL_DEFAULT_REPROMPT_UNUSABLE_INPUT_VALUE: 'Lo siento, no sé cómo hacer eso.',
+        LIST_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE: '¿Qué eliges? Algunas sugerencias son {{suggestions}}.',
+        LIST_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_VALUE:
+            '¿Por qué lo cambio? Algunas sugerencias son {{suggestions}}.',
+        LIST_CONTROL_DEFAULT_REPROMPT_REQUEST_REMOVED_VALUE:
+            '¿Qué valor quieres quitar? Algunas sugerencias son {{suggestions}}.',
+        LIST_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE: '¿Era {{value}}?',
+        LIST_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED: 'Genial.',
+        LIST_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED: 'Error mío.',
+        LIST_CONTROL_DEFAULT_APL_HEADER_TITLE: 'Elige una opción',
+
+        // MultiValueListControl Runtime
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_VALUE_ADD: 'De acuerdo, he añadido {{value}}.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_VALUE_REMOVE: 'De acuerdo, he quitado {{value}}.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_VALUE_CLEARED:
+            'De acuerdo, he borrado {{value}} de la lista.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_ACTION_SUGGEST:
+            'Puedes añadir valores nuevos o cambiar los existentes',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE:
+            'Lo siento, no puedo añadir {{value}} porque no existe.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON:
+            'Lo siento, no puedo añadir {{value}} porque {{reason}}.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_REMOVE_VALUE:
+            'Lo siento, {{value}} no está en la lista.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE:
+            '¿Qué eliges? Algunas sugerencias son {{suggestions}}.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_REQUEST_REMOVED_VALUE:
+            '¿Qué valor quieres quitar? Algunas sugerencias son {{suggestions}}.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_GENERAL_REQUEST_REMOVED_VALUE: '¿Qué valor quieres quitar?',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE: 'De acuerdo, tengo {{value}}. ¿Eso es todo?',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED: 'Genial.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_VALUE_ADD: 'De acuerdo, he añadido {{value}}.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_VALUE_REMOVE: 'De acuerdo, he quitado {{value}}.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_VALUE_CLEARED:
+            'De acuerdo, he borrado {{value}} de la lista.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_ACTION_SUGGEST:
+            'Puedes añadir valores nuevos o cambiar los existentes',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE:
+            'Lo siento, no puedo añadir {{value}} porque no existe.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_REMOVE_VALUE:
+            'Lo siento, {{value}} no está en la lista.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON:
+            'Lo siento, no puedo añadir {{value}} porque {{reason}}.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE:
+            '¿Qué eliges? Algunas sugerencias son {{suggestions}}.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_REQUEST_REMOVED_VALUE:
+            '¿Qué valor quieres quitar? Algunas sugerencias son {{suggestions}}.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_GENERAL_REQUEST_REMOVED_VALUE: '¿Qué valor quieres quitar?',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE: 'De acuerdo, tengo {{value}}. ¿Eso es todo?',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED: 'Genial.',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_HEADER_TITLE: 'Crea tu lista',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_HEADER_SUBTITLE:
+            'Di un elemento o tócalo para añadirlo a tu lista',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_SELECTION_TITLE: 'TUS ELECCIONES',
+        MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_SELECTION_SUBTITLE:
+            'Desliza a la izquierda para quitar elementos',
+
+        // DateRangeControl Runtime
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_START_DATE_SET: 'Entendido. La fecha de inicio es {{value}}.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_START_DATE_CHANGED:
+            'Entendido. La fecha de inicio ha cambiado a {{value}}.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_START_DATE: '¿Qué fecha de inicio quieres?',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_START_DATE:
+            '¿Por qué fecha cambio la fecha de inicio?',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_CONFIRM_START_DATE: '¿Era {{value}}?',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_START_DATE_AFFIRMED: 'Genial.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_START_DATE_DISAFFIRMED: 'Error mío.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_END_DATE_SET: 'Entendido. La fecha de fin es {{value}}.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_END_DATE_CHANGED:
+            'Entendido. La fecha de fin ha cambiado a {{value}}.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_END_DATE: '¿Qué fecha de fin quieres?',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_END_DATE: '¿Por qué fecha cambio la fecha de fin?',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_CONFIRM_END_DATE: '¿Era {{value}}?',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_END_DATE_AFFIRMED: 'Genial.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_END_DATE_DISAFFIRMED: 'Error mío.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE: '¿Qué fechas de inicio y de fin quieres?',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALUE_SET: 'Entendido. El periodo es {{value}}.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED: 'Entendido. El periodo ha cambiado a {{value}}.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_INVALID_START_WITH_REASON:
+            'Lo siento, esa fecha de inicio no es válida porque {{reason}}.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_INVALID_END_WITH_REASON:
+            'Lo siento, esa fecha de fin no es válida porque {{reason}}.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON:
+            'Lo siento, el periodo no es válido porque {{reason}}.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_DATE: 'Lo siento, fecha no válida.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE: 'Lo siento, periodo no válido.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALIDATION_FAIL_START_AFTER_END:
+            'la fecha de inicio no puede ser posterior a la fecha de fin',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED: 'Genial.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED: 'Error mío.',
+        DATE_RANGE_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE: '¿Era {{value}}?',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_START_DATE_SET: 'Entendido. La fecha de inicio es {{value}}.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_START_DATE_CHANGED:
+            'Entendido. La fecha de inicio ha cambiado a {{value}}.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_START_DATE: '¿Qué fecha de inicio quieres?',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_START_DATE:
+            '¿Por qué fecha cambio la fecha de inicio?',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_CONFIRM_START_DATE: '¿Era {{value}}?',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_START_DATE_AFFIRMED: 'Genial.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_START_DATE_DISAFFIRMED: 'Error mío.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_END_DATE_SET: 'Entendido. La fecha de fin es {{value}}.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_END_DATE_CHANGED:
+            'Entendido. La fecha de fin ha cambiado a {{value}}.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_END_DATE: '¿Qué fecha de fin quieres?',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_END_DATE:
+            '¿Por qué fecha cambio la fecha de fin?',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_CONFIRM_END_DATE: '¿Era {{value}}?',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_END_DATE_AFFIRMED: 'Genial.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_END_DATE_DISAFFIRMED: 'Error mío.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE: '¿Qué fechas de inicio y de fin quieres?',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_VALUE_SET: 'Entendido. El periodo es {{value}}.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED: 'Entendido. El periodo ha cambiado a {{value}}.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_INVALID_START_WITH_REASON:
+            'Lo siento, esa fecha de inicio no es válida porque {{reason}}.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_INVALID_END_WITH_REASON:
+            'Lo siento, esa fecha de fin no es válida porque {{reason}}.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON:
+            'Lo siento, el periodo no es válido porque {{reason}}.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_DATE: 'Lo siento, fecha no válida.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE: 'Lo siento, periodo no válido.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_VALIDATION_FAIL_START_AFTER_END:
+            'la fecha de inicio no puede ser posterior a la fecha de fin',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED: 'Genial.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED: 'Error mío.',
+        DATE_RANGE_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE: '¿Era {{value}}?',
+
+        // QuestionnaireControl
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_QUESTION_ANSWERED_LOW_RISK_OF_MISUNDERSTANDING: '',
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_QUESTION_ANSWERED_RISK_OF_MISUNDERSTANDING_CHOICE:
+            'De acuerdo, {{choice}}.',
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_QUESTION_ANSWERED_RISK_OF_MISUNDERSTANDING_QUESTION_AND_CHOICE:
+            'De acuerdo, {{choice}} para {{question}}.',
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_COMPLETED: 'Genial, gracias.',
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_COMPLETION_REJECTED:
+            'Lo siento, {{renderedReason}} no es una opción válida.',
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_ACKNOWLEDGE_NOT_COMPLETE:
+            'No hay problema. Avísame cuando termines.',
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_ASK_IF_COMPLETE: '¿Estás conforme con todas las respuestas?',
+        QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_ASK_IF_COMPLETE_TERSE: '',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_QUESTION_ANSWERED_LOW_RISK_OF_MISUNDERSTANDING: '',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_QUESTION_ANSWERED_RISK_OF_MISUNDERSTANDING_CHOICE:
+            'De acuerdo, {{choice}}.',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_QUESTION_ANSWERED_RISK_OF_MISUNDERSTANDING_QUESTION_AND_CHOICE:
+            'De acuerdo, {{choice}} para {{question}}.',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_COMPLETED: 'Genial, gracias.',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_COMPLETION_REJECTED:
+            'Lo siento, {{renderedReason}} no es una opción válida.',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_ACKNOWLEDGE_NOT_COMPLETE:
+            'No hay problema. Avísame cuando termines.',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_ASK_IF_COMPLETE: '¿Estás conforme con todas las respuestas?',
+        QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_ASK_IF_COMPLETE_TERSE: '',
+        QUESTIONNAIRE_CONTROL_DEFAULT_APL_HEADER_TITLE: 'Elige una opción...',
+        QUESTIONNAIRE_CONTROL_DEFAULT_APL_SUBMIT_TEXT: 'Enviar >',
+        QUESTIONNAIRE_CONTROL_DEFAULT_ANSWER_SUMMARY_ITEM: '{{choice}} para {{question}}',
+
+        // Content Act default prompts
+        UNUSABLE_INPUT_VALUE_ACT_DEFAULT_PROMPT: 'Lo siento, {{value}}.',
+        ACKNOWLEDGE_INPUT_ACT_DEFAULT_PROMPT: 'De acuerdo.',
+        VALUE_SET_ACT_DEFAULT_PROMPT: 'De acuerdo, {{value}}.',
+        VALUE_CHANGED_ACT_DEFAULT_PROMPT: 'De acuerdo, actualizado a {{value}}.',
+        INVALID_VALUE_ACT_DEFAULT_PROMPT: 'Lo siento, {{value}}.',
+        VALUE_CONFIRMED_ACT_DEFAULT_PROMPT: 'Genial.',
+        VALUE_DISCONFIRMED_ACT_DEFAULT_PROMPT: 'Error mío.',
+        NON_UNDERSTANDING_ACT_DEFAULT_PROMPT: 'Lo siento, no te he entendido.',
+        LAUNCH_ACT_DEFAULT_PROMPT: 'Bienvenido.',
+        VALUE_ADDED_ACT_DEFAULT_PROMPT: 'De acuerdo, he añadido {{value}}.',
+        VALUE_REMOVED_ACT_DEFAULT_PROMPT: 'De acuerdo, he quitado {{value}}.',
+        VALUE_CLEARED_ACT_DEFAULT_PROMPT: 'De acuerdo, he borrado {{value}}.',
+        INVALID_REMOVE_VALUE_ACT_DEFAULT_PROMPT: 'Lo siento, {{value}} no es válido.',
+        STATE_REVERTED_ACT_DEFAULT_PROMPT: 'De acuerdo, lo he deshecho.',
+
+        // Initiative Act default prompts
+        REQUEST_VALUE_ACT_DEFAULT_PROMPT: '¿Qué valor para {{value}}?',
+        REQUEST_CHANGED_VALUE_ACT_DEFAULT_PROMPT: '¿Cuál es el nuevo valor para {{value}}?',
+        REQUEST_VALUE_BY_LIST_ACT_DEFAULT_PROMPT:
+            '¿Qué valor para {{value}}? Las opciones incluyen {{choices}}.',
+        REQUEST_CHANGED_VALUE_BY_LIST_ACT_DEFAULT_PROMPT:
+            '¿Cuál es el nuevo valor para {{value}}? Las opciones incluyen {{choices}}.',
+        REQUEST_REMOVED_VALUE_BY_LIST_ACT_DEFAULT_PROMPT:
+            '¿Qué valor quito de {{value}}? Las opciones incluyen {{choices}}.',
+        CONFIRM_VALUE_ACT_DEFAULT_PROMPT: '¿Era {{value}}?',
+        SUGGEST_VALUE_ACT_DEFAULT_PROMPT: '¿Quizás quisiste decir {{value}}?',
+        SUGGEST_ACTION_ACT_DEFAULT_PROMPT: 'Puedes añadir o cambiar valores.',
+        RESUME_OFFER_ACT_DEFAULT_PROMPT: '¿Quieres continuar donde lo dejaste?',
+        DISAMBIGUATE_TARGET_ACT_DEFAULT_PROMPT: '¿Te refieres a {{targets}}?',
+        DISAMBIGUATE_TARGET_ACT_DEFAULT_TARGET: '{{target}}',
+
+        // ControlIntent Samples
+        CONJUNCTION_CONTROL_INTENT_SAMPLES: [
+            '{action} {target.a} {conjunction} {target.b}',
+            '{feedback} {action} {target.a} {conjunction} {target.b}',
+            '{head} {action} {target.a} {conjunction} {target.b}',
+            '{action} {target.a} {conjunction} {target.b} {tail}',
+            '{feedback} {action} {target.a} {conjunction} {target.b} {tail}',
+            '{head} {action} {target.a} {conjunction} {target.b} {tail}',
+        ],
+        DATE_CONTROL_INTENT_SAMPLES: [
+            '{AMAZON.DATE}',
+            '{action} {preposition} {AMAZON.DATE}',
+            '{action} {target} {preposition} {AMAZON.DATE}',
+            '{target} {preposition} {AMAZON.DATE}',
+            '{feedback} {AMAZON.DATE}',
+            '{feedback} {preposition} {AMAZON.DATE}',
+            '{feedback} {action} {preposition} {AMAZON.DATE}',
+            '{feedback} {action} {target} {preposition} {AMAZON.DATE}',
+            '{feedback} {target} {preposition} {AMAZON.DATE}',
+            '{head} {AMAZON.DATE}',
+            '{head} {action} {preposition} {AMAZON.DATE}',
+            '{head} {action} {target} {preposition} {AMAZON.DATE}',
+            '{head} {target} {preposition} {AMAZON.DATE}',
+            '{AMAZON.DATE} {tail}',
+            '{preposition} {AMAZON.DATE} {tail}',
+            '{action} {preposition} {AMAZON.DATE} {tail}',
+            '{action} {target} {preposition} {AMAZON.DATE} {tail}',
+            '{target} {preposition} {AMAZON.DATE} {tail}',
+            '{feedback} {AMAZON.DATE} {tail}',
+            '{feedback} {preposition} {AMAZON.DATE} {tail}',
+            '{feedback} {action} {preposition} {AMAZON.DATE} {tail}',
+            '{feedback} {action} {target} {preposition} {AMAZON.DATE} {tail}',
+            '{feedback} {target} {preposition} {AMAZON.DATE} {tail}',
+            '{head} {AMAZON.DATE} {tail}',
+            '{head} {preposition} {AMAZON.DATE} {tail}',
+            '{head} {action} {preposition} {AMAZON.DATE} {tail}',
+            '{head} {target} {preposition} {AMAZON.DATE} {tail}',
+            '{head} {action} {target} {preposition} {AMAZON.DATE} {tail}',
+        ],
+        DATE_RANGE_CONTROL_INTENT_SAMPLES: [
+            '{AMAZON.DATE.a} {conjunction} {AMAZON.DATE.b}',
+            '{AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b}',
+            '{preposition.a} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b}',
+            'entre {AMAZON.DATE.a} y {AMAZON.DATE.b}',
+            '{action} {preposition.a} {AMAZON.DATE.a} {conjunction} {AMAZON.DATE.b}',
+            '{action} {preposition.a} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b}',
+            '{action} entre {AMAZON.DATE.a} y {AMAZON.DATE.b}',
+            '{action} {target} {preposition.a} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b}',
+            '{action} {target} entre {AMAZON.DATE.a} y {AMAZON.DATE.b}',
+            '{action} {target.a} {preposition.a} {AMAZON.DATE.a} {conjunction} {target.b} {preposition.b} {AMAZON.DATE.b}',
+            '{feedback} {AMAZON.DATE.a} {conjunction} {AMAZON.DATE.b}',
+            '{feedback} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b}',
+            '{feedback} {preposition.a} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b}',
+            '{feedback} entre {AMAZON.DATE.a} y {AMAZON.DATE.b}',
+            '{head} {AMAZON.DATE.a} {conjunction} {AMAZON.DATE.b}',
+            '{head} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b}',
+            '{head} {preposition.a} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b}',
+            '{head} entre {AMAZON.DATE.a} y {AMAZON.DATE.b}',
+            '{AMAZON.DATE.a} {conjunction} {AMAZON.DATE.b} {tail}',
+            '{AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b} {tail}',
+            '{preposition.a} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b} {tail}',
+            'entre {AMAZON.DATE.a} y {AMAZON.DATE.b} {tail}',
+            '{head} {AMAZON.DATE.a} {conjunction} {AMAZON.DATE.b} {tail}',
+            '{head} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b} {tail}',
+            '{head} {preposition.a} {AMAZON.DATE.a} {preposition.b} {AMAZON.DATE.b} {tail}',
+            '{head} entre {AMAZON.DATE.a} y {AMAZON.DATE.b} {tail}',
+        ],
+        GENERAL_CONTROL_INTENT_SAMPLES: [
+            '{feedback} {action}',
+            '{feedback} {action} {target}',
+            '{filteredFeedback} {tail}',
+            '{feedback} {action} {tail}',
+            '{feedback} {action} {target} {tail}',
+            '{target}',
+            '{feedback} {target}',
+            '{head} {target}',
+            '{target} {tail}',
+            '{action} {target}',
+            '{head} {action}',
+            '{head} {action} {target}',
+            '{action} {tail}',
+            '{action} {target} {tail}',
+            '{head} {action} {tail}',
+            '{head} {action} {target} {tail}',
+        ],
+        NUMBER_CONTROL_INTENT_SAMPLES: [
+            '{AMAZON.NUMBER}',
+            '{action} {AMAZON.NUMBER}',
+            '{action} {preposition} {AMAZON.NUMBER}',
+            '{action} {target} {preposition} {AMAZON.NUMBER}',
+            '{target} {preposition} {AMAZON.NUMBER}',
+            '{feedback} {AMAZON.NUMBER}',
+            '{feedback} {action} {AMAZON.NUMBER}',
+            '{feedback} {preposition} {AMAZON.NUMBER}',
+            '{feedback} {action} {preposition} {AMAZON.NUMBER}',
+            '{feedback} {action} {target} {preposition} {AMAZON.NUMBER}',
+            '{feedback} {target} {preposition} {AMAZON.NUMBER}',
+            '{head} {AMAZON.NUMBER}',
+            '{head} {action} {AMAZON.NUMBER}',
+            '{head} {action} {preposition} {AMAZON.NUMBER}',
+            '{head} {action} {target} {preposition} {AMAZON.NUMBER}',
+            '{head} {target} {preposition} {AMAZON.NUMBER}',
+            '{AMAZON.NUMBER} {tail}',
+            '{preposition} {AMAZON.NUMBER} {tail}',
+            '{action} {preposition} {AMAZON.NUMBER} {tail}',
+            '{action} {target} {preposition} {AMAZON.NUMBER} {tail}',
+            '{target} {preposition} {AMAZON.NUMBER} {tail}',
+            '{feedback} {AMAZON.NUMBER} {tail}',
+            '{feedback} {preposition} {AMAZON.NUMBER} {tail}',
+            '{feedback} {action} {AMAZON.NUMBER} {tail}',
+            '{feedback} {action} {preposition} {AMAZON.NUMBER} {tail}',
+            '{feedback} {action} {target} {preposition} {AMAZON.NUMBER} {tail}',
+            '{feedback} {target} {preposition} {AMAZON.NUMBER} {tail}',
+            '{head} {AMAZON.NUMBER} {tail}',
+            '{head} {preposition} {AMAZON.NUMBER} {tail}',
+            '{head} {action} {AMAZON.NUMBER} {tail}',
+            '{head} {action} {preposition} {AMAZON.NUMBER} {tail}',
+            '{head} {target} {preposition} {AMAZON.NUMBER} {tail}',
+            '{head} {action} {target} {preposition} {AMAZON.NUMBER} {tail}',
+        ],
+        ORDINAL_CONTROL_INTENT_SAMPLES: [
+            '{AMAZON.Ordinal}',
+            '{preposition} {AMAZON.Ordinal}',
+            '{AMAZON.Ordinal} de la lista',
+            '{preposition} {AMAZON.Ordinal} de la lista',
+            '{action} {AMAZON.Ordinal}',
+            '{action} {preposition} {AMAZON.Ordinal}',
+            '{action} {preposition} {AMAZON.Ordinal} de la lista',
+            '{action} {target} {preposition} {AMAZON.Ordinal}',
+            '{target} {preposition} {AMAZON.Ordinal}',
+            '{feedback} {AMAZON.Ordinal}',
+            '{feedback} {preposition} {AMAZON.Ordinal}',
+            '{feedback} {AMAZON.Ordinal} de la lista',
+            '{feedback} {preposition} {AMAZON.Ordinal} de la lista',
+            '{feedback} {action} {AMAZON.Ordinal}',
+            '{feedback} {action} {preposition} {AMAZON.Ordinal}',
+            '{feedback} {action} {preposition} {AMAZON.Ordinal} de la lista',
+            '{feedback} {action} {target} {preposition} {AMAZON.Ordinal}',
+            '{feedback} {target} {preposition} {AMAZON.Ordinal}',
+            '{head} {preposition} {AMAZON.Ordinal}',
+            '{head} {preposition} {AMAZON.Ordinal} de la lista',
+            '{head} {action} {preposition} {AMAZON.Ordinal}',
+            '{head} {action} {target} {preposition} {AMAZON.Ordinal}',
+            '{head} {target} {preposition} {AMAZON.Ordinal}',
+            '{AMAZON.Ordinal} {tail}',
+            '{preposition} {AMAZON.Ordinal} {tail}',
+            '{AMAZON.Ordinal} de la lista {tail}',
+            '{preposition} {AMAZON.Ordinal} de la lista {tail}',
+            '{action} {AMAZON.Ordinal} {tail}',
+            '{action} {target} {preposition} {AMAZON.Ordinal} {tail}',
+            '{target} {preposition} {AMAZON.Ordinal} {tail}',
+            '{feedback} {AMAZON.Ordinal} {tail}',
+            '{feedback} {preposition} {AMAZON.Ordinal} {tail}',
+            '{feedback} {AMAZON.Ordinal} de la lista {tail}',
+            '{feedback} {preposition} {AMAZON.Ordinal} de la lista {tail}',
+            '{feedback} {action} {AMAZON.Ordinal} {tail}',
+            '{feedback} {action} {preposition} {AMAZON.Ordinal} {tail}',
+            '{feedback} {action} {preposition} {AMAZON.Ordinal} de la lista {tail}',
+            '{feedback} {action} {target} {preposition} {AMAZON.Ordinal} {tail}',
+            '{feedback} {target} {preposition} {AMAZON.Ordinal} {tail}',
+            '{head} {AMAZON.Ordinal} {tail}',
+            '{head} {preposition} {AMAZON.Ordinal} {tail}',
+            '{head} {preposition} {AMAZON.Ordinal} de la lista {tail}',
+            '{head} {action} {preposition} {AMAZON.Ordinal} {tail}',
+            '{head} {action} {preposition} {AMAZON.Ordinal} de la lista {tail}',
+            '{head} {target} {preposition} {AMAZON.Ordinal} {tail}',
+            '{head} {action} {target} {preposition} {AMAZON.Ordinal} {tail}',
+        ],
+        VALUE_CONTROL_INTENT_SAMPLES: [
+            '[[filteredValueSlotType]]',
+            '{action} [[valueSlotType]]',
+            '{action} {preposition} [[valueSlotType]]',
+            '{action} {target} {preposition} [[valueSlotType]]',
+            '{target} {preposition} [[valueSlotType]]',
+            '{target} [[valueSlotType]]',
+            '{feedback} [[filteredValueSlotType]]',
+            '{feedback} {action} [[valueSlotType]]',
+            '{feedback} {preposition} [[filteredValueSlotType]]',
+            '{feedback} {action} {preposition} [[valueSlotType]]',
+            '{feedback} {action} {target} {preposition} [[valueSlotType]]',
+            '{feedback} {target} {preposition} [[valueSlotType]]',
+            '{feedback} {target} [[valueSlotType]]',
+            '{head} [[filteredValueSlotType]]',
+            '{head} {action} [[valueSlotType]]',
+            '{head} {action} {preposition} [[valueSlotType]]',
+            '{head} {action} {target} {preposition} [[valueSlotType]]',
+            '{head} {target} {preposition} [[valueSlotType]]',
+            '{head} {target} [[valueSlotType]]',
+            '[[filteredValueSlotType]] {tail}',
+            '{preposition} [[filteredValueSlotType]] {tail}',
+            '{action} {preposition} [[valueSlotType]] {tail}',
+            '{action} {target} {preposition} [[valueSlotType]] {tail}',
+            '{target} {preposition} [[valueSlotType]] {tail}',
+            '{feedback} [[filteredValueSlotType]] {tail}',
+            '{feedback} {preposition} [[filteredValueSlotType]] {tail}',
+            '{feedback} {action} [[valueSlotType]] {tail}',
+            '{feedback} {action} {preposition} [[valueSlotType]] {tail}',
+            '{feedback} {action} {target} {preposition} [[valueSlotType]] {tail}',
+            '{feedback} {target} {preposition} [[valueSlotType]] {tail}',
+            '{feedback} {target} [[valueSlotType]] {tail}',
+            '{head} [[filteredValueSlotType]] {tail}',
+            '{head} {preposition} [[filteredValueSlotType]] {tail}',
+            '{head} {action} [[valueSlotType]] {tail}',
+            '{head} {action} {preposition} [[valueSlotType]] {tail}',
+            '{head} {target} {preposition} [[valueSlotType]] {tail}',
+            '{head} {target} [[valueSlotType]] {tail}',
+            '{head} {action} {target} {preposition} [[valueSlotType]] {tail}',
+            '[[valueSlotType]] {target}',
+            '{feedback} [[valueSlotType]] {target}',
+            '{head} [[valueSlotType]] {target}',
+            '[[valueSlotType]] {target} {tail}',
+            '{head} [[valueSlotType]] {target} {tail}',
+        ],
+
+        // Shared Slot Type values
+        SHARED_SLOT_TYPES_FEEDBACK: {
+            name: SharedSlotType.FEEDBACK,
+            values: [
+                {
+                    id: $.Feedback.Affirm,
+                    name: {
+                        value: 'sí',
+                        synonyms: [
+                            'sí',
+                            'si',
+                            'vale',
+                            'ok',
+                            'de acuerdo',
+                            'claro',
+                            'claro que sí',
+                            'por supuesto',
+                            'exacto',
+                            'sí exacto',
+                            'exactamente',
+                            'eso es',
+                            'sí eso es',
+                            'correcto',
+                            'es correcto',
+                            'está bien',
+                            'sí sí',
+                            'afirmativo',
+                            'perfecto',
+                            'sí por favor',
+                            'sí quiero',
+                            'sí necesito',
+                            'sí dije',
+                            'sí tengo',
+                            'tengo',
+                            'me parece bien',
+                            'suena bien',
+                            'genial',
+                            'venga',
+                            'totalmente',
+                            'absolutamente',
+                        ],
+                    },
+                },
+                {
+                    id: $.Feedback.Disaffirm,
+                    name: {
+                        value: 'no',
+                        synonyms: [
+                            'no',
+                            'no no',
+                            'no no no',
+                            'para nada',
+                            'en absoluto',
+                            'de ninguna manera',
+                            'nunca',
+                            'jamás',
+                            'incorrecto',
+                            'es incorrecto',
+                            'eso no es',
+                            'no es eso',
+                            'eso está mal',
+                            'no eso está mal',
+                            'está mal',
+                            'me has entendido mal',
+                            'no me has entendido',
+                            'no quiero',
+                            'no dije',
+                            'no lo creo',
+                            'negativo',
+                            'no alexa',
+                            'oh no',
+                            'por favor no',
+                            'no es lo que quiero',
+                            'no tengo',
+                            'no no tengo',
+                        ],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_FILTERED_FEEDBACK: {
+            name: SharedSlotType.FILTERED_FEEDBACK,
+            values: [
+                {
+                    id: 'placeholder',
+                    name: {
+                        value: 'placeholder_awaiting_real_values',
+                        synonyms: ['placeholder_awaiting_real_values_synonym'],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_HEAD: {
+            name: SharedSlotType.HEAD,
+            values: [
+                {
+                    id: $.Head,
+                    name: {
+                        value: 'yo',
+                        synonyms: [
+                            'yo',
+                            'quiero',
+                            'quisiera',
+                            'me gustaría',
+                            'necesito',
+                            'creo',
+                            'creo que',
+                            'pienso que',
+                            'estoy bastante seguro',
+                            'estoy bastante seguro de que',
+                            'puedes',
+                            'puedes simplemente',
+                            'deberías',
+                            'solo',
+                            'solamente',
+                            'simplemente',
+                            'adelante y',
+                            'por favor',
+                            'gracias',
+                            'entonces',
+                            'pues',
+                            'bueno',
+                        ],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_TAIL: {
+            name: SharedSlotType.TAIL,
+            values: [
+                {
+                    id: $.Tail,
+                    name: {
+                        value: 'por favor',
+                        synonyms: [
+                            'por favor',
+                            'gracias',
+                            'ahora',
+                            'ahora por favor',
+                            'muchas gracias',
+                            'estará bien',
+                            'estará bien gracias',
+                            'está bien gracias',
+                            'sería genial',
+                            'sería genial gracias',
+                            'es perfecto',
+                            'es correcto',
+                            'es correcto gracias',
+                            'será suficiente',
+                            'a la vez',
+                            'por alguna razón',
+                        ],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_CONJUNCTION: {
+            name: SharedSlotType.CONJUNCTION,
+            values: [
+                {
+                    id: $.Conjunction,
+                    name: {
+                        value: 'y',
+                        synonyms: ['y', 'y luego', 'luego', 'y también', 'e'],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_PREPOSITION: {
+            name: SharedSlotType.PREPOSITION,
+            values: [
+                {
+                    id: $.Preposition,
+                    name: {
+                        value: 'a',
+                        synonyms: [
+                            'el',
+                            'la',
+                            'los',
+                            'las',
+                            'a',
+                            'al',
+                            'a la',
+                            'en',
+                            'para',
+                            'por',
+                            'es',
+                            'ser',
+                            'sea',
+                            'igual a',
+                            'también',
+                            'de',
+                            'del',
+                            'desde',
+                            'hasta',
+                            'hasta el',
+                        ],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_ACTION: {
+            name: SharedSlotType.ACTION,
+            values: [
+                {
+                    id: $.Action.Set,
+                    name: {
+                        value: 'poner',
+                        synonyms: [
+                            'pon',
+                            'poner',
+                            'ponga',
+                            'establece',
+                            'establecer',
+                            'fija',
+                            'fijar',
+                            'configura',
+                            'configurar',
+                            'asigna',
+                            'asignar',
+                            'debe ser',
+                            'debería ser',
+                            'será',
+                            'tiene que ser',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.Change,
+                    name: {
+                        value: 'cambiar',
+                        synonyms: [
+                            'cambia',
+                            'cambiar',
+                            'cambie',
+                            'modifica',
+                            'modificar',
+                            'actualiza',
+                            'actualizar',
+                            'mueve',
+                            'mover',
+                            'reemplaza',
+                            'reemplazar',
+                            'debe cambiarse',
+                            'debe cambiarse a',
+                            'debería cambiarse',
+                            'tiene que cambiarse',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.Select,
+                    name: {
+                        value: 'elegir',
+                        synonyms: [
+                            'elige',
+                            'elegir',
+                            'escoge',
+                            'escoger',
+                            'selecciona',
+                            'seleccionar',
+                            'toma',
+                            'tomar',
+                            'me quedo con',
+                            'voy a elegir',
+                            'prefiero',
+                            'quiero',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.Complete,
+                    name: {
+                        value: 'terminar',
+                        synonyms: [
+                            'terminar',
+                            'termina',
+                            'he terminado',
+                            'ya terminé',
+                            'listo',
+                            'ya está',
+                            'eso es todo',
+                            'nada más',
+                            'nada mas',
+                            'no hay nada más',
+                            'enviar',
+                            'envía',
+                            'completar',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.GoBack,
+                    name: {
+                        value: 'volver',
+                        synonyms: [
+                            'volver',
+                            'vuelve',
+                            'atrás',
+                            'vuelve atrás',
+                            'volver atrás',
+                            'regresa',
+                            'regresar',
+                            'anterior',
+                            'volver al anterior',
+                            'deshacer',
+                            'deshaz eso',
+                            'deshazlo',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.Start,
+                    name: {
+                        value: 'empezar',
+                        synonyms: ['empieza', 'empezar', 'comienza', 'comenzar', 'inicia', 'iniciar'],
+                    },
+                },
+                {
+                    id: $.Action.Restart,
+                    name: {
+                        value: 'reiniciar',
+                        synonyms: [
+                            'reinicia',
+                            'reiniciar',
+                            'empezar de nuevo',
+                            'volver a empezar',
+                            'empieza de nuevo',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.Resume,
+                    name: {
+                        value: 'continuar',
+                        synonyms: ['continúa', 'continuar', 'sigue', 'seguir', 'reanudar'],
+                    },
+                },
+                {
+                    id: $.Action.Add,
+                    name: {
+                        value: 'añadir',
+                        synonyms: ['añade', 'añadir', 'agrega', 'agregar', 'incluye', 'incluir'],
+                    },
+                },
+                {
+                    id: $.Action.Remove,
+                    name: {
+                        value: 'quitar',
+                        synonyms: ['quita', 'quitar', 'elimina', 'eliminar', 'borra', 'borrar', 'suprime'],
+                    },
+                },
+                {
+                    id: $.Action.Clear,
+                    name: {
+                        value: 'vaciar',
+                        synonyms: [
+                            'quitar todo',
+                            'borrar todo',
+                            'eliminar todo',
+                            'vaciar',
+                            'vacía',
+                            'limpiar',
+                        ],
+                    },
+                },
+                {
+                    id: $.Action.Ignore,
+                    name: {
+                        value: 'ignorar',
+                        synonyms: ['ignora', 'ignorar', 'salta', 'saltar', 'omite', 'omitir'],
+                    },
+                },
+            ],
+        },
+        SHARED_SLOT_TYPES_TARGET: {
+            name: SharedSlotType.TARGET,
+            values: [
+                {
+                    id: $.Target.It,
+                    name: {
+                        value: 'eso',
+                        synonyms: [
+                            'eso',
+                            'esto',
+                            'lo',
+                            'la',
+                            'los',
+                            'las',
+                            'este',
+                            'esta',
+                            'ese',
+                            'esa',
+                            'todos',
+                            'todos ellos',
+                            'todas',
+                            'la mayoría',
+                            'la mayoría de ellos',
+                            'casi todos',
+                        ],
+                    },
+                },
+                {
+                    id: $.Target.Date,
+                    name: {
+                        value: 'fecha',
+                        synonyms: ['fecha', 'la fecha', 'día', 'el día'],
+                    },
+                },
+                {
+                    id: $.Target.Number,
+                    name: {
+                        value: 'número',
+                        synonyms: ['número', 'el número', 'cantidad', 'la cantidad'],
+                    },
+                },
+                {
+                    id: $.Target.Choice,
+                    name: {
+                        value: 'elección',
+                        synonyms: [
+                            'elección',
+                            'mi elección',
+                            'selección',
+                            'mi selección',
+                            'opción',
+                            'mi opción',
+                        ],
+                    },
+                },
+                {
+                    id: $.Target.Start,
+                    name: {
+                        value: 'inicio',
+                        synonyms: ['inicio', 'el inicio', 'principio', 'el principio'],
+                    },
+                },
+                {
+                    id: $.Target.End,
+                    name: {
+                        value: 'final',
+                        synonyms: ['final', 'el final', 'fin', 'el fin'],
+                    },
+                },
+                {
+                    id: $.Target.StartDate,
+                    name: {
+                        value: 'fecha de inicio',
+                        synonyms: [
+                            'fecha de inicio',
+                            'la fecha de inicio',
+                            'fecha de comienzo',
+                            'la fecha de comienzo',
+                            'fecha de salida',
+                        ],
+                    },
+                },
+                {
+                    id: $.Target.EndDate,
+                    name: {
+                        value: 'fecha de fin',
+                        synonyms: [
+                            'fecha de fin',
+                            'la fecha de fin',
+                            'fecha final',
+                            'la fecha final',
+                            'fecha de regreso',
+                        ],
+                    },
+                },
+                {
+                    id: $.Target.DateRange,
+                    name: {
+                        value: 'periodo',
+                        synonyms: [
+                            'periodo',
+                            'el periodo',
+                            'período',
+                            'fechas',
+                            'las fechas',
+                            'rango de fechas',
+                        ],
+                    },
+                },
+                {
+                    id: $.Target.Questionnaire,
+                    name: {
+                        value: 'cuestionario',
+                        synonyms: [
+                            'cuestionario',
+                            'el cuestionario',
+                            'las preguntas',
+                            'encuesta',
+                            'la encuesta',
+                        ],
+                    },
+                },
+            ],
+        },
+    },
+};
@@ -12,7 +12,6 @@
  */
 import { getSupportedInterfaces } from 'ask-sdk-core';
 import { Intent, IntentRequest, interfaces } from 'ask-sdk-model';
-import i18next from 'i18next';
 import _ from 'lodash';
 import { ModelData } from '../..';
 import { Strings as $ } from '../../constants/Strings';
@@ -36,7 +35,6 @@ import { GeneralControlIntent, unpackGeneralControlIntent } from '../../intents/
 import { OrdinalControlIntent, unpackOrdinalControlIntent } from '../../intents/OrdinalControlIntent';
 import { unpackValueControlIntent, ValueControlIntent } from '../../intents/ValueControlIntent';
 import { ControlInteractionModelGenerator } from '../../interactionModelGeneration/ControlInteractionModelGenerator';
-import { ListFormatting } from '../../intl/ListFormat';
 import { Logger } from '../../logging/Logger';
 import { APLMode } from '../../responseGeneration/AplMode';
 import { ControlResponseBuilder } from '../../responseGeneration/ControlResponseBuilder';
@@ -572,69 +570,75 @@ export class ListControl extends Control implements InteractionModelContributor
                 },
             },
             prompts: {
-                confirmValue: (act) =>
-                    i18next.t('LIST_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE', {
+                confirmValue: (act, input) =>
+                    input.i18n.t('LIST_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE', {
                         value: act.payload.renderedValue,
                     }),
-                valueConfirmed: i18next.t('LIST_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED'),
-                valueDisconfirmed: i18next.t('LIST_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED'),
-                valueSet: (act) =>
-                    i18next.t('LIST_CONTROL_DEFAULT_PROMPT_VALUE_SET', { value: act.payload.renderedValue }),
-                valueChanged: (act) =>
-                    i18next.t('LIST_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED', {
+                valueConfirmed: (act, input) => input.i18n.t('LIST_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED'),
+                valueDisconfirmed: (act, input) =>
+                    input.i18n.t('LIST_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED'),
+                valueSet: (act, input) =>
+                    input.i18n.t('LIST_CONTROL_DEFAULT_PROMPT_VALUE_SET', {
                         value: act.payload.renderedValue,
                     }),
-                invalidValue: (act) => {
+                valueChanged: (act, input) =>
+                    input.i18n.t('LIST_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED', {
+                        value: act.payload.renderedValue,
+                    }),
+                invalidValue: (act, input) => {
                     if (act.payload.renderedReason !== undefined) {
-                        return i18next.t('LIST_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON', {
+                        return input.i18n.t('LIST_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON', {
                             value: act.payload.renderedValue,
                             reason: act.payload.renderedReason,
                         });
                     }
-                    return i18next.t('LIST_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE');
+                    return input.i18n.t('LIST_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE');
                 },
-                unusableInputValue: (act) => i18next.t('LIST_CONTROL_DEFAULT_PROMPT_UNUSABLE_INPUT_VALUE'),
-                requestValue: (act) =>
-                    i18next.t('LIST_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE', {
-                        suggestions: ListFormatting.format(act.payload.renderedChoicesFromActivePage),
+                unusableInputValue: (act, input) =>
+                    input.i18n.t('LIST_CONTROL_DEFAULT_PROMPT_UNUSABLE_INPUT_VALUE'),
+                requestValue: (act, input) =>
+                    input.i18n.t('LIST_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE', {
+                        suggestions: input.grammar.formatList(act.payload.renderedChoicesFromActivePage),
                     }),
-                requestChangedValue: (act) =>
-                    i18next.t('LIST_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_VALUE', {
-                        suggestions: ListFormatting.format(act.payload.renderedChoicesFromActivePage),
+                requestChangedValue: (act, input) =>
+                    input.i18n.t('LIST_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_VALUE', {
+                        suggestions: input.grammar.formatList(act.payload.renderedChoicesFromActivePage),
                     }),
             },
             reprompts: {
-                confirmValue: (act) =>
-                    i18next.t('LIST_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE', {
+                confirmValue: (act, input) =>
+                    input.i18n.t('LIST_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE', {
                         value: act.payload.renderedValue,
                     }),
-                valueConfirmed: i18next.t('LIST_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED'),
-                valueDisconfirmed: i18next.t('LIST_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED'),
-                valueSet: (act) =>
-                    i18next.t('LIST_CONTROL_DEFAULT_REPROMPT_VALUE_SET', {
+                valueConfirmed: (act, input) => input.i18n.t('LIST_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED'),
+                valueDisconfirmed: (act, input) =>
+                    input.i18n.t('LIST_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED'),
+                valueSet: (act, input) =>
+                    input.i18n.t('LIST_CONTROL_DEFAULT_REPROMPT_VALUE_SET', {
                         value: act.payload.renderedValue,
                     }),
-                valueChanged: (act) =>
-                    i18next.t('LIST_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED', {
+                valueChanged: (act, input) =>
+                    input.i18n.t('LIST_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED', {
                         value: act.payload.renderedValue,
                     }),
-                invalidValue: (act) => {
+                invalidValue: (act, input) => {
                     if (act.payload.renderedReason !== undefined) {
-                        return i18next.t('LIST_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON', {
+                        return input.i18n.t('LIST_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON', {
                             value: act.payload.renderedValue,
                             reason: act.payload.renderedReason,
                         });
                     }
-                    return i18next.t('LIST_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE');
+                    return input.i18n.t('LIST_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE');
                 },
-                unusableInputValue: (act) => i18next.t('LIST_CONTROL_DEFAULT_REPROMPT_UNUSABLE_INPUT_VALUE'),
-                requestValue: (act) =>
-                    i18next.t('LIST_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE', {
-                        suggestions: ListFormatting.format(act.payload.renderedChoicesFromActivePage),
+                unusableInputValue: (act, input) =>
+                    input.i18n.t('LIST_CONTROL_DEFAULT_REPROMPT_UNUSABLE_INPUT_VALUE'),
+                requestValue: (act, input) =>
+                    input.i18n.t('LIST_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE', {
+                        suggestions: input.grammar.formatList(act.payload.renderedChoicesFromActivePage),
                     }),
-                requestChangedValue: (act) =>
-                    i18next.t('LIST_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_VALUE', {
-                        suggestions: ListFormatting.format(act.payload.renderedChoicesFromActivePage),
+                requestChangedValue: (act, input) =>
+                    input.i18n.t('LIST_CONTROL_DEFAULT_REPROMPT_REQUEST_CHANGED_VALUE', {
+                        suggestions: input.grammar.formatList(act.payload.renderedChoicesFromActivePage),
                     }),
             },
             inputHandling: {
@@ -1048,6 +1052,12 @@ export class ListControl extends Control implements InteractionModelContributor
         this.state = new ListControlState();
     }
 
+    /**
+     * Names of the initiative handlers, as recorded in the `TurnTrace` by
+     * `canTakeInitiative()`.
+     */
+    readonly initiativeHandlerNames: string[] = ['confirmValue', 'fixInvalidValue', 'elicitValue'];
+
     // tsDoc - see Control
     async canTakeInitiative(input: ControlInput): Promise<boolean> {
         return (
@@ -1076,6 +1086,7 @@ export class ListControl extends Control implements InteractionModelContributor
             this.evaluateBooleanProp(this.props.confirmationRequired, input)
         ) {
             this.initiativeFunc = this.confirmValue;
+            input.trace?.recordInitiativeHandler(this.id, 'confirmValue');
             return true;
         }
         return false;
@@ -1097,6 +1108,7 @@ export class ListControl extends Control implements InteractionModelContributor
             (await evaluateValidationProp(this.props.validation, this.state, input)) !== true
         ) {
             this.initiativeFunc = this.fixInvalidValue;
+            input.trace?.recordInitiativeHandler(this.id, 'fixInvalidValue');
             return true;
         }
         return false;
@@ -1109,6 +1121,7 @@ export class ListControl extends Control implements InteractionModelContributor
     private wantsToElicitValue(input: ControlInput): boolean {
         if (this.state.value === undefined && this.evaluateBooleanProp(this.props.required, input)) {
             this.initiativeFunc = this.elicitValue;
+            input.trace?.recordInitiativeHandler(this.id, 'elicitValue');
             return true;
         }
         return false;
@@ -1,4 +1,3 @@
-import i18next from 'i18next';
 import _ from 'lodash';
 import { ControlResponseBuilder } from '../..';
 import { ControlInput } from '../../controls/ControlInput';
@@ -69,7 +68,7 @@ export namespace ListControlAPLPropsBuiltIns {
         }
         return {
             general: {
-                headerTitle: contentProps.title ?? i18next.t('LIST_CONTROL_DEFAULT_APL_HEADER_TITLE'),
+                headerTitle: contentProps.title ?? input.i18n.t('LIST_CONTROL_DEFAULT_APL_HEADER_TITLE'),
                 headerSubtitle: contentProps.subtitle ?? '',
                 controlId: control.id,
             },
@@ -14,7 +14,6 @@
 import { getSupportedInterfaces } from 'ask-sdk-core/dist/util/RequestEnvelopeUtils';
 import { Intent, IntentRequest, interfaces } from 'ask-sdk-model';
 import { assert } from 'chai';
-import i18next from 'i18next';
 import _ from 'lodash';
 import { ModelData, StringOrList } from '../..';
 import { Strings as $ } from '../../constants/Strings';
@@ -37,7 +36,6 @@ import {
     ValueControlIntent,
 } from '../../intents/ValueControlIntent';
 import { ControlInteractionModelGenerator } from '../../interactionModelGeneration/ControlInteractionModelGenerator';
-import { ListFormatting } from '../../intl/ListFormat';
 import { Logger } from '../../logging/Logger';
 import { APLMode } from '../../responseGeneration/AplMode';
 import { ControlResponseBuilder } from '../../responseGeneration/ControlResponseBuilder';
@@ -565,27 +563,29 @@ export class MultiValueListControl extends Control implements InteractionModelCo
                 },
             },
             prompts: {
-                confirmValue: (act) =>
-                    i18next.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE', {
+                confirmValue: (act, input) =>
+                    input.i18n.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE', {
                         value: act.payload.renderedValue,
                     }),
-                valueConfirmed: i18next.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED'),
-                valueAdded: (act) =>
-                    i18next.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_VALUE_ADD', {
+                valueConfirmed: (act, input) =>
+                    input.i18n.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_VALUE_AFFIRMED'),
+                valueAdded: (act, input) =>
+                    input.i18n.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_VALUE_ADD', {
                         value: act.payload.renderedValue,
                     }),
-                valueRemoved: (act) =>
-                    i18next.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_VALUE_REMOVE', {
+                valueRemoved: (act, input) =>
+                    input.i18n.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_VALUE_REMOVE', {
                         value: act.payload.renderedValue,
                     }),
-                valueCleared: (act) =>
-                    i18next.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_VALUE_CLEARED', {
+                valueCleared: (act, input) =>
+                    input.i18n.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_VALUE_CLEARED', {
                         value: act.payload.renderedValue,
                     }),
-                suggestAction: (act) => i18next.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_ACTION_SUGGEST'),
-                invalidValue: (act) => {
+                suggestAction: (act, input) =>
+                    input.i18n.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_ACTION_SUGGEST'),
+                invalidValue: (act, input) => {
                     if (act.payload.renderedReason !== undefined) {
-                        return i18next.t(
+                        return input.i18n.t(
                             'MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON',
                             {
                                 value: act.payload.renderedValue,
@@ -593,53 +593,60 @@ export class MultiValueListControl extends Control implements InteractionModelCo
                             },
                         );
                     }
-                    return i18next.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE', {
+                    return input.i18n.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE', {
                         value: act.payload.renderedValue,
                     });
                 },
-                invalidRemoveValue: (act) => {
-                    return i18next.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_REMOVE_VALUE', {
-                        value: act.payload.renderedValue,
-                    });
+                invalidRemoveValue: (act, input) => {
+                    return input.i18n.t(
+                        'MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_REMOVE_VALUE',
+                        {
+                            value: act.payload.renderedValue,
+                        },
+                    );
                 },
-                requestValue: (act) =>
-                    i18next.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE', {
-                        suggestions: ListFormatting.format(act.payload.renderedChoicesFromActivePage),
+                requestValue: (act, input) =>
+                    input.i18n.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE', {
+                        suggestions: input.grammar.formatList(act.payload.renderedChoicesFromActivePage),
                     }),
-                requestRemovedValue: (act) => {
+                requestRemovedValue: (act, input) => {
                     if (
                         act.payload.availableChoicesFromActivePage !== undefined &&
                         act.payload.availableChoicesFromActivePage.length > 0
                     ) {
-                        return i18next.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_REQUEST_REMOVED_VALUE', {
-                            suggestions: ListFormatting.format(act.payload.renderedChoicesFromActivePage),
+                        return input.i18n.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_REQUEST_REMOVED_VALUE', {
+                            suggestions: input.grammar.formatList(act.payload.renderedChoicesFromActivePage),
                         });
                     }
-                    return i18next.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_GENERAL_REQUEST_REMOVED_VALUE');
+                    return input.i18n.t(
+                        'MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_GENERAL_REQUEST_REMOVED_VALUE',
+                    );
                 },
             },
             reprompts: {
-                confirmValue: (act) =>
-                    i18next.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE', {
+                confirmValue: (act, input) =>
+                    input.i18n.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE', {
                         value: act.payload.renderedValue,
                     }),
-                valueConfirmed: i18next.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED'),
-                valueAdded: (act) =>
-                    i18next.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_VALUE_ADD', {
+                valueConfirmed: (act, input) =>
+                    input.i18n.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_VALUE_AFFIRMED'),
+                valueAdded: (act, input) =>
+                    input.i18n.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_VALUE_ADD', {
                         value: act.payload.renderedValue,
                     }),
-                valueRemoved: (act) =>
-                    i18next.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_VALUE_REMOVE', {
+                valueRemoved: (act, input) =>
+                    input.i18n.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_VALUE_REMOVE', {
                         value: act.payload.renderedValue,
                     }),
-                valueCleared: (act) =>
-                    i18next.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_VALUE_CLEARED', {
+                valueCleared: (act, input) =>
+                    input.i18n.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_VALUE_CLEARED', {
                         value: act.payload.renderedValue,
                     }),
-                suggestAction: (act) => i18next.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_ACTION_SUGGEST'),
-                invalidValue: (act) => {
+                suggestAction: (act, input) =>
+                    input.i18n.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_ACTION_SUGGEST'),
+                invalidValue: (act, input) => {
                     if (act.payload.renderedReason !== undefined) {
-                        return i18next.t(
+                        return input.i18n.t(
                             'MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON',
                             {
                                 value: act.payload.renderedValue,
@@ -647,32 +654,32 @@ export class MultiValueListControl extends Control implements InteractionModelCo
                             },
                         );
                     }
-                    return i18next.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE', {
+                    return input.i18n.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE', {
                         value: act.payload.renderedValue,
                     });
                 },
-                invalidRemoveValue: (act) => {
-                    return i18next.t(
+                invalidRemoveValue: (act, input) => {
+                    return input.i18n.t(
                         'MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_REMOVE_VALUE',
                         {
                             value: act.payload.renderedValue,
                         },
                     );
                 },
-                requestValue: (act) =>
-                    i18next.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE', {
-                        suggestions: ListFormatting.format(act.payload.renderedChoicesFromActivePage),
+                requestValue: (act, input) =>
+                    input.i18n.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE', {
+                        suggestions: input.grammar.formatList(act.payload.renderedChoicesFromActivePage),
                     }),
-                requestRemovedValue: (act) => {
+                requestRemovedValue: (act, input) => {
                     if (
                         act.payload.availableChoicesFromActivePage !== undefined &&
                         act.payload.availableChoicesFromActivePage.length > 0
                     ) {
-                        return i18next.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_REQUEST_REMOVED_VALUE', {
-                            suggestions: ListFormatting.format(act.payload.renderedChoicesFromActivePage),
+                        return input.i18n.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_PROMPT_REQUEST_REMOVED_VALUE', {
+                            suggestions: input.grammar.formatList(act.payload.renderedChoicesFromActivePage),
                         });
                     }
-                    return i18next.t(
+                    return input.i18n.t(
                         'MULTI_VALUE_LIST_CONTROL_DEFAULT_REPROMPT_GENERAL_REQUEST_REMOVED_VALUE',
                     );
                 },
@@ -1171,6 +1178,7 @@ export class MultiValueListControl extends Control implements InteractionModelCo
 
         if (matches.length >= 1) {
             this.initiativeFunc = matches[0].takeInitiative.bind(this);
+            input.trace?.recordInitiativeHandler(this.id, matches[0].name);
             return true;
         } else {
             return false;
@@ -1435,7 +1443,7 @@ export class MultiValueListControl extends Control implements InteractionModelCo
 
     private evaluateRenderedValue(value: StringOrList, input: ControlInput): string {
         const renderedValue = Array.isArray(value) ? value : [value];
-        return ListFormatting.format(this.props.valueRenderer(renderedValue, input), 'and');
+        return input.grammar.formatList(this.props.valueRenderer(renderedValue, input), 'and');
     }
 
     public getSlotIds(): string[] {
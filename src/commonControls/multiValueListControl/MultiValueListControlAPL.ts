@@ -1,4 +1,3 @@
-import i18next from 'i18next';
 import _ from 'lodash';
 import { ControlResponseBuilder } from '../..';
 import { ControlInput } from '../../controls/ControlInput';
@@ -103,16 +102,16 @@ export namespace MultiValueListControlAPLPropsBuiltIns {
         return {
             general: {
                 headerTitle:
-                    contentProps.title ?? i18next.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_HEADER_TITLE'),
+                    contentProps.title ?? input.i18n.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_HEADER_TITLE'),
                 headerSubtitle:
                     contentProps.subtitle ??
-                    i18next.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_HEADER_SUBTITLE'),
+                    input.i18n.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_HEADER_SUBTITLE'),
                 selectionListTitle:
                     contentProps.selectionListTitle ??
-                    i18next.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_SELECTION_TITLE'),
+                    input.i18n.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_SELECTION_TITLE'),
                 selectionListSubtitle:
                     contentProps.selectionListSubtitle ??
-                    i18next.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_SELECTION_SUBTITLE'),
+                    input.i18n.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_SELECTION_SUBTITLE'),
                 controlId: control.id,
             },
             choices: {
@@ -698,10 +697,12 @@ export namespace MultiValueListControlComponentAPLBuiltIns {
 
         const payload = {
             general: {
-                headerTitle: i18next.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_HEADER_TITLE'),
-                headerSubtitle: i18next.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_HEADER_SUBTITLE'),
-                selectionListTitle: i18next.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_SELECTION_TITLE'),
-                selectionListSubtitle: i18next.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_SELECTION_SUBTITLE'),
+                headerTitle: input.i18n.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_HEADER_TITLE'),
+                headerSubtitle: input.i18n.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_HEADER_SUBTITLE'),
+                selectionListTitle: input.i18n.t('MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_SELECTION_TITLE'),
+                selectionListSubtitle: input.i18n.t(
+                    'MULTI_VALUE_LIST_CONTROL_DEFAULT_APL_SELECTION_SUBTITLE',
+                ),
                 controlId: control.id,
             },
             choices: {
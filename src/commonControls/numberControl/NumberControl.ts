@@ -13,7 +13,6 @@
 
 import { getSupportedInterfaces } from 'ask-sdk-core';
 import { Intent, IntentRequest, interfaces } from 'ask-sdk-model';
-import i18next from 'i18next';
 import _ from 'lodash';
 import {
     AmazonBuiltInSlotType,
@@ -315,7 +314,7 @@ export class NumberControlAPLProps {
     /**
      * Tracks the text to be displayed for invalid input values.
      */
-    validationFailedMessage?: string | ((value?: number) => string);
+    validationFailedMessage?: string | ((value: number | undefined, input: ControlInput) => string);
 
     /**
      * Determines the APL Component rendering mode.
@@ -353,7 +352,7 @@ export interface NumberControlAPLComponentProps {
      * Tracks the text to be displayed for invalid input values
      * when control renders APL in Component Mode.
      */
-    validationFailedMessage?: string | ((value?: number) => string);
+    validationFailedMessage?: string | ((value: number | undefined, input: ControlInput) => string);
 
     /**
      * Function that maps the NumberControlState.value to rendered value that
@@ -448,71 +447,74 @@ export class NumberControl extends Control implements InteractionModelContributo
                 targets: [$.Target.Number, $.Target.It],
             },
             prompts: {
-                requestValue: i18next.t('NUMBER_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE'),
-                valueChanged: (act) =>
-                    i18next.t('NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED', {
+                requestValue: (act, input) => input.i18n.t('NUMBER_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE'),
+                valueChanged: (act, input) =>
+                    input.i18n.t('NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED', {
                         value: act.payload.renderedValue,
                     }),
-                confirmValue: (act) =>
-                    i18next.t('NUMBER_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE', {
+                confirmValue: (act, input) =>
+                    input.i18n.t('NUMBER_CONTROL_DEFAULT_PROMPT_CONFIRM_VALUE', {
                         value: act.payload.renderedValue,
                     }),
-                valueConfirmed: i18next.t('NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_CONFIRMED'),
-                valueDisconfirmed: i18next.t('NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED'),
-                valueSet: (act) =>
-                    i18next.t('NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_SET', {
+                valueConfirmed: (act, input) => input.i18n.t('NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_CONFIRMED'),
+                valueDisconfirmed: (act, input) =>
+                    input.i18n.t('NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_DISAFFIRMED'),
+                valueSet: (act, input) =>
+                    input.i18n.t('NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_SET', {
                         value: act.payload.renderedValue,
                     }),
-                valueCleared: i18next.t('NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_CLEARED'),
-                invalidValue: (act) => {
+                valueCleared: (act, input) => input.i18n.t('NUMBER_CONTROL_DEFAULT_PROMPT_VALUE_CLEARED'),
+                invalidValue: (act, input) => {
                     if (act.payload.renderedReason !== undefined) {
-                        return i18next.t('NUMBER_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON', {
+                        return input.i18n.t('NUMBER_CONTROL_DEFAULT_PROMPT_INVALID_VALUE_WITH_REASON', {
                             value: act.payload.renderedValue,
                             reason: act.payload.renderedReason,
                         });
                     }
-                    return i18next.t('NUMBER_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE', {
+                    return input.i18n.t('NUMBER_CONTROL_DEFAULT_PROMPT_GENERAL_INVALID_VALUE', {
                         value: act.payload.renderedValue,
                     });
                 },
-                suggestValue: (act) =>
-                    i18next.t('NUMBER_CONTROL_DEFAULT_PROMPT_SUGGEST_VALUE', {
+                suggestValue: (act, input) =>
+                    input.i18n.t('NUMBER_CONTROL_DEFAULT_PROMPT_SUGGEST_VALUE', {
                         value: act.payload.renderedValue,
                     }),
             },
             reprompts: {
-                requestValue: i18next.t('NUMBER_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE'),
-                valueChanged: (act) =>
-                    i18next.t('NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED', {
+                requestValue: (act, input) => input.i18n.t('NUMBER_CONTROL_DEFAULT_REPROMPT_REQUEST_VALUE'),
+                valueChanged: (act, input) =>
+                    input.i18n.t('NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_CHANGED', {
                         value: act.payload.renderedValue,
                     }),
-                confirmValue: (act) =>
-                    i18next.t('NUMBER_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE', {
+                confirmValue: (act, input) =>
+                    input.i18n.t('NUMBER_CONTROL_DEFAULT_REPROMPT_CONFIRM_VALUE', {
                         value: act.payload.renderedValue,
                     }),
-                valueDisconfirmed: i18next.t('NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED'),
-                valueSet: (act) =>
-                    i18next.t('NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_SET', {
+                valueDisconfirmed: (act, input) =>
+                    input.i18n.t('NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_DISAFFIRMED'),
+                valueSet: (act, input) =>
+                    input.i18n.t('NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_SET', {
                         value: act.payload.renderedValue,
                     }),
-                valueConfirmed: i18next.t('NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_CONFIRMED'),
-                valueCleared: (act) =>
-                    i18next.t('NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_CLEARED', {
+                valueConfirmed: (act, input) =>
+                    input.i18n.t('NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_CONFIRMED'),
+                valueCleared: (act, input) =>
+                    input.i18n.t('NUMBER_CONTROL_DEFAULT_REPROMPT_VALUE_CLEARED', {
                         value: act.payload.renderedValue,
                     }),
-                invalidValue: (act) => {
+                invalidValue: (act, input) => {
                     if (act.payload.renderedReason !== undefined) {
-                        return i18next.t('NUMBER_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON', {
+                        return input.i18n.t('NUMBER_CONTROL_DEFAULT_REPROMPT_INVALID_VALUE_WITH_REASON', {
                             value: act.payload.renderedValue,
                             reason: act.payload.renderedReason,
                         });
                     }
-                    return i18next.t('NUMBER_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE', {
+                    return input.i18n.t('NUMBER_CONTROL_DEFAULT_REPROMPT_GENERAL_INVALID_VALUE', {
                         value: act.payload.renderedValue,
                     });
                 },
-                suggestValue: (act) =>
-                    i18next.t('NUMBER_CONTROL_DEFAULT_REPROMPT_SUGGEST_VALUE', {
+                suggestValue: (act, input) =>
+                    input.i18n.t('NUMBER_CONTROL_DEFAULT_REPROMPT_SUGGEST_VALUE', {
                         value: act.payload.renderedValue,
                     }),
             },
@@ -1160,6 +1162,7 @@ export class NumberControl extends Control implements InteractionModelContributo
 
         if (matches.length >= 1) {
             this.initiativeFunc = matches[0].takeInitiative.bind(this);
+            input.trace?.recordInitiativeHandler(this.id, matches[0].name);
             return true;
         } else {
             return false;
@@ -1320,7 +1323,7 @@ export class NumberControl extends Control implements InteractionModelContributo
         const aplRenderFunc = this.props.apl.renderComponent;
         const defaultProps: NumberControlAPLComponentProps = {
             validationFailedMessage: (value?: number) =>
-                i18next.t('NUMBER_CONTROL_DEFAULT_APL_INVALID_VALUE', { value }),
+                input.i18n.t('NUMBER_CONTROL_DEFAULT_APL_INVALID_VALUE', { value }),
             valueRenderer: this.props.valueRenderer,
         };
         return aplRenderFunc.call(this, this, defaultProps, input, resultBuilder);
@@ -1338,7 +1341,7 @@ export class NumberControl extends Control implements InteractionModelContributo
     }
 
     async evaluateAPLValidationFailedMessage(
-        prop: string | ((value?: number) => string),
+        prop: string | ((value: number | undefined, input: ControlInput) => string),
         input: ControlInput,
     ): Promise<string> {
         if (this.state.value === undefined) {
@@ -1352,7 +1355,7 @@ export class NumberControl extends Control implements InteractionModelContributo
         );
         if (validationResult !== true) {
             if (typeof prop === 'function') {
-                return prop(this.state.value);
+                return prop(this.state.value, input);
             }
             return prop;
         }
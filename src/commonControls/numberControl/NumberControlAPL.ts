@@ -11,7 +11,6 @@
  * permissions and limitations under the License.
  */
 
-import i18next from 'i18next';
 import _ from 'lodash';
 import { AplContent, ControlInput, ControlResponseBuilder } from '../..';
 import { ListAPLComponentProps } from '../listControl/ListControl';
@@ -175,7 +174,7 @@ export namespace NumberControlAPLPropsBuiltIns {
          * Tracks the text to be displayed for invalid input values
          * when control renders APL in Component Mode.
          */
-        validationFailedMessage?: string | ((value?: number) => string);
+        validationFailedMessage?: string | ((value: number | undefined, input: ControlInput) => string);
         /**
          * Function that maps the NumberControlState.value to rendered value that
          * will be presented to the user as a list.
@@ -209,7 +208,7 @@ export namespace NumberControlAPLPropsBuiltIns {
         return {
             numPadData: {
                 controlId: control.id,
-                headerTitle: i18next.t('NUMBER_CONTROL_DEFAULT_APL_HEADER_TITLE'),
+                headerTitle: input.i18n.t('NUMBER_CONTROL_DEFAULT_APL_HEADER_TITLE'),
                 validationFailedMessage: await control.evaluateAPLValidationFailedMessage(
                     contentProps.validationFailedMessage!,
                     input,
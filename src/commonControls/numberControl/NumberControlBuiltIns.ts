@@ -11,13 +11,16 @@
  * permissions and limitations under the License.
  */
 
-import i18next from 'i18next';
 import { ControlInput } from '../..';
 import { NumberControlState } from './NumberControl';
 
 export namespace NumberControlBuiltIns {
-    export function defaultValidationFailureText(): (value?: number) => string {
-        return (value?: number) => i18next.t('NUMBER_CONTROL_DEFAULT_APL_INVALID_VALUE', { value });
+    export function defaultValidationFailureText(): (
+        value: number | undefined,
+        input: ControlInput,
+    ) => string {
+        return (value: number | undefined, input: ControlInput) =>
+            input.i18n.t('NUMBER_CONTROL_DEFAULT_APL_INVALID_VALUE', { value });
     }
 
     export const confirmMostLikelyMisunderstandingInputs = (state: NumberControlState, input: ControlInput) =>
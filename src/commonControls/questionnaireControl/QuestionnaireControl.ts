@@ -13,7 +13,6 @@
 
 import { getSupportedInterfaces } from 'ask-sdk-core';
 import { Intent, IntentRequest, interfaces } from 'ask-sdk-model';
-import i18next from 'i18next';
 import _ from 'lodash';
 import { Strings as $ } from '../../constants/Strings';
 import {
@@ -365,6 +364,16 @@ export class QuestionnaireControlPromptProps {
         | StringOrList
         | ((act: QuestionnaireCompletionRejectedAct, input: ControlInput) => StringOrList);
 
+    /**
+     * Asks the user if they are done with the questionnaire.
+     *
+     * The default prompt is `QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_ASK_IF_COMPLETE`.
+     * It is rendered with the parameter `answers`, the summary of the answers
+     * from `QuestionnaireControl.renderAnswerSummary()`, which the default
+     * strings do not use.  To include the summary, override the string in
+     * `ControlManagerProps.i18nResources`, e.g.
+     * `'You said {{answers}}. Are you happy with all answers?'`.
+     */
     askIfComplete?: StringOrList | ((act: AskIfCompleteAct, input: ControlInput) => StringOrList);
 
     askIfCompleteTerse?: StringOrList | ((act: AskIfCompleteTerseAct, input: ControlInput) => StringOrList);
@@ -532,19 +541,19 @@ export class QuestionnaireControl extends Control implements InteractionModelCon
 
                 questionAnsweredAct: (act: QuestionAnsweredAct, input: ControlInput) => {
                     if (!act.payload.userAnsweredWithExplicitValue && !act.payload.userMentionedQuestion) {
-                        return i18next.t(
+                        return input.i18n.t(
                             'QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_QUESTION_ANSWERED_LOW_RISK_OF_MISUNDERSTANDING',
                         );
                     } else if (
                         act.payload.userAnsweredWithExplicitValue &&
                         !act.payload.userMentionedQuestion
                     ) {
-                        return i18next.t(
+                        return input.i18n.t(
                             'QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_QUESTION_ANSWERED_RISK_OF_MISUNDERSTANDING_CHOICE',
                             { choice: act.payload.renderedChoice },
                         );
                     } else {
-                        return i18next.t(
+                        return input.i18n.t(
                             'QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_QUESTION_ANSWERED_RISK_OF_MISUNDERSTANDING_QUESTION_AND_CHOICE',
                             {
                                 choice: act.payload.renderedChoice,
@@ -553,19 +562,23 @@ export class QuestionnaireControl extends Control implements InteractionModelCon
                         );
                     }
                 },
-                questionnaireCompleted: i18next.t('QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_COMPLETED'),
+                questionnaireCompleted: (act, input) =>
+                    input.i18n.t('QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_COMPLETED'),
                 questionnaireCompletionRejected: (
                     act: QuestionnaireCompletionRejectedAct,
                     input: ControlInput,
                 ) =>
-                    i18next.t('QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_COMPLETION_REJECTED', {
+                    input.i18n.t('QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_COMPLETION_REJECTED', {
                         reason: act.payload.renderedReason,
                     }),
-                acknowledgeNotCompleteAct: i18next.t(
-                    'QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_ACKNOWLEDGE_NOT_COMPLETE',
-                ),
-                askIfComplete: i18next.t('QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_ASK_IF_COMPLETE'),
-                askIfCompleteTerse: i18next.t('QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_ASK_IF_COMPLETE_TERSE'),
+                acknowledgeNotCompleteAct: (act, input) =>
+                    input.i18n.t('QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_ACKNOWLEDGE_NOT_COMPLETE'),
+                askIfComplete: (act, input) =>
+                    input.i18n.t('QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_ASK_IF_COMPLETE', {
+                        answers: act.control.renderAnswerSummary(input),
+                    }),
+                askIfCompleteTerse: (act, input) =>
+                    input.i18n.t('QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_ASK_IF_COMPLETE_TERSE'),
             },
             reprompts: {
                 askQuestionAct: (act: AskQuestionAct, input: ControlInput) =>
@@ -577,19 +590,19 @@ export class QuestionnaireControl extends Control implements InteractionModelCon
 
                 questionAnsweredAct: (act: QuestionAnsweredAct, input: ControlInput) => {
                     if (!act.payload.userAnsweredWithExplicitValue && !act.payload.userMentionedQuestion) {
-                        return i18next.t(
+                        return input.i18n.t(
                             'QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_QUESTION_ANSWERED_LOW_RISK_OF_MISUNDERSTANDING',
                         );
                     } else if (
                         act.payload.userAnsweredWithExplicitValue &&
                         !act.payload.userMentionedQuestion
                     ) {
-                        return i18next.t(
+                        return input.i18n.t(
                             'QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_QUESTION_ANSWERED_RISK_OF_MISUNDERSTANDING_CHOICE',
                             { choice: act.payload.renderedChoice },
                         );
                     } else {
-                        return i18next.t(
+                        return input.i18n.t(
                             'QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_QUESTION_ANSWERED_RISK_OF_MISUNDERSTANDING_QUESTION_AND_CHOICE',
                             {
                                 choice: act.payload.renderedChoice,
@@ -598,19 +611,21 @@ export class QuestionnaireControl extends Control implements InteractionModelCon
                         );
                     }
                 },
-                questionnaireCompleted: i18next.t('QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_COMPLETED'),
+                questionnaireCompleted: (act, input) =>
+                    input.i18n.t('QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_COMPLETED'),
                 questionnaireCompletionRejected: (
                     act: QuestionnaireCompletionRejectedAct,
                     input: ControlInput,
                 ) =>
-                    i18next.t('QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_COMPLETION_REJECTED', {
+                    input.i18n.t('QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_COMPLETION_REJECTED', {
                         reason: act.payload.renderedReason,
                     }),
-                acknowledgeNotCompleteAct: i18next.t(
-                    'QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_ACKNOWLEDGE_NOT_COMPLETE',
-                ),
-                askIfComplete: i18next.t('QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_ASK_IF_COMPLETE'),
-                askIfCompleteTerse: i18next.t('QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_ASK_IF_COMPLETE_TERSE'),
+                acknowledgeNotCompleteAct: (act, input) =>
+                    input.i18n.t('QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_ACKNOWLEDGE_NOT_COMPLETE'),
+                askIfComplete: (act, input) =>
+                    input.i18n.t('QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_ASK_IF_COMPLETE'),
+                askIfCompleteTerse: (act, input) =>
+                    input.i18n.t('QUESTIONNAIRE_CONTROL_DEFAULT_REPROMPT_ASK_IF_COMPLETE_TERSE'),
             },
             apl: {
                 enabled: true,
@@ -707,6 +722,7 @@ export class QuestionnaireControl extends Control implements InteractionModelCon
 
         if (matches.length >= 1) {
             this.handleFunc = matches[0].handle.bind(this);
+            input.trace?.recordInputHandler(this.id, matches[0].name);
             return true;
         } else {
             return false;
@@ -1154,6 +1170,7 @@ export class QuestionnaireControl extends Control implements InteractionModelCon
 
         if (matches.length >= 1) {
             this.initiativeFunc = matches[0].takeInitiative.bind(this);
+            input.trace?.recordInitiativeHandler(this.id, matches[0].name);
             return true;
         } else {
             return false;
@@ -1285,6 +1302,37 @@ export class QuestionnaireControl extends Control implements InteractionModelCon
         return deepRequiredContent;
     }
 
+    /**
+     * Renders the answers given so far as a single phrase.
+     *
+     * Example (en): 'yes for cats, no for dogs and maybe for fish'
+     *
+     * Usage:
+     * - Each answer is rendered by `QUESTIONNAIRE_CONTROL_DEFAULT_ANSWER_SUMMARY_ITEM`
+     *   from the choice prompt and the short form of the question, in question
+     *   order, and the answers are joined by `input.grammar`.
+     *
+     * @param input - Input
+     */
+    public renderAnswerSummary(input: ControlInput): string {
+        const content = this.getQuestionnaireContent(input);
+        const items: string[] = [];
+        for (const question of content.questions) {
+            const answer = this.state.value[question.id];
+            const choiceIndex =
+                answer !== undefined ? this.getChoiceIndexById(content, answer.choiceId) : undefined;
+            if (choiceIndex !== undefined) {
+                items.push(
+                    input.i18n.t('QUESTIONNAIRE_CONTROL_DEFAULT_ANSWER_SUMMARY_ITEM', {
+                        choice: content.choices[choiceIndex].prompt,
+                        question: this.evaluatePromptShortForm(question.promptShortForm, input),
+                    }),
+                );
+            }
+        }
+        return input.grammar.formatList(items, 'and');
+    }
+
     private evaluateAPLPropNewStyle(
         prop: QuestionnaireControlAplDocumentPropNewStyle,
         input: ControlInput,
@@ -11,7 +11,6 @@
  * permissions and limitations under the License.
  */
 
-import i18next from 'i18next';
 import { ControlInput } from '../../controls/ControlInput';
 import { AplContent, QuestionnaireControl } from './QuestionnaireControl';
 
@@ -134,12 +133,12 @@ export namespace QuestionnaireControlAPLPropsBuiltIns {
                     radioButtonSize: '85',
                     buttonColumnWidth: '124',
                     headerTitle:
-                        contentProps.title ?? i18next.t('QUESTIONNAIRE_CONTROL_DEFAULT_APL_HEADER_TITLE'),
+                        contentProps.title ?? input.i18n.t('QUESTIONNAIRE_CONTROL_DEFAULT_APL_HEADER_TITLE'),
                     headerSubtitle: contentProps.subtitle ?? '',
                     headerBackButton: false,
                     nextButtonText:
                         contentProps.submitButtonText ??
-                        i18next.t('QUESTIONNAIRE_CONTROL_DEFAULT_APL_SUBMIT_TEXT'),
+                        input.i18n.t('QUESTIONNAIRE_CONTROL_DEFAULT_APL_SUBMIT_TEXT'),
                     debug: contentProps.debug ?? false,
                 },
                 questionData: questionItems,
@@ -54,6 +54,8 @@ export class ConfirmAnswerToQuestion extends InitiativeAct {
  * Asks the user is all done with the questionnaire.
  */
 export class AskIfCompleteAct extends InitiativeAct {
+    control: QuestionnaireControl;
+
     render(input: ControlInput, responseBuilder: ControlResponseBuilder): void {
         throw new Error('this.render() is not implemented. Perform rendering in Control.render()');
     }
@@ -0,0 +1,97 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+/**
+ * The decision made by a container control.
+ *
+ * canHandle - choice of the child that handles the input.
+ * canTakeInitiative - choice of the child that takes the initiative.
+ */
+export type ArbitrationPhase = 'canHandle' | 'canTakeInitiative';
+
+/**
+ * Explains how a container control selected one of its children.
+ *
+ * Purpose:
+ * - When several children can handle an input, the container's choice is
+ *   often the cause of unexpected behavior. The record captures enough
+ *   information to explain the choice without stepping through the code.
+ *
+ * Usage:
+ * - `ContainerControl` appends a record to `ControlInput.arbitrationRecords`
+ *   for each decision, and the most recent records are also shown in the
+ *   control tree diagram.
+ * - Custom implementations of `decideHandlingChild()` or
+ *   `decideInitiativeChild()` can describe their rule via
+ *   `ContainerControl.explainArbitration()`. Otherwise the rule is reported
+ *   as `Custom`.
+ */
+export interface ArbitrationRecord {
+    /**
+     * Id of the container control that made the decision.
+     */
+    containerId: string;
+
+    phase: ArbitrationPhase;
+
+    /**
+     * Turn number of the decision.
+     */
+    turnNumber: number;
+
+    /**
+     * Ids of the children that answered `true` to `canHandle` or
+     * `canTakeInitiative`, in child order.
+     */
+    candidates: string[];
+
+    /**
+     * The rule that selected the winner.
+     *
+     * The default rules of `ContainerControl` are:
+     * - `NoCandidates`: no child answered `true`.
+     * - `FallbackIntentLastInitiativeChild`: the input is a FallbackIntent,
+     *   which is only given to the child that most recently took the
+     *   initiative.
+     * - `LastInitiativeChild`: the child that most recently took the initiative.
+     * - `LastHandlingChild`: the child that most recently handled an input.
+     * - `FirstCandidate`: the first candidate in child order.
+     * - `DisambiguateTarget`: the candidates are ambiguous and the container
+     *   asks the user which one they mean.  Reported by
+     *   `DisambiguationArbitrationStrategy`.
+     * - `DisambiguatedTarget`: the input names the target of one of the
+     *   controls the user was asked to choose between.
+     *
+     * An `ArbitrationStrategy` reports its own rules, e.g. `Priority`,
+     * `HighestScore` or `RoundRobin`.
+     */
+    rule: string;
+
+    /**
+     * Id of the selected child, or undefined if no child was selected.
+     */
+    winner?: string;
+}
+
+/**
+ * Creates a one-line description of an arbitration record.
+ *
+ * Example: `canHandle: userName by LastInitiativeChild from [userName, city]`
+ *
+ * @param record - Arbitration record
+ */
+export function arbitrationRecordToString(record: ArbitrationRecord): string {
+    return `${record.phase}: ${record.winner ?? 'none'} by ${record.rule} from [${record.candidates.join(
+        ', ',
+    )}]`;
+}
@@ -0,0 +1,210 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { findControlById } from '../utils/ControlUtils';
+import { ArbitrationPhase } from './ArbitrationRecord';
+import { ContainerControl } from './ContainerControl';
+import { Control } from './Control';
+import { ControlInput } from './ControlInput';
+import { implementsCanHandleScoring } from './mixins/CanHandleScoring';
+
+/**
+ * The outcome of an `ArbitrationStrategy`.
+ */
+export interface ArbitrationDecision {
+    /**
+     * The selected child, or undefined if no child should be selected.
+     */
+    winner: Control | undefined;
+
+    /**
+     * Short name of the rule that produced the decision. Reported in the
+     * `ArbitrationRecord`.
+     */
+    rule: string;
+
+    /**
+     * The candidates that the user is asked to choose between, if the
+     * strategy cannot select a handling child.
+     *
+     * If defined, `winner` must be undefined.  The container then answers
+     * `canHandle = true` and responds with a `DisambiguateTargetAct`.  Ignored
+     * for the initiative phase.
+     */
+    ambiguousCandidates?: Control[];
+}
+
+/**
+ * Selects the child of a `ContainerControl` that handles an input or takes
+ * the initiative.
+ *
+ * Usage:
+ * - Configure via `ContainerControlProps.handlingStrategy` and
+ *   `ContainerControlProps.initiativeStrategy`.
+ * - Strategies are only consulted if there is at least one candidate.
+ */
+export interface ArbitrationStrategy {
+    /**
+     * Decides a winner from the candidates.
+     *
+     * @param candidates - The children that answered `true` to `canHandle` or
+     * `canTakeInitiative`, in child order.  Never empty.
+     * @param input - Input
+     * @param container - The container control making the decision
+     * @param phase - Whether a handling or an initiative child is chosen
+     */
+    decide(
+        candidates: Control[],
+        input: ControlInput,
+        container: ContainerControl,
+        phase: ArbitrationPhase,
+    ): ArbitrationDecision | Promise<ArbitrationDecision>;
+}
+
+/**
+ * Selects the candidate that appears first in a fixed priority list.
+ *
+ * Candidates that are not in the list rank below those that are, in child
+ * order.
+ */
+export class PriorityArbitrationStrategy implements ArbitrationStrategy {
+    /**
+     * Control ids in order of decreasing priority.
+     */
+    readonly priorities: string[];
+
+    constructor(priorities: string[]) {
+        this.priorities = priorities;
+    }
+
+    // jsDoc: see `ArbitrationStrategy`
+    decide(candidates: Control[]): ArbitrationDecision {
+        const rank = (control: Control) => {
+            const index = this.priorities.indexOf(control.id);
+            return index >= 0 ? index : this.priorities.length;
+        };
+        let winner = candidates[0];
+        for (const candidate of candidates) {
+            if (rank(candidate) < rank(winner)) {
+                winner = candidate;
+            }
+        }
+        return { winner, rule: 'Priority' };
+    }
+}
+
+/**
+ * Function that scores a candidate. Higher scores win.
+ */
+export type ArbitrationScorer = (control: Control, input: ControlInput) => number | Promise<number>;
+
+/**
+ * Selects the candidate with the highest score.
+ *
+ * By default each candidate is scored by its `getCanHandleScore()` method
+ * (see `CanHandleScoring`); candidates that do not implement it score
+ * `defaultScore`.  Ties are broken by child order.
+ */
+export class ScoreArbitrationStrategy implements ArbitrationStrategy {
+    readonly scorer: ArbitrationScorer;
+
+    /**
+     * @param scorer - Scoring function. Default: uses `getCanHandleScore()`.
+     * @param defaultScore - Score of candidates that do not implement `CanHandleScoring`.
+     */
+    constructor(scorer?: ArbitrationScorer, defaultScore: number = 0) {
+        this.scorer =
+            scorer ??
+            ((control, input) =>
+                implementsCanHandleScoring(control) ? control.getCanHandleScore(input) : defaultScore);
+    }
+
+    // jsDoc: see `ArbitrationStrategy`
+    async decide(candidates: Control[], input: ControlInput): Promise<ArbitrationDecision> {
+        let winner = candidates[0];
+        let bestScore = -Infinity;
+        for (const candidate of candidates) {
+            const score = await this.scorer(candidate, input);
+            if (score > bestScore) {
+                winner = candidate;
+                bestScore = score;
+            }
+        }
+        return { winner, rule: 'HighestScore' };
+    }
+}
+
+/**
+ * Rotates through the candidates.
+ *
+ * Selects the first candidate that comes after the previous winner in child
+ * order, wrapping around to the first candidate.  The previous winner is
+ * `state.lastHandlingControl` of the container for the handling phase and
+ * `state.lastInitiativeChild` for the initiative phase.
+ */
+export class RoundRobinArbitrationStrategy implements ArbitrationStrategy {
+    // jsDoc: see `ArbitrationStrategy`
+    decide(
+        candidates: Control[],
+        input: ControlInput,
+        container: ContainerControl,
+        phase: ArbitrationPhase,
+    ): ArbitrationDecision {
+        const previous =
+            phase === 'canHandle' ? container.state.lastHandlingControl : container.state.lastInitiativeChild;
+        const previousIndex = container.children.findIndex((child) => child.id === previous?.controlId);
+        const next = candidates.find((candidate) => container.children.indexOf(candidate) > previousIndex);
+        return { winner: next ?? candidates[0], rule: 'RoundRobin' };
+    }
+}
+
+/**
+ * Asks the user rather than guessing when more than one child can handle an
+ * input.
+ *
+ * Selects a handling child only if it is the sole candidate, or if it is the
+ * child that most recently took the initiative (i.e. the user is most
+ * likely answering its question).  Otherwise the container asks the user
+ * which of the candidates they mean with a `DisambiguateTargetAct`, e.g.
+ * "A: Did you mean the departure city or the arrival city?", and the
+ * `ArbitrationRecord` reports the rule `DisambiguateTarget`.  A reply that
+ * names the target of one of the candidates, e.g. "U: the arrival city",
+ * gives the original input to that candidate.
+ *
+ * Inputs other than intents cannot be replayed and are given to the first
+ * candidate.  For the initiative phase the first candidate is selected.
+ */
+export class DisambiguationArbitrationStrategy implements ArbitrationStrategy {
+    // jsDoc: see `ArbitrationStrategy`
+    decide(
+        candidates: Control[],
+        input: ControlInput,
+        container: ContainerControl,
+        phase: ArbitrationPhase,
+    ): ArbitrationDecision {
+        if (phase === 'canTakeInitiative') {
+            return { winner: candidates[0], rule: 'FirstCandidate' };
+        }
+        if (candidates.length === 1) {
+            return { winner: candidates[0], rule: 'SingleCandidate' };
+        }
+        const mruMatch = findControlById(candidates, container.state.lastInitiativeChild?.controlId);
+        if (mruMatch !== undefined) {
+            return { winner: mruMatch, rule: 'LastInitiativeChild' };
+        }
+        if (input.request.type !== 'IntentRequest') {
+            return { winner: candidates[0], rule: 'FirstCandidate' };
+        }
+        return { winner: undefined, rule: 'DisambiguateTarget', ambiguousCandidates: candidates };
+    }
+}
@@ -11,10 +11,16 @@
  * permissions and limitations under the License.
  */
 
+import { Intent, IntentRequest } from 'ask-sdk-model';
+import { v1 } from 'ask-smapi-model';
 import _ from 'lodash';
 import { InputUtil } from '..';
+import { GeneralControlIntent, unpackGeneralControlIntent } from '../intents/GeneralControlIntent';
 import { Logger } from '../logging/Logger';
+import { DisambiguateTargetAct } from '../systemActs/InitiativeActs';
 import { findControlById } from '../utils/ControlUtils';
+import { ArbitrationPhase, ArbitrationRecord, arbitrationRecordToString } from './ArbitrationRecord';
+import { ArbitrationStrategy } from './ArbitrationStrategy';
 import { Control, ControlProps, ControlState } from './Control';
 import { ControlInput } from './ControlInput';
 import { ControlResultBuilder } from './ControlResult';
@@ -38,6 +44,23 @@ interface LastInitiativeState {
     actName?: string;
 }
 
+/**
+ * Records a question asked by a `DisambiguateTargetAct`.
+ */
+interface PendingDisambiguation {
+    /**
+     * Ids of the controls that could handle the input.
+     */
+    controlIds: string[];
+
+    /**
+     * The intent that was ambiguous.
+     */
+    intent: Intent;
+
+    turnNumber: number;
+}
+
 /**
  * Container state for use in arbitration
  */
@@ -46,6 +69,11 @@ export class ContainerControlState implements ControlState {
     lastHandlingControl?: ChildActivityRecord; // TODO: naming: change to lastHandlingControlInfo | lastHandlingControlRecord
     lastInitiativeChild?: ChildActivityRecord; // ditto.
     lastInitiative: LastInitiativeState;
+
+    /**
+     * The disambiguation question asked on the previous turn, if any.
+     */
+    pendingDisambiguation?: PendingDisambiguation;
 }
 
 /**
@@ -53,10 +81,51 @@ export class ContainerControlState implements ControlState {
  */
 export class ContainerControlProps implements ControlProps {
     id: string;
+
+    /**
+     * Strategy used by `decideHandlingChild()` to select the child that
+     * handles an input.
+     *
+     * Default: the most-recent initiative child if it is a candidate,
+     * otherwise the first candidate.  See `ContainerControl.decideHandlingChild()`.
+     *
+     * Usage:
+     * - Built-in strategies: `PriorityArbitrationStrategy`,
+     *   `ScoreArbitrationStrategy`, `RoundRobinArbitrationStrategy` and
+     *   `DisambiguationArbitrationStrategy`.
+     */
+    handlingStrategy?: ArbitrationStrategy;
+
+    /**
+     * Strategy used by `decideInitiativeChild()` to select the child that
+     * takes the initiative.
+     *
+     * Default: the most-recent handling child if it is a candidate, otherwise
+     * the most-recent initiative child if it is a candidate, otherwise the
+     * first candidate.  See `ContainerControl.decideInitiativeChild()`.
+     */
+    initiativeStrategy?: ArbitrationStrategy;
+
+    /**
+     * Function that renders a target in a `DisambiguateTargetAct`.
+     *
+     * Each control is identified by the first of its
+     * `interactionModel.targets` that is not shared with the other
+     * candidates, or by its id.
+     *
+     * Default: the value of the target in the `target` slot type of the
+     * request's locale, e.g. `start` is rendered as "anfang" for a de-DE
+     * request.  Targets that are not in the slot type are rendered as lower
+     * case words, e.g. `departureCity` is rendered as "departure city".
+     */
+    renderDisambiguationTarget?: (target: string, input: ControlInput) => string;
 }
 
 export class ContainerControlCompleteProps implements ControlProps {
     id: string;
+    handlingStrategy?: ArbitrationStrategy;
+    initiativeStrategy?: ArbitrationStrategy;
+    renderDisambiguationTarget?: (target: string, input: ControlInput) => string;
 }
 
 /**
@@ -70,6 +139,9 @@ export class ContainerControlCompleteProps implements ControlProps {
  *      initiative control is considered. If it is not a candidate, then no
  *      child is selected.
  *
+ *  The logic can be replaced by configuring an `ArbitrationStrategy` via
+ *  `props.handlingStrategy` and `props.initiativeStrategy`.
+ *
  *  Usage:
  *  - Container controls can and should add high-level behaviors and respond to
  *    high-level requests such as multi-valued intents.
@@ -91,6 +163,29 @@ export class ContainerControl extends Control implements IContainerControl, Cont
     selectedHandlingChild: Control | undefined;
     selectedInitiativeChild: Control | undefined;
 
+    /**
+     * Explains the selection of `this.selectedHandlingChild`.
+     */
+    handlingArbitration: ArbitrationRecord | undefined;
+
+    /**
+     * Explains the selection of `this.selectedInitiativeChild`.
+     */
+    initiativeArbitration: ArbitrationRecord | undefined;
+
+    private arbitrationRule: string | undefined;
+
+    /**
+     * The ambiguous candidates found during `canHandleByChild()`, if any.
+     */
+    private ambiguousCandidates: Control[] | undefined;
+
+    /**
+     * The original input to pass to the selected handling child, if the input
+     * is a reply to a `DisambiguateTargetAct`.
+     */
+    private disambiguatedInput: ControlInput | undefined;
+
     // jsDoc: see `Control`
     constructor(props: ContainerControlProps) {
         //TODO: add this to the other standard controls.  // STALE COMMENT?
@@ -156,7 +251,10 @@ export class ContainerControl extends Control implements IContainerControl, Cont
 
     // jsDoc: see `ControlStateDiagramming`
     stringifyStateForDiagram(): string {
-        return ''; // nothing special to report.
+        const records = [this.handlingArbitration, this.initiativeArbitration].filter(
+            (record): record is ArbitrationRecord => record !== undefined,
+        );
+        return records.map((record) => arbitrationRecordToString(record)).join('; ');
     }
 
     /**
@@ -167,17 +265,39 @@ export class ContainerControl extends Control implements IContainerControl, Cont
      *
      * The selected "winner" is recorded in `this.selectedHandlingChild`.
      *
+     * If `props.handlingStrategy` finds the candidates ambiguous, e.g.
+     * `DisambiguationArbitrationStrategy`, no child is selected but the
+     * container reports `canHandle = true` so that it can ask the user which
+     * control they mean.  See `ArbitrationDecision.ambiguousCandidates`.
+     *
      * @param input - Input
      */
     async canHandleByChild(input: ControlInput): Promise<boolean> {
+        this.ambiguousCandidates = undefined;
+        this.disambiguatedInput = undefined;
+        if (await this.canHandleDisambiguationReply(input)) {
+            return true;
+        }
+
         const candidates = await this.gatherHandlingCandidates(input);
+        this.arbitrationRule = undefined;
         this.selectedHandlingChild = await this.decideHandlingChild(candidates, input);
+        this.handlingArbitration = this.recordArbitration(
+            'canHandle',
+            candidates,
+            this.selectedHandlingChild,
+            input,
+        );
         if (this.selectedHandlingChild !== undefined) {
             log.debug(
                 `${this.id} canHandleByChild=true. selectedHandlingChild = ${this.selectedHandlingChild.id}`,
             );
             return true;
         }
+        if (this.ambiguousCandidates !== undefined) {
+            log.debug(`${this.id} canHandleByChild=true. Asking the user to disambiguate.`);
+            return true;
+        }
 
         log.debug(`${this.id} canHandleByChild=false.`);
         return false;
@@ -191,13 +311,17 @@ export class ContainerControl extends Control implements IContainerControl, Cont
      * @param resultBuilder - Response builder.
      */
     async handleByChild(input: ControlInput, resultBuilder: ControlResultBuilder): Promise<void> {
+        this.state.pendingDisambiguation = undefined;
+        if (this.ambiguousCandidates !== undefined) {
+            return this.askToDisambiguate(this.ambiguousCandidates, input, resultBuilder);
+        }
         if (!this.selectedHandlingChild) {
             throw new Error(
                 'this.selectedHandlingChild is undefined. Did you call canHandle() first? Did it update this.selectedHandlingChild?',
             );
         }
 
-        await this.selectedHandlingChild.handle(input, resultBuilder);
+        await this.selectedHandlingChild.handle(this.disambiguatedInput ?? input, resultBuilder);
         this.state.lastHandlingControl = {
             controlId: this.selectedHandlingChild.id,
             turnNumber: input.turnNumber,
@@ -222,6 +346,7 @@ export class ContainerControl extends Control implements IContainerControl, Cont
         const candidates: Control[] = [];
         for (const child of this.children) {
             const response = await child.canHandle(input);
+            input.trace?.recordCanHandle(child.id, response);
             if (response) {
                 candidates.push(child);
             }
@@ -243,6 +368,8 @@ export class ContainerControl extends Control implements IContainerControl, Cont
      *     initiative control is considered. If it is not a candidate, then no
      *     child is selected and this method returns undefined.
      *
+     * If `props.handlingStrategy` is defined, it replaces the default logic.
+     *
      * Remarks:
      *  * The special case for FallbackIntent exists because that intent is not
      *    user-initiative -- rather it indicates a failure to understanding the
@@ -256,11 +383,16 @@ export class ContainerControl extends Control implements IContainerControl, Cont
         if (candidates.length === 0) {
             return undefined;
         }
+        if (this.props.handlingStrategy !== undefined) {
+            return this.decideByStrategy(this.props.handlingStrategy, 'canHandle', candidates, input);
+        }
         if (InputUtil.isFallbackIntent(input)) {
+            this.explainArbitration('FallbackIntentLastInitiativeChild');
             const last = findControlById(candidates, this.state.lastInitiativeChild?.controlId);
             return last ? last : undefined;
         }
         const mruMatch = findControlById(candidates, this.state.lastInitiativeChild?.controlId);
+        this.explainArbitration(mruMatch !== undefined ? 'LastInitiativeChild' : 'FirstCandidate');
         return mruMatch ?? candidates[0];
     }
 
@@ -276,7 +408,14 @@ export class ContainerControl extends Control implements IContainerControl, Cont
      */
     async canTakeInitiativeByChild(input: ControlInput): Promise<boolean> {
         const candidates = await this.gatherInitiativeCandidates(input);
+        this.arbitrationRule = undefined;
         this.selectedInitiativeChild = await this.decideInitiativeChild(candidates, input);
+        this.initiativeArbitration = this.recordArbitration(
+            'canTakeInitiative',
+            candidates,
+            this.selectedInitiativeChild,
+            input,
+        );
         if (this.selectedInitiativeChild !== undefined) {
             log.debug(
                 `${this.id} canTakeInitiative=true. this.selectedInitiativeChild = ${this.selectedInitiativeChild.id}`,
@@ -319,6 +458,7 @@ export class ContainerControl extends Control implements IContainerControl, Cont
         const candidates: Control[] = [];
         for (const child of this.children) {
             const response = await child.canTakeInitiative(input);
+            input.trace?.recordCanTakeInitiative(child.id, response);
             if (response) {
                 candidates.push(child);
             }
@@ -337,6 +477,8 @@ export class ContainerControl extends Control implements IContainerControl, Cont
      *  2. otherwise choose the first candidate in the positional order of the
      *     `this.children` array.
      *
+     * If `props.initiativeStrategy` is defined, it replaces the default logic.
+     *
      * @param candidates - The child controls that reported `canTakeInitiative = true`
      * @param input - Input
      */
@@ -344,13 +486,192 @@ export class ContainerControl extends Control implements IContainerControl, Cont
         if (candidates.length === 0) {
             return undefined;
         }
+        if (this.props.initiativeStrategy !== undefined) {
+            return this.decideByStrategy(
+                this.props.initiativeStrategy,
+                'canTakeInitiative',
+                candidates,
+                input,
+            );
+        }
 
         const handlingControlMatch = findControlById(candidates, this.state.lastHandlingControl?.controlId);
         if (handlingControlMatch !== undefined) {
+            this.explainArbitration('LastHandlingChild');
             return handlingControlMatch;
         }
 
         const mruMatch = findControlById(candidates, this.state.lastInitiativeChild?.controlId);
+        this.explainArbitration(mruMatch !== undefined ? 'LastInitiativeChild' : 'FirstCandidate');
         return mruMatch ?? candidates[0];
     }
+
+    /**
+     * Describes the rule used by `decideHandlingChild()` or
+     * `decideInitiativeChild()` to select the winner.
+     *
+     * Usage:
+     * - Custom implementations of the `decide*` methods should call this so
+     *   that the `ArbitrationRecord` explains the decision.  If it is not
+     *   called, the rule is reported as `Custom`.
+     *
+     * @param rule - Short name of the rule, e.g. `HighestScore`
+     */
+    protected explainArbitration(rule: string): void {
+        this.arbitrationRule = rule;
+    }
+
+    private async askToDisambiguate(
+        candidates: Control[],
+        input: ControlInput,
+        resultBuilder: ControlResultBuilder,
+    ): Promise<void> {
+        const targets = candidates.map((candidate) => {
+            const otherTargets = _.flatMap(
+                candidates.filter((other) => other !== candidate),
+                (other) => getTargets(other),
+            );
+            const uniqueTarget = getTargets(candidate).find((target) => !otherTargets.includes(target));
+            return uniqueTarget ?? candidate.id;
+        });
+        const renderTarget = this.props.renderDisambiguationTarget ?? renderTargetFromSlotType;
+        resultBuilder.addAct(
+            new DisambiguateTargetAct(this, {
+                controlIds: candidates.map((candidate) => candidate.id),
+                targets,
+                renderedTargets: targets.map((target) => renderTarget(target, input)),
+            }),
+        );
+        if (InputUtil.isIntent(input)) {
+            this.state.pendingDisambiguation = {
+                controlIds: candidates.map((candidate) => candidate.id),
+                intent: (input.request as IntentRequest).intent,
+                turnNumber: input.turnNumber,
+            };
+        }
+    }
+
+    /**
+     * Determines if the input is a reply to the `DisambiguateTargetAct` of the
+     * previous turn that names the target of exactly one of the ambiguous
+     * controls, e.g. "U: the arrival city".
+     *
+     * If so, that control is selected and is asked whether it can still handle
+     * the original intent.
+     *
+     * @param input - Input
+     */
+    private async canHandleDisambiguationReply(input: ControlInput): Promise<boolean> {
+        const pending = this.state.pendingDisambiguation;
+        if (
+            pending === undefined ||
+            pending.turnNumber !== input.turnNumber - 1 ||
+            !InputUtil.isIntent(input, GeneralControlIntent.name)
+        ) {
+            return false;
+        }
+        const { target } = unpackGeneralControlIntent((input.request as IntentRequest).intent);
+        if (target === undefined) {
+            return false;
+        }
+        const matches = pending.controlIds
+            .map((controlId) => findControlById(this.children, controlId))
+            .filter((child): child is Control => child !== undefined && getTargets(child).includes(target));
+        if (matches.length !== 1) {
+            return false;
+        }
+
+        const intent: Intent = _.cloneDeep(pending.intent);
+        const handlerInput = {
+            ...input.handlerInput,
+            requestEnvelope: {
+                ...input.handlerInput.requestEnvelope,
+                request: { ...(input.request as IntentRequest), intent },
+            },
+        };
+        const disambiguatedInput = new ControlInput(
+            handlerInput,
+            input.turnNumber,
+            input.controls,
+            input.trace,
+            input.i18n,
+            input.grammar,
+        );
+        const canHandle = await matches[0].canHandle(disambiguatedInput);
+        input.trace?.recordCanHandle(matches[0].id, canHandle);
+        if (!canHandle) {
+            return false;
+        }
+
+        this.selectedHandlingChild = matches[0];
+        this.disambiguatedInput = disambiguatedInput;
+        this.explainArbitration('DisambiguatedTarget');
+        this.handlingArbitration = this.recordArbitration('canHandle', matches, matches[0], input);
+        return true;
+    }
+
+    private async decideByStrategy(
+        strategy: ArbitrationStrategy,
+        phase: ArbitrationPhase,
+        candidates: Control[],
+        input: ControlInput,
+    ): Promise<Control | undefined> {
+        const decision = await strategy.decide(candidates, input, this, phase);
+        this.explainArbitration(decision.rule);
+        if (phase === 'canHandle') {
+            this.ambiguousCandidates = decision.ambiguousCandidates;
+        }
+        return decision.winner;
+    }
+
+    private recordArbitration(
+        phase: ArbitrationPhase,
+        candidates: Control[],
+        winner: Control | undefined,
+        input: ControlInput,
+    ): ArbitrationRecord {
+        const record: ArbitrationRecord = {
+            containerId: this.id,
+            phase,
+            turnNumber: input.turnNumber,
+            candidates: candidates.map((candidate) => candidate.id),
+            rule: candidates.length === 0 ? 'NoCandidates' : this.arbitrationRule ?? 'Custom',
+            winner: winner?.id,
+        };
+        input.arbitrationRecords.push(record);
+        input.trace?.recordArbitration(record);
+        log.debug(`${this.id} arbitration: ${arbitrationRecordToString(record)}`);
+        return record;
+    }
+}
+
+/**
+ * The props of the controls that are referred to by targets, e.g.
+ * `ValueControl` and `ListControl`.
+ */
+interface TargetedControlProps {
+    props?: { interactionModel?: { targets?: string[] } };
+}
+
+/**
+ * Gets the targets that refer to a control, i.e.
+ * `props.interactionModel.targets`, or an empty array if the control does
+ * not define them.
+ */
+function getTargets(control: Control & TargetedControlProps): string[] {
+    return control.props?.interactionModel?.targets ?? [];
+}
+
+/**
+ * Renders a target as its value in the `target` slot type of the request's
+ * locale, or as lower case words if the slot type does not define it.
+ */
+function renderTargetFromSlotType(target: string, input: ControlInput): string {
+    const slotType: v1.skill.interactionModel.SlotType = input.i18n.t('SHARED_SLOT_TYPES_TARGET', {
+        returnObjects: true,
+    });
+    const value = Array.isArray(slotType.values)
+        ? slotType.values.find((value) => value.id === target)
+        : undefined;
+    return value?.name?.value ?? _.lowerCase(target);
 }
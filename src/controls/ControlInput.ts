@@ -13,7 +13,11 @@
 
 import { HandlerInput } from 'ask-sdk-core';
 import { Request } from 'ask-sdk-model';
+import i18next, { i18n } from 'i18next';
 import _ from 'lodash';
+import { Grammar, grammarForLocale } from '../intl/Grammar';
+import { TurnTrace } from '../runtime/TurnTrace';
+import { ArbitrationRecord } from './ArbitrationRecord';
 import { IControlInput } from './interfaces/IControlInput';
 import { IControl } from './interfaces/IControl';
 
@@ -55,10 +59,58 @@ export class ControlInput implements IControlInput {
      */
     readonly controls: { [index: string]: IControl };
 
-    constructor(handlerInput: HandlerInput, turnNumber: number, controlMap: { [index: string]: IControl }) {
+    /**
+     * Structured trace of the current turn.
+     *
+     * Only defined if a `TurnTraceSink` is registered with the `ControlHandler`.
+     */
+    readonly trace?: TurnTrace;
+
+    /**
+     * Explanations of the decisions made by container controls during the
+     * current turn, in the order they were made.
+     *
+     * Usage:
+     *  * Inspect in tests to verify which child a container selected and why.
+     */
+    readonly arbitrationRecords: ArbitrationRecord[] = [];
+
+    /**
+     * The i18next instance for the locale of the request.
+     *
+     * Usage:
+     *  * Use `input.i18n.t(key)` rather than the global `i18next.t(key)` so
+     *    that a single skill instance can serve requests in several locales.
+     *  * Provided by `ControlManager.getI18n()`.  Defaults to the global
+     *    i18next instance.
+     */
+    readonly i18n: i18n;
+
+    /**
+     * The grammar for the locale of the request.
+     *
+     * Usage:
+     *  * Use `input.grammar.formatList(items)` and similar to render lists,
+     *    plurals and articles in the language of the request.
+     *  * Provided by `ControlManager.getGrammar()`.  Defaults to the built-in
+     *    grammar for the language of `i18n`.
+     */
+    readonly grammar: Grammar;
+
+    constructor(
+        handlerInput: HandlerInput,
+        turnNumber: number,
+        controlMap: { [index: string]: IControl },
+        trace?: TurnTrace,
+        i18nInstance: i18n = i18next,
+        grammar?: Grammar,
+    ) {
         this.handlerInput = handlerInput;
         this.request = this.handlerInput.requestEnvelope.request;
         this.turnNumber = turnNumber;
         this.controls = controlMap;
+        this.trace = trace;
+        this.i18n = i18nInstance;
+        this.grammar = grammar ?? grammarForLocale(i18nInstance.language ?? 'en-US');
     }
 }
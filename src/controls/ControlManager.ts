@@ -12,7 +12,7 @@
  */
 
 import { HandlerInput } from 'ask-sdk-core';
-import i18next, { Resource } from 'i18next';
+import i18next, { i18n, Resource } from 'i18next';
 import _ from 'lodash';
 import { defaultI18nResources } from '../commonControls/LanguageStrings';
 import { Control } from '../controls/Control';
@@ -22,12 +22,21 @@ import {
     _generateModelData,
 } from '../interactionModelGeneration/ControlInteractionModelGenerator';
 import { ModelData } from '../interactionModelGeneration/ModelTypes';
+import { Grammar, grammarForLocale } from '../intl/Grammar';
 import { Logger } from '../logging/Logger';
+import { ControlStateCodec, JsonControlStateCodec } from '../persistence/ControlStateCodec';
+import {
+    ControlStateStore,
+    DEFAULT_CONTROL_STATE_ATTRIBUTE_KEY,
+    SessionAttributesControlStateStore,
+} from '../persistence/ControlStateStore';
 import { APLMode } from '../responseGeneration/AplMode';
 import { ControlResponseBuilder } from '../responseGeneration/ControlResponseBuilder';
 import { SystemAct } from '../systemActs/SystemAct';
+import { visitControls } from '../utils/ControlVisitor';
 import { ControlInput } from './ControlInput';
 import { ControlResult } from './ControlResult';
+import { ControlStateMigrations, STATE_SCHEMA_VERSION_KEY } from './ControlStateMigrations';
 import { isContainerControl } from './interfaces/IContainerControl';
 import { IControl } from './interfaces/IControl';
 import { IControlManager } from './interfaces/IControlManager';
@@ -39,7 +48,11 @@ const log = new Logger('AskSdkControls:ControlManager');
  */
 export interface ControlManagerProps {
     /**
-     * The locale to use when looking up i18n strings.
+     * The locale to use when looking up i18n strings if the request does not
+     * specify one.
+     *
+     * The locale of each request is determined by `ControlManager.getLocale()`,
+     * which defaults to `requestEnvelope.request.locale`.
      */
     locale?: string;
 
@@ -47,18 +60,67 @@ export interface ControlManagerProps {
      * Overrides to built-in localized content and/or content for additional locales.
      *
      * Default: The defaults are defined in `src/commonControls/LanguageStrings.ts` and
-     * provides en-US strings for all the builtin controls.
+     * provide strings for all the builtin controls in en, en-GB, de, es, fr and ja.
      *
      * Usage:
-     * - to override a default string in en-US for all instances of a built-in control,
-     *   add the override here using the same structure as shown in `LanguageStrings.ts`
+     * - to override a default string for all instances of a built-in control,
+     *   add the override here using the same structure as shown in `LanguageStrings.ts`.
+     *   Arrays, such as intent samples or slot values, replace the default array.
      * - to add content for a new locale, add a new block of content like 'en-US' and
-     *   configure all strings for each builtin control type that you require. Also configure
-     *   `ControlManagerProps.locale` to refer to the new locale.
-     *
-     * TODO: finish localizing all strings,
+     *   configure all strings for each builtin control type that you require. Requests
+     *   in that locale will use the new content.
      */
     i18nResources?: Resource;
+
+    /**
+     * Grammars that replace the built-in grammars, keyed by locale (e.g.
+     * 'fr-CA') or by language (e.g. 'fr').
+     *
+     * Default: `grammarForLocale()`, which provides grammars for en, de, es,
+     * fr and ja and a generic `IntlGrammar` for other languages.
+     */
+    grammars?: { [localeOrLanguage: string]: Grammar };
+
+    /**
+     * The store used to keep the control state between turns.
+     *
+     * Default: `SessionAttributesControlStateStore`, i.e. the state lives for
+     * the duration of the user session.
+     *
+     * Usage:
+     * - To allow a partially completed control tree to be resumed in a later
+     *   session, use `PersistentAttributesControlStateStore` (requires a
+     *   `PersistenceAdapter` to be configured on the skill) or, for local
+     *   testing, `InMemoryControlStateStore`.
+     */
+    stateStore?: ControlStateStore;
+
+    /**
+     * The codec used to convert the control state map to and from the string
+     * kept in the `stateStore`.
+     *
+     * Default: `JsonControlStateCodec`, i.e. pretty-printed JSON.
+     *
+     * Usage:
+     * - For large control trees, use `CompactJsonControlStateCodec` to omit
+     *   default-valued fields, optionally wrapped in a `GzipControlStateCodec`.
+     */
+    stateCodec?: ControlStateCodec;
+
+    /**
+     * Whether the constructor also initializes the global i18next instance
+     * with `locale` and the localized content.
+     *
+     * Default: true, for compatibility with code that calls the global
+     * `i18next.t()` and with `ControlInput`s that are created without a
+     * control manager, such as `TestInput`.
+     *
+     * The global initialization is deprecated and will be removed in a future
+     * version: the last control manager created determines the locale for the
+     * whole process.  Set to false and use `ControlInput.i18n` or
+     * `ControlManager.getI18n()` instead.
+     */
+    initGlobalI18n?: boolean;
 }
 
 /**
@@ -109,7 +171,7 @@ export abstract class ControlManager implements IControlManager {
     /**
      * Default key name used to store control state data between turns.
      */
-    static DEFAULT_CONTROL_STATE_ATTRIBUTE_KEY = '__controlState';
+    static DEFAULT_CONTROL_STATE_ATTRIBUTE_KEY = DEFAULT_CONTROL_STATE_ATTRIBUTE_KEY;
 
     /**
      * The custom props provided during construction
@@ -121,6 +183,23 @@ export abstract class ControlManager implements IControlManager {
      */
     props: Readonly<Required<ControlManagerProps>>;
 
+    /**
+     * Migrations applied to control state that was saved with an older schema
+     * version.
+     *
+     * Usage:
+     * - Register migrations during construction of the concrete ControlManager.
+     *   See `ControlStateMigrations`.
+     */
+    readonly stateMigrations: ControlStateMigrations = new ControlStateMigrations();
+
+    /**
+     * The built-in localized content merged with `props.i18nResources`.
+     */
+    readonly i18nResources: Resource;
+
+    private i18nInstances: { [locale: string]: i18n } = {};
+
     /**
      * Creates an instance of a Control Manager.
      * @param props - props
@@ -128,8 +207,15 @@ export abstract class ControlManager implements IControlManager {
     constructor(props?: ControlManagerProps) {
         this.rawProps = props;
         this.props = ControlManager.mergeWithDefaultProps(props);
-        const resource: Resource = _.merge(defaultI18nResources, this.props.i18nResources);
-        i18nInit(this.props.locale, resource);
+        this.i18nResources = _.mergeWith(
+            {},
+            defaultI18nResources,
+            this.props.i18nResources,
+            (_value, override) => (Array.isArray(override) ? _.cloneDeep(override) : undefined),
+        );
+        if (this.props.initGlobalI18n) {
+            i18nInit(this.props.locale, this.i18nResources);
+        }
     }
 
     /**
@@ -141,6 +227,10 @@ export abstract class ControlManager implements IControlManager {
         const defaults: Required<ControlManagerProps> = {
             locale: 'en-US',
             i18nResources: {},
+            grammars: {},
+            stateStore: new SessionAttributesControlStateStore(),
+            stateCodec: new JsonControlStateCodec(),
+            initGlobalI18n: true,
         };
 
         return _.mergeWith(defaults, props);
@@ -183,6 +273,67 @@ export abstract class ControlManager implements IControlManager {
         rootControl.reestablishState(stateMap[rootControl.id], stateMap);
     }
 
+    /**
+     * The schema version stamped on saved control state.
+     *
+     * Default: the latest version registered in `this.stateMigrations`.
+     */
+    get stateSchemaVersion(): number {
+        return this.stateMigrations.latestVersion;
+    }
+
+    /**
+     * Upgrades a control state map to the current schema version.
+     *
+     * Default: if the map was saved with an older schema version, the
+     * migrations in `this.stateMigrations` are applied using a freshly created
+     * control tree to determine control types.
+     *
+     * @param stateMap - Control state map, optionally stamped with its schema version
+     * @returns The migrated control state map, without the version stamp.
+     */
+    migrateControlStateMap(stateMap: { [key: string]: any }): { [key: string]: any } {
+        const savedVersion: number = stateMap[STATE_SCHEMA_VERSION_KEY] ?? 0;
+        if (savedVersion === this.stateSchemaVersion) {
+            return _.omit(stateMap, STATE_SCHEMA_VERSION_KEY);
+        }
+        return this.stateMigrations.migrate(stateMap, this.createControlTree());
+    }
+
+    /**
+     * Converts the control state map to the string kept in durable storage.
+     *
+     * Default: uses `props.stateCodec`.
+     *
+     * @param stateMap - Control state map
+     */
+    encodeControlStateMap(stateMap: { [key: string]: any }): string {
+        return this.props.stateCodec.encode(stateMap, () => this.getDefaultControlStateMap());
+    }
+
+    /**
+     * Converts a string produced by `encodeControlStateMap` back to a control
+     * state map.
+     *
+     * Default: uses `props.stateCodec`.
+     *
+     * @param serializedState - Serialized state
+     */
+    decodeControlStateMap(serializedState: string): { [key: string]: any } {
+        return this.props.stateCodec.decode(serializedState, () => this.getDefaultControlStateMap());
+    }
+
+    /**
+     * Collects the state of each control in a freshly created control tree.
+     */
+    getDefaultControlStateMap(): { [key: string]: any } {
+        const stateMap: { [key: string]: any } = {};
+        visitControls(this.createControlTree(), (control) => {
+            stateMap[control.id] = control.getSerializableState();
+        });
+        return stateMap;
+    }
+
     /**
      * Transforms the information in ControlResult into user-facing content
      * (prompts and APL).
@@ -262,33 +413,103 @@ export abstract class ControlManager implements IControlManager {
      */
     buildInteractionModel(generator: ControlInteractionModelGenerator): void {
         const rootControl = this.createControlTree();
-        const imData: ModelData = _generateModelData();
+        const imData: ModelData = _generateModelData(this.getI18nForLocale(this.props.locale));
         updateIMForControlTree(rootControl, generator, imData);
     }
 
     /**
      * Load the control state map from durable storage.
      *
-     * Default: loads from Session Attributes.
+     * Default: loads from `props.stateStore`, which defaults to the Session
+     * Attributes, decodes the result using `props.stateCodec` and migrates the result to the current schema version.
      */
     async loadControlStateMap(handlerInput: HandlerInput): Promise<{ [key: string]: any }> {
-        return ControlManager.loadControlStateMapFromSessionAttributes(
-            handlerInput,
-            ControlManager.DEFAULT_CONTROL_STATE_ATTRIBUTE_KEY,
-        );
+        const retrievedStateJSON = await this.props.stateStore.load(handlerInput);
+        if (retrievedStateJSON === undefined) {
+            return {};
+        }
+        return this.migrateControlStateMap(this.decodeControlStateMap(retrievedStateJSON));
+    }
+
+    /**
+     * Determines the locale of a request.
+     *
+     * Default: `requestEnvelope.request.locale`, or `props.locale` if the
+     * request does not specify a locale.
+     *
+     * @param handlerInput - Input for the request
+     */
+    getLocale(handlerInput: HandlerInput): string {
+        return handlerInput.requestEnvelope.request.locale ?? this.props.locale;
     }
 
     /**
-     * Saves the control state map for use in subsequent turns of this session.
+     * Provides the i18next instance for the locale of a request.
      *
-     * Default: saves to the Session Attributes.
+     * An instance is created for each locale on first use and is reused for
+     * subsequent requests.  Unlike the global i18next instance, the instances
+     * can be used concurrently for requests in different locales.
+     *
+     * @param handlerInput - Input for the request
+     */
+    getI18n(handlerInput: HandlerInput): i18n {
+        return this.getI18nForLocale(this.getLocale(handlerInput));
+    }
+
+    /**
+     * Provides the i18next instance for a locale.
+     *
+     * Used for the requests of that locale and, with `props.locale`, to build
+     * the interaction model.
+     *
+     * @param locale - Locale, e.g. 'de-DE'
+     */
+    getI18nForLocale(locale: string): i18n {
+        let instance = this.i18nInstances[locale];
+        if (instance === undefined) {
+            instance = i18next.createInstance();
+            void instance.init({
+                lng: locale,
+                resources: this.i18nResources,
+                fallbackLng: 'en',
+                initImmediate: false,
+            });
+            this.i18nInstances[locale] = instance;
+        }
+        return instance;
+    }
+
+    /**
+     * Provides the grammar for the locale of a request.
+     *
+     * Default: the entry of `props.grammars` for the locale or its language,
+     * otherwise `grammarForLocale()`.
+     *
+     * @param handlerInput - Input for the request
+     */
+    getGrammar(handlerInput: HandlerInput): Grammar {
+        const locale = this.getLocale(handlerInput);
+        const language = locale.split('-')[0];
+        return this.props.grammars[locale] ?? this.props.grammars[language] ?? grammarForLocale(locale);
+    }
+
+    /**
+     * Saves the control state map for use in subsequent turns.
+     *
+     * Default: saves to `props.stateStore`, which defaults to the Session
+     * Attributes.
      */
     async saveControlStateMap(state: any, handlerInput: HandlerInput): Promise<void> {
-        ControlManager.saveControlStateToSessionAttributes(
-            state,
-            handlerInput,
-            ControlManager.DEFAULT_CONTROL_STATE_ATTRIBUTE_KEY,
-        );
+        await this.props.stateStore.save(state, handlerInput);
+    }
+
+    /**
+     * Removes the saved control state map.
+     *
+     * Default: clears `props.stateStore`.
+     */
+    async clearControlStateMap(handlerInput: HandlerInput): Promise<void> {
+        await this.props.stateStore.clear(handlerInput);
     }
 
     static saveControlStateToSessionAttributes(
@@ -340,7 +561,12 @@ function updateIMForControlTree(
     imData: ModelData,
 ): void {
     if (control instanceof Control && implementsInteractionModelContributor(control)) {
-        control.updateInteractionModel(generator, imData);
+        generator.contributingControlId = control.id;
+        try {
+            control.updateInteractionModel(generator, imData);
+        } finally {
+            generator.contributingControlId = undefined;
+        }
     }
 
     // If container control, do same thing recursively
@@ -356,6 +582,9 @@ function updateIMForControlTree(
  *
  * This loads data for the specified local from the resources.
  *
+ * @deprecated Initializes the global i18next instance.  See
+ * `ControlManagerProps.initGlobalI18n`.
+ *
  * @param locale - The locale to specialize to.
  * @param resources - Resources for all supported locales.
  */
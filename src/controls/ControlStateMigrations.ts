@@ -0,0 +1,210 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import _ from 'lodash';
+import { Logger } from '../logging/Logger';
+import { visitControls } from '../utils/ControlVisitor';
+import { IControl } from './interfaces/IControl';
+
+const log = new Logger('AskSdkControls:ControlStateMigrations');
+
+/**
+ * Key of the schema version stamp in the serialized control state map.
+ */
+export const STATE_SCHEMA_VERSION_KEY = '__schemaVersion';
+
+/**
+ * Function that upgrades the serialized state of a single control by one
+ * schema version.
+ *
+ * @param state - The serialized state of the control, as produced by
+ * `control.getSerializableState()` at the previous schema version.
+ * @param controlId - The (current) id of the control.
+ * @returns The serialized state at the new schema version.
+ */
+export type ControlStateMigrator = (state: any, controlId: string) => any;
+
+/**
+ * Identifies a control type for the purpose of registering migrations.
+ */
+export type ControlType = new (...args: any[]) => IControl;
+
+interface TypeMigration {
+    toVersion: number;
+    controlType: ControlType;
+    migrator: ControlStateMigrator;
+}
+
+interface IdMigration {
+    toVersion: number;
+    controlId: string;
+    migrator: ControlStateMigrator;
+}
+
+interface IdRename {
+    toVersion: number;
+    oldId: string;
+    newId: string;
+}
+
+/**
+ * Registry of migrations for the serialized control state.
+ *
+ * Purpose:
+ * - Serialized control state may outlive the code that produced it, e.g. in
+ *   long-running sessions during a deployment or when using a persistent
+ *   `ControlStateStore`.  If the shape of a control's state changes, or a
+ *   control is given a new id, the old state must be upgraded before it is
+ *   reattached to the control tree.
+ *
+ * Usage:
+ * - Each migration upgrades state to a specific schema version `toVersion`.
+ *   The current schema version is the highest `toVersion` registered (or 0 if
+ *   there are no migrations).  State saved before schema versioning was
+ *   introduced is treated as version 0.
+ * - For each version step, migrations are applied in the order: id renames,
+ *   per-id migrators, per-control-type migrators.  Per-control-type migrators
+ *   apply to every control in the tree that is an instance of the registered
+ *   type and they receive the state stored under the control's current id.
+ * - Per-control-type migrators only apply to the controls created by
+ *   `ControlManager.createControlTree()`.  Use per-id migrators for dynamic
+ *   controls.
+ *
+ * Example:
+ * ```
+ * class MyControlManager extends ControlManager {
+ *     constructor() {
+ *         super();
+ *         this.stateMigrations
+ *             .renameControlId(1, 'name', 'userName')
+ *             .registerForControlType(2, MyControl, (state) => ({ ...state, count: state.n }));
+ *     }
+ * }
+ * ```
+ */
+export class ControlStateMigrations {
+    private typeMigrations: TypeMigration[] = [];
+    private idMigrations: IdMigration[] = [];
+    private idRenames: IdRename[] = [];
+
+    /**
+     * The current schema version.
+     */
+    get latestVersion(): number {
+        const versions = [
+            ...this.typeMigrations.map((x) => x.toVersion),
+            ...this.idMigrations.map((x) => x.toVersion),
+            ...this.idRenames.map((x) => x.toVersion),
+        ];
+        return versions.length > 0 ? Math.max(...versions) : 0;
+    }
+
+    /**
+     * Registers a migration for the state of every control of a given type.
+     *
+     * @param toVersion - The schema version produced by the migration
+     * @param controlType - Control class, e.g. `ValueControl`
+     * @param migrator - Function that upgrades the state
+     */
+    registerForControlType(
+        toVersion: number,
+        controlType: ControlType,
+        migrator: ControlStateMigrator,
+    ): this {
+        validateVersion(toVersion);
+        this.typeMigrations.push({ toVersion, controlType, migrator });
+        return this;
+    }
+
+    /**
+     * Registers a migration for the state of the control with a given id.
+     *
+     * @param toVersion - The schema version produced by the migration
+     * @param controlId - Control id (as of `toVersion`)
+     * @param migrator - Function that upgrades the state
+     */
+    registerForControlId(toVersion: number, controlId: string, migrator: ControlStateMigrator): this {
+        validateVersion(toVersion);
+        this.idMigrations.push({ toVersion, controlId, migrator });
+        return this;
+    }
+
+    /**
+     * Registers a change of control id.
+     *
+     * @param toVersion - The schema version that uses the new id
+     * @param oldId - Previous control id
+     * @param newId - New control id
+     */
+    renameControlId(toVersion: number, oldId: string, newId: string): this {
+        validateVersion(toVersion);
+        this.idRenames.push({ toVersion, oldId, newId });
+        return this;
+    }
+
+    /**
+     * Upgrades a control state map to the latest schema version.
+     *
+     * The input is not mutated.
+     *
+     * @param stateMap - Control state map, optionally stamped with `STATE_SCHEMA_VERSION_KEY`
+     * @param rootControl - Root of a freshly created control tree.  Used to
+     * determine the type of each control.
+     * @returns The migrated control state map, without the version stamp.
+     */
+    migrate(stateMap: { [key: string]: any }, rootControl: IControl): { [key: string]: any } {
+        const fromVersion: number = stateMap[STATE_SCHEMA_VERSION_KEY] ?? 0;
+        const migratedMap = _.omit(_.cloneDeep(stateMap), STATE_SCHEMA_VERSION_KEY);
+        const latestVersion = this.latestVersion;
+        if (fromVersion > latestVersion) {
+            throw new Error(
+                `Control state has schema version ${fromVersion} but the latest known version is ${latestVersion}.`,
+            );
+        }
+
+        for (let version = fromVersion + 1; version <= latestVersion; version++) {
+            log.info(`Migrating control state to schema version ${version}`);
+            for (const rename of this.idRenames.filter((x) => x.toVersion === version)) {
+                if (_.has(migratedMap, rename.oldId)) {
+                    migratedMap[rename.newId] = migratedMap[rename.oldId];
+                    delete migratedMap[rename.oldId];
+                }
+            }
+            for (const migration of this.idMigrations.filter((x) => x.toVersion === version)) {
+                if (_.has(migratedMap, migration.controlId)) {
+                    migratedMap[migration.controlId] = migration.migrator(
+                        migratedMap[migration.controlId],
+                        migration.controlId,
+                    );
+                }
+            }
+            const typeMigrations = this.typeMigrations.filter((x) => x.toVersion === version);
+            if (typeMigrations.length > 0) {
+                visitControls(rootControl, (control) => {
+                    for (const migration of typeMigrations) {
+                        if (control instanceof migration.controlType && _.has(migratedMap, control.id)) {
+                            migratedMap[control.id] = migration.migrator(migratedMap[control.id], control.id);
+                        }
+                    }
+                });
+            }
+        }
+        return migratedMap;
+    }
+}
+
+function validateVersion(toVersion: number) {
+    if (!Number.isInteger(toVersion) || toVersion < 1) {
+        throw new Error(`Schema version must be a positive integer. Received: ${toVersion}`);
+    }
+}
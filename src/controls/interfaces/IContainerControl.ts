@@ -21,6 +21,16 @@ import { IControl } from './IControl';
  */
 export interface IContainerControl extends IControl {
     children: IControl[];
+
+    /**
+     * The child that was selected to handle the input, if any.
+     */
+    selectedHandlingChild?: IControl;
+
+    /**
+     * The child that was selected to take the initiative, if any.
+     */
+    selectedInitiativeChild?: IControl;
 }
 
 /**
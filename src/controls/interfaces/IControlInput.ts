@@ -12,6 +12,9 @@
  */
 
 import { HandlerInput } from 'ask-sdk-core';
+import { i18n } from 'i18next';
+import { Grammar } from '../../intl/Grammar';
+import { TurnTrace } from '../../runtime/TurnTrace';
 
 /**
  * Defines the input object passed around during processing by Controls.
@@ -22,4 +25,7 @@ import { HandlerInput } from 'ask-sdk-core';
 export interface IControlInput {
     readonly handlerInput: HandlerInput;
     readonly turnNumber: number;
+    readonly trace?: TurnTrace;
+    readonly i18n: i18n;
+    readonly grammar: Grammar;
 }
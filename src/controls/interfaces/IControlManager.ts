@@ -12,6 +12,8 @@
  */
 
 import { HandlerInput } from 'ask-sdk-core';
+import { i18n } from 'i18next';
+import { Grammar } from '../../intl/Grammar';
 import { ControlResponseBuilder } from '../../responseGeneration/ControlResponseBuilder';
 import { IControl } from './IControl';
 import { IControlInput } from './IControlInput';
@@ -53,6 +55,25 @@ export interface IControlManager {
 
     reestablishControlStates(rootControl: IControl, stateMap: { [key: string]: any }): void;
 
+    /**
+     * Provides the i18next instance for the locale of a request.
+     *
+     * If undefined, the global i18next instance is used.
+     *
+     * @param handlerInput - Input for the request
+     */
+    getI18n?(handlerInput: HandlerInput): i18n;
+
+    /**
+     * Provides the grammar for the locale of a request.
+     *
+     * If undefined, the grammar is chosen from the language of the i18next
+     * instance.
+     *
+     * @param handlerInput - Input for the request
+     */
+    getGrammar?(handlerInput: HandlerInput): Grammar;
+
     /**
      * Builds the response.
      *
@@ -79,6 +100,34 @@ export interface IControlManager {
         responseBuilder: ControlResponseBuilder,
     ): void;
 
+    /**
+     * The schema version stamped on saved control state.
+     *
+     * If undefined or 0, the saved state is not stamped.
+     */
+    readonly stateSchemaVersion?: number;
+
+    /**
+     * Upgrades a (possibly stamped) control state map to the current schema
+     * version and removes the version stamp.
+     */
+    migrateControlStateMap?(stateMap: { [key: string]: any }): { [key: string]: any };
+
+    /**
+     * Converts the control state map to the string kept in durable storage.
+     *
+     * If undefined, the state is saved as pretty-printed JSON.
+     */
+    encodeControlStateMap?(stateMap: { [key: string]: any }): string;
+
+    /**
+     * Converts a string produced by `encodeControlStateMap` back to a control
+     * state map.
+     *
+     * If undefined, the state is parsed as JSON.
+     */
+    decodeControlStateMap?(serializedState: string): { [key: string]: any };
+
     /**
      *
      */
@@ -88,4 +137,9 @@ export interface IControlManager {
      *
      */
     saveControlStateMap(state: any, handlerInput: HandlerInput): Promise<void>;
+
+    /**
+     * Removes the saved control state map from durable storage.
+     */
+    clearControlStateMap?(handlerInput: HandlerInput): Promise<void>;
 }
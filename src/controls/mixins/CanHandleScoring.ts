@@ -0,0 +1,44 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { ControlInput } from '../ControlInput';
+
+/**
+ * Optional interface for Controls that report how confident they are that
+ * they should handle an input.
+ *
+ * Used by `ScoreArbitrationStrategy`.
+ */
+export interface CanHandleScoring {
+    /**
+     * Reports the confidence that this control should handle the input.
+     *
+     * Framework behavior:
+     * - Only called after `canHandle(input)` returned `true`, so a control may
+     *   compute the score during `canHandle` and return it here.
+     *
+     * @param input - Input
+     * @returns Score, typically in the range [0, 1]. Higher is more confident.
+     */
+    getCanHandleScore(input: ControlInput): number | Promise<number>;
+}
+
+/**
+ * Type-guard for the CanHandleScoring interface.
+ *
+ * @param arg - Object to test
+ * @returns `true` if the argument implements the `CanHandleScoring` interface.
+ */
+export function implementsCanHandleScoring(arg: any): arg is CanHandleScoring {
+    return typeof arg.getCanHandleScore === 'function';
+}
@@ -82,6 +82,16 @@ export {
     ValueControlState,
 } from './commonControls/ValueControl';
 export { Strings } from './constants/Strings';
+export { ArbitrationPhase, ArbitrationRecord, arbitrationRecordToString } from './controls/ArbitrationRecord';
+export {
+    ArbitrationDecision,
+    ArbitrationScorer,
+    ArbitrationStrategy,
+    DisambiguationArbitrationStrategy,
+    PriorityArbitrationStrategy,
+    RoundRobinArbitrationStrategy,
+    ScoreArbitrationStrategy,
+} from './controls/ArbitrationStrategy';
 export {
     ContainerControl,
     ContainerControlCompleteProps,
@@ -97,6 +107,12 @@ export {
     ControlState,
 } from './controls/Control';
 export { ControlInput } from './controls/ControlInput';
+export {
+    ControlStateMigrations,
+    ControlStateMigrator,
+    ControlType,
+    STATE_SCHEMA_VERSION_KEY,
+} from './controls/ControlStateMigrations';
 export { ControlManager, ControlManagerProps, renderActsInSequence } from './controls/ControlManager';
 export { ControlResult, ControlResultBuilder } from './controls/ControlResult';
 export {
@@ -110,6 +126,7 @@ export { IControlInput } from './controls/interfaces/IControlInput';
 export { IControlManager } from './controls/interfaces/IControlManager';
 export { IControlResult } from './controls/interfaces/IControlResult';
 export { IControlResultBuilder } from './controls/interfaces/IControlResultBuilder';
+export { CanHandleScoring, implementsCanHandleScoring } from './controls/mixins/CanHandleScoring';
 export {
     ControlStateDiagramming,
     implementsControlStateDiagramming,
@@ -154,7 +171,31 @@ export {
     ValueControlIntentSlots,
 } from './intents/ValueControlIntent';
 export { ControlInteractionModelGenerator } from './interactionModelGeneration/ControlInteractionModelGenerator';
+export {
+    diffInteractionModels,
+    interactionModelDiffToString,
+    IntentDiff,
+    InteractionModelDiff,
+    isInteractionModelDiffEmpty,
+    SlotTypeDiff,
+} from './interactionModelGeneration/InteractionModelDiff';
+export {
+    applyInteractionModelTable,
+    InteractionModelFragments,
+    InteractionModelTableFormat,
+    InteractionModelTableRow,
+    interactionModelToTable,
+    joinInteractionModelFragments,
+    parseInteractionModelTable,
+    splitInteractionModel,
+} from './interactionModelGeneration/InteractionModelExport';
 export { InteractionModelGenerator } from './interactionModelGeneration/InteractionModelGenerator';
+export {
+    InteractionModelDiagnostic,
+    InteractionModelDiagnosticCode,
+    interactionModelDiagnosticToString,
+    validateInteractionModel,
+} from './interactionModelGeneration/InteractionModelValidator';
 export {
     IntentUtterances,
     ModelData,
@@ -162,19 +203,78 @@ export {
     SharedSlotType,
     SlotValue,
 } from './interactionModelGeneration/ModelTypes';
+export {
+    ControlContributions,
+    findUtteranceConflicts,
+    UtteranceConflict,
+    UtteranceConflictKind,
+} from './interactionModelGeneration/UtteranceConflicts';
+export { UtteranceGenerator, UtteranceGeneratorProps } from './interactionModelGeneration/UtteranceGenerator';
 export { EnglishGrammar } from './intl/EnglishGrammar';
+export {
+    ArticleOptions,
+    EnglishIntlGrammar,
+    FrenchIntlGrammar,
+    GermanIntlGrammar,
+    Grammar,
+    grammarForLocale,
+    GrammaticalGender,
+    IntlGrammar,
+    JapaneseIntlGrammar,
+    ListJoiner,
+    NounForms,
+    SpanishIntlGrammar,
+} from './intl/Grammar';
+export {
+    checkI18nCoverage,
+    hasI18nCoverageIssues,
+    I18nCoverageOptions,
+    I18nCoverageReport,
+    i18nCoverageReportToString,
+    I18nPlaceholderMismatch,
+} from './intl/I18nCoverage';
 export { ListFormatting } from './intl/ListFormat';
 export { Logger } from './logging/Logger';
+export {
+    CompactJsonControlStateCodec,
+    ControlStateCodec,
+    DefaultStateMapProvider,
+    GzipControlStateCodec,
+    JsonControlStateCodec,
+} from './persistence/ControlStateCodec';
+export {
+    ControlStateStore,
+    InMemoryControlStateStore,
+    PersistentAttributesControlStateStore,
+    SessionAttributesControlStateStore,
+} from './persistence/ControlStateStore';
 export { ControlResponseBuilder } from './responseGeneration/ControlResponseBuilder';
 export {
     CanHandleExceptionBehavior as CanHandleThrowBehavior,
     ControlHandler,
 } from './runtime/ControlHandler';
+export { ControlInterceptor, ControlInterceptorPhase } from './runtime/ControlInterceptor';
+export { TurnTrace, TurnTraceAct, TurnTracePhase, TurnTraceStateChange } from './runtime/TurnTrace';
+export {
+    ConsoleJsonTurnTraceSink,
+    FileTurnTraceSink,
+    SpanTurnTraceSink,
+    TurnTraceSink,
+    TurnTraceSpan,
+    turnTraceToSpans,
+} from './runtime/TurnTraceSink';
 export * from './systemActs/ContentActs';
 export * from './systemActs/InitiativeActs';
 export * from './systemActs/PayloadTypes';
 export { ISystemAct, SystemAct } from './systemActs/SystemAct';
-export { matchIfDefined, mismatch, moveArrayItem, randomlyPick } from './utils/ArrayUtils';
+export {
+    createSeededRandom,
+    matchIfDefined,
+    mismatch,
+    moveArrayItem,
+    randomlyPick,
+    shuffle,
+} from './utils/ArrayUtils';
 export { StringOrList, StringOrTrue } from './utils/BasicTypes';
 export { generateControlTreeTextDiagram } from './utils/ControlTreeVisualization';
 export { evaluateInputHandlers, findControlById } from './utils/ControlUtils';
@@ -193,8 +293,52 @@ export {
 } from './utils/IntentUtils';
 export { failIf, falseIfGuardFailed, GuardFailed, okIf, StateConsistencyError } from './utils/Predicates';
 export { requestToString } from './utils/RequestUtils';
+export { validateSerializedState } from './utils/SerializationValidator';
+export { ControlRepl, ControlReplOptions } from './utils/testSupport/ControlRepl';
+export {
+    fuzzControlTree,
+    FuzzFailure,
+    fuzzFailureToString,
+    FuzzInvariant,
+    FuzzOptions,
+    FuzzReport,
+} from './utils/testSupport/ControlTreeFuzzer';
+export {
+    ConversationGraph,
+    ConversationGraphOptions,
+    ConversationGraphState,
+    ConversationGraphTransition,
+    conversationGraphToDot,
+    conversationGraphToMermaid,
+    exploreConversationGraph,
+} from './utils/testSupport/ConversationGraph';
+export { ControlCoverage, DialogCoverage } from './utils/testSupport/DialogCoverage';
+export {
+    DialogExpectation,
+    DialogPromptMatch,
+    DialogScript,
+    DialogScriptOptions,
+    DialogTurn,
+    loadDialogScript,
+    loadDialogScripts,
+    parseDialogScript,
+    runDialogScript,
+} from './utils/testSupport/DialogScript';
+export { LocalFilePersistenceAdapter } from './utils/testSupport/LocalFilePersistenceAdapter';
+export {
+    NluSimulator,
+    NluSimulatorMatch,
+    NluSimulatorProps,
+    testE2EWithNlu,
+} from './utils/testSupport/NluSimulator';
 export { SkillInvoker, TestResponseObject } from './utils/testSupport/SkillInvoker';
 export { wrapRequestHandlerAsSkill } from './utils/testSupport/SkillWrapper';
+export {
+    expectToMatchSnapshot,
+    SnapshotOptions,
+    SnapshotTester,
+    TurnSnapshot,
+} from './utils/testSupport/Snapshot';
 export {
     findControlByProperty,
     findControlInTreeById,
@@ -11,7 +11,7 @@
  * permissions and limitations under the License.
  */
 import { v1 } from 'ask-smapi-model';
-import i18next from 'i18next';
+import { i18n } from 'i18next';
 import _ from 'lodash';
 import { ControlManager } from '../controls/ControlManager';
 import { BaseControlIntent } from '../intents/BaseControlIntent';
@@ -22,7 +22,9 @@ import { OrdinalControlIntent } from '../intents/OrdinalControlIntent';
 import { ValueControlIntent } from '../intents/ValueControlIntent';
 import { Logger } from '../logging/Logger';
 import { InteractionModelGenerator } from './InteractionModelGenerator';
-import { IntentUtterances, ModelData } from './ModelTypes';
+import { IntentUtterances, ModelData, SharedSlotType } from './ModelTypes';
+import { ControlContributions, findUtteranceConflicts, UtteranceConflict } from './UtteranceConflicts';
+import { UtteranceGenerator } from './UtteranceGenerator';
 
 import Intent = v1.skill.interactionModel.Intent;
 import DialogIntent = v1.skill.interactionModel.DialogIntents;
@@ -53,6 +55,30 @@ const dummyPrompts: Prompt[] = [
 export class ControlInteractionModelGenerator extends InteractionModelGenerator {
     public targetSlotIds: Set<string> = new Set();
 
+    /**
+     * The intents and slot values each control relies on.
+     *
+     * Recorded during `buildCoreModelForControls()`. See `findUtteranceConflicts()`.
+     */
+    readonly controlContributions: ControlContributions = { intents: {}, slotValues: {} };
+
+    /**
+     * Id of the control whose `updateInteractionModel()` is running, if any.
+     *
+     * Set by `ControlManager.buildInteractionModel()` so that intents added by
+     * a control are attributed to it.
+     */
+    contributingControlId?: string;
+
+    /**
+     * Generator for the samples of `ValueControlIntent`s and for target and
+     * action values that are missing from the model.
+     *
+     * Default: undefined, i.e. the sample templates are used as-is and every
+     * target and action must be defined explicitly.
+     */
+    utteranceGenerator?: UtteranceGenerator;
+
     /**
      * Adds content to the interaction model from a ControlManager.
      *
@@ -70,7 +96,9 @@ export class ControlInteractionModelGenerator extends InteractionModelGenerator
     //TODO: better name.
     buildCoreModelForControls(controlManager: ControlManager): ControlInteractionModelGenerator {
         // add all the standard slotTypes and their values
-        const imData: ModelData = _generateModelData();
+        const imData: ModelData = _generateModelData(
+            controlManager.getI18nForLocale(controlManager.props.locale),
+        );
         this.addOrMergeSlotTypes(...imData.slotTypes);
 
         // add/verify the control-specific intents and ensure that all necessary
@@ -86,6 +114,54 @@ export class ControlInteractionModelGenerator extends InteractionModelGenerator
         return interactionModelData;
     }
 
+    /**
+     * Generate sample utterances automatically.
+     *
+     * Behavior:
+     * - The samples of each `ValueControlIntent` are expanded by
+     *   `utteranceGenerator.expandSamples()`.
+     * - Targets and actions used by a control that are not defined in the
+     *   model are added, with phrases from
+     *   `utteranceGenerator.phrasesForSlotValueId()`.
+     *
+     * Usage:
+     * - Call before `buildCoreModelForControls()`.
+     *
+     * @param utteranceGenerator - Utterance generator. Default: an
+     * `UtteranceGenerator` with default props.
+     */
+    withUtteranceGenerator(utteranceGenerator: UtteranceGenerator = new UtteranceGenerator()): this {
+        this.utteranceGenerator = utteranceGenerator;
+        return this;
+    }
+
+    // tsDoc - see InteractionModelGenerator
+    addIntent(intent: Intent): this {
+        super.addIntent(intent);
+        if (this.contributingControlId !== undefined && intent.name !== undefined) {
+            const controlIds = (this.controlContributions.intents[intent.name] =
+                this.controlContributions.intents[intent.name] ?? []);
+            if (!controlIds.includes(this.contributingControlId)) {
+                controlIds.push(this.contributingControlId);
+            }
+        }
+        return this;
+    }
+
+    /**
+     * Find utterances that are ambiguous because of content contributed by
+     * several controls.
+     *
+     * Usage:
+     * - Call after `buildCoreModelForControls()` and log the messages of the
+     *   conflicts, or fail the build script.
+     *
+     * @returns Conflicts. See `findUtteranceConflicts()`.
+     */
+    findUtteranceConflicts(): UtteranceConflict[] {
+        return findUtteranceConflicts(this.build(), this.controlContributions);
+    }
+
     /**
      * Add AMAZON.YesIntent and AMAZON.NoIntent to the interaction model.
      */
@@ -106,6 +182,12 @@ export class ControlInteractionModelGenerator extends InteractionModelGenerator
         const presentSlotTypesSet = new Set<string>();
 
         const actualIntent = generateActualIntent(controlIntent, controlIMData);
+        if (this.utteranceGenerator !== undefined && controlIntent instanceof ValueControlIntent) {
+            actualIntent.samples = this.utteranceGenerator.expandSamples(
+                actualIntent.samples ?? [],
+                this.slotTypes,
+            );
+        }
         this.addIntents(actualIntent);
 
         return this;
@@ -142,11 +224,26 @@ export class ControlInteractionModelGenerator extends InteractionModelGenerator
         if (!this.isSlotDefined(slotType)) {
             throw new Error(`Control id=${controlId} requires slot type ${slotType} but it does not exist.`);
         }
+        if (
+            !this.isSlotValueIsDefined(slotType, slotValue) &&
+            this.utteranceGenerator !== undefined &&
+            (slotType === SharedSlotType.TARGET || slotType === SharedSlotType.ACTION)
+        ) {
+            const [value, ...synonyms] = this.utteranceGenerator.phrasesForSlotValueId(slotValue);
+            this.addValuesToSlotType(slotType, { id: slotValue, name: { value, synonyms } });
+            log.info(`Added ${slotType} value ${slotValue} for control ${controlId}: ${value}`);
+        }
         if (!this.isSlotValueIsDefined(slotType, slotValue)) {
             throw new Error(
                 `Control ${controlId} requires slot type ${slotType} to contain value ${slotValue} but it does not exist. If it is a custom value add it to the interaction model before calling imGen.buildCoreModelForControls()`,
             );
         }
+        const controlsByValueId = (this.controlContributions.slotValues[slotType] =
+            this.controlContributions.slotValues[slotType] ?? {});
+        const controlIds = (controlsByValueId[slotValue] = controlsByValueId[slotValue] ?? []);
+        if (!controlIds.includes(controlId)) {
+            controlIds.push(controlId);
+        }
     }
 }
 
@@ -280,42 +377,42 @@ function validateTargetSlots(interactionModel: InteractionModelData, targetSlotI
  * Produces a lookup table of localized slot and intent definitions used when adding
  * built-ins to the interaction model.
  *
- * Usage:
- * - initiative i18next before calling this function.
+ * @param i18nInstance - The i18next instance for the locale of the model,
+ * see `ControlManager.getI18nForLocale()`.
  */
 // Exported for internal-use only.
 // TODO: review this convention: use _ prefix for functions that are for internal use only
-export function _generateModelData(): ModelData {
+export function _generateModelData(i18nInstance: i18n): ModelData {
     const slotTypes: SlotType[] = [];
-    slotTypes.push(i18next.t('SHARED_SLOT_TYPES_FEEDBACK', { returnObjects: true }));
-    slotTypes.push(i18next.t('SHARED_SLOT_TYPES_FILTERED_FEEDBACK', { returnObjects: true }));
-    slotTypes.push(i18next.t('SHARED_SLOT_TYPES_HEAD', { returnObjects: true }));
-    slotTypes.push(i18next.t('SHARED_SLOT_TYPES_TAIL', { returnObjects: true }));
-    slotTypes.push(i18next.t('SHARED_SLOT_TYPES_CONJUNCTION', { returnObjects: true }));
-    slotTypes.push(i18next.t('SHARED_SLOT_TYPES_PREPOSITION', { returnObjects: true }));
-    slotTypes.push(i18next.t('SHARED_SLOT_TYPES_ACTION', { returnObjects: true }));
-    slotTypes.push(i18next.t('SHARED_SLOT_TYPES_TARGET', { returnObjects: true }));
+    slotTypes.push(i18nInstance.t('SHARED_SLOT_TYPES_FEEDBACK', { returnObjects: true }));
+    slotTypes.push(i18nInstance.t('SHARED_SLOT_TYPES_FILTERED_FEEDBACK', { returnObjects: true }));
+    slotTypes.push(i18nInstance.t('SHARED_SLOT_TYPES_HEAD', { returnObjects: true }));
+    slotTypes.push(i18nInstance.t('SHARED_SLOT_TYPES_TAIL', { returnObjects: true }));
+    slotTypes.push(i18nInstance.t('SHARED_SLOT_TYPES_CONJUNCTION', { returnObjects: true }));
+    slotTypes.push(i18nInstance.t('SHARED_SLOT_TYPES_PREPOSITION', { returnObjects: true }));
+    slotTypes.push(i18nInstance.t('SHARED_SLOT_TYPES_ACTION', { returnObjects: true }));
+    slotTypes.push(i18nInstance.t('SHARED_SLOT_TYPES_TARGET', { returnObjects: true }));
 
     const intentValues: IntentUtterances[] = [];
     intentValues.push({
         name: ConjunctionControlIntent.name,
-        samples: i18next.t('CONJUNCTION_CONTROL_INTENT_SAMPLES', { returnObjects: true }),
+        samples: i18nInstance.t('CONJUNCTION_CONTROL_INTENT_SAMPLES', { returnObjects: true }),
     });
     intentValues.push({
         name: DateRangeControlIntent.name,
-        samples: i18next.t('DATE_RANGE_CONTROL_INTENT_SAMPLES', { returnObjects: true }),
+        samples: i18nInstance.t('DATE_RANGE_CONTROL_INTENT_SAMPLES', { returnObjects: true }),
     });
     intentValues.push({
         name: GeneralControlIntent.name,
-        samples: i18next.t('GENERAL_CONTROL_INTENT_SAMPLES', { returnObjects: true }),
+        samples: i18nInstance.t('GENERAL_CONTROL_INTENT_SAMPLES', { returnObjects: true }),
     });
     intentValues.push({
         name: OrdinalControlIntent.name,
-        samples: i18next.t('ORDINAL_CONTROL_INTENT_SAMPLES', { returnObjects: true }),
+        samples: i18nInstance.t('ORDINAL_CONTROL_INTENT_SAMPLES', { returnObjects: true }),
     });
     intentValues.push({
         name: ValueControlIntent.name,
-        samples: i18next.t('VALUE_CONTROL_INTENT_SAMPLES', { returnObjects: true }),
+        samples: i18nInstance.t('VALUE_CONTROL_INTENT_SAMPLES', { returnObjects: true }),
     });
 
     return {
@@ -0,0 +1,278 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { v1 } from 'ask-smapi-model';
+import _ from 'lodash';
+
+import InteractionModelData = v1.skill.interactionModel.InteractionModelData;
+import Intent = v1.skill.interactionModel.Intent;
+import SlotType = v1.skill.interactionModel.SlotType;
+import TypeValue = v1.skill.interactionModel.TypeValue;
+
+/**
+ * The changes to an intent that is present in both models.
+ */
+export interface IntentDiff {
+    name: string;
+    addedSamples: string[];
+    removedSamples: string[];
+
+    /**
+     * Slots that were added, as `name: type`.
+     */
+    addedSlots: string[];
+
+    /**
+     * Slots that were removed or whose type changed, as `name: type`.
+     */
+    removedSlots: string[];
+}
+
+/**
+ * The changes to a slot type that is present in both models.
+ */
+export interface SlotTypeDiff {
+    name: string;
+
+    /**
+     * Ids of the values that were added.
+     */
+    addedValues: string[];
+
+    /**
+     * Ids of the values that were removed.
+     */
+    removedValues: string[];
+
+    /**
+     * Ids of the values whose name or synonyms changed.
+     */
+    changedValues: string[];
+}
+
+/**
+ * The differences between two interaction models.
+ *
+ * Intents and slot types are matched by name.  Dialog models and prompts
+ * are not compared.
+ */
+export interface InteractionModelDiff {
+    invocationName?: { previous?: string; current?: string };
+    addedIntents: string[];
+    removedIntents: string[];
+    changedIntents: IntentDiff[];
+    addedSlotTypes: string[];
+    removedSlotTypes: string[];
+    changedSlotTypes: SlotTypeDiff[];
+}
+
+/**
+ * Compares two interaction models.
+ *
+ * @param previous - The earlier model, e.g. the file in source control
+ * @param current - The new model
+ */
+export function diffInteractionModels(
+    previous: InteractionModelData,
+    current: InteractionModelData,
+): InteractionModelDiff {
+    const previousLanguageModel = previous.interactionModel?.languageModel ?? {};
+    const currentLanguageModel = current.interactionModel?.languageModel ?? {};
+    const diff: InteractionModelDiff = {
+        addedIntents: [],
+        removedIntents: [],
+        changedIntents: [],
+        addedSlotTypes: [],
+        removedSlotTypes: [],
+        changedSlotTypes: [],
+    };
+
+    if (previousLanguageModel.invocationName !== currentLanguageModel.invocationName) {
+        diff.invocationName = {
+            previous: previousLanguageModel.invocationName,
+            current: currentLanguageModel.invocationName,
+        };
+    }
+
+    const previousIntents = _.keyBy(previousLanguageModel.intents ?? [], (intent) => intent.name!);
+    const currentIntents = _.keyBy(currentLanguageModel.intents ?? [], (intent) => intent.name!);
+    diff.addedIntents = Object.keys(currentIntents).filter((name) => previousIntents[name] === undefined);
+    diff.removedIntents = Object.keys(previousIntents).filter((name) => currentIntents[name] === undefined);
+    for (const [name, intent] of Object.entries(currentIntents)) {
+        const previousIntent = previousIntents[name];
+        if (previousIntent !== undefined) {
+            const intentDiff = diffIntents(previousIntent, intent);
+            if (
+                hasChanges(
+                    intentDiff.addedSamples,
+                    intentDiff.removedSamples,
+                    intentDiff.addedSlots,
+                    intentDiff.removedSlots,
+                )
+            ) {
+                diff.changedIntents.push(intentDiff);
+            }
+        }
+    }
+
+    const previousSlotTypes = _.keyBy(previousLanguageModel.types ?? [], (slotType) => slotType.name!);
+    const currentSlotTypes = _.keyBy(currentLanguageModel.types ?? [], (slotType) => slotType.name!);
+    diff.addedSlotTypes = Object.keys(currentSlotTypes).filter(
+        (name) => previousSlotTypes[name] === undefined,
+    );
+    diff.removedSlotTypes = Object.keys(previousSlotTypes).filter(
+        (name) => currentSlotTypes[name] === undefined,
+    );
+    for (const [name, slotType] of Object.entries(currentSlotTypes)) {
+        const previousSlotType = previousSlotTypes[name];
+        if (previousSlotType !== undefined) {
+            const slotTypeDiff = diffSlotTypes(previousSlotType, slotType);
+            if (
+                hasChanges(slotTypeDiff.addedValues, slotTypeDiff.removedValues, slotTypeDiff.changedValues)
+            ) {
+                diff.changedSlotTypes.push(slotTypeDiff);
+            }
+        }
+    }
+
+    return diff;
+}
+
+/**
+ * Determines whether two models differ.
+ *
+ * @param diff - Diff
+ */
+export function isInteractionModelDiffEmpty(diff: InteractionModelDiff): boolean {
+    return (
+        diff.invocationName === undefined &&
+        !hasChanges(
+            diff.addedIntents,
+            diff.removedIntents,
+            diff.changedIntents,
+            diff.addedSlotTypes,
+            diff.removedSlotTypes,
+            diff.changedSlotTypes,
+        )
+    );
+}
+
+/**
+ * Creates a description of a diff in markdown format, suitable for a code
+ * review.
+ *
+ * Example:
+ * ```
+ * ### Intents
+ * - added: OrderIntent
+ * - changed: FruitIntent
+ *   - added samples: 'i want {fruit}'
+ * ```
+ *
+ * @param diff - Diff
+ */
+export function interactionModelDiffToString(diff: InteractionModelDiff): string {
+    if (isInteractionModelDiffEmpty(diff)) {
+        return 'No changes.';
+    }
+    const lines: string[] = [];
+    if (diff.invocationName !== undefined) {
+        lines.push(
+            `Invocation name: '${diff.invocationName.previous ?? ''}' -> '${
+                diff.invocationName.current ?? ''
+            }'`,
+        );
+    }
+    const quote = (items: string[]) => items.map((item) => `'${item}'`).join(', ');
+    const section = (title: string, added: string[], removed: string[], changed: string[][]) => {
+        if (added.length + removed.length + changed.length > 0) {
+            lines.push(`### ${title}`);
+            lines.push(...added.map((name) => `- added: ${name}`));
+            lines.push(...removed.map((name) => `- removed: ${name}`));
+            for (const changedLines of changed) {
+                lines.push(...changedLines);
+            }
+        }
+    };
+    section(
+        'Intents',
+        diff.addedIntents,
+        diff.removedIntents,
+        diff.changedIntents.map((intent) => [
+            `- changed: ${intent.name}`,
+            ...(intent.addedSamples.length > 0 ? [`  - added samples: ${quote(intent.addedSamples)}`] : []),
+            ...(intent.removedSamples.length > 0
+                ? [`  - removed samples: ${quote(intent.removedSamples)}`]
+                : []),
+            ...(intent.addedSlots.length > 0 ? [`  - added slots: ${intent.addedSlots.join(', ')}`] : []),
+            ...(intent.removedSlots.length > 0
+                ? [`  - removed slots: ${intent.removedSlots.join(', ')}`]
+                : []),
+        ]),
+    );
+    section(
+        'Slot types',
+        diff.addedSlotTypes,
+        diff.removedSlotTypes,
+        diff.changedSlotTypes.map((slotType) => [
+            `- changed: ${slotType.name}`,
+            ...(slotType.addedValues.length > 0
+                ? [`  - added values: ${slotType.addedValues.join(', ')}`]
+                : []),
+            ...(slotType.removedValues.length > 0
+                ? [`  - removed values: ${slotType.removedValues.join(', ')}`]
+                : []),
+            ...(slotType.changedValues.length > 0
+                ? [`  - changed values: ${slotType.changedValues.join(', ')}`]
+                : []),
+        ]),
+    );
+    return lines.join('\n');
+}
+
+function diffIntents(previous: Intent, current: Intent): IntentDiff {
+    const previousSamples = previous.samples ?? [];
+    const currentSamples = current.samples ?? [];
+    const previousSlots = (previous.slots ?? []).map((slot) => `${slot.name}: ${slot.type}`);
+    const currentSlots = (current.slots ?? []).map((slot) => `${slot.name}: ${slot.type}`);
+    return {
+        name: current.name!,
+        addedSamples: _.difference(currentSamples, previousSamples),
+        removedSamples: _.difference(previousSamples, currentSamples),
+        addedSlots: _.difference(currentSlots, previousSlots),
+        removedSlots: _.difference(previousSlots, currentSlots),
+    };
+}
+
+function diffSlotTypes(previous: SlotType, current: SlotType): SlotTypeDiff {
+    const valueId = (value: TypeValue) => value.id ?? value.name?.value ?? '';
+    const previousValues = _.keyBy(previous.values ?? [], valueId);
+    const currentValues = _.keyBy(current.values ?? [], valueId);
+    return {
+        name: current.name!,
+        addedValues: Object.keys(currentValues).filter((id) => previousValues[id] === undefined),
+        removedValues: Object.keys(previousValues).filter((id) => currentValues[id] === undefined),
+        changedValues: Object.keys(currentValues).filter(
+            (id) =>
+                previousValues[id] !== undefined &&
+                !_.isEqual(
+                    [previousValues[id].name?.value, _.sortBy(previousValues[id].name?.synonyms ?? [])],
+                    [currentValues[id].name?.value, _.sortBy(currentValues[id].name?.synonyms ?? [])],
+                ),
+        ),
+    };
+}
+
+function hasChanges(...changes: unknown[][]): boolean {
+    return changes.some((items) => items.length > 0);
+}
@@ -0,0 +1,296 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { v1 } from 'ask-smapi-model';
+import _ from 'lodash';
+
+import InteractionModelData = v1.skill.interactionModel.InteractionModelData;
+import Intent = v1.skill.interactionModel.Intent;
+import SlotType = v1.skill.interactionModel.SlotType;
+import TypeValue = v1.skill.interactionModel.TypeValue;
+
+/**
+ * The format of an interaction model table.
+ *
+ * csv - comma-separated values (RFC 4180).  Cells that contain commas, quotes
+ *   or line breaks are quoted.
+ * tsv - tab-separated values.  Tabs and line breaks in cells are replaced by
+ *   spaces.
+ */
+export type InteractionModelTableFormat = 'csv' | 'tsv';
+
+/**
+ * A row of an interaction model table.
+ *
+ * sample - `name` is the intent and `text` is one of its samples.
+ * value - `name` is the slot type, `id` the value id and `text` the value.
+ * synonym - `name` is the slot type, `id` the value id and `text` one of the
+ *   synonyms of the value.
+ */
+export interface InteractionModelTableRow {
+    kind: 'sample' | 'value' | 'synonym';
+    name: string;
+    id: string;
+    text: string;
+}
+
+const TABLE_COLUMNS = ['kind', 'name', 'id', 'text'];
+
+/**
+ * The parts of an interaction model, for storing each intent and slot type
+ * in a file of its own.
+ */
+export interface InteractionModelFragments {
+    /**
+     * The model without its intents and slot types.
+     */
+    base: InteractionModelData;
+
+    /**
+     * Intents by name.
+     */
+    intents: { [name: string]: Intent };
+
+    /**
+     * Slot types by name.
+     */
+    slotTypes: { [name: string]: SlotType };
+}
+
+/**
+ * Creates a table of the samples of the intents and the values and synonyms
+ * of the slot types.
+ *
+ * Purpose:
+ * - Localization and QA reviewers work in a spreadsheet rather than in the
+ *   JSON of the interaction model.  The reviewed table is read back with
+ *   `applyInteractionModelTable()`.
+ *
+ * The first row is the header `kind, name, id, text`.  See
+ * `InteractionModelTableRow` for the meaning of the columns.
+ *
+ * @param model - Interaction model
+ * @param format - Table format. Default: 'csv'
+ */
+export function interactionModelToTable(
+    model: InteractionModelData,
+    format: InteractionModelTableFormat = 'csv',
+): string {
+    const languageModel = model.interactionModel?.languageModel ?? {};
+    const rows: InteractionModelTableRow[] = [];
+    for (const intent of languageModel.intents ?? []) {
+        for (const sample of intent.samples ?? []) {
+            rows.push({ kind: 'sample', name: intent.name!, id: '', text: sample });
+        }
+    }
+    for (const slotType of languageModel.types ?? []) {
+        for (const value of slotType.values ?? []) {
+            const id = value.id ?? value.name?.value ?? '';
+            rows.push({ kind: 'value', name: slotType.name!, id, text: value.name?.value ?? '' });
+            for (const synonym of value.name?.synonyms ?? []) {
+                rows.push({ kind: 'synonym', name: slotType.name!, id, text: synonym });
+            }
+        }
+    }
+    const lines = [TABLE_COLUMNS, ...rows.map((row) => [row.kind, row.name, row.id, row.text])].map((cells) =>
+        cells.map((cell) => formatCell(cell, format)).join(format === 'csv' ? ',' : '\t'),
+    );
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Parses a table created by `interactionModelToTable()`.
+ *
+ * The columns are identified by the header row, so they may be reordered and
+ * additional columns, e.g. reviewer comments, are ignored.  Empty lines are
+ * skipped.
+ *
+ * @param table - Table
+ * @param format - Table format. Default: 'csv'
+ */
+export function parseInteractionModelTable(
+    table: string,
+    format: InteractionModelTableFormat = 'csv',
+): InteractionModelTableRow[] {
+    const [header, ...records] = (format === 'csv' ? parseCsv(table) : parseTsv(table)).filter((cells) =>
+        cells.some((cell) => cell.trim() !== ''),
+    );
+    if (header === undefined) {
+        return [];
+    }
+    const columnIndexes = TABLE_COLUMNS.map((column) => header.map((x) => x.trim()).indexOf(column));
+    const missingColumns = TABLE_COLUMNS.filter((_column, i) => columnIndexes[i] === -1);
+    if (missingColumns.length > 0) {
+        throw new Error(`Interaction model table has no column ${missingColumns.join(', ')}.`);
+    }
+    return records.map((cells, i) => {
+        const [kind, name, id, text] = columnIndexes.map((index) => (cells[index] ?? '').trim());
+        if (kind !== 'sample' && kind !== 'value' && kind !== 'synonym') {
+            throw new Error(`Row ${i + 2} of the interaction model table has the unknown kind '${kind}'.`);
+        }
+        if (name === '' || text === '' || (kind !== 'sample' && id === '')) {
+            throw new Error(`Row ${i + 2} of the interaction model table is incomplete.`);
+        }
+        return { kind, name, id, text };
+    });
+}
+
+/**
+ * Replaces the samples and slot values of a model with those of a table.
+ *
+ * - The samples of each intent in the table replace the samples of the
+ *   intent.  The slots of the intent are kept.
+ * - The values in the table replace the values of each slot type in the table.
+ *   Slot types that are not in the model are added.
+ * - Intents and slot types that are not in the table are unchanged.
+ *
+ * @param model - Interaction model. It is not modified.
+ * @param table - Table created by `interactionModelToTable()` and reviewed
+ * @param format - Table format. Default: 'csv'
+ * @returns The updated interaction model
+ */
+export function applyInteractionModelTable(
+    model: InteractionModelData,
+    table: string,
+    format: InteractionModelTableFormat = 'csv',
+): InteractionModelData {
+    const result = _.cloneDeep(model);
+    const rows = parseInteractionModelTable(table, format);
+    const languageModel = result.interactionModel?.languageModel ?? {};
+
+    const samplesByIntent = _.groupBy(
+        rows.filter((row) => row.kind === 'sample'),
+        (row) => row.name,
+    );
+    for (const [name, sampleRows] of Object.entries(samplesByIntent)) {
+        const intent = (languageModel.intents ?? []).find((x) => x.name === name);
+        if (intent === undefined) {
+            throw new Error(`The interaction model table contains samples of the undefined intent ${name}.`);
+        }
+        intent.samples = _.uniq(sampleRows.map((row) => row.text));
+    }
+
+    const rowsBySlotType = _.groupBy(
+        rows.filter((row) => row.kind !== 'sample'),
+        (row) => row.name,
+    );
+    for (const [name, valueRows] of Object.entries(rowsBySlotType)) {
+        const values: TypeValue[] = [];
+        for (const row of valueRows) {
+            const value = values.find((x) => x.id === row.id);
+            if (row.kind === 'value') {
+                if (value !== undefined) {
+                    throw new Error(`The interaction model table defines value ${row.id} of ${name} twice.`);
+                }
+                values.push({ id: row.id, name: { value: row.text, synonyms: [] } });
+            } else if (value === undefined) {
+                throw new Error(
+                    `The interaction model table contains a synonym of ${row.id} of ${name} before its value.`,
+                );
+            } else if (!value.name!.synonyms!.includes(row.text)) {
+                value.name!.synonyms!.push(row.text);
+            }
+        }
+        const slotType = (languageModel.types ?? []).find((x) => x.name === name);
+        if (slotType !== undefined) {
+            slotType.values = values;
+        } else {
+            languageModel.types = [...(languageModel.types ?? []), { name, values }];
+        }
+    }
+    return result;
+}
+
+/**
+ * Splits an interaction model into its intents, its slot types and the rest.
+ *
+ * @param model - Interaction model. It is not modified.
+ */
+export function splitInteractionModel(model: InteractionModelData): InteractionModelFragments {
+    const base = _.cloneDeep(model);
+    const languageModel = base.interactionModel?.languageModel ?? {};
+    const fragments: InteractionModelFragments = {
+        base,
+        intents: _.keyBy(languageModel.intents ?? [], (intent) => intent.name!),
+        slotTypes: _.keyBy(languageModel.types ?? [], (slotType) => slotType.name!),
+    };
+    delete languageModel.intents;
+    delete languageModel.types;
+    return fragments;
+}
+
+/**
+ * Joins fragments created by `splitInteractionModel()` into an interaction
+ * model.
+ *
+ * @param fragments - Fragments. They are not modified.
+ */
+export function joinInteractionModelFragments(fragments: InteractionModelFragments): InteractionModelData {
+    const model = _.cloneDeep(fragments.base);
+    model.interactionModel = model.interactionModel ?? {};
+    model.interactionModel.languageModel = {
+        ...model.interactionModel.languageModel,
+        intents: _.cloneDeep(Object.values(fragments.intents)),
+        types: _.cloneDeep(Object.values(fragments.slotTypes)),
+    };
+    return model;
+}
+
+function formatCell(cell: string, format: InteractionModelTableFormat): string {
+    if (format === 'tsv') {
+        return cell.replace(/[\t\r\n]+/g, ' ');
+    }
+    return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+function parseTsv(table: string): string[][] {
+    return table.split(/\r?\n/).map((line) => line.split('\t'));
+}
+
+function parseCsv(table: string): string[][] {
+    const records: string[][] = [];
+    let cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < table.length; i++) {
+        const char = table[i];
+        if (quoted) {
+            if (char === '"' && table[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            cells.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && table[i + 1] === '\n') {
+                i++;
+            }
+            records.push([...cells, cell]);
+            cells = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell !== '' || cells.length > 0) {
+        records.push([...cells, cell]);
+    }
+    return records;
+}
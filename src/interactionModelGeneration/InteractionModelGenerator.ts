@@ -15,6 +15,15 @@ import fs from 'fs';
 import _ from 'lodash';
 import { join } from 'path';
 import { Logger } from '../logging/Logger';
+import { diffInteractionModels, InteractionModelDiff } from './InteractionModelDiff';
+import {
+    applyInteractionModelTable,
+    InteractionModelTableFormat,
+    interactionModelToTable,
+    joinInteractionModelFragments,
+    splitInteractionModel,
+} from './InteractionModelExport';
+import { InteractionModelDiagnostic, validateInteractionModel } from './InteractionModelValidator';
 
 import InteractionModelData = v1.skill.interactionModel.InteractionModelData;
 import InteractionModelSchema = v1.skill.interactionModel.InteractionModelSchema;
@@ -29,6 +38,10 @@ import Prompt = v1.skill.interactionModel.Prompt;
 
 const log = new Logger('AskSdkControls:InteractionModelGenerator');
 
+const FRAGMENTS_BASE_FILE = 'interactionModel.json';
+const FRAGMENTS_INTENTS_DIRECTORY = 'intents';
+const FRAGMENTS_SLOT_TYPES_DIRECTORY = 'types';
+
 /**
  * Interaction model generator
  *
@@ -226,7 +239,66 @@ export class InteractionModelGenerator {
 
         // fetch all info from json
         // eslint-disable-next-line @typescript-eslint/no-var-requires
-        const interactionModel: InteractionModelSchema = require(inputPath).interactionModel;
+        return this.loadFromInteractionModel(require(inputPath).interactionModel);
+    }
+
+    /**
+     * Load an interaction model from fragment files written by
+     * `buildAndWriteFragments()`.
+     *
+     * Usage:
+     * - This method does not perform merging for all components. Call this
+     *   method before any other methods.
+     *
+     * @param directory - Directory of the fragment files
+     */
+    loadFromFragments(directory: string): this {
+        if (!directory || !fs.existsSync(join(directory, FRAGMENTS_BASE_FILE))) {
+            throw new Error('Input directory is not valid.');
+        }
+        const readFragments = (subdirectory: string) =>
+            fs.existsSync(join(directory, subdirectory))
+                ? fs
+                      .readdirSync(join(directory, subdirectory))
+                      .filter((file) => file.endsWith('.json'))
+                      .sort()
+                      .map((file) => JSON.parse(fs.readFileSync(join(directory, subdirectory, file), 'utf8')))
+                : [];
+        const model = joinInteractionModelFragments({
+            base: JSON.parse(fs.readFileSync(join(directory, FRAGMENTS_BASE_FILE), 'utf8')),
+            intents: _.keyBy(readFragments(FRAGMENTS_INTENTS_DIRECTORY), (intent: Intent) => intent.name!),
+            slotTypes: _.keyBy(
+                readFragments(FRAGMENTS_SLOT_TYPES_DIRECTORY),
+                (slotType: SlotType) => slotType.name!,
+            ),
+        });
+        return this.loadFromInteractionModel(model.interactionModel!);
+    }
+
+    /**
+     * Replace the samples and slot values with those of a table written by
+     * `buildAndWriteTable()` and reviewed, e.g. by a localization team.
+     *
+     * See `applyInteractionModelTable()` for how the table is applied.
+     *
+     * @param inputPath - Path of the table
+     * @param format - Table format. Default: 'tsv' if the path ends with '.tsv', otherwise 'csv'
+     */
+    loadFromTable(inputPath: string, format: InteractionModelTableFormat = tableFormatOf(inputPath)): this {
+        if (!inputPath || !fs.existsSync(inputPath)) {
+            throw new Error('Input path is not valid.');
+        }
+        const model = applyInteractionModelTable(
+            { interactionModel: { languageModel: { intents: this.intents, types: this.slotTypes } } },
+            fs.readFileSync(inputPath, 'utf8'),
+            format,
+        );
+        this.intents = model.interactionModel!.languageModel!.intents!;
+        this.slotTypes = model.interactionModel!.languageModel!.types!;
+        return this;
+    }
+
+    protected loadFromInteractionModel(interactionModel: InteractionModelSchema): this {
         const intents: Intent[] = interactionModel.languageModel!.intents
             ? interactionModel.languageModel!.intents
             : [];
@@ -309,6 +381,86 @@ export class InteractionModelGenerator {
         }
     }
 
+    /**
+     * Build the interaction model and write its samples and slot values as a
+     * table, for review in a spreadsheet.
+     *
+     * See `interactionModelToTable()` for the columns.
+     *
+     * @param filename - Path of the table
+     * @param format - Table format. Default: 'tsv' if the path ends with '.tsv', otherwise 'csv'
+     */
+    buildAndWriteTable(filename: string, format: InteractionModelTableFormat = tableFormatOf(filename)) {
+        fs.writeFileSync(filename, interactionModelToTable(this.build(), format));
+        log.info(`Wrote interaction model table: ${filename}`);
+    }
+
+    /**
+     * Build the interaction model and write each intent and slot type to a
+     * file of its own.
+     *
+     * Layout:
+     * - `interactionModel.json`: the model without intents and slot types
+     * - `intents/<intent name>.json`
+     * - `types/<slot type name>.json`
+     *
+     * Purpose:
+     * - Changes to one intent touch one file, which simplifies code review and
+     *   merging.  Read the files back with `loadFromFragments()`.
+     *
+     * @param directory - Directory of the fragment files. Existing intent and
+     * slot type files are removed.
+     */
+    buildAndWriteFragments(directory: string) {
+        const fragments = splitInteractionModel(this.build());
+        const writeFragments = (subdirectory: string, items: { [name: string]: Intent | SlotType }) => {
+            const path = join(directory, subdirectory);
+            fs.mkdirSync(path, { recursive: true });
+            for (const file of fs.readdirSync(path).filter((x) => x.endsWith('.json'))) {
+                fs.unlinkSync(join(path, file));
+            }
+            for (const [name, item] of Object.entries(items)) {
+                fs.writeFileSync(join(path, `${name}.json`), JSON.stringify(item, null, 2));
+            }
+        };
+        writeFragments(FRAGMENTS_INTENTS_DIRECTORY, fragments.intents);
+        writeFragments(FRAGMENTS_SLOT_TYPES_DIRECTORY, fragments.slotTypes);
+        fs.writeFileSync(join(directory, FRAGMENTS_BASE_FILE), JSON.stringify(fragments.base, null, 2));
+        log.info(`Wrote interaction model fragments: ${directory}`);
+    }
+
+    /**
+     * Check the interaction model for common problems.
+     *
+     * Usage:
+     * - Call before `buildAndWrite()` and fail the build script if any
+     *   diagnostic has severity 'error'.
+     *
+     * @returns Diagnostics. See `validateInteractionModel()`.
+     */
+    validate(): InteractionModelDiagnostic[] {
+        return validateInteractionModel(this.build());
+    }
+
+    /**
+     * Compare the interaction model with a previously written model file.
+     *
+     * Usage:
+     * - Call before `buildAndWrite()` with the same filename and log
+     *   `interactionModelDiffToString(diff)` to see the effect of a change for
+     *   code review.
+     *
+     * @param previousModelFile - Path of the previous model file (JSON format).
+     * If the file does not exist, the whole model is reported as added.
+     * @returns Differences. See `diffInteractionModels()`.
+     */
+    diff(previousModelFile: string): InteractionModelDiff {
+        const previousModel: InteractionModelData = fs.existsSync(previousModelFile)
+            ? JSON.parse(fs.readFileSync(previousModelFile, 'utf8'))
+            : {};
+        return diffInteractionModels(previousModel, this.build());
+    }
+
     isSlotDefined(slotTypeId: string) {
         const slotType = this.slotTypes.find((x) => x.name === slotTypeId);
         return slotType !== undefined;
@@ -326,6 +478,10 @@ export class InteractionModelGenerator {
     }
 }
 
+function tableFormatOf(path: string): InteractionModelTableFormat {
+    return path.toLowerCase().endsWith('.tsv') ? 'tsv' : 'csv';
+}
+
 function mergeSlotTypeValues(
     slotTypeValues: TypeValue[] | undefined,
     newSlotValue: TypeValue,
@@ -0,0 +1,203 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { v1 } from 'ask-smapi-model';
+
+import InteractionModelData = v1.skill.interactionModel.InteractionModelData;
+
+/**
+ * The kind of problem found by `validateInteractionModel()`.
+ *
+ * MissingInvocationName - the model has no invocation name.
+ * DuplicateSample - a sample occurs more than once in an intent.
+ * ConflictingSample - a sample occurs in more than one intent, so the
+ *   intent that is selected for the utterance is unpredictable.
+ * UndefinedSlotInSample - a sample references a slot that is not declared
+ *   by its intent.
+ * UndefinedSlotType - a slot has a type that is neither a built-in type nor
+ *   defined by the model.
+ * EmptySlotType - a slot type has no values and no value supplier.
+ * DuplicateSlotValue - a slot value or synonym occurs under more than one id of
+ *   a slot type.
+ */
+export type InteractionModelDiagnosticCode =
+    | 'MissingInvocationName'
+    | 'DuplicateSample'
+    | 'ConflictingSample'
+    | 'UndefinedSlotInSample'
+    | 'UndefinedSlotType'
+    | 'EmptySlotType'
+    | 'DuplicateSlotValue';
+
+/**
+ * A problem found by `validateInteractionModel()`.
+ */
+export interface InteractionModelDiagnostic {
+    /**
+     * error - the model is rejected by the build or does not behave as intended.
+     * warning - the model builds but contains redundant or suspicious content.
+     */
+    severity: 'error' | 'warning';
+
+    code: InteractionModelDiagnosticCode;
+
+    /**
+     * Human-readable description of the problem.
+     */
+    message: string;
+
+    /**
+     * Name of the intent, if the problem concerns an intent.
+     */
+    intent?: string;
+
+    /**
+     * Name of the slot type, if the problem concerns a slot type.
+     */
+    slotType?: string;
+}
+
+/**
+ * Checks an interaction model for common problems.
+ *
+ * The checks are made locally, so they catch problems before the model is
+ * uploaded.  They do not replace the model build.
+ *
+ * Samples and slot values are compared case-insensitively and with
+ * whitespace collapsed.
+ *
+ * @param model - Interaction model
+ * @returns Diagnostics in the order intents, slot types
+ */
+export function validateInteractionModel(model: InteractionModelData): InteractionModelDiagnostic[] {
+    const diagnostics: InteractionModelDiagnostic[] = [];
+    const languageModel = model.interactionModel?.languageModel ?? {};
+    const intents = languageModel.intents ?? [];
+    const slotTypes = languageModel.types ?? [];
+    const slotTypeNames = new Set(slotTypes.map((slotType) => slotType.name));
+
+    if (languageModel.invocationName === undefined || languageModel.invocationName.trim() === '') {
+        diagnostics.push({
+            severity: 'error',
+            code: 'MissingInvocationName',
+            message: 'The invocation name is not defined.',
+        });
+    }
+
+    const intentsBySample = new Map<string, string>();
+    for (const intent of intents) {
+        const slots = intent.slots ?? [];
+        const slotNames = new Set(slots.map((slot) => slot.name));
+        const samples = new Set<string>();
+        for (const sample of intent.samples ?? []) {
+            const normalizedSample = normalize(sample);
+            if (samples.has(normalizedSample)) {
+                diagnostics.push({
+                    severity: 'warning',
+                    code: 'DuplicateSample',
+                    message: `Intent ${intent.name} contains the sample '${sample}' more than once.`,
+                    intent: intent.name,
+                });
+            }
+            samples.add(normalizedSample);
+
+            const otherIntent = intentsBySample.get(normalizedSample);
+            if (otherIntent !== undefined && otherIntent !== intent.name) {
+                diagnostics.push({
+                    severity: 'error',
+                    code: 'ConflictingSample',
+                    message: `The sample '${sample}' of intent ${intent.name} is also a sample of intent ${otherIntent}.`,
+                    intent: intent.name,
+                });
+            } else {
+                intentsBySample.set(normalizedSample, intent.name!);
+            }
+
+            for (const slotReference of sample.match(/{[^}]*}/g) ?? []) {
+                const slotName = slotReference.slice(1, -1);
+                if (!slotNames.has(slotName)) {
+                    diagnostics.push({
+                        severity: 'error',
+                        code: 'UndefinedSlotInSample',
+                        message: `The sample '${sample}' of intent ${intent.name} references the undefined slot ${slotName}.`,
+                        intent: intent.name,
+                    });
+                }
+            }
+        }
+        for (const slot of slots) {
+            if (
+                slot.type !== undefined &&
+                !slot.type.startsWith('AMAZON.') &&
+                !slotTypeNames.has(slot.type)
+            ) {
+                diagnostics.push({
+                    severity: 'error',
+                    code: 'UndefinedSlotType',
+                    message: `Slot ${slot.name} of intent ${intent.name} has the undefined type ${slot.type}.`,
+                    intent: intent.name,
+                    slotType: slot.type,
+                });
+            }
+        }
+    }
+
+    for (const slotType of slotTypes) {
+        const values = slotType.values ?? [];
+        if (values.length === 0 && slotType.valueSupplier === undefined) {
+            diagnostics.push({
+                severity: 'error',
+                code: 'EmptySlotType',
+                message: `Slot type ${slotType.name} has no values.`,
+                slotType: slotType.name,
+            });
+        }
+
+        const idsByPhrase = new Map<string, string>();
+        for (const value of values) {
+            const phrases = [value.name?.value, ...(value.name?.synonyms ?? [])].filter(
+                (phrase): phrase is string => phrase !== undefined,
+            );
+            for (const phrase of new Set(phrases.map(normalize))) {
+                const otherId = idsByPhrase.get(phrase);
+                if (otherId !== undefined && otherId !== value.id) {
+                    diagnostics.push({
+                        severity: 'warning',
+                        code: 'DuplicateSlotValue',
+                        message: `Slot type ${slotType.name} uses '${phrase}' for both ${otherId} and ${value.id}.`,
+                        slotType: slotType.name,
+                    });
+                } else {
+                    idsByPhrase.set(phrase, value.id ?? phrase);
+                }
+            }
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Creates a one-line description of a diagnostic.
+ *
+ * Example: `error ConflictingSample: The sample 'stop' of intent StopIntent is also a sample of intent AMAZON.StopIntent.`
+ *
+ * @param diagnostic - Diagnostic
+ */
+export function interactionModelDiagnosticToString(diagnostic: InteractionModelDiagnostic): string {
+    return `${diagnostic.severity} ${diagnostic.code}: ${diagnostic.message}`;
+}
+
+function normalize(phrase: string): string {
+    return phrase.trim().toLowerCase().replace(/\s+/g, ' ');
+}
@@ -0,0 +1,190 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { v1 } from 'ask-smapi-model';
+import _ from 'lodash';
+import { Strings as $ } from '../constants/Strings';
+
+import InteractionModelData = v1.skill.interactionModel.InteractionModelData;
+
+/**
+ * The parts of the interaction model that each control relies on.
+ *
+ * Recorded by `ControlInteractionModelGenerator` while the controls update the
+ * interaction model.
+ */
+export interface ControlContributions {
+    /**
+     * Ids of the controls that added each intent, by intent name.
+     */
+    intents: { [intentName: string]: string[] };
+
+    /**
+     * Ids of the controls that use each slot value, by slot type and slot
+     * value id.  E.g. `slotValues.target.departureCity = ['departure']`.
+     */
+    slotValues: { [slotType: string]: { [slotValueId: string]: string[] } };
+}
+
+/**
+ * The kind of conflict found by `findUtteranceConflicts()`.
+ *
+ * SynonymCollision - a phrase is the value or a synonym of several slot
+ *   values (e.g. targets or actions) that are used by different controls.
+ *   NLU resolves the phrase to one of the values, so only one of the controls
+ *   can be addressed with it.
+ * SharedTarget - several controls use the same target, so "change the
+ *   [target]" does not identify a control.  `builtin_it` is exempt as it is
+ *   intended to be shared.
+ * IdenticalSample - several intents have the same sample utterance (after
+ *   replacing slot names with slot types), so the intent that NLU selects
+ *   for the utterance is unpredictable.
+ */
+export type UtteranceConflictKind = 'SynonymCollision' | 'SharedTarget' | 'IdenticalSample';
+
+/**
+ * A source of ambiguous NLU found by `findUtteranceConflicts()`.
+ */
+export interface UtteranceConflict {
+    kind: UtteranceConflictKind;
+
+    /**
+     * The ambiguous phrase: the synonym, the target id or the sample.
+     */
+    phrase: string;
+
+    /**
+     * Slot type of the colliding values, for SynonymCollision and SharedTarget.
+     */
+    slotType?: string;
+
+    /**
+     * Ids of the colliding slot values, for SynonymCollision and SharedTarget.
+     */
+    slotValueIds?: string[];
+
+    /**
+     * Names of the intents with the sample, for IdenticalSample.
+     */
+    intents?: string[];
+
+    /**
+     * Ids of the controls that contributed the conflicting content, sorted.
+     */
+    controlIds: string[];
+
+    /**
+     * Human-readable description of the conflict.
+     */
+    message: string;
+}
+
+/**
+ * Finds utterances that are ambiguous because of the content contributed by
+ * several controls.
+ *
+ * This is a static analysis of the interaction model. Ambiguities that
+ * only involve content from a single control, or from no control, are not
+ * reported, other than identical samples.
+ *
+ * @param model - Interaction model
+ * @param contributions - The content each control relies on
+ */
+export function findUtteranceConflicts(
+    model: InteractionModelData,
+    contributions: ControlContributions,
+): UtteranceConflict[] {
+    const conflicts: UtteranceConflict[] = [];
+    const languageModel = model.interactionModel?.languageModel ?? {};
+
+    for (const [slotType, controlsByValueId] of Object.entries(contributions.slotValues)) {
+        const values = languageModel.types?.find((x) => x.name === slotType)?.values ?? [];
+        const valueIdsByPhrase = new Map<string, string[]>();
+        for (const value of values) {
+            if (value.id === undefined || controlsByValueId[value.id] === undefined) {
+                continue;
+            }
+            const phrases = [value.name?.value, ...(value.name?.synonyms ?? [])].filter(
+                (phrase): phrase is string => phrase !== undefined,
+            );
+            for (const phrase of _.uniq(phrases.map(normalize))) {
+                valueIdsByPhrase.set(phrase, [...(valueIdsByPhrase.get(phrase) ?? []), value.id]);
+            }
+        }
+        for (const [phrase, valueIds] of valueIdsByPhrase.entries()) {
+            const controlSets = valueIds.map((id) => _.sortBy(_.uniq(controlsByValueId[id])));
+            if (valueIds.length > 1 && _.uniqWith(controlSets, _.isEqual).length > 1) {
+                const controlIds = _.sortBy(_.uniq(_.flatten(controlSets)));
+                conflicts.push({
+                    kind: 'SynonymCollision',
+                    phrase,
+                    slotType,
+                    slotValueIds: valueIds,
+                    controlIds,
+                    message: `'${phrase}' is a synonym of ${slotType} values ${valueIds.join(
+                        ', ',
+                    )} used by controls ${controlIds.join(', ')}.`,
+                });
+            }
+        }
+    }
+
+    for (const [targetId, controlIds] of Object.entries(contributions.slotValues.target ?? {})) {
+        const uniqueControlIds = _.sortBy(_.uniq(controlIds));
+        if (targetId !== $.Target.It && uniqueControlIds.length > 1) {
+            conflicts.push({
+                kind: 'SharedTarget',
+                phrase: targetId,
+                slotType: 'target',
+                slotValueIds: [targetId],
+                controlIds: uniqueControlIds,
+                message: `Target ${targetId} is used by controls ${uniqueControlIds.join(', ')}.`,
+            });
+        }
+    }
+
+    const intentsBySample = new Map<string, { sample: string; intents: string[] }>();
+    for (const intent of languageModel.intents ?? []) {
+        const slotTypes = _.fromPairs((intent.slots ?? []).map((slot) => [slot.name, slot.type]));
+        for (const sample of intent.samples ?? []) {
+            const key = normalize(
+                sample.replace(/{([^}]*)}/g, (_match, slot) => `{${slotTypes[slot] ?? slot}}`),
+            );
+            const entry = intentsBySample.get(key) ?? { sample, intents: [] };
+            entry.intents = _.uniq([...entry.intents, intent.name!]);
+            intentsBySample.set(key, entry);
+        }
+    }
+    for (const { sample, intents } of intentsBySample.values()) {
+        if (intents.length > 1) {
+            const controlIds = _.sortBy(
+                _.uniq(_.flatMap(intents, (name) => contributions.intents[name] ?? [])),
+            );
+            conflicts.push({
+                kind: 'IdenticalSample',
+                phrase: sample,
+                intents,
+                controlIds,
+                message: `'${sample}' is a sample of intents ${intents.join(', ')}${
+                    controlIds.length > 0 ? ` used by controls ${controlIds.join(', ')}` : ''
+                }.`,
+            });
+        }
+    }
+
+    return conflicts;
+}
+
+function normalize(phrase: string): string {
+    return phrase.trim().toLowerCase().replace(/\s+/g, ' ');
+}
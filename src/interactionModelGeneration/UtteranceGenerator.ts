@@ -0,0 +1,174 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { v1 } from 'ask-smapi-model';
+import _ from 'lodash';
+import { createSeededRandom, shuffle } from '../utils/ArrayUtils';
+import { SharedSlotType } from './ModelTypes';
+
+import SlotType = v1.skill.interactionModel.SlotType;
+
+/**
+ * Props for an `UtteranceGenerator`.
+ */
+export interface UtteranceGeneratorProps {
+    /**
+     * Slots whose references are replaced by literal carrier phrases.
+     *
+     * Only slots that carry no meaning for the controls should be expanded,
+     * as the literal phrase does not fill the slot.
+     *
+     * Default: `['head', 'tail', 'preposition']`
+     */
+    carrierSlotTypes?: string[];
+
+    /**
+     * The maximum number of phrases used for each carrier slot.  The first
+     * phrases of the slot type are used, i.e. the most common ones.
+     *
+     * Default: 3
+     */
+    maxPhrasesPerSlot?: number;
+
+    /**
+     * The maximum number of samples generated for an intent.
+     *
+     * If the expansion produces more samples, the samples are picked from the
+     * templates in turn so that every template remains represented.
+     *
+     * Default: 300
+     */
+    maxSamplesPerIntent?: number;
+
+    /**
+     * Seed for picking samples at random when `maxSamplesPerIntent` is exceeded.
+     *
+     * The same seed always picks the same samples, so the generated model is
+     * stable between builds.
+     *
+     * Default: undefined, i.e. the first expansions of each template are picked.
+     */
+    seed?: number;
+}
+
+/**
+ * Generates sample utterances from the sample templates of `ValueControlIntent`
+ * and phrases for the targets and actions of controls.
+ *
+ * Purpose:
+ * - The templates of `ValueControlIntent` reference carrier slots such as
+ *   `{head}` and `{tail}`.  Expanding them into literal phrases, e.g.
+ *   `'{action} {target} to {CITY} please'`, gives NLU more varied training data.
+ * - Controls may use targets and actions that are not values of the
+ *   `target` and `action` slot types.  `phrasesForSlotValueId()` derives a
+ *   phrase from the id so that these values need not be added by hand.
+ *
+ * Only the carrier slots are expanded.  The `{target}`, `{action}` and value
+ * slots stay slot references, as the controls read them to decide which
+ * control handles the input; the targets and actions of the controls reach
+ * the model as values of the `target` and `action` slot types instead.
+ *
+ * Usage:
+ * - Register with `ControlInteractionModelGenerator.withUtteranceGenerator()`
+ *   before calling `buildCoreModelForControls()`.
+ */
+export class UtteranceGenerator {
+    readonly props: Required<Omit<UtteranceGeneratorProps, 'seed'>> & Pick<UtteranceGeneratorProps, 'seed'>;
+
+    constructor(props?: UtteranceGeneratorProps) {
+        this.props = {
+            carrierSlotTypes: props?.carrierSlotTypes ?? [
+                SharedSlotType.HEAD,
+                SharedSlotType.TAIL,
+                SharedSlotType.PREPOSITION,
+            ],
+            maxPhrasesPerSlot: props?.maxPhrasesPerSlot ?? 3,
+            maxSamplesPerIntent: props?.maxSamplesPerIntent ?? 300,
+            seed: props?.seed,
+        };
+    }
+
+    /**
+     * Expands sample templates.
+     *
+     * Each template produces one sample for every combination of the phrases
+     * of its carrier slots.  The unexpanded template is kept as one of the
+     * samples so that the carrier slot still matches other phrases.
+     *
+     * Example: with `maxPhrasesPerSlot = 2`, `'{action} {preposition} {CITY}'`
+     * expands to `'{action} {preposition} {CITY}'`, `'{action} the {CITY}'`
+     * and `'{action} to {CITY}'`.
+     *
+     * @param templates - Sample templates
+     * @param slotTypes - Slot types that define the carrier phrases
+     * @returns Unique samples, at most `maxSamplesPerIntent`
+     */
+    expandSamples(templates: string[], slotTypes: SlotType[]): string[] {
+        const phrasesBySlot: { [slot: string]: string[] } = {};
+        for (const slot of this.props.carrierSlotTypes) {
+            const slotType = slotTypes.find((x) => x.name === slot);
+            phrasesBySlot[slot] = _.take(
+                _.flatMap(slotType?.values ?? [], (value) =>
+                    value.name?.synonyms !== undefined && value.name.synonyms.length > 0
+                        ? value.name.synonyms
+                        : [value.name?.value ?? ''],
+                ).filter((phrase) => phrase !== ''),
+                this.props.maxPhrasesPerSlot,
+            );
+        }
+
+        const seen = new Set<string>();
+        const expansionsByTemplate = templates.map((template) => {
+            let expansions = [template];
+            for (const slot of this.props.carrierSlotTypes) {
+                const reference = `{${slot}}`;
+                if (template.includes(reference)) {
+                    expansions = _.flatMap(expansions, (sample) => [
+                        sample,
+                        ...phrasesBySlot[slot].map((phrase) => sample.split(reference).join(phrase)),
+                    ]);
+                }
+            }
+            expansions = expansions.filter((sample) => {
+                const key = sample.toLowerCase();
+                const isNew = !seen.has(key);
+                seen.add(key);
+                return isNew;
+            });
+            return this.props.seed !== undefined && expansions.length > 0
+                ? [expansions[0], ...shuffle(expansions.slice(1), createSeededRandom(this.props.seed))]
+                : expansions;
+        });
+
+        const samples: string[] = [];
+        for (let i = 0; samples.length < this.props.maxSamplesPerIntent; i++) {
+            const round = expansionsByTemplate.filter((x) => i < x.length).map((x) => x[i]);
+            if (round.length === 0) {
+                break;
+            }
+            samples.push(..._.take(round, this.props.maxSamplesPerIntent - samples.length));
+        }
+        return samples;
+    }
+
+    /**
+     * Derives the phrases for a slot value from its id.
+     *
+     * Example: `'departureCity' -> ['departure city']`, `'arrival_city' -> ['arrival city']`
+     *
+     * @param slotValueId - Slot value id, e.g. a target
+     */
+    phrasesForSlotValueId(slotValueId: string): string[] {
+        return [_.lowerCase(slotValueId)];
+    }
+}
@@ -0,0 +1,330 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import _ from 'lodash';
+import { EnglishGrammar } from './EnglishGrammar';
+import { ListFormatting } from './ListFormat';
+
+/**
+ * The word used to join the last two items of a list.
+ *
+ * and - every item applies, e.g. "apples, pears and plums".
+ * or - one of the items applies, e.g. "apples, pears or plums".
+ */
+export type ListJoiner = 'and' | 'or';
+
+/**
+ * Grammatical gender of a noun.
+ */
+export type GrammaticalGender = 'masculine' | 'feminine' | 'neuter';
+
+/**
+ * The forms of a noun for each plural category of a language.
+ *
+ * Only `other` is required. A missing category falls back to `other`.
+ *
+ * See https://unicode-org.github.io/cldr-staging/charts/latest/supplemental/language_plural_rules.html
+ */
+export interface NounForms {
+    zero?: string;
+    one?: string;
+    two?: string;
+    few?: string;
+    many?: string;
+    other: string;
+}
+
+/**
+ * Options for `Grammar.withArticle()`.
+ */
+export interface ArticleOptions {
+    /**
+     * Whether the definite article ("the") is used rather than the indefinite
+     * article ("a").
+     *
+     * Default: false
+     */
+    definite?: boolean;
+
+    /**
+     * Gender of the noun.
+     *
+     * Default: masculine, for languages with gendered articles.
+     */
+    gender?: GrammaticalGender;
+
+    /**
+     * Whether the noun is in plural form.
+     *
+     * Default: false
+     */
+    plural?: boolean;
+}
+
+/**
+ * Language-specific rules for rendering prompts.
+ *
+ * Usage:
+ * - Available as `ControlInput.grammar` for the locale of the request.
+ * - The built-in controls use it to render lists of choices and values.
+ * - Provide a custom implementation for additional locales via
+ *   `ControlManagerProps.grammars`.
+ */
+export interface Grammar {
+    /**
+     * The locale of the grammar, e.g. 'de-DE'.
+     */
+    readonly locale: string;
+
+    /**
+     * Formats a list of items, e.g. `['a', 'b', 'c'] -> 'a, b or c'`.
+     *
+     * An empty list is rendered as '(empty)', like `ListFormatting.format()`.
+     *
+     * @param items - Items, already rendered
+     * @param joiner - Joiner. Default: 'or'
+     */
+    formatList(items: string[], joiner?: ListJoiner): string;
+
+    /**
+     * Determines the plural category of a count, e.g. 'one' or 'other'.
+     *
+     * @param count - Count
+     */
+    pluralCategory(count: number): keyof NounForms;
+
+    /**
+     * Selects the form of a noun for a count.
+     *
+     * Example (en): `renderNoun(2, { one: 'apple', other: 'apples' }) -> 'apples'`
+     *
+     * @param count - Count
+     * @param forms - Forms of the noun
+     */
+    renderNoun(count: number, forms: NounForms): string;
+
+    /**
+     * Prefixes a noun with an article.
+     *
+     * Example (fr): `withArticle('pomme', { definite: true, gender: 'feminine' }) -> 'la pomme'`
+     *
+     * @param noun - Noun
+     * @param options - Options
+     */
+    withArticle(noun: string, options?: ArticleOptions): string;
+}
+
+/**
+ * Minimal typing of `Intl.ListFormat`, which is not included in the
+ * TypeScript library definitions used by this package.
+ */
+type ListFormatConstructor = new (locale: string, options: { type: 'conjunction' | 'disjunction' }) => {
+    format(items: string[]): string;
+};
+
+const IntlListFormat: ListFormatConstructor | undefined = (Intl as { ListFormat?: ListFormatConstructor })
+    .ListFormat;
+
+/**
+ * Grammar based on the `Intl` API of the JavaScript runtime.
+ *
+ * - Lists are formatted with `Intl.ListFormat` where it is available,
+ *   otherwise the items are joined with commas and `joinerWords`.
+ * - Plural categories are determined with `Intl.PluralRules`.
+ * - There are no articles. Subclasses add the articles of their language.
+ */
+export class IntlGrammar implements Grammar {
+    readonly locale: string;
+
+    /**
+     * The words for 'and' and 'or', used if `Intl.ListFormat` is not available.
+     */
+    protected joinerWords: { [joiner in ListJoiner]: string } = { and: 'and', or: 'or' };
+
+    private pluralRules: Intl.PluralRules;
+
+    constructor(locale: string) {
+        this.locale = locale;
+        this.pluralRules = new Intl.PluralRules(locale);
+    }
+
+    // jsDoc: see `Grammar`
+    formatList(items: string[], joiner: ListJoiner = 'or'): string {
+        if (items.length === 0) {
+            return '(empty)';
+        }
+        if (IntlListFormat !== undefined) {
+            return new IntlListFormat(this.locale, {
+                type: joiner === 'and' ? 'conjunction' : 'disjunction',
+            }).format(items);
+        }
+        if (items.length === 1) {
+            return items[0];
+        }
+        return `${_.dropRight(items).join(', ')} ${this.joinerWords[joiner]} ${_.last(items)}`;
+    }
+
+    // jsDoc: see `Grammar`
+    pluralCategory(count: number): keyof NounForms {
+        return this.pluralRules.select(count) as keyof NounForms;
+    }
+
+    // jsDoc: see `Grammar`
+    renderNoun(count: number, forms: NounForms): string {
+        return forms[this.pluralCategory(count)] ?? forms.other;
+    }
+
+    // jsDoc: see `Grammar`
+    withArticle(noun: string, options?: ArticleOptions): string {
+        return noun;
+    }
+}
+
+/**
+ * Grammar for English.
+ *
+ * Lists are formatted by `ListFormatting.format()`, i.e. without a serial
+ * comma ("a, b or c"), for consistency with earlier versions.
+ */
+export class EnglishIntlGrammar extends IntlGrammar {
+    // jsDoc: see `Grammar`
+    formatList(items: string[], joiner: ListJoiner = 'or'): string {
+        return ListFormatting.format(items, joiner);
+    }
+
+    // jsDoc: see `Grammar`
+    withArticle(noun: string, options?: ArticleOptions): string {
+        if (options?.definite === true) {
+            return `the ${noun}`;
+        }
+        return options?.plural === true ? noun : `${EnglishGrammar.article(noun)} ${noun}`;
+    }
+}
+
+/**
+ * Articles of a language with gendered articles, indexed by definiteness,
+ * number and gender.
+ */
+interface ArticleTable {
+    definite: { singular: { [gender in GrammaticalGender]: string }; plural: string };
+    indefinite: { singular: { [gender in GrammaticalGender]: string }; plural: string };
+}
+
+function renderWithArticleTable(table: ArticleTable, noun: string, options?: ArticleOptions): string {
+    const articles = options?.definite === true ? table.definite : table.indefinite;
+    const article =
+        options?.plural === true ? articles.plural : articles.singular[options?.gender ?? 'masculine'];
+    return article === '' ? noun : `${article} ${noun}`;
+}
+
+/**
+ * Grammar for German.
+ *
+ * Articles are in the nominative case.
+ */
+export class GermanIntlGrammar extends IntlGrammar {
+    protected joinerWords = { and: 'und', or: 'oder' };
+
+    // jsDoc: see `Grammar`
+    withArticle(noun: string, options?: ArticleOptions): string {
+        return renderWithArticleTable(
+            {
+                definite: { singular: { masculine: 'der', feminine: 'die', neuter: 'das' }, plural: 'die' },
+                indefinite: { singular: { masculine: 'ein', feminine: 'eine', neuter: 'ein' }, plural: '' },
+            },
+            noun,
+            options,
+        );
+    }
+}
+
+/**
+ * Grammar for French.
+ *
+ * The singular definite article is elided before a vowel, e.g. "l'orange".
+ */
+export class FrenchIntlGrammar extends IntlGrammar {
+    protected joinerWords = { and: 'et', or: 'ou' };
+
+    // jsDoc: see `Grammar`
+    withArticle(noun: string, options?: ArticleOptions): string {
+        if (options?.definite === true && options.plural !== true && /^[aeiouyhàâéèêëîïôû]/i.test(noun)) {
+            return `l'${noun}`;
+        }
+        return renderWithArticleTable(
+            {
+                definite: { singular: { masculine: 'le', feminine: 'la', neuter: 'le' }, plural: 'les' },
+                indefinite: { singular: { masculine: 'un', feminine: 'une', neuter: 'un' }, plural: 'des' },
+            },
+            noun,
+            options,
+        );
+    }
+}
+
+/**
+ * Grammar for Spanish.
+ *
+ * Plural articles are given for masculine nouns, e.g. "los", "unos".
+ */
+export class SpanishIntlGrammar extends IntlGrammar {
+    protected joinerWords = { and: 'y', or: 'o' };
+
+    // jsDoc: see `Grammar`
+    withArticle(noun: string, options?: ArticleOptions): string {
+        if (options?.plural === true && options.gender === 'feminine') {
+            return `${options.definite === true ? 'las' : 'unas'} ${noun}`;
+        }
+        return renderWithArticleTable(
+            {
+                definite: { singular: { masculine: 'el', feminine: 'la', neuter: 'lo' }, plural: 'los' },
+                indefinite: { singular: { masculine: 'un', feminine: 'una', neuter: 'un' }, plural: 'unos' },
+            },
+            noun,
+            options,
+        );
+    }
+}
+
+/**
+ * Grammar for Japanese.
+ *
+ * Japanese has no articles and nouns do not change with the count.
+ */
+export class JapaneseIntlGrammar extends IntlGrammar {
+    protected joinerWords = { and: 'と', or: 'または' };
+}
+
+/**
+ * Creates the built-in grammar for a locale.
+ *
+ * Locales of languages without a built-in grammar use `IntlGrammar`.
+ *
+ * @param locale - Locale, e.g. 'fr-CA'
+ */
+export function grammarForLocale(locale: string): Grammar {
+    switch (locale.split('-')[0].toLowerCase()) {
+        case 'en':
+            return new EnglishIntlGrammar(locale);
+        case 'de':
+            return new GermanIntlGrammar(locale);
+        case 'es':
+            return new SpanishIntlGrammar(locale);
+        case 'fr':
+            return new FrenchIntlGrammar(locale);
+        case 'ja':
+            return new JapaneseIntlGrammar(locale);
+        default:
+            return new IntlGrammar(locale);
+    }
+}
@@ -0,0 +1,214 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { Resource, ResourceLanguage } from 'i18next';
+import _ from 'lodash';
+import { defaultI18nResources } from '../commonControls/LanguageStrings';
+
+/**
+ * Options for `checkI18nCoverage()`.
+ */
+export interface I18nCoverageOptions {
+    /**
+     * The locales to check.
+     *
+     * Default: every locale of the supplied resources other than the
+     * reference locale.
+     */
+    locales?: string[];
+
+    /**
+     * The locale that defines the expected keys and placeholders.
+     *
+     * The reference content is the built-in content for the reference locale
+     * merged with the supplied content for it, so skill-specific keys added
+     * to the reference locale are expected in every other locale too.
+     *
+     * Default: 'en'
+     */
+    referenceLocale?: string;
+}
+
+/**
+ * A string whose placeholders differ from those of the reference locale.
+ */
+export interface I18nPlaceholderMismatch {
+    key: string;
+
+    /**
+     * Placeholders of the reference string, e.g. `['value']` for
+     * `'OK, {{value}}.'`
+     */
+    expected: string[];
+
+    /**
+     * Placeholders of the localized string.
+     */
+    actual: string[];
+}
+
+/**
+ * The result of checking the content for one locale.
+ */
+export interface I18nCoverageReport {
+    locale: string;
+
+    /**
+     * Keys of the reference locale that are neither defined for the locale
+     * nor for its language.  These keys are rendered in the fallback language
+     * at runtime.
+     */
+    missingKeys: string[];
+
+    /**
+     * Keys supplied for the locale that are not defined for the reference
+     * locale.  These are usually misspelled keys and are never used by the
+     * built-in controls.
+     */
+    extraKeys: string[];
+
+    placeholderMismatches: I18nPlaceholderMismatch[];
+}
+
+/**
+ * Checks that the localized content supplied for each locale covers the
+ * content of the reference locale.
+ *
+ * Purpose:
+ * - When a locale is added via `ControlManagerProps.i18nResources`, a
+ *   missing key silently falls back to the reference language and a
+ *   misspelled key is ignored.  A mismatched placeholder renders as an empty
+ *   string or as the raw placeholder.
+ *
+ * The content for a locale includes the built-in content and the content
+ * for its language, e.g. 'es-MX' is covered by the supplied 'es-MX' content,
+ * the supplied 'es' content and the built-in 'es' content.
+ *
+ * Usage:
+ * - In a test: `expect(checkI18nCoverage(myResources).filter(hasI18nCoverageIssues)).empty`
+ * - In an interaction model build script, log each report with
+ *   `i18nCoverageReportToString()` before building the model for a locale.
+ *
+ * @param resources - The resources supplied as `ControlManagerProps.i18nResources`
+ * @param options - Options
+ */
+export function checkI18nCoverage(resources: Resource, options?: I18nCoverageOptions): I18nCoverageReport[] {
+    const referenceLocale = options?.referenceLocale ?? 'en';
+    const reference = flattenResourceLanguage(
+        _.merge({}, defaultI18nResources[referenceLocale], resources[referenceLocale]),
+    );
+    const locales = options?.locales ?? Object.keys(resources).filter((locale) => locale !== referenceLocale);
+
+    return locales.map((locale) => {
+        const language = locale.split('-')[0];
+        const supplied = flattenResourceLanguage(resources[locale] ?? {});
+        const effective = flattenResourceLanguage(
+            _.merge(
+                {},
+                defaultI18nResources[language],
+                language !== locale ? resources[language] : undefined,
+                defaultI18nResources[locale],
+                resources[locale],
+            ),
+        );
+
+        const placeholderMismatches: I18nPlaceholderMismatch[] = [];
+        for (const [key, value] of Object.entries(effective)) {
+            const referenceValue = reference[key];
+            if (typeof value === 'string' && typeof referenceValue === 'string') {
+                const expected = placeholders(referenceValue);
+                const actual = placeholders(value);
+                if (!_.isEqual(expected, actual)) {
+                    placeholderMismatches.push({ key, expected, actual });
+                }
+            }
+        }
+
+        return {
+            locale,
+            missingKeys: Object.keys(reference).filter((key) => !(key in effective)),
+            extraKeys: Object.keys(supplied).filter((key) => !(key in reference)),
+            placeholderMismatches,
+        };
+    });
+}
+
+/**
+ * Determines whether a report contains any missing keys, extra keys or
+ * placeholder mismatches.
+ *
+ * @param report - Report
+ */
+export function hasI18nCoverageIssues(report: I18nCoverageReport): boolean {
+    return (
+        report.missingKeys.length > 0 ||
+        report.extraKeys.length > 0 ||
+        report.placeholderMismatches.length > 0
+    );
+}
+
+/**
+ * Creates a multi-line description of a report.
+ *
+ * Example:
+ * ```
+ * pt-BR: 1 missing, 1 extra, 1 placeholder mismatch
+ *   missing: NUMBER_CONTROL_DEFAULT_APL_HEADER_TITLE
+ *   extra: NUMBER_CONTROL_DEFAULT_APL_HEADER_TITEL
+ *   placeholders: VALUE_CONTROL_DEFAULT_PROMPT_VALUE_SET expected [value] but found [valor]
+ * ```
+ *
+ * @param report - Report
+ */
+export function i18nCoverageReportToString(report: I18nCoverageReport): string {
+    const lines = [
+        `${report.locale}: ${report.missingKeys.length} missing, ${report.extraKeys.length} extra, ${report.placeholderMismatches.length} placeholder mismatch`,
+        ...report.missingKeys.map((key) => `  missing: ${key}`),
+        ...report.extraKeys.map((key) => `  extra: ${key}`),
+        ...report.placeholderMismatches.map(
+            (mismatch) =>
+                `  placeholders: ${mismatch.key} expected [${mismatch.expected.join(
+                    ', ',
+                )}] but found [${mismatch.actual.join(', ')}]`,
+        ),
+    ];
+    return lines.join('\n');
+}
+
+/**
+ * Flattens the content for a language to a map from key to value.
+ *
+ * Nested objects are flattened with '.' (the i18next key separator), and keys
+ * of namespaces other than 'translation' are prefixed with the namespace and
+ * ':'.  Arrays, such as intent samples, are values.
+ */
+function flattenResourceLanguage(resourceLanguage: ResourceLanguage): { [key: string]: unknown } {
+    const result: { [key: string]: unknown } = {};
+    const visit = (prefix: string, value: unknown) => {
+        if (_.isPlainObject(value)) {
+            for (const [key, child] of Object.entries(value as { [key: string]: unknown })) {
+                visit(prefix === '' || prefix.endsWith(':') ? `${prefix}${key}` : `${prefix}.${key}`, child);
+            }
+        } else {
+            result[prefix] = value;
+        }
+    };
+    for (const [namespace, content] of Object.entries(resourceLanguage)) {
+        visit(namespace === 'translation' ? '' : `${namespace}:`, content);
+    }
+    return result;
+}
+
+function placeholders(value: string): string[] {
+    return _.uniq((value.match(/{{\s*[^}\s]+\s*}}/g) ?? []).map((x) => x.slice(2, -2).trim())).sort();
+}
@@ -0,0 +1,184 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import _ from 'lodash';
+import zlib from 'zlib';
+
+/**
+ * Provides the state of each control in a freshly created control tree, keyed
+ * by control id.
+ */
+export type DefaultStateMapProvider = () => { [key: string]: any };
+
+/**
+ * Converts the control state map to and from the string that is kept in a
+ * `ControlStateStore`.
+ *
+ * Purpose:
+ * - Session attributes are limited in size (24KB at the time of writing) and
+ *   large control trees can approach that limit.  A codec can reduce the size
+ *   of the serialized state, e.g. by removing whitespace, by omitting fields
+ *   that hold their default values, or by compression.
+ *
+ * Usage:
+ * - Configure a codec via `ControlManagerProps.stateCodec`.
+ * - `decode(encode(stateMap))` must be deep-equal to `stateMap` after
+ *   conversion to JSON, i.e. fields with `undefined` values are not preserved.
+ */
+export interface ControlStateCodec {
+    /**
+     * Converts the control state map to a string.
+     *
+     * @param stateMap - Control state map, as collected from the control tree
+     * @param getDefaultStateMap - Provides the states of a fresh control tree
+     */
+    encode(stateMap: { [key: string]: any }, getDefaultStateMap: DefaultStateMapProvider): string;
+
+    /**
+     * Converts a string produced by `encode` back to a control state map.
+     *
+     * @param serializedState - Serialized state
+     * @param getDefaultStateMap - Provides the states of a fresh control tree
+     */
+    decode(serializedState: string, getDefaultStateMap: DefaultStateMapProvider): { [key: string]: any };
+}
+
+/**
+ * Encodes the control state map as plain JSON.
+ *
+ * This is the default codec.  The JSON is pretty-printed with two spaces of
+ * indentation to aid debugging; use `new JsonControlStateCodec(0)` to remove the
+ * whitespace.
+ */
+export class JsonControlStateCodec implements ControlStateCodec {
+    /**
+     * Number of spaces used for indentation.
+     */
+    readonly indent: number;
+
+    constructor(indent: number = 2) {
+        this.indent = indent;
+    }
+
+    // jsDoc: see `ControlStateCodec`
+    encode(stateMap: { [key: string]: any }): string {
+        return JSON.stringify(stateMap, null, this.indent);
+    }
+
+    // jsDoc: see `ControlStateCodec`
+    decode(serializedState: string): { [key: string]: any } {
+        return JSON.parse(serializedState);
+    }
+}
+
+/**
+ * Key of the entry that lists fields removed relative to the default state.
+ */
+const UNSET_FIELDS_KEY = '__unset';
+
+/**
+ * Encodes the control state map as whitespace-free JSON and omits each field of
+ * a control's state that is equal to the value of the same field in a freshly
+ * created control.
+ *
+ * Omitted fields are restored on decode from the states of a fresh control
+ * tree.  The restoration happens before state migrations are applied, so it
+ * only applies to controls whose id is unchanged.  If a control is renamed via
+ * `ControlStateMigrations.renameControlId`, state saved with this codec under
+ * the old id is migrated without its default-valued fields.
+ *
+ * State that was saved as plain JSON (e.g. by `JsonControlStateCodec`) is
+ * decoded unchanged.
+ */
+export class CompactJsonControlStateCodec implements ControlStateCodec {
+    // jsDoc: see `ControlStateCodec`
+    encode(stateMap: { [key: string]: any }, getDefaultStateMap: DefaultStateMapProvider): string {
+        const defaultStateMap = toJsonValue(getDefaultStateMap());
+        const compactMap: { [key: string]: any } = {};
+        const unsetFields: { [key: string]: string[] } = {};
+        for (const [id, state] of Object.entries(toJsonValue(stateMap))) {
+            const defaultState = defaultStateMap[id];
+            if (!_.isPlainObject(state) || !_.isPlainObject(defaultState)) {
+                compactMap[id] = state;
+                continue;
+            }
+            compactMap[id] = _.omitBy(state, (value, field) => _.isEqual(value, defaultState[field]));
+            const unset = Object.keys(defaultState).filter((field) => !_.has(state, field));
+            if (unset.length > 0) {
+                unsetFields[id] = unset;
+            }
+        }
+        compactMap[UNSET_FIELDS_KEY] = unsetFields;
+        return JSON.stringify(compactMap);
+    }
+
+    // jsDoc: see `ControlStateCodec`
+    decode(serializedState: string, getDefaultStateMap: DefaultStateMapProvider): { [key: string]: any } {
+        const compactMap = JSON.parse(serializedState);
+        if (!_.has(compactMap, UNSET_FIELDS_KEY)) {
+            return compactMap;
+        }
+        const unsetFields: { [key: string]: string[] } = compactMap[UNSET_FIELDS_KEY];
+        const defaultStateMap = toJsonValue(getDefaultStateMap());
+        const stateMap: { [key: string]: any } = {};
+        for (const [id, state] of Object.entries(_.omit(compactMap, UNSET_FIELDS_KEY))) {
+            const defaultState = defaultStateMap[id];
+            if (!_.isPlainObject(state) || !_.isPlainObject(defaultState)) {
+                stateMap[id] = state;
+                continue;
+            }
+            stateMap[id] = _.omit({ ...defaultState, ...state }, unsetFields[id] ?? []);
+        }
+        return stateMap;
+    }
+}
+
+/**
+ * Compresses the output of another codec with gzip and encodes the result as
+ * base64.
+ *
+ * Compression is most effective for large control trees with repetitive
+ * state, e.g. many `ListControl`s or a `QuestionnaireControl` with many
+ * questions.
+ *
+ * State that was saved uncompressed as JSON is passed to the inner codec
+ * unchanged, so this codec can be introduced while sessions are in progress.
+ */
+export class GzipControlStateCodec implements ControlStateCodec {
+    /**
+     * The codec that produces the string to be compressed.
+     */
+    readonly innerCodec: ControlStateCodec;
+
+    constructor(innerCodec: ControlStateCodec = new CompactJsonControlStateCodec()) {
+        this.innerCodec = innerCodec;
+    }
+
+    // jsDoc: see `ControlStateCodec`
+    encode(stateMap: { [key: string]: any }, getDefaultStateMap: DefaultStateMapProvider): string {
+        const inner = this.innerCodec.encode(stateMap, getDefaultStateMap);
+        return zlib.gzipSync(Buffer.from(inner, 'utf8')).toString('base64');
+    }
+
+    // jsDoc: see `ControlStateCodec`
+    decode(serializedState: string, getDefaultStateMap: DefaultStateMapProvider): { [key: string]: any } {
+        const inner = serializedState.trimStart().startsWith('{')
+            ? serializedState
+            : zlib.gunzipSync(Buffer.from(serializedState, 'base64')).toString('utf8');
+        return this.innerCodec.decode(inner, getDefaultStateMap);
+    }
+}
+
+function toJsonValue(stateMap: { [key: string]: any }): { [key: string]: any } {
+    return JSON.parse(JSON.stringify(stateMap));
+}
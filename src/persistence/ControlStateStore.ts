@@ -0,0 +1,176 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { HandlerInput } from 'ask-sdk-core';
+import { RequestEnvelope } from 'ask-sdk-model';
+
+/**
+ * Durable storage for the serialized control state map.
+ *
+ * Purpose:
+ * - Decouples `ControlManager` from the location where the control state is
+ *   kept between turns.  The default is the session attributes, which means the
+ *   state is discarded at the end of each user session.  Other stores allow a
+ *   partially-completed control tree to be resumed in a later session.
+ *
+ * Usage:
+ * - Configure a store via `ControlManagerProps.stateStore`.
+ * - Stores deal only with the serialized form of the state map and do not
+ *   interpret it.
+ */
+export interface ControlStateStore {
+    /**
+     * Loads the serialized control state.
+     *
+     * @param handlerInput - Handler input
+     * @returns The serialized state, or `undefined` if nothing has been saved.
+     */
+    load(handlerInput: HandlerInput): Promise<string | undefined>;
+
+    /**
+     * Saves the serialized control state.
+     *
+     * @param serializedState - Serialized state
+     * @param handlerInput - Handler input
+     */
+    save(serializedState: string, handlerInput: HandlerInput): Promise<void>;
+
+    /**
+     * Removes any saved control state.
+     *
+     * @param handlerInput - Handler input
+     */
+    clear(handlerInput: HandlerInput): Promise<void>;
+}
+
+/**
+ * Stores the control state in the session attributes.
+ *
+ * This is the default store.  State survives for the lifetime of the user
+ * session only.
+ */
+export class SessionAttributesControlStateStore implements ControlStateStore {
+    /**
+     * The session attribute that holds the state.
+     */
+    readonly attributeKey: string;
+
+    constructor(attributeKey: string = DEFAULT_CONTROL_STATE_ATTRIBUTE_KEY) {
+        this.attributeKey = attributeKey;
+    }
+
+    // jsDoc: see `ControlStateStore`
+    async load(handlerInput: HandlerInput): Promise<string | undefined> {
+        return handlerInput.attributesManager.getSessionAttributes()[this.attributeKey];
+    }
+
+    // jsDoc: see `ControlStateStore`
+    async save(serializedState: string, handlerInput: HandlerInput): Promise<void> {
+        handlerInput.attributesManager.getSessionAttributes()[this.attributeKey] = serializedState;
+    }
+
+    // jsDoc: see `ControlStateStore`
+    async clear(handlerInput: HandlerInput): Promise<void> {
+        delete handlerInput.attributesManager.getSessionAttributes()[this.attributeKey];
+    }
+}
+
+/**
+ * Stores the control state in the persistent attributes.
+ *
+ * Usage:
+ * - The skill must be configured with a `PersistenceAdapter`, e.g.
+ *   `SkillBuilders.custom().withPersistenceAdapter(new DynamoDbPersistenceAdapter(...))`.
+ *   For local testing use `LocalFilePersistenceAdapter`.
+ * - Each call to `save()` writes through to the persistence layer.
+ */
+export class PersistentAttributesControlStateStore implements ControlStateStore {
+    /**
+     * The persistent attribute that holds the state.
+     */
+    readonly attributeKey: string;
+
+    constructor(attributeKey: string = DEFAULT_CONTROL_STATE_ATTRIBUTE_KEY) {
+        this.attributeKey = attributeKey;
+    }
+
+    // jsDoc: see `ControlStateStore`
+    async load(handlerInput: HandlerInput): Promise<string | undefined> {
+        const attributes = await handlerInput.attributesManager.getPersistentAttributes();
+        return attributes[this.attributeKey];
+    }
+
+    // jsDoc: see `ControlStateStore`
+    async save(serializedState: string, handlerInput: HandlerInput): Promise<void> {
+        const attributes = await handlerInput.attributesManager.getPersistentAttributes();
+        attributes[this.attributeKey] = serializedState;
+        handlerInput.attributesManager.setPersistentAttributes(attributes);
+        await handlerInput.attributesManager.savePersistentAttributes();
+    }
+
+    // jsDoc: see `ControlStateStore`
+    async clear(handlerInput: HandlerInput): Promise<void> {
+        const attributes = await handlerInput.attributesManager.getPersistentAttributes();
+        delete attributes[this.attributeKey];
+        handlerInput.attributesManager.setPersistentAttributes(attributes);
+        await handlerInput.attributesManager.savePersistentAttributes();
+    }
+}
+
+/**
+ * Stores the control state in process memory, keyed by user id.
+ *
+ * Usage:
+ * - State survives across sessions for as long as the process lives.  This is
+ *   convenient for tests and local debugging, but is not suitable for
+ *   production as Lambda instances are recycled at will.
+ */
+export class InMemoryControlStateStore implements ControlStateStore {
+    private readonly states: Map<string, string> = new Map();
+
+    // jsDoc: see `ControlStateStore`
+    async load(handlerInput: HandlerInput): Promise<string | undefined> {
+        return this.states.get(getUserId(handlerInput.requestEnvelope));
+    }
+
+    // jsDoc: see `ControlStateStore`
+    async save(serializedState: string, handlerInput: HandlerInput): Promise<void> {
+        this.states.set(getUserId(handlerInput.requestEnvelope), serializedState);
+    }
+
+    // jsDoc: see `ControlStateStore`
+    async clear(handlerInput: HandlerInput): Promise<void> {
+        this.states.delete(getUserId(handlerInput.requestEnvelope));
+    }
+}
+
+/**
+ * Default key name used to store control state data between turns.
+ */
+export const DEFAULT_CONTROL_STATE_ATTRIBUTE_KEY = '__controlState';
+
+/**
+ * Gets the user id from the request envelope.
+ *
+ * This is the same partition key used by the standard ASK SDK persistence
+ * adapters.
+ *
+ * @param requestEnvelope - Request envelope
+ */
+export function getUserId(requestEnvelope: RequestEnvelope): string {
+    const userId = requestEnvelope.context?.System?.user?.userId ?? requestEnvelope.session?.user?.userId;
+    if (userId === undefined) {
+        throw new Error('Cannot determine the user id from the request envelope.');
+    }
+    return userId;
+}
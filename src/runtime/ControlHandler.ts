@@ -12,24 +12,34 @@
  */
 
 import { HandlerInput, RequestHandler, UserAgentManager } from 'ask-sdk-core';
-import { Response } from 'ask-sdk-model';
+import { IntentRequest, Response } from 'ask-sdk-model';
 import fs from 'fs';
 import _ from 'lodash';
+import { Strings as $ } from '../constants/Strings';
+import { Control } from '../controls/Control';
 import { ControlInput } from '../controls/ControlInput';
 import { ControlResultBuilder } from '../controls/ControlResult';
+import { STATE_SCHEMA_VERSION_KEY } from '../controls/ControlStateMigrations';
 import { isContainerControl } from '../controls/interfaces/IContainerControl';
 import { IControl } from '../controls/interfaces/IControl';
 import { IControlInput } from '../controls/interfaces/IControlInput';
 import { IControlManager } from '../controls/interfaces/IControlManager';
 import { IControlResult } from '../controls/interfaces/IControlResult';
 import { IControlResultBuilder } from '../controls/interfaces/IControlResultBuilder';
+import { GeneralControlIntent, unpackGeneralControlIntent } from '../intents/GeneralControlIntent';
 import { Logger } from '../logging/Logger';
 import { ControlResponseBuilder } from '../responseGeneration/ControlResponseBuilder';
+import { StateRevertedAct } from '../systemActs/ContentActs';
+import { ResumeOfferAct } from '../systemActs/InitiativeActs';
 import { generateControlTreeTextDiagram } from '../utils/ControlTreeVisualization';
 import { visitControls } from '../utils/ControlVisitor';
+import { InputUtil } from '../utils/InputUtil';
 import { requestToString } from '../utils/RequestUtils';
 import { validateSerializedState } from '../utils/SerializationValidator';
+import { ControlInterceptor, ControlInterceptorPhase } from './ControlInterceptor';
 import { SessionBehavior } from './SessionBehavior';
+import { TurnTrace } from './TurnTrace';
+import { TurnTraceSink } from './TurnTraceSink';
 
 const log = new Logger('AskSdkControls:ControlHandler');
 
@@ -38,10 +48,31 @@ const log = new Logger('AskSdkControls:ControlHandler');
  */
 class AdditionalSessionContext {
     turnNumber: number = 0;
+
+    /**
+     * Tracks that a `ResumeOfferAct` was issued and the user's reply is awaited.
+     */
+    resumeOfferPending?: boolean;
+
+    /**
+     * The changes of recent turns, most recent last.  Each entry holds the
+     * state at the start of the turn of each control that the turn changed,
+     * or `null` for a control that had no state.
+     */
+    undoStack?: Array<{ [controlId: string]: any }>;
 }
 
 export type CanHandleExceptionBehavior = 'ProduceResponse' | 'ReturnFalse' | 'Rethrow';
 
+/**
+ * The resume-flow step that applies to the current turn.
+ *
+ * Offered - a saved control tree is incomplete and the user is being asked whether to resume it.
+ * Accepted - the user accepted the offer and the saved state is in use.
+ * Declined - the user declined the offer and the saved state has been discarded.
+ */
+type ResumeStep = 'Offered' | 'Accepted' | 'Declined';
+
 /**
  * RequestHandler for a skill built using Controls.
  *
@@ -61,6 +92,12 @@ export class ControlHandler implements RequestHandler {
     private controlInput: IControlInput;
 
     private preparedRequestId: string | undefined;
+    private resumeStep: ResumeStep | undefined;
+    private interceptors: ControlInterceptor[] = [];
+    private traceSinks: TurnTraceSink[] = [];
+    private turnTrace: TurnTrace | undefined;
+    private stateMapAtStart: { [key: string]: any };
+    private revertedControlIds: string[] | undefined;
 
     /**
      * Determines if the controls state will be correctly reestablished on the
@@ -89,10 +126,107 @@ export class ControlHandler implements RequestHandler {
     canHandleThrowBehavior: CanHandleExceptionBehavior = 'ProduceResponse';
     protected canHandleFailureResponse?: Response;
 
+    /**
+     * The error behind `canHandleFailureResponse`, reported in the turn trace
+     * when `handle()` returns that response.
+     */
+    private canHandleError: any;
+
+    /**
+     * Determines if the user is offered to resume a control tree that was
+     * saved during a previous session.
+     *
+     * Framework behavior:
+     *  * On a `LaunchRequest`, if the saved control tree is not ready (i.e.
+     *    some control still wants to take the initiative) a `ResumeOfferAct` is
+     *    issued instead of the regular processing. The saved state is left
+     *    untouched and the user is presented with a fresh tree until they reply.
+     *  * If the user replies "yes", the saved state is rehydrated and the
+     *    initiative phase runs.  If the user replies "no", the saved state is
+     *    cleared and the initiative phase runs on a fresh tree. Any other reply
+     *    is processed normally using the saved state.
+     *
+     * Usage:
+     *  * This is only meaningful if `ControlManagerProps.stateStore` keeps the
+     *    state between sessions, e.g. `PersistentAttributesControlStateStore`.
+     *  * The `ResumeOfferAct` is associated with the root control. The default
+     *    `renderAct` of `ContainerControl` renders it directly; other root
+     *    controls, or `ControlManager.render`, may need to handle it explicitly.
+     */
+    offerResumeOnLaunch = false;
+
+    /**
+     * Size, in bytes, of the serialized control state above which a warning is
+     * logged.
+     *
+     * Framework behavior:
+     *  * The size of the serialized control state is logged on every turn
+     *    (log level `info`) together with its size as plain JSON.
+     *  * If the serialized state exceeds this threshold, a warning is logged
+     *    that lists the controls with the largest state.
+     *
+     * Usage:
+     *  * Session attributes are limited to 24KB.  If the warning appears,
+     *    consider a more compact `ControlManagerProps.stateCodec` such as
+     *    `CompactJsonControlStateCodec` or `GzipControlStateCodec`.
+     */
+    stateSizeWarningThreshold = 20 * 1024;
+
+    /**
+     * Number of prior control states that are kept so that the user can undo
+     * turns.
+     *
+     * Default: 0, i.e. undo is disabled.
+     *
+     * Framework behavior:
+     *  * At the end of each turn that changes the control state, the states
+     *    from the start of the turn of the changed controls are pushed onto
+     *    a stack.  The oldest entries are dropped once the stack holds
+     *    `undoStackSize` entries.
+     *  * If the user says "undo" or "go back" (a `GeneralControlIntent` with
+     *    action = `builtin_goBack` and no target), the most recent state is
+     *    popped and restored, a `StateRevertedAct` is issued and the
+     *    initiative phase runs.  The control tree is not asked to handle the
+     *    input.  If the stack is empty, the input is processed normally.
+     *
+     * Usage:
+     *  * The stack is kept in the session attributes, which are limited to
+     *    24KB. Keep the size small for large control trees.
+     *  * The `StateRevertedAct` is associated with the root control. The
+     *    default `renderAct` of `ContainerControl` renders it directly; other
+     *    root controls, or `ControlManager.render`, may need to handle it
+     *    explicitly.
+     */
+    undoStackSize = 0;
+
     constructor(controlManager: IControlManager) {
         this.controlManager = controlManager;
     }
 
+    /**
+     * Registers an interceptor that is called during the phases of each turn.
+     *
+     * Interceptors are called in registration order.  See `ControlInterceptor`.
+     *
+     * @param interceptor - Interceptor
+     */
+    addInterceptor(interceptor: ControlInterceptor): this {
+        this.interceptors.push(interceptor);
+        return this;
+    }
+
+    /**
+     * Registers a sink that receives a `TurnTrace` for each turn.
+     *
+     * Traces are only recorded if at least one sink is registered.
+     *
+     * @param sink - Sink
+     */
+    addTraceSink(sink: TurnTraceSink): this {
+        this.traceSinks.push(sink);
+        return this;
+    }
+
     private async prepare(handlerInput: HandlerInput): Promise<void> {
         if (this.preparedRequestId === handlerInput.requestEnvelope.request.requestId) {
             return; // don't prepare again for the same requestId.
@@ -106,22 +240,130 @@ export class ControlHandler implements RequestHandler {
         this.additionalSessionContext =
             retrievedContext !== undefined ? JSON.parse(retrievedContext) : new AdditionalSessionContext();
         this.additionalSessionContext.turnNumber += 1;
+        this.turnTrace =
+            this.traceSinks.length > 0
+                ? new TurnTrace(
+                      this.preparedRequestId,
+                      this.additionalSessionContext.turnNumber,
+                      requestToString(handlerInput.requestEnvelope.request),
+                  )
+                : undefined;
 
         // rebuild the control tree
         this.rootControl = this.controlManager.createControlTree();
         const stateMap = await this.controlManager.loadControlStateMap(handlerInput);
         this.controlManager.reestablishControlStates(this.rootControl, stateMap);
+        // the controls take ownership of the state objects, so keep a copy for undo.
+        this.stateMapAtStart = _.cloneDeep(stateMap);
 
         // create the input object for use in the main processing.
-        const controlsMap = ControlHandler.createControlMap(this.rootControl, {});
-        this.controlInput = new ControlInput(
+        this.controlInput = this.createControlInput(handlerInput);
+
+        await this.prepareResumeStep(handlerInput, stateMap);
+        this.prepareUndo(handlerInput, stateMap);
+
+        // userAgent setup
+        UserAgentManager.registerComponent(this.userAgentInfo());
+    }
+
+    private createControlInput(handlerInput: HandlerInput): ControlInput {
+        const controlsMap = ControlHandler.createControlMap(this.rootControl!, {});
+        return new ControlInput(
             handlerInput,
             this.additionalSessionContext.turnNumber,
             controlsMap,
+            this.turnTrace,
+            this.controlManager.getI18n?.(handlerInput),
+            this.controlManager.getGrammar?.(handlerInput),
         );
+    }
 
-        // userAgent setup
-        UserAgentManager.registerComponent(this.userAgentInfo());
+    /**
+     * Determines the resume-flow step for this turn and, where necessary,
+     * replaces the rehydrated control tree with a fresh one.
+     */
+    private async prepareResumeStep(
+        handlerInput: HandlerInput,
+        stateMap: { [key: string]: any },
+    ): Promise<void> {
+        const input = this.controlInput as ControlInput;
+        this.resumeStep = undefined;
+
+        if (this.additionalSessionContext.resumeOfferPending === true) {
+            this.additionalSessionContext.resumeOfferPending = undefined;
+            if (InputUtil.isBareYes(input)) {
+                this.resumeStep = 'Accepted';
+            } else if (InputUtil.isBareNo(input)) {
+                this.resumeStep = 'Declined';
+                this.rootControl = this.controlManager.createControlTree();
+                this.controlInput = this.createControlInput(handlerInput);
+            }
+        } else if (
+            this.offerResumeOnLaunch &&
+            InputUtil.isLaunchRequest(input) &&
+            Object.keys(stateMap).length > 0 &&
+            !(await (this.rootControl as Control).isReady(input))
+        ) {
+            log.info('Saved control tree is not ready. Offering to resume.');
+            this.resumeStep = 'Offered';
+            this.additionalSessionContext.resumeOfferPending = true;
+            this.rootControl = this.controlManager.createControlTree();
+            this.controlInput = this.createControlInput(handlerInput);
+        }
+    }
+
+    /**
+     * Determines if the input asks to undo the previous turn and, if so,
+     * replaces the rehydrated control tree with one built from the state at
+     * the start of the previous turn.
+     */
+    private prepareUndo(handlerInput: HandlerInput, stateMap: { [key: string]: any }): void {
+        this.revertedControlIds = undefined;
+        const undoStack = this.additionalSessionContext.undoStack;
+        if (
+            this.undoStackSize <= 0 ||
+            this.resumeStep !== undefined ||
+            undoStack === undefined ||
+            undoStack.length === 0 ||
+            !isUndoRequest(this.controlInput as ControlInput)
+        ) {
+            return;
+        }
+
+        const revertedStates = undoStack.pop()!;
+        const previousStateMap = _.omitBy({ ...stateMap, ...revertedStates }, (state) => state === null);
+        this.revertedControlIds = _.union(Object.keys(stateMap), Object.keys(previousStateMap)).filter(
+            (controlId) => !_.isEqual(stateMap[controlId], previousStateMap[controlId]),
+        );
+        log.info(`Undo: reverting the state of ${this.revertedControlIds.join(', ')}`);
+        this.rootControl = this.controlManager.createControlTree();
+        this.controlManager.reestablishControlStates(this.rootControl, previousStateMap);
+        this.controlInput = this.createControlInput(handlerInput);
+    }
+
+    /**
+     * Pushes the state at the start of the turn onto the undo stack if the
+     * turn changed the state.
+     */
+    private pushUndoState(): void {
+        if (this.undoStackSize <= 0) {
+            return;
+        }
+        const currentStateMap = JSON.parse(JSON.stringify(this.getSerializableControlStates()));
+        // Only the changed states are kept, as the session attributes are limited in size.
+        const revertedStates = _.fromPairs(
+            _.union(Object.keys(this.stateMapAtStart), Object.keys(currentStateMap))
+                .filter(
+                    (controlId) => !_.isEqual(this.stateMapAtStart[controlId], currentStateMap[controlId]),
+                )
+                .map((controlId) => [controlId, this.stateMapAtStart[controlId] ?? null]),
+        );
+        if (_.isEmpty(revertedStates)) {
+            return;
+        }
+        const undoStack = this.additionalSessionContext.undoStack ?? [];
+        undoStack.push(revertedStates);
+        this.additionalSessionContext.undoStack = _.takeRight(undoStack, this.undoStackSize);
     }
 
     private static createControlMap(
@@ -145,17 +387,26 @@ export class ControlHandler implements RequestHandler {
     async canHandle(handlerInput: HandlerInput): Promise<boolean> {
         try {
             await this.prepare(handlerInput);
-            return this.rootControl!.canHandle(this.controlInput);
+            if (this.resumeStep !== undefined || this.revertedControlIds !== undefined) {
+                return true;
+            }
+            const canHandle = await this.rootControl!.canHandle(this.controlInput);
+            this.turnTrace?.recordCanHandle(this.rootControl!.id, canHandle);
+            return canHandle;
         } catch (error) {
             const responseBuilder = new ControlResponseBuilder(handlerInput.responseBuilder);
+            await this.runErrorInterceptors(error, responseBuilder);
             if (this.controlManager.handleInternalError) {
                 this.controlManager.handleInternalError(this.controlInput, error, responseBuilder);
             }
 
             if (this.canHandleThrowBehavior === 'ProduceResponse') {
                 this.canHandleFailureResponse = responseBuilder.build();
+                this.canHandleError = error;
                 return true; // return true and generate the response in handle.
-            } else if (this.canHandleThrowBehavior === 'ReturnFalse') {
+            }
+            await this.exportTurnTrace(error);
+            if (this.canHandleThrowBehavior === 'ReturnFalse') {
                 return false; // silent
             } else {
                 throw error; // rethrow to top-level
@@ -170,6 +421,7 @@ export class ControlHandler implements RequestHandler {
      */
     async handle(handlerInput: HandlerInput, processInput = true): Promise<Response> {
         if (this.canHandleFailureResponse !== undefined) {
+            await this.exportTurnTrace(this.canHandleError);
             return this.canHandleFailureResponse;
         }
 
@@ -183,45 +435,76 @@ export class ControlHandler implements RequestHandler {
              */
 
             const resultBuilder = new ControlResultBuilder();
-            await ControlHandler.handleCore(
-                this.rootControl!,
-                this.controlInput,
-                this.preparedRequestId,
-                resultBuilder,
-                processInput,
-            );
+            if (this.resumeStep === 'Offered') {
+                resultBuilder.addAct(new ResumeOfferAct(this.rootControl as Control));
+            } else {
+                if (this.resumeStep === 'Declined' && this.controlManager.clearControlStateMap) {
+                    await this.controlManager.clearControlStateMap(handlerInput);
+                }
+                if (this.revertedControlIds !== undefined) {
+                    resultBuilder.addAct(
+                        new StateRevertedAct(this.rootControl as Control, {
+                            controlIds: this.revertedControlIds,
+                        }),
+                    );
+                }
+                await ControlHandler.handleCore(
+                    this.rootControl!,
+                    this.controlInput,
+                    this.preparedRequestId,
+                    resultBuilder,
+                    processInput && this.resumeStep === undefined && this.revertedControlIds === undefined,
+                    async (phase) => this.runInterceptors(phase, resultBuilder, responseBuilder),
+                );
+            }
 
             // Compose the response
-            const response = await this.buildResponseCore(
-                resultBuilder.build(),
-                responseBuilder,
-                this.controlInput,
-            );
+            this.turnTrace?.startPhase('render');
+            const response = await this.buildResponseCore(resultBuilder, responseBuilder, this.controlInput);
+            this.turnTrace?.endPhase('render');
+            this.turnTrace?.recordActs(resultBuilder.acts);
 
             // Collate the Control state objects for serialization
 
             /* Note: we merge onto the prevailing state for the edge-case of multiple ControlHandlers in the skill that are active on different turns.
              *       merging avoid one controlHandler stomping on the state of the other.  Context is currently OK/good to be stomped on.
              */
-            const priorStateMap = await this.controlManager.loadControlStateMap(handlerInput);
-            const currentStateMap = this.getSerializableControlStates();
-            const mergedStateMap = { ...priorStateMap, ...currentStateMap };
-
-            const stateToSaveJson = JSON.stringify(mergedStateMap, null, 2);
-            log.info(`Saving state...\n${stateToSaveJson} `);
-
+            if (this.resumeStep === undefined && this.revertedControlIds === undefined) {
+                this.pushUndoState();
+            }
             const contextToSaveJson = JSON.stringify(this.additionalSessionContext, null, 2);
             log.info(`Saving context...\n${contextToSaveJson}`);
 
-            await this.controlManager.saveControlStateMap(stateToSaveJson, handlerInput);
-
             this.controlInput.handlerInput.attributesManager.getSessionAttributes()[
                 ControlHandler.attributeNameContext
             ] = contextToSaveJson;
 
-            // Check that the serialized state will survive the round trip
-            if (this.validateStateRoundtrip) {
-                validateSerializedState(stateToSaveJson, this.controlManager, this.controlInput);
+            // The saved state is left untouched while a resume offer is pending.
+            if (this.resumeStep !== 'Offered') {
+                const priorStateMap = await this.controlManager.loadControlStateMap(handlerInput);
+                const currentStateMap = this.getSerializableControlStates();
+                this.turnTrace?.recordStateDiff(priorStateMap, currentStateMap);
+                const mergedStateMap = { ...priorStateMap, ...currentStateMap };
+                // Version 0 is implied by unstamped state, which keeps the saved state unchanged for
+                // skills without migrations.
+                const stateSchemaVersion = this.controlManager.stateSchemaVersion ?? 0;
+                if (stateSchemaVersion > 0) {
+                    mergedStateMap[STATE_SCHEMA_VERSION_KEY] = stateSchemaVersion;
+                }
+
+                log.info(`Saving state...\n${JSON.stringify(mergedStateMap, null, 2)} `);
+                const stateToSave =
+                    this.controlManager.encodeControlStateMap !== undefined
+                        ? this.controlManager.encodeControlStateMap(mergedStateMap)
+                        : JSON.stringify(mergedStateMap, null, 2);
+                this.logStateSize(mergedStateMap, stateToSave);
+
+                await this.controlManager.saveControlStateMap(stateToSave, handlerInput);
+
+                // Check that the serialized state will survive the round trip
+                if (this.validateStateRoundtrip) {
+                    validateSerializedState(stateToSave, this.controlManager, this.controlInput);
+                }
             }
 
             //write out response for debugging
@@ -232,8 +515,11 @@ export class ControlHandler implements RequestHandler {
                 );
             }
 
+            await this.exportTurnTrace();
             return response;
         } catch (error) {
+            await this.runErrorInterceptors(error, responseBuilder);
+            await this.exportTurnTrace(error);
             if (this.controlManager.handleInternalError) {
                 this.controlManager.handleInternalError(this.controlInput, error, responseBuilder);
             }
@@ -259,10 +545,49 @@ export class ControlHandler implements RequestHandler {
         return `nCtrl:${nControls}`;
     }
 
+    private async runInterceptors(
+        phase: ControlInterceptorPhase,
+        resultBuilder: IControlResultBuilder,
+        responseBuilder: ControlResponseBuilder,
+    ): Promise<void> {
+        for (const interceptor of this.interceptors) {
+            await interceptor[phase]?.(this.controlInput, resultBuilder, responseBuilder);
+        }
+    }
+
+    private async exportTurnTrace(error?: any): Promise<void> {
+        const trace = this.turnTrace;
+        if (trace === undefined) {
+            return;
+        }
+        this.turnTrace = undefined;
+        trace.end(error);
+        for (const sink of this.traceSinks) {
+            try {
+                await sink.export(trace);
+            } catch (sinkError) {
+                log.error(`Error exporting turn trace: ${sinkError}`);
+            }
+        }
+    }
+
+    private async runErrorInterceptors(error: any, responseBuilder: ControlResponseBuilder): Promise<void> {
+        for (const interceptor of this.interceptors) {
+            try {
+                await interceptor.onError?.(this.controlInput, error, responseBuilder);
+            } catch (interceptorError) {
+                log.error(`Error in onError interceptor: ${interceptorError}`);
+            }
+        }
+    }
+
     /**
      * Implements the core of the processing loop
      *
      * Public for testing
+     *
+     * @param runInterceptors - Called at the start of the `beforeHandle`,
+     * `afterHandle` and `beforeInitiative` phases.
      */
     public static async handleCore(
         rootControl: IControl,
@@ -270,6 +595,7 @@ export class ControlHandler implements RequestHandler {
         preparedRequestId: string | undefined,
         resultBuilder: IControlResultBuilder,
         handleInput = true,
+        runInterceptors?: (phase: ControlInterceptorPhase) => Promise<void>,
     ): Promise<void> {
         log.info(
             '-------------------------------------------------------------------------------------------------',
@@ -282,6 +608,7 @@ export class ControlHandler implements RequestHandler {
             // call canHandle only if we didn't go through top-level canHandle/prepare.
             if (preparedRequestId !== input.handlerInput.requestEnvelope.request.requestId) {
                 const canHandleResponse = await rootControl.canHandle(input);
+                input.trace?.recordCanHandle(rootControl.id, canHandleResponse);
                 if (!canHandleResponse) {
                     log.warn(' *WARN* rootControl returned canHandle=false.  Closing session');
                     log.info(
@@ -295,12 +622,22 @@ export class ControlHandler implements RequestHandler {
             }
 
             // HANDLE
+            await runInterceptors?.('beforeHandle');
+            input.trace?.startPhase('handle');
             await rootControl.handle(input, resultBuilder);
+            input.trace?.endPhase('handle');
+            if (input.trace !== undefined) {
+                input.trace.handlingChain = getSelectedChain(rootControl, 'selectedHandlingChild');
+            }
+            await runInterceptors?.('afterHandle');
         }
 
         // Optional INITIATIVE PHASE
         if (!resultBuilder.hasInitiativeAct() && resultBuilder.sessionBehavior === SessionBehavior.OPEN) {
+            await runInterceptors?.('beforeInitiative');
+            input.trace?.startPhase('initiative');
             await ControlHandler.initiativePhase(rootControl, input, resultBuilder);
+            input.trace?.endPhase('initiative');
         }
 
         // TODO: track the specific controlID that generated the initiative. make it available so that controls
@@ -322,8 +659,12 @@ export class ControlHandler implements RequestHandler {
             )}`,
         );
         const canTakeInitiative = await rootControl.canTakeInitiative(input);
+        input.trace?.recordCanTakeInitiative(rootControl.id, canTakeInitiative);
         if (canTakeInitiative) {
             await rootControl.takeInitiative(input, resultBuilder);
+            if (input.trace !== undefined) {
+                input.trace.initiativeChain = getSelectedChain(rootControl, 'selectedInitiativeChild');
+            }
 
             if (!resultBuilder.hasInitiativeAct()) {
                 throw new Error(
@@ -416,12 +757,15 @@ export class ControlHandler implements RequestHandler {
     }
 
     private async buildResponseCore(
-        result: IControlResult | undefined,
+        resultBuilder: IControlResultBuilder | undefined,
         controlResponseBuilder: ControlResponseBuilder,
         input: IControlInput,
     ): Promise<Response> {
-        if (result) {
+        let result: IControlResult | undefined;
+        if (resultBuilder !== undefined) {
+            result = resultBuilder.build();
             await this.controlManager.render(result, input, controlResponseBuilder);
+            await this.runInterceptors('afterRender', resultBuilder, controlResponseBuilder);
         }
         const response = controlResponseBuilder.getResponse();
         if (result) {
@@ -443,6 +787,25 @@ export class ControlHandler implements RequestHandler {
         return response;
     }
 
+    private logStateSize(stateMap: { [key: string]: any }, serializedState: string): void {
+        const serializedSize = Buffer.byteLength(serializedState, 'utf8');
+        const jsonSize = Buffer.byteLength(JSON.stringify(stateMap), 'utf8');
+        log.info(`State size: ${serializedSize} bytes serialized, ${jsonSize} bytes as compact JSON`);
+
+        if (serializedSize > this.stateSizeWarningThreshold) {
+            const largestStates = Object.entries(stateMap)
+                .map(([id, state]) => ({ id, size: Buffer.byteLength(JSON.stringify(state) ?? '', 'utf8') }))
+                .sort((a, b) => b.size - a.size)
+                .slice(0, 3)
+                .map((x) => `${x.id} (${x.size} bytes)`);
+            log.warn(
+                `Serialized control state is ${serializedSize} bytes, which exceeds the warning threshold of ${
+                    this.stateSizeWarningThreshold
+                } bytes. Largest control states: ${largestStates.join(', ')}.`,
+            );
+        }
+    }
+
     // public for testing
     public getSerializableControlStates(): { [key: string]: any } {
         return _extractStateFromControlTree(this.rootControl!);
@@ -473,3 +836,36 @@ function extractStateCore(control: IControl, state: any) {
         }
     }
 }
+
+/**
+ * Follows the child selected by each container control, starting at the root.
+ *
+ * @param rootControl - Root control
+ * @param selectionProp - `selectedHandlingChild` or `selectedInitiativeChild`
+ * @returns The ids of the controls on the path.
+ */
+function getSelectedChain(
+    rootControl: IControl,
+    selectionProp: 'selectedHandlingChild' | 'selectedInitiativeChild',
+): string[] {
+    const chain: string[] = [];
+    let control: IControl | undefined = rootControl;
+    while (control !== undefined) {
+        chain.push(control.id);
+        control = isContainerControl(control) ? control[selectionProp] : undefined;
+    }
+    return chain;
+}
+
+/**
+ * Determines if the input is "undo" or "go back" without a target.
+ *
+ * @param input - Input
+ */
+function isUndoRequest(input: ControlInput): boolean {
+    if (!InputUtil.isIntent(input, GeneralControlIntent.name)) {
+        return false;
+    }
+    const { action, target } = unpackGeneralControlIntent((input.request as IntentRequest).intent);
+    return action === $.Action.GoBack && target === undefined;
+}
@@ -0,0 +1,110 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { IControlInput } from '../controls/interfaces/IControlInput';
+import { IControlResultBuilder } from '../controls/interfaces/IControlResultBuilder';
+import { ControlResponseBuilder } from '../responseGeneration/ControlResponseBuilder';
+
+/**
+ * The phases of a turn at which `ControlInterceptor`s are called.
+ */
+export type ControlInterceptorPhase = 'beforeHandle' | 'afterHandle' | 'beforeInitiative' | 'afterRender';
+
+/**
+ * Hooks into the phases of a turn processed by a `ControlHandler`.
+ *
+ * Purpose:
+ * - Implements cross-cutting concerns such as analytics, rewriting of the
+ *   system acts and auditing of the response without subclassing
+ *   `ControlHandler` or the controls.
+ *
+ * Framework behavior:
+ * - Interceptors are registered via `ControlHandler.addInterceptor()` and are
+ *   called in registration order.  Each hook is optional.
+ * - `beforeHandle` and `afterHandle` are only called if the input is processed
+ *   by the control tree, e.g. not during `ControlHandler.takeInitiative()`.
+ * - `beforeInitiative` is only called if the initiative phase runs, i.e. if
+ *   no initiative act was produced while handling the input.
+ * - `afterRender` is called after `ControlManager.render()` and before the
+ *   response is built, so changes made via the `ControlResponseBuilder` are
+ *   included in the response.
+ * - `onError` is called when an error occurs during the turn, before
+ *   `ControlManager.handleInternalError()`.  An error thrown by `onError` is
+ *   logged and otherwise ignored.
+ */
+export interface ControlInterceptor {
+    /**
+     * Called before the control tree handles the input.
+     *
+     * @param input - Input
+     * @param resultBuilder - Result builder
+     * @param responseBuilder - Response builder
+     */
+    beforeHandle?(
+        input: IControlInput,
+        resultBuilder: IControlResultBuilder,
+        responseBuilder: ControlResponseBuilder,
+    ): void | Promise<void>;
+
+    /**
+     * Called after the control tree has handled the input.
+     *
+     * @param input - Input
+     * @param resultBuilder - Result builder
+     * @param responseBuilder - Response builder
+     */
+    afterHandle?(
+        input: IControlInput,
+        resultBuilder: IControlResultBuilder,
+        responseBuilder: ControlResponseBuilder,
+    ): void | Promise<void>;
+
+    /**
+     * Called before the initiative phase.
+     *
+     * @param input - Input
+     * @param resultBuilder - Result builder
+     * @param responseBuilder - Response builder
+     */
+    beforeInitiative?(
+        input: IControlInput,
+        resultBuilder: IControlResultBuilder,
+        responseBuilder: ControlResponseBuilder,
+    ): void | Promise<void>;
+
+    /**
+     * Called after the result has been rendered.
+     *
+     * @param input - Input
+     * @param resultBuilder - Result builder
+     * @param responseBuilder - Response builder
+     */
+    afterRender?(
+        input: IControlInput,
+        resultBuilder: IControlResultBuilder,
+        responseBuilder: ControlResponseBuilder,
+    ): void | Promise<void>;
+
+    /**
+     * Called if an error occurs during the turn.
+     *
+     * @param input - ControlInput object or undefined if an error occurs early in processing
+     * @param error - Error object
+     * @param responseBuilder - Response builder
+     */
+    onError?(
+        input: IControlInput | undefined,
+        error: any,
+        responseBuilder: ControlResponseBuilder,
+    ): void | Promise<void>;
+}
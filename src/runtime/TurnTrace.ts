@@ -0,0 +1,225 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import _ from 'lodash';
+import { ArbitrationRecord } from '../controls/ArbitrationRecord';
+import { ISystemAct } from '../systemActs/SystemAct';
+
+/**
+ * Summary of a system act produced during the turn.
+ */
+export interface TurnTraceAct {
+    /**
+     * Class name of the act, e.g. `ValueSetAct`.
+     */
+    name: string;
+
+    /**
+     * Id of the control associated with the act.
+     */
+    controlId?: string;
+
+    takesInitiative: boolean;
+
+    /**
+     * The act payload, if any.
+     */
+    payload?: any;
+}
+
+/**
+ * The start and end time of a phase of the turn, in milliseconds since the
+ * epoch.
+ */
+export interface TurnTracePhase {
+    name: string;
+    startTime: number;
+    endTime?: number;
+}
+
+/**
+ * Change to the state of a single control during the turn.
+ */
+export interface TurnTraceStateChange {
+    before: any;
+    after: any;
+}
+
+/**
+ * Structured record of the processing of a single turn by a `ControlHandler`.
+ *
+ * Purpose:
+ * - Provides machine-readable observability for a turn: the decisions of
+ *   each control, the path through the control tree, the emitted acts, the
+ *   state changes and the time spent in each phase.
+ *
+ * Usage:
+ * - A trace is created for each turn if at least one `TurnTraceSink` is
+ *   registered via `ControlHandler.addTraceSink()`.  The trace is available
+ *   during the turn as `ControlInput.trace` and is exported to the sinks at
+ *   the end of the turn.
+ * - Controls may add information via `recordCanHandle()` and
+ *   `recordCanTakeInitiative()`. `ContainerControl` records the answer of
+ *   each child it consults.  The built-in controls record the handler they
+ *   select via `recordInputHandler()` and `recordInitiativeHandler()`.
+ */
+export class TurnTrace {
+    readonly requestId: string;
+    readonly turnNumber: number;
+
+    /**
+     * Summary of the request, e.g. `IntentRequest: ValueControlIntent ...`.
+     */
+    readonly input: string;
+
+    readonly startTime: number;
+    endTime?: number;
+
+    /**
+     * The answer of each control that was asked `canHandle`, keyed by control id.
+     */
+    canHandleAnswers: { [controlId: string]: boolean } = {};
+
+    /**
+     * The answer of each control that was asked `canTakeInitiative`, keyed by control id.
+     */
+    canTakeInitiativeAnswers: { [controlId: string]: boolean } = {};
+
+    /**
+     * The name of the input handler selected by each control that can handle
+     * the input, keyed by control id, e.g. `'SetWithValue (built-in)'`.
+     */
+    inputHandlers: { [controlId: string]: string } = {};
+
+    /**
+     * The name of the initiative handler selected by each control that can
+     * take the initiative, keyed by control id, e.g. `'elicitValue'`.
+     */
+    initiativeHandlers: { [controlId: string]: string } = {};
+
+    /**
+     * The ids of the controls that handled the input, from the root control to
+     * the leaf control.
+     */
+    handlingChain: string[] = [];
+
+    /**
+     * The ids of the controls that took the initiative, from the root control
+     * to the leaf control.
+     */
+    initiativeChain: string[] = [];
+
+    /**
+     * The decisions made by container controls, in order.
+     */
+    arbitrations: ArbitrationRecord[] = [];
+
+    /**
+     * The system acts produced during the turn.
+     */
+    acts: TurnTraceAct[] = [];
+
+    /**
+     * The state of each control that changed during the turn, keyed by control id.
+     */
+    stateDiff: { [controlId: string]: TurnTraceStateChange } = {};
+
+    /**
+     * Timings of the phases of the turn, in order of their start.
+     */
+    phases: TurnTracePhase[] = [];
+
+    /**
+     * Message of the error that interrupted the turn, if any.
+     */
+    error?: string;
+
+    constructor(requestId: string, turnNumber: number, input: string) {
+        this.requestId = requestId;
+        this.turnNumber = turnNumber;
+        this.input = input;
+        this.startTime = Date.now();
+    }
+
+    recordCanHandle(controlId: string, answer: boolean): void {
+        this.canHandleAnswers[controlId] = answer;
+    }
+
+    recordCanTakeInitiative(controlId: string, answer: boolean): void {
+        this.canTakeInitiativeAnswers[controlId] = answer;
+    }
+
+    recordInputHandler(controlId: string, name: string): void {
+        this.inputHandlers[controlId] = name;
+    }
+
+    recordInitiativeHandler(controlId: string, name: string): void {
+        this.initiativeHandlers[controlId] = name;
+    }
+
+    recordArbitration(record: ArbitrationRecord): void {
+        this.arbitrations.push(record);
+    }
+
+    startPhase(name: string): void {
+        this.phases.push({ name, startTime: Date.now() });
+    }
+
+    endPhase(name: string): void {
+        const phase = _.findLast(this.phases, (x) => x.name === name && x.endTime === undefined);
+        if (phase !== undefined) {
+            phase.endTime = Date.now();
+        }
+    }
+
+    recordActs(acts: ISystemAct[]): void {
+        this.acts = acts.map((act) => {
+            const details = act as any;
+            return {
+                name: act.constructor.name,
+                controlId: details.control?.id,
+                takesInitiative: act.takesInitiative,
+                payload: details.payload !== undefined ? toJsonValue(details.payload) : undefined,
+            };
+        });
+    }
+
+    /**
+     * Records the controls whose state differs between the two state maps.
+     *
+     * @param stateMapBefore - Control state map at the start of the turn
+     * @param stateMapAfter - Control state map at the end of the turn
+     */
+    recordStateDiff(stateMapBefore: { [key: string]: any }, stateMapAfter: { [key: string]: any }): void {
+        const before = toJsonValue(stateMapBefore);
+        const after = toJsonValue(stateMapAfter);
+        this.stateDiff = {};
+        for (const controlId of _.union(Object.keys(before), Object.keys(after))) {
+            if (!_.isEqual(before[controlId], after[controlId])) {
+                this.stateDiff[controlId] = { before: before[controlId], after: after[controlId] };
+            }
+        }
+    }
+
+    end(error?: any): void {
+        this.endTime = Date.now();
+        if (error !== undefined) {
+            this.error = error instanceof Error ? error.message : String(error);
+        }
+    }
+}
+
+function toJsonValue(value: any): any {
+    const json = JSON.stringify(value);
+    return json !== undefined ? JSON.parse(json) : undefined;
+}
@@ -0,0 +1,147 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import { TurnTrace } from './TurnTrace';
+
+/**
+ * Destination for the `TurnTrace` of each turn.
+ *
+ * Usage:
+ * - Register sinks via `ControlHandler.addTraceSink()`.
+ * - Errors thrown by a sink are logged and do not affect the response.
+ */
+export interface TurnTraceSink {
+    /**
+     * Exports the trace of a completed turn.
+     *
+     * @param trace - Trace
+     */
+    export(trace: TurnTrace): void | Promise<void>;
+}
+
+/**
+ * Writes each trace to stdout as a single line of JSON.
+ *
+ * This suits AWS Lambda, where each line written to stdout becomes a
+ * CloudWatch log event that can be queried with CloudWatch Logs Insights.
+ */
+export class ConsoleJsonTurnTraceSink implements TurnTraceSink {
+    // jsDoc: see `TurnTraceSink`
+    export(trace: TurnTrace): void {
+        console.log(JSON.stringify(trace));
+    }
+}
+
+/**
+ * Appends each trace to a file as a single line of JSON (JSON Lines format).
+ */
+export class FileTurnTraceSink implements TurnTraceSink {
+    readonly filePath: string;
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    // jsDoc: see `TurnTraceSink`
+    export(trace: TurnTrace): void {
+        fs.appendFileSync(this.filePath, `${JSON.stringify(trace)}\n`);
+    }
+}
+
+/**
+ * A span in the form used by OpenTelemetry exporters.
+ *
+ * Times are in nanoseconds since the epoch, as in the OTLP JSON encoding, and
+ * attribute values are restricted to primitives.
+ */
+export interface TurnTraceSpan {
+    traceId: string;
+    spanId: string;
+    parentSpanId?: string;
+    name: string;
+    startTimeUnixNano: string;
+    endTimeUnixNano: string;
+    attributes: { [key: string]: string | number | boolean };
+}
+
+/**
+ * Converts each trace to OpenTelemetry-compatible spans and passes them to an
+ * exporter.
+ *
+ * The turn is represented by a root span named `turn` with a child span for
+ * each phase of the turn.
+ *
+ * Usage:
+ * - The exporter is typically a thin adapter onto the OpenTelemetry SDK or an
+ *   OTLP/HTTP client, which keeps this package free of a dependency on the
+ *   OpenTelemetry libraries.
+ */
+export class SpanTurnTraceSink implements TurnTraceSink {
+    readonly exporter: (spans: TurnTraceSpan[]) => void | Promise<void>;
+
+    constructor(exporter: (spans: TurnTraceSpan[]) => void | Promise<void>) {
+        this.exporter = exporter;
+    }
+
+    // jsDoc: see `TurnTraceSink`
+    async export(trace: TurnTrace): Promise<void> {
+        await this.exporter(turnTraceToSpans(trace));
+    }
+}
+
+/**
+ * Converts a trace to OpenTelemetry-compatible spans.
+ *
+ * @param trace - Trace
+ * @returns The root `turn` span followed by a span for each phase.
+ */
+export function turnTraceToSpans(trace: TurnTrace): TurnTraceSpan[] {
+    const traceId = crypto.randomBytes(16).toString('hex');
+    const endTime = trace.endTime ?? Date.now();
+    const turnSpan: TurnTraceSpan = {
+        traceId,
+        spanId: crypto.randomBytes(8).toString('hex'),
+        name: 'turn',
+        startTimeUnixNano: toUnixNano(trace.startTime),
+        endTimeUnixNano: toUnixNano(endTime),
+        attributes: {
+            'controls.request_id': trace.requestId,
+            'controls.turn_number': trace.turnNumber,
+            'controls.input': trace.input,
+            'controls.handling_chain': trace.handlingChain.join(' > '),
+            'controls.initiative_chain': trace.initiativeChain.join(' > '),
+            'controls.acts': trace.acts.map((act) => act.name).join(', '),
+            'controls.changed_controls': Object.keys(trace.stateDiff).join(', '),
+        },
+    };
+    if (trace.error !== undefined) {
+        turnSpan.attributes['controls.error'] = trace.error;
+    }
+
+    const phaseSpans = trace.phases.map((phase) => ({
+        traceId,
+        spanId: crypto.randomBytes(8).toString('hex'),
+        parentSpanId: turnSpan.spanId,
+        name: phase.name,
+        startTimeUnixNano: toUnixNano(phase.startTime),
+        endTimeUnixNano: toUnixNano(phase.endTime ?? endTime),
+        attributes: {},
+    }));
+    return [turnSpan, ...phaseSpans];
+}
+
+function toUnixNano(epochMillis: number): string {
+    return `${Math.round(epochMillis)}000000`;
+}
@@ -11,7 +11,6 @@
  * permissions and limitations under the License.
  */
 
-import i18next from 'i18next';
 import { Control } from '../controls/Control';
 import { ControlInput } from '../controls/ControlInput';
 import { ControlResponseBuilder } from '../responseGeneration/ControlResponseBuilder';
@@ -19,6 +18,7 @@ import {
     InvalidValuePayload,
     LiteralContentPayload,
     ProblematicInputValuePayload,
+    StateRevertedPayload,
     ValueAddedPayload,
     ValueChangedPayload,
     ValueClearedPayload,
@@ -71,7 +71,7 @@ export class UnusableInputValueAct<T> extends ContentAct {
     render(input: ControlInput, controlResponseBuilder: ControlResponseBuilder): void {
         if (this.payload.renderedReason !== undefined) {
             controlResponseBuilder.addPromptFragment(
-                i18next.t('UNUSABLE_INPUT_VALUE_ACT_DEFAULT_PROMPT', {
+                input.i18n.t('UNUSABLE_INPUT_VALUE_ACT_DEFAULT_PROMPT', {
                     value: this.payload.renderedReason,
                 }),
             );
@@ -101,7 +101,7 @@ export class AcknowledgeInputAct extends ContentAct {
     }
 
     render(input: ControlInput, controlResponseBuilder: ControlResponseBuilder): void {
-        controlResponseBuilder.addPromptFragment(i18next.t('ACKNOWLEDGE_INPUT_ACT_DEFAULT_PROMPT'));
+        controlResponseBuilder.addPromptFragment(input.i18n.t('ACKNOWLEDGE_INPUT_ACT_DEFAULT_PROMPT'));
     }
 }
 
@@ -135,7 +135,7 @@ export class ValueSetAct<T> extends ContentAct {
 
     render(input: ControlInput, controlResponseBuilder: ControlResponseBuilder): void {
         controlResponseBuilder.addPromptFragment(
-            i18next.t('VALUE_SET_ACT_DEFAULT_PROMPT', {
+            input.i18n.t('VALUE_SET_ACT_DEFAULT_PROMPT', {
                 value: this.payload.value,
             }),
         );
@@ -169,7 +169,7 @@ export class ValueChangedAct<T> extends ContentAct {
 
     render(input: ControlInput, controlResponseBuilder: ControlResponseBuilder): void {
         controlResponseBuilder.addPromptFragment(
-            i18next.t('VALUE_CHANGED_ACT_DEFAULT_PROMPT', {
+            input.i18n.t('VALUE_CHANGED_ACT_DEFAULT_PROMPT', {
                 value: this.payload.value,
             }),
         );
@@ -201,7 +201,7 @@ export class InvalidValueAct<T> extends ContentAct {
     render(input: ControlInput, controlResponseBuilder: ControlResponseBuilder): void {
         if (this.payload.renderedReason !== undefined) {
             controlResponseBuilder.addPromptFragment(
-                i18next.t('INVALID_VALUE_ACT_DEFAULT_PROMPT', {
+                input.i18n.t('INVALID_VALUE_ACT_DEFAULT_PROMPT', {
                     value: this.payload.renderedReason,
                 }),
             );
@@ -238,7 +238,7 @@ export class ValueConfirmedAct<T> extends ContentAct {
     }
 
     render(input: ControlInput, controlResponseBuilder: ControlResponseBuilder): void {
-        controlResponseBuilder.addPromptFragment(i18next.t('VALUE_CONFIRMED_ACT_DEFAULT_PROMPT'));
+        controlResponseBuilder.addPromptFragment(input.i18n.t('VALUE_CONFIRMED_ACT_DEFAULT_PROMPT'));
     }
 }
 
@@ -266,7 +266,7 @@ export class ValueDisconfirmedAct<T> extends ContentAct {
     }
 
     render(input: ControlInput, controlResponseBuilder: ControlResponseBuilder): void {
-        controlResponseBuilder.addPromptFragment(i18next.t('VALUE_DISCONFIRMED_ACT_DEFAULT_PROMPT'));
+        controlResponseBuilder.addPromptFragment(input.i18n.t('VALUE_DISCONFIRMED_ACT_DEFAULT_PROMPT'));
     }
 }
 
@@ -294,7 +294,7 @@ export class NonUnderstandingAct extends ContentAct {
     }
 
     render(input: ControlInput, controlResponseBuilder: ControlResponseBuilder): void {
-        controlResponseBuilder.addPromptFragment(i18next.t('NON_UNDERSTANDING_ACT_DEFAULT_PROMPT'));
+        controlResponseBuilder.addPromptFragment(input.i18n.t('NON_UNDERSTANDING_ACT_DEFAULT_PROMPT'));
     }
 }
 
@@ -309,7 +309,7 @@ export class LaunchAct extends ContentAct {
     }
 
     render(input: ControlInput, controlResponseBuilder: ControlResponseBuilder): void {
-        controlResponseBuilder.addPromptFragment(i18next.t('LAUNCH_ACT_DEFAULT_PROMPT'));
+        controlResponseBuilder.addPromptFragment(input.i18n.t('LAUNCH_ACT_DEFAULT_PROMPT'));
     }
 }
 
@@ -353,7 +353,7 @@ export class ValueAddedAct<T> extends ContentAct {
 
     render(input: ControlInput, controlResponseBuilder: ControlResponseBuilder): void {
         controlResponseBuilder.addPromptFragment(
-            i18next.t('VALUE_ADDED_ACT_DEFAULT_PROMPT', {
+            input.i18n.t('VALUE_ADDED_ACT_DEFAULT_PROMPT', {
                 value: this.payload.value,
             }),
         );
@@ -370,7 +370,7 @@ export class ValueRemovedAct<T> extends ContentAct {
 
     render(input: ControlInput, controlResponseBuilder: ControlResponseBuilder): void {
         controlResponseBuilder.addPromptFragment(
-            i18next.t('VALUE_REMOVED_ACT_DEFAULT_PROMPT', {
+            input.i18n.t('VALUE_REMOVED_ACT_DEFAULT_PROMPT', {
                 value: this.payload.value,
             }),
         );
@@ -387,7 +387,7 @@ export class ValueClearedAct<T> extends ContentAct {
 
     render(input: ControlInput, controlResponseBuilder: ControlResponseBuilder): void {
         controlResponseBuilder.addPromptFragment(
-            i18next.t('VALUE_CLEARED_ACT_DEFAULT_PROMPT', {
+            input.i18n.t('VALUE_CLEARED_ACT_DEFAULT_PROMPT', {
                 value: this.payload.value,
             }),
         );
@@ -404,9 +404,33 @@ export class InvalidRemoveValueAct<T> extends ContentAct {
 
     render(input: ControlInput, controlResponseBuilder: ControlResponseBuilder): void {
         controlResponseBuilder.addPromptFragment(
-            i18next.t('INVALID_REMOVE_VALUE_ACT_DEFAULT_PROMPT', {
+            input.i18n.t('INVALID_REMOVE_VALUE_ACT_DEFAULT_PROMPT', {
                 value: this.payload.value,
             }),
         );
     }
 }
+
+/**
+ * Communicates that the control tree was returned to the state it had before
+ * the previous turn.
+ *
+ * Default rendering (en-US): "OK, I undid that."
+ *
+ * Framework behavior:
+ *  * Issued by `ControlHandler` in reply to "undo" or "go back" if
+ *    `ControlHandler.undoStackSize > 0`.  The act is associated with the root
+ *    control.
+ */
+export class StateRevertedAct extends ContentAct {
+    public readonly payload: StateRevertedPayload;
+
+    constructor(control: Control, payload: StateRevertedPayload) {
+        super(control);
+        this.payload = payload;
+    }
+
+    render(input: ControlInput, controlResponseBuilder: ControlResponseBuilder): void {
+        controlResponseBuilder.addPromptFragment(input.i18n.t('STATE_REVERTED_ACT_DEFAULT_PROMPT'));
+    }
+}
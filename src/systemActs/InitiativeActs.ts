@@ -11,12 +11,11 @@
  * permissions and limitations under the License.
  */
 
-import i18next from 'i18next';
 import { Control } from '../controls/Control';
 import { ControlInput } from '../controls/ControlInput';
-import { ListFormatting } from '../intl/ListFormat';
 import { ControlResponseBuilder } from '../responseGeneration/ControlResponseBuilder';
 import {
+    DisambiguateTargetPayload,
     LiteralContentPayload,
     RequestChangedValueByListPayload,
     RequestChangedValuePayload,
@@ -96,12 +95,12 @@ export class RequestValueAct extends InitiativeAct {
     render(input: ControlInput, controlResponseBuilder: ControlResponseBuilder): void {
         if (this.payload.renderedTarget !== undefined) {
             controlResponseBuilder.addPromptFragment(
-                i18next.t('REQUEST_VALUE_ACT_DEFAULT_PROMPT', {
+                input.i18n.t('REQUEST_VALUE_ACT_DEFAULT_PROMPT', {
                     value: this.payload.renderedTarget,
                 }),
             );
             controlResponseBuilder.addRepromptFragment(
-                i18next.t('REQUEST_VALUE_ACT_DEFAULT_PROMPT', {
+                input.i18n.t('REQUEST_VALUE_ACT_DEFAULT_PROMPT', {
                     value: this.payload.renderedTarget,
                 }),
             );
@@ -134,12 +133,12 @@ export class RequestChangedValueAct extends InitiativeAct {
     render(input: ControlInput, controlResponseBuilder: ControlResponseBuilder): void {
         if (this.payload.renderedTarget !== undefined) {
             controlResponseBuilder.addPromptFragment(
-                i18next.t('REQUEST_CHANGED_VALUE_ACT_DEFAULT_PROMPT', {
+                input.i18n.t('REQUEST_CHANGED_VALUE_ACT_DEFAULT_PROMPT', {
                     value: this.payload.renderedTarget,
                 }),
             );
             controlResponseBuilder.addRepromptFragment(
-                i18next.t('REQUEST_CHANGED_VALUE_ACT_DEFAULT_PROMPT', {
+                input.i18n.t('REQUEST_CHANGED_VALUE_ACT_DEFAULT_PROMPT', {
                     value: this.payload.renderedTarget,
                 }),
             );
@@ -173,13 +172,13 @@ export class RequestValueByListAct extends InitiativeAct {
     render(input: ControlInput, controlResponseBuilder: ControlResponseBuilder): void {
         if (this.payload.renderedTarget !== undefined && this.payload.renderedChoices !== undefined) {
             controlResponseBuilder.addPromptFragment(
-                i18next.t('REQUEST_VALUE_BY_LIST_ACT_DEFAULT_PROMPT', {
+                input.i18n.t('REQUEST_VALUE_BY_LIST_ACT_DEFAULT_PROMPT', {
                     value: this.payload.renderedTarget,
                     choices: this.payload.renderedChoices,
                 }),
             );
             controlResponseBuilder.addRepromptFragment(
-                i18next.t('REQUEST_VALUE_BY_LIST_ACT_DEFAULT_PROMPT', {
+                input.i18n.t('REQUEST_VALUE_BY_LIST_ACT_DEFAULT_PROMPT', {
                     value: this.payload.renderedTarget,
                     choices: this.payload.renderedChoices,
                 }),
@@ -214,15 +213,15 @@ export class RequestChangedValueByListAct extends InitiativeAct {
     render(input: ControlInput, controlResponseBuilder: ControlResponseBuilder): void {
         if (this.payload.renderedTarget !== undefined) {
             controlResponseBuilder.addPromptFragment(
-                i18next.t('REQUEST_CHANGED_VALUE_BY_LIST_ACT_DEFAULT_PROMPT', {
+                input.i18n.t('REQUEST_CHANGED_VALUE_BY_LIST_ACT_DEFAULT_PROMPT', {
                     value: this.payload.renderedTarget,
-                    choices: ListFormatting.format(this.payload.choicesFromActivePage),
+                    choices: input.grammar.formatList(this.payload.choicesFromActivePage),
                 }),
             );
             controlResponseBuilder.addRepromptFragment(
-                i18next.t('REQUEST_CHANGED_VALUE_BY_LIST_ACT_DEFAULT_PROMPT', {
+                input.i18n.t('REQUEST_CHANGED_VALUE_BY_LIST_ACT_DEFAULT_PROMPT', {
                     value: this.payload.renderedTarget,
-                    choices: ListFormatting.format(this.payload.choicesFromActivePage),
+                    choices: input.grammar.formatList(this.payload.choicesFromActivePage),
                 }),
             );
         } else {
@@ -244,13 +243,13 @@ export class RequestRemovedValueByListAct extends InitiativeAct {
     render(input: ControlInput, controlResponseBuilder: ControlResponseBuilder): void {
         if (this.payload.renderedTarget !== undefined && this.payload.renderedChoices !== undefined) {
             controlResponseBuilder.addPromptFragment(
-                i18next.t('REQUEST_REMOVED_VALUE_BY_LIST_ACT_DEFAULT_PROMPT', {
+                input.i18n.t('REQUEST_REMOVED_VALUE_BY_LIST_ACT_DEFAULT_PROMPT', {
                     value: this.payload.renderedTarget,
                     choices: this.payload.renderedChoices,
                 }),
             );
             controlResponseBuilder.addRepromptFragment(
-                i18next.t('REQUEST_REMOVED_VALUE_BY_LIST_ACT_DEFAULT_PROMPT', {
+                input.i18n.t('REQUEST_REMOVED_VALUE_BY_LIST_ACT_DEFAULT_PROMPT', {
                     value: this.payload.renderedTarget,
                     choices: this.payload.renderedChoices,
                 }),
@@ -278,12 +277,12 @@ export class ConfirmValueAct<T> extends InitiativeAct {
     }
     render(input: ControlInput, controlResponseBuilder: ControlResponseBuilder): void {
         controlResponseBuilder.addPromptFragment(
-            i18next.t('CONFIRM_VALUE_ACT_DEFAULT_PROMPT', {
+            input.i18n.t('CONFIRM_VALUE_ACT_DEFAULT_PROMPT', {
                 value: this.payload.value,
             }),
         );
         controlResponseBuilder.addRepromptFragment(
-            i18next.t('CONFIRM_VALUE_ACT_DEFAULT_PROMPT', {
+            input.i18n.t('CONFIRM_VALUE_ACT_DEFAULT_PROMPT', {
                 value: this.payload.value,
             }),
         );
@@ -331,12 +330,12 @@ export class SuggestValueAct<T> extends InitiativeAct {
     }
     render(input: ControlInput, controlResponseBuilder: ControlResponseBuilder): void {
         controlResponseBuilder.addPromptFragment(
-            i18next.t('SUGGEST_VALUE_ACT_DEFAULT_PROMPT', {
+            input.i18n.t('SUGGEST_VALUE_ACT_DEFAULT_PROMPT', {
                 value: this.payload.value,
             }),
         );
         controlResponseBuilder.addRepromptFragment(
-            i18next.t('SUGGEST_VALUE_ACT_DEFAULT_PROMPT', {
+            input.i18n.t('SUGGEST_VALUE_ACT_DEFAULT_PROMPT', {
                 value: this.payload.value,
             }),
         );
@@ -352,8 +351,8 @@ export class SuggestActionAct<T> extends InitiativeAct {
     }
     render(input: ControlInput, controlResponseBuilder: ControlResponseBuilder): void {
         if (this.payload.renderedTarget !== undefined) {
-            controlResponseBuilder.addPromptFragment(i18next.t('SUGGEST_ACTION_ACT_DEFAULT_PROMPT'));
-            controlResponseBuilder.addRepromptFragment(i18next.t('SUGGEST_ACTION_ACT_DEFAULT_PROMPT'));
+            controlResponseBuilder.addPromptFragment(input.i18n.t('SUGGEST_ACTION_ACT_DEFAULT_PROMPT'));
+            controlResponseBuilder.addRepromptFragment(input.i18n.t('SUGGEST_ACTION_ACT_DEFAULT_PROMPT'));
         } else {
             throw new Error(
                 `Cannot directly render SuggestActionAct as payload.renderedTarget is undefined. ${this.toString()}. ` +
@@ -362,3 +361,57 @@ export class SuggestActionAct<T> extends InitiativeAct {
         }
     }
 }
+
+/**
+ * An initiative act that offers to resume a control tree saved during a previous session.
+ *
+ * Default rendering (en-US): "Would you like to pick up where you left off?" for both prompt & reprompt
+ *
+ * Framework behavior:
+ *  * Issued by `ControlHandler` on a `LaunchRequest` if `ControlHandler.offerResumeOnLaunch = true`
+ *    and the saved control tree is not ready.  The act is associated with the root control.
+ *  * A "yes" reply rehydrates the saved state, a "no" reply clears it.
+ */
+export class ResumeOfferAct extends InitiativeAct {
+    constructor(control: Control) {
+        super(control);
+    }
+    render(input: ControlInput, controlResponseBuilder: ControlResponseBuilder): void {
+        controlResponseBuilder.addPromptFragment(input.i18n.t('RESUME_OFFER_ACT_DEFAULT_PROMPT'));
+        controlResponseBuilder.addRepromptFragment(input.i18n.t('RESUME_OFFER_ACT_DEFAULT_PROMPT'));
+    }
+}
+
+/**
+ * Asks the user which of several controls they are referring to.
+ *
+ * Default rendering (en-US): "Did you mean the (renderedTarget1) or the (renderedTarget2)?"
+ * for both prompt & reprompt
+ *
+ * Framework behavior:
+ *  * Issued by `ContainerControl` if its `props.handlingStrategy` finds the
+ *    candidates ambiguous, e.g. `DisambiguationArbitrationStrategy`.
+ *    A reply that names one of the targets, e.g. "U: the departure city",
+ *    passes the original input to that control.
+ */
+export class DisambiguateTargetAct extends InitiativeAct {
+    payload: DisambiguateTargetPayload;
+
+    constructor(control: Control, payload: DisambiguateTargetPayload) {
+        super(control);
+        this.payload = payload;
+    }
+    render(input: ControlInput, controlResponseBuilder: ControlResponseBuilder): void {
+        const targets = input.grammar.formatList(
+            this.payload.renderedTargets.map((target) =>
+                input.i18n.t('DISAMBIGUATE_TARGET_ACT_DEFAULT_TARGET', { target }),
+            ),
+        );
+        controlResponseBuilder.addPromptFragment(
+            input.i18n.t('DISAMBIGUATE_TARGET_ACT_DEFAULT_PROMPT', { targets }),
+        );
+        controlResponseBuilder.addRepromptFragment(
+            input.i18n.t('DISAMBIGUATE_TARGET_ACT_DEFAULT_PROMPT', { targets }),
+        );
+    }
+}
@@ -56,6 +56,16 @@ export interface ValueRemovedPayload<T> {
     renderedValue: string;
 }
 
+/**
+ * Payload for StateRevertedAct
+ */
+export interface StateRevertedPayload {
+    /**
+     * Ids of the controls whose state was reverted.
+     */
+    controlIds: string[];
+}
+
 /**
  * Payload for ValueClearedAct
  */
@@ -177,6 +187,26 @@ export interface RequestRemovedValueByListActPayload {
     renderedChoices?: string;
 }
 
+/**
+ * Payload for DisambiguateTargetAct
+ */
+export interface DisambiguateTargetPayload {
+    /**
+     * Ids of the controls that could handle the input.
+     */
+    controlIds: string[];
+
+    /**
+     * A target that identifies each control, in the same order as `controlIds`.
+     */
+    targets: string[];
+
+    /**
+     * The rendered form of each target, in the same order as `controlIds`.
+     */
+    renderedTargets: string[];
+}
+
 /**
  * Payload for LiteralInitiativeAct
  */
@@ -18,6 +18,40 @@ export function randomlyPick<T>(input: T[]): T {
     return input[Math.floor(Math.random() * input.length)];
 }
 
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32).
+ *
+ * The same seed always produces the same sequence, so randomized output such
+ * as generated samples or fuzz inputs can be reproduced.
+ *
+ * @param seed - Seed
+ * @returns A function that returns numbers in [0, 1), like `Math.random`
+ */
+export function createSeededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Returns a shuffled copy of an array (Fisher-Yates).
+ * @param items - Array
+ * @param random - Random number generator, e.g. from `createSeededRandom`
+ */
+export function shuffle<T>(items: T[], random: () => number = Math.random): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+}
+
 /**
  * Moves one item of an array in place and returns the mutated array.
  * @param arr - Array
@@ -61,6 +61,7 @@ export async function evaluateInputHandlers(control: Control, input: ControlInpu
 
     if (matches.length >= 1) {
         (control as any).handleFunc = matches[0].handle.bind(control as any);
+        input.trace?.recordInputHandler(control.id, matches[0].name);
         return true;
     } else {
         return false;
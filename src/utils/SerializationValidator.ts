@@ -12,6 +12,7 @@
  */
 
 import _ from 'lodash';
+import { STATE_SCHEMA_VERSION_KEY } from '../controls/ControlStateMigrations';
 import { IControl } from '../controls/interfaces/IControl';
 import { IControlInput } from '../controls/interfaces/IControlInput';
 import { IControlManager } from '../controls/interfaces/IControlManager';
@@ -22,8 +23,14 @@ const log = new Logger('AskSdkControls:SerializationValidator');
 /**
  * Validates that the serialized state will survive the round-trip successfully.
  *
+ * If the serialized state was saved with an older schema version it is first
+ * migrated via `controlManager.migrateControlStateMap` and the round-trip is
+ * checked against the migrated state.  This allows saved state from earlier
+ * releases to be used as test fixtures for migrations.
+ *
  * If round-trip fails, diagnostic information is printed to the console.
- * @param serializedState - Serialized state (a string in JSON format)
+ * @param serializedState - Serialized state (a string in JSON format, or as
+ * produced by `controlManager.encodeControlStateMap`)
  * @param controlManager - Control manager
  * @param input - Input
  * @throws Error if round-trip fails.
@@ -33,8 +40,15 @@ export function validateSerializedState(
     controlManager: IControlManager,
     input: IControlInput,
 ): void {
-    // perform deserialization
-    const deserializedState = JSON.parse(serializedState);
+    // perform deserialization and migration
+    const savedState =
+        controlManager.decodeControlStateMap !== undefined
+            ? controlManager.decodeControlStateMap(serializedState)
+            : JSON.parse(serializedState);
+    const deserializedState =
+        controlManager.migrateControlStateMap !== undefined
+            ? controlManager.migrateControlStateMap(savedState)
+            : _.omit(savedState, STATE_SCHEMA_VERSION_KEY);
     const rebuiltTopControl: IControl = controlManager.createControlTree();
     controlManager.reestablishControlStates(rebuiltTopControl, deserializedState);
 
@@ -43,10 +57,11 @@ export function validateSerializedState(
     const roundTrippedUISerialized = JSON.stringify(roundTrippedState, null, 2);
 
     if (!_.isEqual(deserializedState, roundTrippedState)) {
+        const deserializedUISerialized = JSON.stringify(deserializedState, null, 2);
         log.info(
             'serializedState did not survive the simulated round trip (deserialization into controlTree and re-serialization).',
         );
-        const lines1 = serializedState.split('\n');
+        const lines1 = deserializedUISerialized.split('\n');
         const lines2 = roundTrippedUISerialized.split('\n');
         if (lines1.length === lines2.length) {
             log.info('=================================================');
@@ -61,7 +76,7 @@ export function validateSerializedState(
         } else {
             log.info('Diff is complicated.. use a text differ on the following');
             log.info('=================================================');
-            log.info(serializedState);
+            log.info(deserializedUISerialized);
             log.info('=================================================');
             log.info('=================================================');
             log.info(roundTrippedUISerialized);
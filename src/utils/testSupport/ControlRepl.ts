@@ -0,0 +1,209 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { ui } from 'ask-sdk-model';
+import fs from 'fs';
+import _ from 'lodash';
+import { ControlInput } from '../../controls/ControlInput';
+import { IControlManager } from '../../controls/interfaces/IControlManager';
+import { ControlHandler } from '../../runtime/ControlHandler';
+import { TurnTrace } from '../../runtime/TurnTrace';
+import { generateControlTreeTextDiagram } from '../ControlTreeVisualization';
+import { IntentBuilder } from '../IntentUtils';
+import { parseDialogScript } from './DialogScript';
+import { NluSimulator } from './NluSimulator';
+import { wrapRequestHandlerAsSkill } from './SkillWrapper';
+import { TestInput } from './TestingUtils';
+
+/**
+ * Options for a `ControlRepl`.
+ */
+export interface ControlReplOptions {
+    /**
+     * Recognizes text input.  Without a simulator, only launch requests and
+     * typed intents are accepted.
+     */
+    simulator?: NluSimulator;
+}
+
+interface ReplSession {
+    attributes?: { [key: string]: any };
+    stateMap: { [controlId: string]: any };
+    transcript: string[];
+}
+
+const HELP = `Input:
+  __                                 launch request
+  some text                          recognized with the interaction model
+  => IntentName slot=value ...       typed intent, values with spaces in "quotes"
+  some text => IntentName slot=value typed intent, with the text for the transcript
+Commands:
+  :state                             show the control state map
+  :undo                              revert the last turn
+  :save transcript <file>            save the session as a .dialog script
+  :help                              show this help
+  :quit                              exit`;
+
+/**
+ * Drives a control tree turn by turn from text, for debugging a skill
+ * locally.  Used by the `ask-controls-repl` command.
+ *
+ * Each turn shows the prompt and reprompt, a diagram of the control tree and
+ * the system acts.  See `execute()` for the commands.
+ *
+ * Usage:
+ * ```
+ * const repl = new ControlRepl(new MyControlManager(), { simulator: new NluSimulator(model) });
+ * console.log(await repl.execute('__'));
+ * console.log(await repl.execute('change the fruit to apple'));
+ * ```
+ */
+export class ControlRepl {
+    readonly controlManager: IControlManager;
+    readonly options: ControlReplOptions;
+
+    private session: ReplSession = { stateMap: {}, transcript: [] };
+    private readonly history: ReplSession[] = [];
+
+    constructor(controlManager: IControlManager, options?: ControlReplOptions) {
+        this.controlManager = controlManager;
+        this.options = options ?? {};
+    }
+
+    /**
+     * Runs a user turn or a command.
+     *
+     * Lines that start with a colon are commands, see `:help`.  Other lines
+     * are user turns in the format of a `U:` line of a dialog script, see
+     * `parseDialogScript()`.
+     *
+     * @param line - Input line
+     * @returns The output to show
+     */
+    async execute(line: string): Promise<string> {
+        const text = line.trim();
+        if (text === '') {
+            return '';
+        }
+        if (text.startsWith(':')) {
+            return this.executeCommand(text);
+        }
+
+        let input: ControlInput;
+        try {
+            input = this.createInput(text);
+        } catch (error) {
+            return error.message;
+        }
+
+        let trace: TurnTrace | undefined;
+        const handler = new ControlHandler(this.controlManager).addTraceSink({
+            export: (x) => {
+                trace = x;
+            },
+        });
+        const envelope = input.handlerInput.requestEnvelope;
+        envelope.session!.attributes = _.cloneDeep(this.session.attributes);
+        const responseEnvelope = await wrapRequestHandlerAsSkill(handler).invoke(envelope, undefined);
+
+        if (trace === undefined) {
+            // no control could handle the input; the session is unchanged.
+            return '(not handled)';
+        }
+
+        const prompt = ssmlToText((responseEnvelope.response.outputSpeech as ui.SsmlOutputSpeech)?.ssml);
+        const reprompt = ssmlToText(
+            (responseEnvelope.response.reprompt?.outputSpeech as ui.SsmlOutputSpeech | undefined)?.ssml,
+        );
+        this.history.push(this.session);
+        this.session = {
+            attributes: responseEnvelope.sessionAttributes,
+            stateMap: handler.getSerializableControlStates(),
+            transcript: [...this.session.transcript, `U: ${text}`, `A: ${prompt}`],
+        };
+
+        const output = [`A: ${prompt}`];
+        if (reprompt !== '') {
+            output.push(`R: ${reprompt}`);
+        }
+        if (handler.rootControl !== undefined) {
+            output.push('', generateControlTreeTextDiagram(handler.rootControl, trace.turnNumber).trimEnd());
+            output.push(`Acts: ${trace.acts.map((act) => act.name).join(', ') || '(none)'}`);
+            if (trace.error !== undefined) {
+                output.push(`Error: ${trace.error}`);
+            }
+        }
+        if (responseEnvelope.response.shouldEndSession === true) {
+            output.push('(The session ended. Enter __ to start a new one.)');
+            this.session = { ...this.session, attributes: undefined, stateMap: {} };
+        }
+        return output.join('\n');
+    }
+
+    /**
+     * Gets the session so far as a dialog script, see `parseDialogScript()`.
+     */
+    getTranscript(): string {
+        return ['# Recorded with ask-controls-repl', ...this.session.transcript].join('\n') + '\n';
+    }
+
+    private executeCommand(text: string): string {
+        const [command, ...args] = text.split(/\s+/);
+        switch (command) {
+            case ':state':
+                return JSON.stringify(this.session.stateMap, null, 2);
+            case ':undo': {
+                const previous = this.history.pop();
+                if (previous === undefined) {
+                    return 'Nothing to undo.';
+                }
+                this.session = previous;
+                return 'Reverted the last turn.';
+            }
+            case ':save':
+                if (args[0] !== 'transcript' || args.length !== 2) {
+                    return 'Usage: :save transcript <file>';
+                }
+                try {
+                    fs.writeFileSync(args[1], this.getTranscript());
+                } catch (error) {
+                    return `The transcript could not be saved: ${error.message}`;
+                }
+                return `Saved the transcript to ${args[1]}.`;
+            case ':help':
+                return HELP;
+            default:
+                return `Unknown command ${command}. Enter :help for the commands.`;
+        }
+    }
+
+    private createInput(text: string): ControlInput {
+        if (text === '__') {
+            return TestInput.launchRequest();
+        }
+        const turn = parseDialogScript(`U: ${text}`, 'input').turns[0];
+        if (turn.intent !== undefined) {
+            return TestInput.of(IntentBuilder.of(turn.intent.name, turn.intent.slots));
+        }
+        if (this.options.simulator === undefined) {
+            throw new Error(
+                'Text cannot be recognized without an interaction model. Type an intent: => IntentName',
+            );
+        }
+        return this.options.simulator.testInput(turn.utterance);
+    }
+}
+
+function ssmlToText(ssml: string | undefined): string {
+    return (ssml ?? '').replace(/<\/?speak>/g, '').trim();
+}
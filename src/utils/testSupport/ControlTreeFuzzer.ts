@@ -0,0 +1,346 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { Slot } from 'ask-sdk-model';
+import { v1 } from 'ask-smapi-model';
+import { ControlInput } from '../../controls/ControlInput';
+import { ControlManager } from '../../controls/ControlManager';
+import { ControlInteractionModelGenerator } from '../../interactionModelGeneration/ControlInteractionModelGenerator';
+import { ControlHandler } from '../../runtime/ControlHandler';
+import { SessionBehavior } from '../../runtime/SessionBehavior';
+import { createSeededRandom } from '../ArrayUtils';
+import { visitControls } from '../ControlVisitor';
+import { requestToString } from '../RequestUtils';
+import { validateSerializedState } from '../SerializationValidator';
+import { SkillInvoker, TestResponseObject } from './SkillInvoker';
+import { TestInput } from './TestingUtils';
+
+import InteractionModelData = v1.skill.interactionModel.InteractionModelData;
+import Intent = v1.skill.interactionModel.Intent;
+import SlotType = v1.skill.interactionModel.SlotType;
+
+/**
+ * Options for `fuzzControlTree()`.
+ */
+export interface FuzzOptions {
+    /**
+     * Seed of the first run.  Run `n` uses the seed `seed + n`, so a failing
+     * run can be repeated on its own with `{ seed: failure.seed, runs: 1 }`.
+     *
+     * Default: 1
+     */
+    seed?: number;
+
+    /**
+     * Number of sessions to simulate.
+     *
+     * Default: 20
+     */
+    runs?: number;
+
+    /**
+     * Number of turns of each session, including the launch request.  A run
+     * stops early if the session ends.
+     *
+     * Default: 10
+     */
+    turnsPerRun?: number;
+
+    /**
+     * Probability that a turn is an APL touch event rather than an intent.
+     *
+     * Default: 0.1
+     */
+    touchEventProbability?: number;
+
+    /**
+     * The interaction model from which intents and slot values are picked.
+     *
+     * Default: the core model of the control tree, as built by
+     * `ControlInteractionModelGenerator.buildCoreModelForControls()` with
+     * the `slotTypes`.
+     */
+    model?: InteractionModelData;
+
+    /**
+     * The custom slot types of the controls, for building the default model.
+     *
+     * Default: none
+     */
+    slotTypes?: SlotType[];
+}
+
+/**
+ * The invariants checked by `fuzzControlTree()` on each turn.
+ *
+ * Exception - no error occurs while handling the input.
+ * NoResponse - the response has speech or at least one directive.
+ * NoInitiative - if the session stays open, a control takes the initiative,
+ *   i.e. the user is asked something.
+ * StateRoundTrip - the control state survives serialization and
+ *   deserialization into a new control tree.
+ */
+export type FuzzInvariant = 'Exception' | 'NoResponse' | 'NoInitiative' | 'StateRoundTrip';
+
+/**
+ * A violation of an invariant found by `fuzzControlTree()`.
+ */
+export interface FuzzFailure {
+    /**
+     * The seed that reproduces the run.
+     */
+    seed: number;
+
+    run: number;
+
+    /**
+     * The turn of the run, starting at 0 for the launch request.
+     */
+    turn: number;
+
+    invariant: FuzzInvariant;
+
+    message: string;
+
+    /**
+     * Descriptions of the inputs of the run up to and including the failing
+     * turn.
+     */
+    inputs: string[];
+}
+
+/**
+ * The result of `fuzzControlTree()`.
+ */
+export interface FuzzReport {
+    runs: number;
+
+    /**
+     * Number of turns that were simulated.
+     */
+    turns: number;
+
+    /**
+     * Number of turns that the control tree did not handle.  These are not
+     * failures, as `canHandle = false` is a valid outcome, but a high number
+     * suggests that the fuzz inputs do not suit the control tree.
+     */
+    unhandledTurns: number;
+
+    /**
+     * The first failure of each failing run.
+     */
+    failures: FuzzFailure[];
+}
+
+const BUILT_IN_INTENTS = ['AMAZON.YesIntent', 'AMAZON.NoIntent', 'AMAZON.FallbackIntent'];
+
+/**
+ * Runs random sequences of inputs through a control tree and checks that
+ * invariants hold on every turn.
+ *
+ * Purpose:
+ * - Scripted tests cover the conversations that the developer thought of.
+ *   Random inputs find the crashes and dead ends in the others, e.g. a "no"
+ *   in the middle of a confirmation or a touch event on a stale screen.
+ *
+ * Each run starts a new session with a launch request followed by random
+ * intents of the interaction model, `AMAZON.YesIntent`, `AMAZON.NoIntent`,
+ * `AMAZON.FallbackIntent` and APL touch events.  Slots are filled at random
+ * with values of their slot type.  See `FuzzInvariant` for the invariants.
+ *
+ * Runs are deterministic for a seed, so a failure can be reproduced and
+ * turned into a regular test.
+ *
+ * Usage:
+ * ```
+ * const report = await fuzzControlTree(new MyControlManager(), { runs: 50 });
+ * expect(report.failures.map(fuzzFailureToString)).deep.equals([]);
+ * ```
+ *
+ * @param controlManager - Control manager
+ * @param options - Options
+ */
+export async function fuzzControlTree(
+    controlManager: ControlManager,
+    options?: FuzzOptions,
+): Promise<FuzzReport> {
+    const seed = options?.seed ?? 1;
+    const runs = options?.runs ?? 20;
+    const turnsPerRun = options?.turnsPerRun ?? 10;
+    const touchEventProbability = options?.touchEventProbability ?? 0.1;
+    const model =
+        options?.model ??
+        new ControlInteractionModelGenerator()
+            .addOrMergeSlotTypes(...(options?.slotTypes ?? []))
+            .buildCoreModelForControls(controlManager)
+            .build();
+    const languageModel = model.interactionModel?.languageModel ?? {};
+    const intents = [
+        ...(languageModel.intents ?? []).filter((intent) => !BUILT_IN_INTENTS.includes(intent.name!)),
+        ...BUILT_IN_INTENTS.map((name): Intent => ({ name })),
+    ];
+    const slotTypes = languageModel.types ?? [];
+    const controlIds: string[] = [];
+    visitControls(controlManager.createControlTree(), (control) => controlIds.push(control.id));
+
+    const report: FuzzReport = { runs, turns: 0, unhandledTurns: 0, failures: [] };
+    for (let run = 0; run < runs; run++) {
+        const random = createSeededRandom(seed + run);
+        const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+        let error: any;
+        let rendered = false;
+        let hasInitiative = false;
+        let sessionBehavior: SessionBehavior = SessionBehavior.OPEN as SessionBehavior;
+        const handler = new ControlHandler(controlManager);
+        handler.validateStateRoundtrip = false; // checked below to report it as its own invariant
+        handler.addInterceptor({
+            onError: (_input, e) => {
+                error = error ?? e;
+            },
+            afterRender: (_input, resultBuilder) => {
+                rendered = true;
+                hasInitiative = resultBuilder.hasInitiativeAct();
+                sessionBehavior = resultBuilder.sessionBehavior;
+            },
+        });
+        const invoker = new SkillInvoker(handler);
+        const inputs: string[] = [];
+
+        for (let turn = 0; turn < turnsPerRun; turn++) {
+            let input: ControlInput;
+            if (turn === 0) {
+                input = TestInput.launchRequest();
+            } else if (random() < touchEventProbability) {
+                const index = Math.floor(random() * 10);
+                input = TestInput.simpleUserEvent(
+                    random() < 0.5
+                        ? [pick(controlIds), index]
+                        : [pick(controlIds), pick(['Select', 'Toggle']), index],
+                );
+            } else {
+                const intent = pick(intents);
+                // Like NLU, fill the slots that are referenced by a sample of the intent
+                const sample = (intent.samples ?? []).length > 0 ? pick(intent.samples!) : '';
+                const slotValues: { [name: string]: Slot } = {};
+                for (const slot of intent.slots ?? []) {
+                    if (sample.includes(`{${slot.name}}`)) {
+                        slotValues[slot.name!] = randomSlot(slot.name!, slot.type!, slotTypes, random);
+                    }
+                }
+                input = TestInput.of({ name: intent.name!, confirmationStatus: 'NONE', slots: slotValues });
+            }
+            inputs.push(requestToString(input.request));
+
+            error = undefined;
+            rendered = false;
+            report.turns++;
+            let response: TestResponseObject | undefined;
+            try {
+                response = await invoker.invoke(input);
+            } catch (e) {
+                error = error ?? e;
+            }
+            const fail = (invariant: FuzzInvariant, message: string) =>
+                report.failures.push({
+                    seed: seed + run,
+                    run,
+                    turn,
+                    invariant,
+                    message,
+                    inputs: [...inputs],
+                });
+
+            if (error !== undefined) {
+                fail('Exception', `${error.stack ?? error}`);
+                break;
+            }
+            if (!rendered) {
+                report.unhandledTurns++;
+                continue;
+            }
+            if (
+                (response?.prompt ?? '').trim() === '' &&
+                (response?.directive ?? []).length === 0 &&
+                sessionBehavior !== SessionBehavior.IDLE
+            ) {
+                fail('NoResponse', 'The response has no speech and no directives.');
+                break;
+            }
+            if (sessionBehavior === SessionBehavior.OPEN && !hasInitiative) {
+                fail(
+                    'NoInitiative',
+                    `The session stays open but no control took the initiative: ${response?.prompt}`,
+                );
+                break;
+            }
+            try {
+                const stateMap = handler.getSerializableControlStates();
+                const serializedState =
+                    controlManager.encodeControlStateMap !== undefined
+                        ? controlManager.encodeControlStateMap(stateMap)
+                        : JSON.stringify(stateMap);
+                validateSerializedState(serializedState, controlManager, input);
+            } catch (e) {
+                fail('StateRoundTrip', `${e.message ?? e}`);
+                break;
+            }
+            if (sessionBehavior === SessionBehavior.END) {
+                break;
+            }
+        }
+    }
+    return report;
+}
+
+/**
+ * Describes a fuzz failure, with the inputs that lead to it.
+ *
+ * @param failure - Failure
+ */
+export function fuzzFailureToString(failure: FuzzFailure): string {
+    return [
+        `${failure.invariant} in run ${failure.run} (seed ${failure.seed}), turn ${failure.turn}: ${failure.message}`,
+        ...failure.inputs.map((input, i) => `  ${i}: ${input}`),
+    ].join('\n');
+}
+
+/**
+ * Creates a slot with a random value of its slot type.
+ */
+function randomSlot(name: string, type: string, slotTypes: SlotType[], random: () => number): Slot {
+    if (type === 'AMAZON.NUMBER') {
+        return { name, value: `${Math.floor(random() * 101)}`, confirmationStatus: 'NONE' };
+    }
+    const values = slotTypes.find((slotType) => slotType.name === type)?.values ?? [];
+    if (values.length === 0) {
+        const word = Math.floor(random() * 1e6).toString(36);
+        return { name, value: word, confirmationStatus: 'NONE' };
+    }
+    const value = values[Math.floor(random() * values.length)];
+    return {
+        name,
+        value: value.name!.value!,
+        confirmationStatus: 'NONE',
+        resolutions: {
+            resolutionsPerAuthority: [
+                {
+                    authority: `amzn1.er-authority.echo-sdk.fuzz.${type}`,
+                    status: { code: 'ER_SUCCESS_MATCH' },
+                    values: [{ value: { id: value.id ?? value.name!.value!, name: value.name!.value! } }],
+                },
+            ],
+        },
+    };
+}
@@ -0,0 +1,424 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { Intent, Slot } from 'ask-sdk-model';
+import { v1 } from 'ask-smapi-model';
+import _ from 'lodash';
+import { ControlManager } from '../../controls/ControlManager';
+import { isContainerControl } from '../../controls/interfaces/IContainerControl';
+import { implementsControlStateDiagramming } from '../../controls/mixins/ControlStateDiagramming';
+import { ControlInteractionModelGenerator } from '../../interactionModelGeneration/ControlInteractionModelGenerator';
+import { SharedSlotType } from '../../interactionModelGeneration/ModelTypes';
+import { ControlHandler } from '../../runtime/ControlHandler';
+import { TurnTrace } from '../../runtime/TurnTrace';
+import { visitControls } from '../ControlVisitor';
+import { wrapRequestHandlerAsSkill } from './SkillWrapper';
+import { TestInput } from './TestingUtils';
+
+import InteractionModelData = v1.skill.interactionModel.InteractionModelData;
+import SlotType = v1.skill.interactionModel.SlotType;
+
+/**
+ * Options for `exploreConversationGraph()`.
+ */
+export interface ConversationGraphOptions {
+    /**
+     * The intents that are tried in each state.
+     *
+     * Default: for each intent of the model, one intent for each combination
+     * of slots used by its samples, with the first value of each slot type.
+     * The `head`, `tail`, `preposition`, `feedback` and `target` slots are
+     * left empty to keep the graph small.  Also `AMAZON.YesIntent`,
+     * `AMAZON.NoIntent` and `AMAZON.FallbackIntent`.
+     */
+    intents?: Intent[];
+
+    /**
+     * The interaction model from which the default intents are derived.
+     *
+     * Default: the core model of the control tree, as built by
+     * `ControlInteractionModelGenerator.buildCoreModelForControls()` with
+     * the `slotTypes`.
+     */
+    model?: InteractionModelData;
+
+    /**
+     * The custom slot types of the controls, for building the default model.
+     *
+     * Default: none
+     */
+    slotTypes?: SlotType[];
+
+    /**
+     * The maximum number of states to explore.  States found beyond the limit
+     * are not added to the graph.
+     *
+     * Default: 30
+     */
+    maxStates?: number;
+
+    /**
+     * The maximum number of turns after the launch request.
+     *
+     * Default: 6
+     */
+    maxDepth?: number;
+}
+
+/**
+ * A state of the conversation, i.e. a distinct control state map.
+ */
+export interface ConversationGraphState {
+    /**
+     * Node id, e.g. `S3`.  The special states are `Start` (before the launch
+     * request), `End` (the session ended) and `Error` (an error occurred).
+     */
+    id: string;
+
+    /**
+     * Description of the state, one line per control that has state.  Uses
+     * `ControlStateDiagramming.stringifyStateForDiagram()` if the control
+     * implements it.
+     */
+    label: string;
+
+    /**
+     * Number of turns from the start.
+     */
+    depth: number;
+
+    /**
+     * The control state map, without turn numbers.
+     */
+    stateMap: { [controlId: string]: any };
+}
+
+/**
+ * A transition between two states of the conversation.
+ */
+export interface ConversationGraphTransition {
+    from: string;
+    to: string;
+
+    /**
+     * Descriptions of the inputs that cause the transition, e.g.
+     * `AMAZON.YesIntent` or `LOGIN_name_ValueControlIntent(LOGIN.name=Alexa)`.
+     */
+    inputs: string[];
+
+    /**
+     * The input handlers that fired, as `controlId: handler name`.
+     */
+    handlers: string[];
+
+    /**
+     * Class names of the system acts of the turn, in order.
+     */
+    acts: string[];
+}
+
+/**
+ * The state-transition graph of a control tree.
+ */
+export interface ConversationGraph {
+    states: ConversationGraphState[];
+    transitions: ConversationGraphTransition[];
+}
+
+const BUILT_IN_INTENTS = ['AMAZON.YesIntent', 'AMAZON.NoIntent', 'AMAZON.FallbackIntent'];
+const IGNORED_SLOTS: string[] = [
+    SharedSlotType.HEAD,
+    SharedSlotType.TAIL,
+    SharedSlotType.PREPOSITION,
+    SharedSlotType.FEEDBACK,
+    SharedSlotType.TARGET,
+];
+
+/**
+ * Explores the conversations that a control tree implements by simulated
+ * input, and returns them as a state-transition graph.
+ *
+ * Purpose:
+ * - Lets designers review the dialog flow of the code, e.g. with
+ *   `conversationGraphToDot()` or `conversationGraphToMermaid()`.
+ *
+ * The exploration tries a launch request and each intent (see
+ * `ConversationGraphOptions.intents`) in the start state, and then each
+ * intent in each state that was reached, breadth first.
+ * States are distinguished by the control state map, ignoring turn numbers.
+ * Inputs that the control tree does not handle are left out.
+ *
+ * @param controlManager - Control manager
+ * @param options - Options
+ */
+export async function exploreConversationGraph(
+    controlManager: ControlManager,
+    options?: ConversationGraphOptions,
+): Promise<ConversationGraph> {
+    const maxStates = options?.maxStates ?? 30;
+    const maxDepth = options?.maxDepth ?? 6;
+    const intents = options?.intents ?? defaultIntents(controlManager, options);
+
+    const start: ConversationGraphState = { id: 'Start', label: 'Start', depth: 0, stateMap: {} };
+    const graph: ConversationGraph = { states: [start], transitions: [] };
+    const stateIdsByKey = new Map<string, string>();
+    const queue: Array<{ state: ConversationGraphState; sessionAttributes?: { [key: string]: any } }> = [
+        { state: start },
+    ];
+
+    while (queue.length > 0) {
+        const { state, sessionAttributes } = queue.shift()!;
+        const inputs = [
+            ...(state === start ? [TestInput.launchRequest()] : []),
+            ...intents.map((intent) => TestInput.of(intent)),
+        ];
+        for (const input of inputs) {
+            let trace: TurnTrace | undefined;
+            const handler = new ControlHandler(controlManager).addTraceSink({
+                export: (x) => {
+                    trace = x;
+                },
+            });
+            const envelope = input.handlerInput.requestEnvelope;
+            envelope.session!.attributes = _.cloneDeep(sessionAttributes);
+            const responseEnvelope = await wrapRequestHandlerAsSkill(handler).invoke(envelope, undefined);
+            // Turns that fail, also in canHandle, are traced with the error.
+            if (trace === undefined) {
+                continue; // not handled
+            }
+
+            let to: string;
+            if (trace.error !== undefined) {
+                to = specialState(graph, 'Error', state.depth + 1);
+            } else if (responseEnvelope.response.shouldEndSession === true) {
+                to = specialState(graph, 'End', state.depth + 1);
+            } else {
+                const stateMap = omitDeep(handler.getSerializableControlStates(), 'turnNumber');
+                const key = JSON.stringify(stateMap);
+                const existingId = stateIdsByKey.get(key);
+                if (existingId !== undefined) {
+                    to = existingId;
+                } else if (graph.states.length < maxStates) {
+                    const newState: ConversationGraphState = {
+                        id: `S${stateIdsByKey.size}`,
+                        label: stateLabel(controlManager, stateMap),
+                        depth: state.depth + 1,
+                        stateMap,
+                    };
+                    stateIdsByKey.set(key, newState.id);
+                    graph.states.push(newState);
+                    if (newState.depth < maxDepth) {
+                        queue.push({
+                            state: newState,
+                            sessionAttributes: responseEnvelope.sessionAttributes,
+                        });
+                    }
+                    to = newState.id;
+                } else {
+                    continue;
+                }
+            }
+
+            const inputHandlers = trace.inputHandlers;
+            const handlers = trace.handlingChain
+                .filter((controlId) => inputHandlers[controlId] !== undefined)
+                .map((controlId) => `${controlId}: ${inputHandlers[controlId]}`);
+            const acts = trace.acts.map((act) => act.name);
+            const inputDescription =
+                input.request.type === 'IntentRequest'
+                    ? intentToString(input.request.intent)
+                    : input.request.type;
+            const existing = graph.transitions.find(
+                (x) =>
+                    x.from === state.id && x.to === to && _.isEqual([x.handlers, x.acts], [handlers, acts]),
+            );
+            if (existing !== undefined) {
+                existing.inputs.push(inputDescription);
+            } else {
+                graph.transitions.push({ from: state.id, to, inputs: [inputDescription], handlers, acts });
+            }
+        }
+    }
+    return graph;
+}
+
+/**
+ * Formats a conversation graph in the Graphviz DOT language.
+ *
+ * Example: `dot -Tsvg graph.dot -o graph.svg`
+ *
+ * @param graph - Graph
+ */
+export function conversationGraphToDot(graph: ConversationGraph): string {
+    const quote = (text: string) =>
+        `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+    const lines = ['digraph conversation {', '    node [shape=box];'];
+    for (const state of graph.states) {
+        const shape =
+            state.id === 'Start' || state.id === 'End' || state.id === 'Error' ? ', shape=ellipse' : '';
+        lines.push(`    ${state.id} [label=${quote(nodeLabel(state))}${shape}];`);
+    }
+    for (const transition of graph.transitions) {
+        lines.push(
+            `    ${transition.from} -> ${transition.to} [label=${quote(transitionLabel(transition))}];`,
+        );
+    }
+    lines.push('}');
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Formats a conversation graph as a Mermaid flowchart, e.g. for a Markdown
+ * document.
+ *
+ * @param graph - Graph
+ */
+export function conversationGraphToMermaid(graph: ConversationGraph): string {
+    const quote = (text: string) => `"${text.replace(/"/g, '#quot;').replace(/\n/g, '<br/>')}"`;
+    const lines = ['flowchart TD'];
+    for (const state of graph.states) {
+        const special = state.id === 'Start' || state.id === 'End' || state.id === 'Error';
+        lines.push(
+            `    ${state.id}${special ? `((${quote(nodeLabel(state))}))` : `[${quote(nodeLabel(state))}]`}`,
+        );
+    }
+    for (const transition of graph.transitions) {
+        lines.push(`    ${transition.from} -->|${quote(transitionLabel(transition))}| ${transition.to}`);
+    }
+    return lines.join('\n') + '\n';
+}
+
+function nodeLabel(state: ConversationGraphState): string {
+    return state.label === state.id ? state.id : `${state.id}\n${state.label}`;
+}
+
+function transitionLabel(transition: ConversationGraphTransition): string {
+    return [transition.inputs.join(' | '), ...transition.handlers, transition.acts.join(', ')]
+        .filter((line) => line !== '')
+        .join('\n');
+}
+
+function specialState(graph: ConversationGraph, id: 'End' | 'Error', depth: number): string {
+    if (!graph.states.some((state) => state.id === id)) {
+        graph.states.push({ id, label: id, depth, stateMap: {} });
+    }
+    return id;
+}
+
+/**
+ * Describes a state with the diagram text of each control that has state.
+ */
+function stateLabel(controlManager: ControlManager, stateMap: { [controlId: string]: any }): string {
+    const tree = controlManager.createControlTree();
+    controlManager.reestablishControlStates(tree, stateMap);
+    const lines: string[] = [];
+    visitControls(tree, (control) => {
+        if (isContainerControl(control) || _.isEmpty(stateMap[control.id])) {
+            return;
+        }
+        const text = implementsControlStateDiagramming(control)
+            ? control.stringifyStateForDiagram()
+            : JSON.stringify(stateMap[control.id]);
+        lines.push(`${control.id}: ${text}`);
+    });
+    return lines.length > 0 ? lines.join('\n') : '(no state)';
+}
+
+function intentToString(intent: Intent): string {
+    const slots = Object.values(intent.slots ?? {})
+        .filter((slot) => slot.value !== undefined)
+        .map((slot) => `${slot.name}=${slot.value}`);
+    return slots.length > 0 ? `${intent.name}(${slots.join(', ')})` : intent.name;
+}
+
+/**
+ * Removes a property from all objects of a JSON value and sorts the
+ * properties, so that equal states serialize equally.
+ */
+function omitDeep(value: any, key: string): any {
+    if (Array.isArray(value)) {
+        return value.map((item) => omitDeep(item, key));
+    }
+    if (_.isPlainObject(value)) {
+        return _.fromPairs(
+            Object.keys(value)
+                .filter((x) => x !== key)
+                .sort()
+                .map((x) => [x, omitDeep(value[x], key)]),
+        );
+    }
+    return value;
+}
+
+function defaultIntents(controlManager: ControlManager, options?: ConversationGraphOptions): Intent[] {
+    const model =
+        options?.model ??
+        new ControlInteractionModelGenerator()
+            .addOrMergeSlotTypes(...(options?.slotTypes ?? []))
+            .buildCoreModelForControls(controlManager)
+            .build();
+    const languageModel = model.interactionModel?.languageModel ?? {};
+    const slotTypes = languageModel.types ?? [];
+
+    const intents: Intent[] = [];
+    const keys = new Set<string>();
+    for (const intent of languageModel.intents ?? []) {
+        const samples = intent.samples !== undefined && intent.samples.length > 0 ? intent.samples : [''];
+        for (const sample of samples) {
+            const slots = (intent.slots ?? []).filter(
+                (slot) => sample.includes(`{${slot.name}}`) && !IGNORED_SLOTS.includes(slot.name!),
+            );
+            const key = JSON.stringify([intent.name, slots.map((slot) => slot.name)]);
+            if (!keys.has(key)) {
+                keys.add(key);
+                intents.push({
+                    name: intent.name!,
+                    confirmationStatus: 'NONE',
+                    slots: _.fromPairs(
+                        slots.map((slot) => [slot.name, firstValueSlot(slot.name!, slot.type!, slotTypes)]),
+                    ),
+                });
+            }
+        }
+    }
+    for (const name of BUILT_IN_INTENTS) {
+        if (!intents.some((intent) => intent.name === name)) {
+            intents.push({ name, confirmationStatus: 'NONE', slots: {} });
+        }
+    }
+    return intents;
+}
+
+/**
+ * Creates a slot with the first value of its slot type.
+ */
+function firstValueSlot(name: string, type: string, slotTypes: SlotType[]): Slot {
+    const value = slotTypes.find((slotType) => slotType.name === type)?.values?.[0];
+    if (value === undefined) {
+        return { name, value: type === 'AMAZON.NUMBER' ? '1' : 'something', confirmationStatus: 'NONE' };
+    }
+    return {
+        name,
+        value: value.name!.value!,
+        confirmationStatus: 'NONE',
+        resolutions: {
+            resolutionsPerAuthority: [
+                {
+                    authority: `amzn1.er-authority.echo-sdk.graph.${type}`,
+                    status: { code: 'ER_SUCCESS_MATCH' },
+                    values: [{ value: { id: value.id ?? value.name!.value!, name: value.name!.value! } }],
+                },
+            ],
+        },
+    };
+}
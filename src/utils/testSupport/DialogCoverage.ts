@@ -0,0 +1,218 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import _ from 'lodash';
+import { ControlInitiativeHandler, ControlInputHandler } from '../../controls/Control';
+import { ControlInput } from '../../controls/ControlInput';
+import { IControl } from '../../controls/interfaces/IControl';
+import { IControlInput } from '../../controls/interfaces/IControlInput';
+import { ControlHandler } from '../../runtime/ControlHandler';
+import { ControlInterceptor } from '../../runtime/ControlInterceptor';
+import { TurnTrace } from '../../runtime/TurnTrace';
+import { TurnTraceSink } from '../../runtime/TurnTraceSink';
+
+/**
+ * How often the handlers of a control were used and its acts were produced.
+ *
+ * The handlers are listed by the `name` of their `ControlInputHandler` or
+ * `ControlInitiativeHandler`, including those that were never used.
+ * Handlers are counted by the name that the control records in the
+ * `TurnTrace`, see `TurnTrace.recordInputHandler()`, e.g. `confirmValue`.
+ */
+export interface ControlCoverage {
+    controlId: string;
+
+    /**
+     * Class name of the control, e.g. `ValueControl`.
+     */
+    controlType: string;
+
+    inputHandlers: { [name: string]: number };
+    initiativeHandlers: { [name: string]: number };
+
+    /**
+     * Number of acts produced by the control, keyed by act class name.
+     */
+    acts: { [name: string]: number };
+}
+
+/**
+ * Records which input handlers, initiative handlers and system acts of each
+ * control are exercised by tests.
+ *
+ * Purpose:
+ * - Controls such as `ValueControl` and `MultiValueListControl` have many
+ *   standard handlers, e.g. for a bare value, a change with a value or a
+ *   disaffirmed confirmation.  The coverage report shows which of them are
+ *   not exercised by any test.
+ *
+ * Usage:
+ * - Share one instance between the tests and attach it to each
+ *   `ControlHandler`.  Report the result after the test run, e.g. in a mocha
+ *   `after()` hook:
+ * ```
+ * const coverage = new DialogCoverage();
+ *
+ * test('...', async () => {
+ *     const handler = coverage.attach(new ControlHandler(new MyControlManager()));
+ *     ...
+ * });
+ *
+ * after(() => console.log(coverage.toString()));
+ * ```
+ */
+export class DialogCoverage implements ControlInterceptor, TurnTraceSink {
+    private readonly coverage: { [key: string]: ControlCoverage } = {};
+
+    /**
+     * The coverage of the controls of the current turn, keyed by control id.
+     */
+    private turnCoverage: { [controlId: string]: ControlCoverage } = {};
+
+    /**
+     * Records the turns of a control handler.
+     *
+     * @param handler - Control handler
+     * @returns The control handler
+     */
+    attach(handler: ControlHandler): ControlHandler {
+        return handler.addInterceptor(this).addTraceSink(this);
+    }
+
+    afterRender(input: IControlInput): void {
+        this.turnCoverage = {};
+        for (const control of Object.values((input as ControlInput).controls ?? {})) {
+            this.turnCoverage[control.id] = this.coverageOf(control);
+        }
+    }
+
+    export(trace: TurnTrace): void {
+        for (const controlId of trace.handlingChain) {
+            this.count(controlId, 'inputHandlers', trace.inputHandlers[controlId]);
+        }
+        // The initiative chain is only set if the initiative phase ran.  Controls
+        // also ask for confirmation etc. while handling the input, which is
+        // recorded as the input handler.
+        for (const controlId of trace.initiativeChain) {
+            this.count(controlId, 'initiativeHandlers', trace.initiativeHandlers[controlId]);
+        }
+        for (const act of trace.acts) {
+            if (act.controlId !== undefined) {
+                this.count(act.controlId, 'acts', act.name);
+            }
+        }
+        this.turnCoverage = {};
+    }
+
+    /**
+     * Gets the coverage of the controls seen so far, sorted by control id.
+     */
+    getCoverage(): ControlCoverage[] {
+        return _.sortBy(Object.values(_.cloneDeep(this.coverage)), (x) => [x.controlId, x.controlType]);
+    }
+
+    /**
+     * Formats the coverage as a text report.
+     *
+     * Example:
+     * ```
+     * password (ValueControl): 0 of 7 input handlers, 1 of 1 initiative handlers
+     *   input         0  SetWithValue (built-in)
+     *   ...
+     *   initiative    1  elicitValue
+     *   act           1  RequestValueAct
+     * userName (ValueControl): 2 of 7 input handlers, 0 of 0 initiative handlers
+     *   input         0  SetWithValue (built-in)
+     *   ...
+     *   input         1  isBareValue (built-in)
+     *   input         1  ConfirmationAffirmed (built-in)
+     *   input         0  ConfirmationDisaffirmed (built-in)
+     *   act           1  ValueSetAct
+     * ```
+     */
+    toString(): string {
+        const lines: string[] = [];
+        const count = (n: number) => `${n}`.padStart(4);
+        for (const item of this.getCoverage()) {
+            const covered = (handlers: { [name: string]: number }) =>
+                `${Object.values(handlers).filter((n) => n > 0).length} of ${Object.keys(handlers).length}`;
+            lines.push(
+                `${item.controlId} (${item.controlType}): ${covered(item.inputHandlers)} input handlers, ` +
+                    `${covered(item.initiativeHandlers)} initiative handlers`,
+            );
+            for (const [name, n] of Object.entries(item.inputHandlers)) {
+                lines.push(`  input      ${count(n)}  ${name}`);
+            }
+            for (const [name, n] of Object.entries(item.initiativeHandlers)) {
+                lines.push(`  initiative ${count(n)}  ${name}`);
+            }
+            for (const [name, n] of Object.entries(item.acts)) {
+                lines.push(`  act        ${count(n)}  ${name}`);
+            }
+        }
+        return lines.join('\n');
+    }
+
+    private coverageOf(control: IControl & HandlerLists): ControlCoverage {
+        const controlType = control.constructor.name;
+        const key = `${control.id} (${controlType})`;
+        if (this.coverage[key] === undefined) {
+            const handlerNames = (handlers: Array<{ name: string }>, names?: string[]) =>
+                _.fromPairs(
+                    [...handlers.map((handler) => handler.name), ...(names ?? [])].map((name) => [name, 0]),
+                );
+            this.coverage[key] = {
+                controlId: control.id,
+                controlType,
+                inputHandlers: handlerNames(
+                    [
+                        ...(control.standardInputHandlers ?? []),
+                        ...(control.props?.inputHandling?.customHandlingFuncs ?? []),
+                    ],
+                    control.inputHandlerNames,
+                ),
+                initiativeHandlers: handlerNames(
+                    control.standardInitiativeHandlers ?? [],
+                    control.initiativeHandlerNames,
+                ),
+                acts: {},
+            };
+        }
+        return this.coverage[key];
+    }
+
+    private count(
+        controlId: string,
+        kind: 'inputHandlers' | 'initiativeHandlers' | 'acts',
+        name: string | undefined,
+    ): void {
+        const coverage = this.turnCoverage[controlId];
+        if (coverage !== undefined && name !== undefined) {
+            coverage[kind][name] = (coverage[kind][name] ?? 0) + 1;
+        }
+    }
+}
+
+/**
+ * The handler lists of the built-in controls.
+ *
+ * Controls that select some handlers without a handler list declare their
+ * names instead, e.g. `ValueControl.initiativeHandlerNames`.
+ */
+interface HandlerLists {
+    standardInputHandlers?: ControlInputHandler[];
+    standardInitiativeHandlers?: ControlInitiativeHandler[];
+    inputHandlerNames?: string[];
+    initiativeHandlerNames?: string[];
+    props?: { inputHandling?: { customHandlingFuncs?: ControlInputHandler[] } };
+}
@@ -0,0 +1,338 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { expect } from 'chai';
+import fs from 'fs';
+import _ from 'lodash';
+import { basename, join } from 'path';
+import { ControlHandler } from '../../runtime/ControlHandler';
+import { TurnTrace } from '../../runtime/TurnTrace';
+import { IntentBuilder } from '../IntentUtils';
+import { NluSimulator } from './NluSimulator';
+import { SkillTester, TestInput } from './TestingUtils';
+
+/**
+ * How an expected prompt is compared with the actual prompt.
+ *
+ * exact - the prompts are equal.
+ * contains - the actual prompt contains the expected text.
+ * regex - the actual prompt matches the regular expression.
+ */
+export type DialogPromptMatch = 'exact' | 'contains' | 'regex';
+
+/**
+ * An expectation on the response to a user turn of a dialog script.
+ *
+ * prompt - `A: ...` for the prompt or `R: ...` for the reprompt.
+ * acts - `ACTS: ...`, the names of the system acts of the turn, in order.
+ * state - `STATE: path = json`, a value in the control state map after the
+ *   turn.  The path starts with the control id, e.g. `userName.value`.
+ * apl - `APL: present` or `APL: absent`, whether the response renders an APL
+ *   document.
+ */
+export type DialogExpectation =
+    | { kind: 'prompt'; line: number; target: 'prompt' | 'reprompt'; match: DialogPromptMatch; text: string }
+    | { kind: 'acts'; line: number; acts: string[] }
+    | { kind: 'state'; line: number; path: string; value: unknown }
+    | { kind: 'apl'; line: number; present: boolean };
+
+/**
+ * A user turn of a dialog script and the expectations on its response.
+ */
+export interface DialogTurn {
+    /**
+     * Line number of the `U:` line.
+     */
+    line: number;
+
+    /**
+     * The user utterance.  `'__'` is a launch request.
+     */
+    utterance: string;
+
+    /**
+     * The intent of the utterance, if specified with `=>`.  Otherwise the
+     * utterance is recognized with an `NluSimulator`.
+     */
+    intent?: { name: string; slots: { [name: string]: string } };
+
+    expectations: DialogExpectation[];
+}
+
+/**
+ * A test conversation, usually loaded from a `.dialog` file.
+ */
+export interface DialogScript {
+    name: string;
+    turns: DialogTurn[];
+}
+
+/**
+ * Options for `runDialogScript()`.
+ */
+export interface DialogScriptOptions {
+    /**
+     * Recognizes the utterances that do not specify an intent.
+     */
+    simulator?: NluSimulator;
+}
+
+/**
+ * Parses a dialog script.
+ *
+ * Format:
+ * ```
+ * # Comment
+ * U: __
+ * A: Welcome. What is your login name?
+ * U: Alexa => LOGIN_name_ValueControlIntent LOGIN.name=Alexa
+ * A: ~ Was that Alexa
+ * ACTS: ValueSetAct, ConfirmValueAct
+ * STATE: userName.value = "Alexa"
+ * U: yes please
+ * A: /^Great\.?$/
+ * APL: absent
+ * ```
+ *
+ * - `U:` starts a user turn.  The text after `=>` names the intent and its
+ *   slot values, with values in double quotes if they contain spaces.
+ *   Without `=>`, the utterance is recognized with an `NluSimulator`.
+ * - `A:` and `R:` are the expected prompt and reprompt: exact text, `~` and
+ *   text that is contained in the prompt, or a regular expression in slashes.
+ * - `ACTS:`, `STATE:` and `APL:` are described by `DialogExpectation`.
+ *
+ * @param text - The script
+ * @param name - Name of the script, used in error messages
+ */
+export function parseDialogScript(text: string, name = 'dialog'): DialogScript {
+    const turns: DialogTurn[] = [];
+    const fail = (line: number, message: string) => {
+        throw new Error(`${name}:${line}: ${message}`);
+    };
+
+    text.split(/\r?\n/).forEach((rawLine, index) => {
+        const line = index + 1;
+        const trimmed = rawLine.trim();
+        if (trimmed === '' || trimmed.startsWith('#')) {
+            return;
+        }
+        const keywordMatch = /^([A-Za-z]+):\s*(.*)$/.exec(trimmed);
+        if (keywordMatch === null) {
+            return fail(line, `Expected a line starting with U:, A:, R:, ACTS:, STATE: or APL:.`);
+        }
+        const keyword = keywordMatch[1].toUpperCase();
+        const content = keywordMatch[2];
+        if (keyword === 'U') {
+            const separatorIndex = content.indexOf('=>');
+            if (separatorIndex === -1) {
+                turns.push({ line, utterance: content.trim(), expectations: [] });
+                return;
+            }
+            const [intentName, ...slotSpecs] =
+                content.slice(separatorIndex + 2).match(/[^\s=]+="[^"]*"|\S+/g) ?? [];
+            if (intentName === undefined || slotSpecs.some((slotSpec) => !slotSpec.includes('='))) {
+                return fail(line, `Expected U: utterance => IntentName slot=value ...`);
+            }
+            const slots: { [name: string]: string } = {};
+            for (const slotSpec of slotSpecs) {
+                const separator = slotSpec.indexOf('=');
+                slots[slotSpec.slice(0, separator)] = slotSpec.slice(separator + 1).replace(/^"(.*)"$/, '$1');
+            }
+            turns.push({
+                line,
+                utterance: content.slice(0, separatorIndex).trim(),
+                intent: { name: intentName, slots },
+                expectations: [],
+            });
+            return;
+        }
+        const turn = _.last(turns);
+        if (turn === undefined) {
+            return fail(line, `${keyword}: must follow a U: line.`);
+        }
+        switch (keyword) {
+            case 'A':
+            case 'R': {
+                const target = keyword === 'A' ? 'prompt' : 'reprompt';
+                const regexMatch = /^\/(.*)\/([a-z]*)$/.exec(content);
+                if (regexMatch !== null) {
+                    try {
+                        new RegExp(regexMatch[1], regexMatch[2]);
+                    } catch (error) {
+                        return fail(line, `Invalid regular expression ${content}.`);
+                    }
+                    turn.expectations.push({ kind: 'prompt', line, target, match: 'regex', text: content });
+                } else if (content.startsWith('~')) {
+                    turn.expectations.push({
+                        kind: 'prompt',
+                        line,
+                        target,
+                        match: 'contains',
+                        text: content.slice(1).trim(),
+                    });
+                } else {
+                    turn.expectations.push({ kind: 'prompt', line, target, match: 'exact', text: content });
+                }
+                return;
+            }
+            case 'ACTS':
+                turn.expectations.push({
+                    kind: 'acts',
+                    line,
+                    acts: content
+                        .split(',')
+                        .map((act) => act.trim())
+                        .filter((act) => act !== ''),
+                });
+                return;
+            case 'STATE': {
+                const stateMatch = /^([^=\s]+)\s*=\s*(.+)$/.exec(content);
+                if (stateMatch === null) {
+                    return fail(line, `Expected STATE: path = json.`);
+                }
+                let value: unknown;
+                try {
+                    value = JSON.parse(stateMatch[2]);
+                } catch (error) {
+                    return fail(line, `Invalid JSON ${stateMatch[2]}.`);
+                }
+                turn.expectations.push({ kind: 'state', line, path: stateMatch[1], value });
+                return;
+            }
+            case 'APL':
+                if (content !== 'present' && content !== 'absent') {
+                    return fail(line, `Expected APL: present or APL: absent.`);
+                }
+                turn.expectations.push({ kind: 'apl', line, present: content === 'present' });
+                return;
+            default:
+                return fail(line, `Unknown keyword ${keyword}:.`);
+        }
+    });
+    return { name, turns };
+}
+
+/**
+ * Loads a dialog script file.
+ *
+ * @param path - Path of the file. The name of the script is the file name
+ * without the `.dialog` extension.
+ */
+export function loadDialogScript(path: string): DialogScript {
+    return parseDialogScript(fs.readFileSync(path, 'utf8'), basename(path, '.dialog'));
+}
+
+/**
+ * Loads the `.dialog` files of a directory, sorted by file name.
+ *
+ * Usage:
+ * ```
+ * for (const script of loadDialogScripts(join(__dirname, 'dialogs'))) {
+ *     test(script.name, () => runDialogScript(new ControlHandler(new MyControlManager()), script));
+ * }
+ * ```
+ *
+ * @param directory - Directory
+ */
+export function loadDialogScripts(directory: string): DialogScript[] {
+    return fs
+        .readdirSync(directory)
+        .filter((file) => file.endsWith('.dialog'))
+        .sort()
+        .map((file) => loadDialogScript(join(directory, file)));
+}
+
+/**
+ * Runs a dialog script against a skill and verifies the expectations of each
+ * turn.
+ *
+ * A trace sink is added to the handler to observe the acts of each turn.
+ *
+ * @param handler - Control handler. It should be newly created, as the
+ * script starts with a new session.
+ * @param script - Script
+ * @param options - Options
+ * @throws AssertionError for the first expectation that is not met, with
+ * the line of the script in the message.
+ */
+export async function runDialogScript(
+    handler: ControlHandler,
+    script: DialogScript,
+    options?: DialogScriptOptions,
+): Promise<void> {
+    let lastTrace: TurnTrace | undefined;
+    handler.addTraceSink({
+        export: (trace) => {
+            lastTrace = trace;
+        },
+    });
+    const tester = new SkillTester(handler);
+
+    for (const turn of script.turns) {
+        const where = `${script.name}:${turn.line}`;
+        let input;
+        if (turn.utterance === '__') {
+            input = TestInput.launchRequest();
+        } else if (turn.intent !== undefined) {
+            input = TestInput.of(IntentBuilder.of(turn.intent.name, turn.intent.slots));
+        } else if (options?.simulator !== undefined) {
+            input = options.simulator.testInput(turn.utterance);
+        } else {
+            throw new Error(
+                `${where}: The utterance has no intent (=> ...) and no NluSimulator is configured.`,
+            );
+        }
+
+        lastTrace = undefined;
+        const response = await tester.invoker.invoke(input);
+
+        for (const expectation of turn.expectations) {
+            const message = `${script.name}:${expectation.line}`;
+            switch (expectation.kind) {
+                case 'prompt': {
+                    const actual =
+                        (expectation.target === 'prompt' ? response.prompt : response.reprompt) ?? '';
+                    if (expectation.match === 'exact') {
+                        expect(actual, message).equals(expectation.text);
+                    } else if (expectation.match === 'contains') {
+                        expect(actual, message).contains(expectation.text);
+                    } else {
+                        const [, pattern, flags] = /^\/(.*)\/([a-z]*)$/.exec(expectation.text)!;
+                        expect(actual, message).matches(new RegExp(pattern, flags));
+                    }
+                    break;
+                }
+                case 'acts':
+                    expect(
+                        (lastTrace as TurnTrace | undefined)?.acts.map((act) => act.name),
+                        message,
+                    ).deep.equals(expectation.acts);
+                    break;
+                case 'state':
+                    expect(
+                        _.get(handler.getSerializableControlStates(), expectation.path),
+                        message,
+                    ).deep.equals(expectation.value);
+                    break;
+                case 'apl':
+                    expect(
+                        (response.directive ?? []).some(
+                            (directive) => directive.type === 'Alexa.Presentation.APL.RenderDocument',
+                        ),
+                        message,
+                    ).equals(expectation.present);
+                    break;
+            }
+        }
+    }
+}
@@ -0,0 +1,74 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { PersistenceAdapter } from 'ask-sdk-core';
+import { RequestEnvelope } from 'ask-sdk-model';
+import fs from 'fs';
+import { getUserId } from '../../persistence/ControlStateStore';
+
+/**
+ * A PersistenceAdapter that stores persistent attributes in a local JSON file.
+ *
+ * This is a local stand-in for `DynamoDbPersistenceAdapter` (from
+ * `ask-sdk-dynamodb-persistence-adapter`) that mimics its behavior: attributes
+ * are partitioned by user id and each save replaces the complete attributes
+ * object for that user.
+ *
+ * Usage:
+ * - For tests and local debugging only.  The file is read and written
+ *   synchronously on every call.
+ * - Use with `PersistentAttributesControlStateStore` to exercise cross-session
+ *   behavior without AWS resources.
+ */
+export class LocalFilePersistenceAdapter implements PersistenceAdapter {
+    readonly filePath: string;
+
+    /**
+     * Creates an instance of LocalFilePersistenceAdapter.
+     *
+     * @param filePath - Path of the JSON file. It is created on first save.
+     */
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    async getAttributes(requestEnvelope: RequestEnvelope): Promise<{ [key: string]: any }> {
+        return this.readTable()[getUserId(requestEnvelope)] ?? {};
+    }
+
+    async saveAttributes(
+        requestEnvelope: RequestEnvelope,
+        attributes: { [key: string]: any },
+    ): Promise<void> {
+        const table = this.readTable();
+        table[getUserId(requestEnvelope)] = attributes;
+        this.writeTable(table);
+    }
+
+    async deleteAttributes(requestEnvelope: RequestEnvelope): Promise<void> {
+        const table = this.readTable();
+        delete table[getUserId(requestEnvelope)];
+        this.writeTable(table);
+    }
+
+    private readTable(): { [userId: string]: { [key: string]: any } } {
+        if (!fs.existsSync(this.filePath)) {
+            return {};
+        }
+        return JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    }
+
+    private writeTable(table: { [userId: string]: { [key: string]: any } }): void {
+        fs.writeFileSync(this.filePath, JSON.stringify(table, null, 2));
+    }
+}
@@ -0,0 +1,379 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { Intent, Slot } from 'ask-sdk-model';
+import { v1 } from 'ask-smapi-model';
+import _ from 'lodash';
+import { ControlInput } from '../../controls/ControlInput';
+import { ControlHandler } from '../../runtime/ControlHandler';
+import { SkillInvoker } from './SkillInvoker';
+import { wrapRequestHandlerAsSkill } from './SkillWrapper';
+import { TestInput, testTurn } from './TestingUtils';
+
+import InteractionModelData = v1.skill.interactionModel.InteractionModelData;
+import TypeValue = v1.skill.interactionModel.TypeValue;
+
+/**
+ * Props for an `NluSimulator`.
+ */
+export interface NluSimulatorProps {
+    /**
+     * Samples for built-in intents, in addition to any samples of the
+     * intents in the interaction model.
+     *
+     * Alexa recognizes built-in intents such as `AMAZON.YesIntent` without
+     * samples in the interaction model.  The simulator only recognizes the
+     * samples given here.
+     *
+     * Default: English samples for the common built-in intents, see
+     * `NluSimulator.defaultBuiltInIntentSamples`.
+     */
+    builtInIntentSamples?: { [intentName: string]: string[] };
+}
+
+/**
+ * The result of `NluSimulator.match()`.
+ */
+export interface NluSimulatorMatch {
+    intent: Intent;
+
+    /**
+     * The sample that matched the utterance.  Undefined if the utterance
+     * matched no sample and was resolved to `AMAZON.FallbackIntent`.
+     */
+    sample?: string;
+}
+
+interface CompiledSample {
+    intentName: string;
+    sample: string;
+
+    /**
+     * Pattern in which custom slots only match their values and synonyms.
+     */
+    pattern: RegExp;
+
+    /**
+     * Pattern in which custom slots match any phrase.
+     */
+    loosePattern: RegExp;
+    slots: Array<{ name: string; type: string }>;
+    literalWordCount: number;
+}
+
+const numberWords = [
+    'zero',
+    'one',
+    'two',
+    'three',
+    'four',
+    'five',
+    'six',
+    'seven',
+    'eight',
+    'nine',
+    'ten',
+    'eleven',
+    'twelve',
+];
+
+/**
+ * A rule-based stand-in for Alexa NLU, built from an interaction model.
+ *
+ * Purpose:
+ * - Scenario tests can be written with the text of the user utterances
+ *   rather than with hand-crafted `Intent` objects, which also tests that the
+ *   interaction model covers the utterances.
+ *
+ * Recognition:
+ * - An utterance matches a sample if the words are equal, ignoring case and
+ *   punctuation, and each slot reference matches a value or synonym of the
+ *   slot type.  Matched slots have an `ER_SUCCESS_MATCH` resolution with the
+ *   id of the value.
+ * - If no sample matches, slots of custom slot types may match any phrase, and
+ *   are given an `ER_SUCCESS_NO_MATCH` resolution.
+ * - Slots of built-in slot types match any phrase and have no resolution,
+ *   other than `AMAZON.NUMBER`, which matches digits and the numbers up to
+ *   twelve in words.
+ * - If several samples match, the sample with the most literal words wins,
+ *   then the first intent of the model.
+ * - If nothing matches, the result is `AMAZON.FallbackIntent` if the model
+ *   contains it.
+ *
+ * This is much simpler than Alexa NLU, which also recognizes utterances that
+ * are similar to the samples.  A scenario that passes with the simulator
+ * should still be tested with the Alexa simulator or on a device.
+ */
+export class NluSimulator {
+    /**
+     * English samples for common built-in intents.
+     */
+    static defaultBuiltInIntentSamples: { [intentName: string]: string[] } = {
+        'AMAZON.YesIntent': ['yes', 'yeah', 'yes please', 'sure', 'ok'],
+        'AMAZON.NoIntent': ['no', 'nope', 'no thanks'],
+        'AMAZON.CancelIntent': ['cancel', 'never mind'],
+        'AMAZON.StopIntent': ['stop', 'quit', 'exit'],
+        'AMAZON.HelpIntent': ['help', 'help me', 'what can i say'],
+        'AMAZON.NavigateHomeIntent': ['go home', 'start over'],
+    };
+
+    private readonly valuesByPhrase: { [slotType: string]: Map<string, TypeValue> } = {};
+    private readonly compiledSamples: CompiledSample[] = [];
+    private readonly hasFallbackIntent: boolean;
+
+    /**
+     * Constructor.
+     *
+     * @param model - Interaction model, e.g. from `ControlInteractionModelGenerator.build()`
+     * @param props - Props
+     */
+    constructor(model: InteractionModelData, props?: NluSimulatorProps) {
+        const languageModel = model.interactionModel?.languageModel ?? {};
+        const builtInIntentSamples = props?.builtInIntentSamples ?? NluSimulator.defaultBuiltInIntentSamples;
+        for (const slotType of languageModel.types ?? []) {
+            const valuesByPhrase = new Map<string, TypeValue>();
+            for (const value of slotType.values ?? []) {
+                for (const phrase of [value.name?.value, ...(value.name?.synonyms ?? [])]) {
+                    if (
+                        phrase !== undefined &&
+                        normalize(phrase) !== '' &&
+                        !valuesByPhrase.has(normalize(phrase))
+                    ) {
+                        valuesByPhrase.set(normalize(phrase), value);
+                    }
+                }
+            }
+            this.valuesByPhrase[slotType.name!] = valuesByPhrase;
+        }
+        const intents = languageModel.intents ?? [];
+        this.hasFallbackIntent = intents.some((intent) => intent.name === 'AMAZON.FallbackIntent');
+
+        for (const intent of intents) {
+            const slotTypesByName = _.fromPairs((intent.slots ?? []).map((slot) => [slot.name, slot.type]));
+            const samples = _.uniq([
+                ...(intent.samples ?? []),
+                ...(builtInIntentSamples[intent.name!] ?? []),
+            ]);
+            for (const sample of samples) {
+                const compiled = this.compileSample(intent.name!, sample, slotTypesByName);
+                if (compiled !== undefined) {
+                    this.compiledSamples.push(compiled);
+                }
+            }
+        }
+    }
+
+    /**
+     * Recognizes an utterance.
+     *
+     * @param utterance - The text of the user utterance
+     * @returns The intent and the sample that matched, or undefined if the
+     * utterance is not recognized.
+     */
+    match(utterance: string): NluSimulatorMatch | undefined {
+        const text = normalize(utterance);
+        for (const allowUnresolvedSlots of [false, true]) {
+            let best: { match: NluSimulatorMatch; literalWordCount: number } | undefined;
+            for (const compiled of this.compiledSamples) {
+                const match = this.matchSample(compiled, text, allowUnresolvedSlots);
+                if (
+                    match !== undefined &&
+                    (best === undefined || compiled.literalWordCount > best.literalWordCount)
+                ) {
+                    best = { match, literalWordCount: compiled.literalWordCount };
+                }
+            }
+            if (best !== undefined) {
+                return best.match;
+            }
+        }
+        return this.hasFallbackIntent
+            ? { intent: { name: 'AMAZON.FallbackIntent', confirmationStatus: 'NONE', slots: {} } }
+            : undefined;
+    }
+
+    /**
+     * Recognizes an utterance.
+     *
+     * @param utterance - The text of the user utterance
+     * @returns The intent, or undefined if the utterance is not recognized.
+     */
+    recognize(utterance: string): Intent | undefined {
+        return this.match(utterance)?.intent;
+    }
+
+    /**
+     * Creates the input for an utterance, for use in tests.
+     *
+     * @param utterance - The text of the user utterance
+     * @throws Error if the utterance is not recognized.
+     */
+    testInput(utterance: string): ControlInput {
+        const intent = this.recognize(utterance);
+        if (intent === undefined) {
+            throw new Error(
+                `The utterance '${utterance}' does not match any sample of the interaction model.`,
+            );
+        }
+        return TestInput.of(intent);
+    }
+
+    private compileSample(
+        intentName: string,
+        sample: string,
+        slotTypesByName: { [slotName: string]: string | undefined },
+    ): CompiledSample | undefined {
+        const slots: Array<{ name: string; type: string }> = [];
+        let literalWordCount = 0;
+        const parts: string[] = [];
+        const looseParts: string[] = [];
+        for (const word of sample.trim().split(/\s+/)) {
+            const slotReference = /^{([^}]+)}$/.exec(word);
+            if (slotReference !== null) {
+                const type = slotTypesByName[slotReference[1]];
+                if (type === undefined) {
+                    // The sample is invalid; see validateInteractionModel().
+                    return undefined;
+                }
+                slots.push({ name: slotReference[1], type });
+                parts.push(this.slotPattern(type));
+                looseParts.push(type.startsWith('AMAZON.') ? this.slotPattern(type) : '(.+?)');
+            } else {
+                const literal = normalize(word);
+                if (literal !== '') {
+                    literalWordCount += literal.split(' ').length;
+                    parts.push(_.escapeRegExp(literal));
+                    looseParts.push(_.escapeRegExp(literal));
+                }
+            }
+        }
+        return {
+            intentName,
+            sample,
+            pattern: new RegExp(`^${parts.join(' ')}$`),
+            loosePattern: new RegExp(`^${looseParts.join(' ')}$`),
+            slots,
+            literalWordCount,
+        };
+    }
+
+    private slotPattern(type: string): string {
+        if (type === 'AMAZON.NUMBER') {
+            return `(\\d+|${numberWords.join('|')})`;
+        }
+        if (type.startsWith('AMAZON.')) {
+            return '(.+?)';
+        }
+        const phrases = _.sortBy([...(this.valuesByPhrase[type]?.keys() ?? [])], (phrase) => -phrase.length);
+        return phrases.length > 0 ? `(${phrases.map(_.escapeRegExp).join('|')})` : '(?!)';
+    }
+
+    private matchSample(
+        compiled: CompiledSample,
+        text: string,
+        allowUnresolvedSlots: boolean,
+    ): NluSimulatorMatch | undefined {
+        const captures = (allowUnresolvedSlots ? compiled.loosePattern : compiled.pattern).exec(text);
+        if (captures === null) {
+            return undefined;
+        }
+        const slots: { [name: string]: Slot } = {};
+        for (const [i, slot] of compiled.slots.entries()) {
+            slots[slot.name] = this.resolveSlot(slot.name, slot.type, captures[i + 1]);
+        }
+        return {
+            intent: { name: compiled.intentName, confirmationStatus: 'NONE', slots },
+            sample: compiled.sample,
+        };
+    }
+
+    private resolveSlot(name: string, type: string, phrase: string): Slot {
+        if (type === 'AMAZON.NUMBER') {
+            const value = /^\d+$/.test(phrase) ? phrase : numberWords.indexOf(phrase).toString();
+            return { name, value, confirmationStatus: 'NONE' };
+        }
+        if (type.startsWith('AMAZON.')) {
+            return { name, value: phrase, confirmationStatus: 'NONE' };
+        }
+        const authority = `amzn1.er-authority.echo-sdk.simulator.${type}`;
+        const value = this.valuesByPhrase[type]?.get(phrase);
+        return {
+            name,
+            value: phrase,
+            confirmationStatus: 'NONE',
+            resolutions: {
+                resolutionsPerAuthority: [
+                    value !== undefined
+                        ? {
+                              authority,
+                              status: { code: 'ER_SUCCESS_MATCH' },
+                              values: [{ value: { id: value.id!, name: value.name!.value! } }],
+                          }
+                        : { authority, status: { code: 'ER_SUCCESS_NO_MATCH' }, values: [] },
+                ],
+            },
+        };
+    }
+}
+
+/**
+ * Tests a multi-turn script written as text, verifying that the correct
+ * prompts are produced on each turn.
+ *
+ * Each user turn comprises two entries:
+ * 1. The user utterance, which is recognized with the simulator. The
+ *    utterance `'__'` is a launch request.
+ * 2. The expected response for the turn: prompt or set of allowed prompts.
+ *
+ * The user utterance and expected prompt can start with 'U: ' and 'A: ' to aid readability.
+ *
+ * Example:
+ * ```
+ * await testE2EWithNlu(handler, simulator, [
+ *     'U: __', 'A: Welcome. What is your name?',
+ *     'U: my name is Mary', 'A: Hi Mary.',
+ * ]);
+ * ```
+ *
+ * @param handler - Control handler
+ * @param simulator - NLU simulator for the interaction model of the skill
+ * @param turns - Array of 2 entries per logical turn.
+ */
+export async function testE2EWithNlu(
+    handler: ControlHandler,
+    simulator: NluSimulator,
+    turns: Array<string | string[]>,
+): Promise<void> {
+    const invoker = new SkillInvoker(wrapRequestHandlerAsSkill(handler));
+    for (let counter = 0; counter < turns.length; counter += 2) {
+        const userUtterance = turns[counter];
+        const expectedResponse = turns[counter + 1];
+        if (typeof userUtterance !== 'string' || expectedResponse === undefined) {
+            throw new Error('user utterance and expected response not found');
+        }
+        if (userUtterance.toLowerCase().startsWith('a:')) {
+            throw new Error(`user utterance starts with A: -->${userUtterance}`);
+        }
+        const text = userUtterance.replace(/^u:/i, '').trim();
+        const input = text === '__' ? TestInput.launchRequest() : simulator.testInput(text);
+        await testTurn(invoker, userUtterance, input, expectedResponse);
+    }
+}
+
+function normalize(phrase: string): string {
+    return phrase
+        .toLowerCase()
+        .replace(/[.,!?;:"()]/g, ' ')
+        .trim()
+        .replace(/\s+/g, ' ');
+}
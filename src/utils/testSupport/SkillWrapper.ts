@@ -11,7 +11,14 @@
  * permissions and limitations under the License.
  */
 
-import { ErrorHandler, HandlerInput, RequestHandler, Skill, SkillBuilders } from 'ask-sdk-core';
+import {
+    ErrorHandler,
+    HandlerInput,
+    PersistenceAdapter,
+    RequestHandler,
+    Skill,
+    SkillBuilders,
+} from 'ask-sdk-core';
 import { Logger } from '../../logging/Logger';
 
 const log = new Logger('AskSdkControls:SkillWrapper');
@@ -20,17 +27,29 @@ const log = new Logger('AskSdkControls:SkillWrapper');
  * Wraps a single RequestHandler as a Skill for testing.
  *
  * The resulting Skill has a single requestHandler (the one provided) and a
- * default error handler that logs any internal error that may occur.
+ * default error handler that logs any internal error that may occur.  A
+ * request that the handler cannot handle is logged at info level.
  *
  * @param requestHandler - Request handler
+ * @param persistenceAdapter - Persistence adapter (optional). Required if the
+ * skill uses persistent attributes.
  */
-export function wrapRequestHandlerAsSkill(requestHandler: RequestHandler): Skill {
+export function wrapRequestHandlerAsSkill(
+    requestHandler: RequestHandler,
+    persistenceAdapter?: PersistenceAdapter,
+): Skill {
     const errorHandler: ErrorHandler = {
         canHandle() {
             return true;
         },
         handle(handlerInput: HandlerInput, error: Error) {
-            log.error(`~~~~ Error handled: ${error.stack}`);
+            if (error.name === 'AskSdk.GenericRequestDispatcher Error') {
+                // The request handler returned canHandle = false, which is a normal
+                // outcome when exploring or fuzzing a control tree.
+                log.info(`~~~~ Request not handled: ${error.message}`);
+            } else {
+                log.error(`~~~~ Error handled: ${error.stack}`);
+            }
             const speakOutput = `${error.message}`;
 
             return handlerInput.responseBuilder.speak(speakOutput).reprompt(speakOutput).getResponse();
@@ -44,6 +63,9 @@ export function wrapRequestHandlerAsSkill(requestHandler: RequestHandler): Skill
      */
 
     const _handler = SkillBuilders.custom().addRequestHandlers(requestHandler).addErrorHandlers(errorHandler);
+    if (persistenceAdapter !== undefined) {
+        _handler.withPersistenceAdapter(persistenceAdapter);
+    }
     const skill = _handler.create();
     return skill;
 }
@@ -0,0 +1,205 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { Directive } from 'ask-sdk-model';
+import { AssertionError } from 'chai';
+import fs from 'fs';
+import { dirname } from 'path';
+import { IControlInput } from '../../controls/interfaces/IControlInput';
+import { ControlHandler } from '../../runtime/ControlHandler';
+import { SkillInvoker, TestResponseObject } from './SkillInvoker';
+
+/**
+ * Options for snapshot testing.
+ */
+export interface SnapshotOptions {
+    /**
+     * Whether to overwrite snapshots that do not match instead of failing.
+     *
+     * Default: true if the environment variable `UPDATE_SNAPSHOTS` is `'1'` or
+     * `'true'`, e.g. `UPDATE_SNAPSHOTS=1 npm test`.
+     */
+    update?: boolean;
+}
+
+/**
+ * The parts of a response that are recorded by `SnapshotTester`.
+ */
+export interface TurnSnapshot {
+    prompt?: string;
+    reprompt?: string;
+    directives?: Directive[];
+
+    /**
+     * The control state map at the end of the turn.
+     */
+    state: { [controlId: string]: any };
+}
+
+/**
+ * Verifies that a value equals the snapshot recorded under a name.
+ *
+ * Snapshots are stored as JSON in a file that maps names to values, and the
+ * file is meant to be committed along with the test.
+ *
+ * - If there is no snapshot for the name, the value is recorded and the
+ *   check passes.  When the environment variable `CI` is set, a missing
+ *   snapshot fails the check instead unless updating is enabled.
+ * - If the snapshot differs and updating is enabled (see
+ *   `SnapshotOptions.update`), the snapshot is overwritten.
+ * - Otherwise, an AssertionError is thrown with a line diff of the JSON.
+ *
+ * Values are compared as JSON, so undefined properties are ignored.
+ *
+ * @param value - Value, e.g. a `TurnSnapshot`
+ * @param snapshotPath - Path of the snapshot file, by convention
+ * `__snapshots__/<spec name>.snap.json` next to the test
+ * @param name - Name of the snapshot, unique within the file
+ * @param options - Options
+ */
+export function expectToMatchSnapshot(
+    value: unknown,
+    snapshotPath: string,
+    name: string,
+    options?: SnapshotOptions,
+): void {
+    const update =
+        options?.update ?? (process.env.UPDATE_SNAPSHOTS === '1' || process.env.UPDATE_SNAPSHOTS === 'true');
+    const snapshots: { [name: string]: unknown } = fs.existsSync(snapshotPath)
+        ? JSON.parse(fs.readFileSync(snapshotPath, 'utf8'))
+        : {};
+    const actual: string | undefined = JSON.stringify(value, null, 2);
+    if (actual === undefined) {
+        throw new AssertionError(
+            `Snapshot '${name}' cannot be compared: the value is undefined or cannot be represented as JSON.`,
+        );
+    }
+
+    if (snapshots[name] === undefined) {
+        if (process.env.CI !== undefined && !update) {
+            throw new AssertionError(
+                `Snapshot '${name}' is missing in ${snapshotPath}. ` +
+                    `Missing snapshots are not recorded when CI is set; run with UPDATE_SNAPSHOTS=1 to record it.`,
+            );
+        }
+    } else {
+        const expected = JSON.stringify(snapshots[name], null, 2);
+        if (expected === actual) {
+            return;
+        }
+        if (!update) {
+            throw new AssertionError(
+                `Snapshot '${name}' in ${snapshotPath} does not match (- snapshot, + actual). ` +
+                    `Run with UPDATE_SNAPSHOTS=1 to update it.\n${lineDiff(expected, actual)}`,
+            );
+        }
+    }
+
+    snapshots[name] = JSON.parse(actual);
+    fs.mkdirSync(dirname(snapshotPath), { recursive: true });
+    fs.writeFileSync(snapshotPath, `${JSON.stringify(snapshots, null, 2)}\n`);
+}
+
+/**
+ * Utility to run turns through a skill and compare the prompt, reprompt,
+ * directives and control state of each response with a snapshot.
+ *
+ * Purpose:
+ * - APL documents and long prompts are impractical to write out in a test.
+ *   Snapshots record them once, and changes show up as a diff to review.
+ *
+ * Usage:
+ * ```
+ * const tester = new SnapshotTester(
+ *     new ControlHandler(new MyControlManager()),
+ *     join(__dirname, '__snapshots__', 'myControl.snap.json'),
+ * );
+ * await tester.testTurn('asks for the fruit', TestInput.of(GeneralControlIntent.of({ action: $.Action.Set })));
+ * ```
+ */
+export class SnapshotTester {
+    readonly handler: ControlHandler;
+    readonly invoker: SkillInvoker;
+    readonly snapshotPath: string;
+    readonly options?: SnapshotOptions;
+
+    constructor(handler: ControlHandler, snapshotPath: string, options?: SnapshotOptions) {
+        this.handler = handler;
+        this.invoker = new SkillInvoker(handler);
+        this.snapshotPath = snapshotPath;
+        this.options = options;
+    }
+
+    /**
+     * Runs a turn and compares the response with the snapshot of the name.
+     *
+     * @param name - Name of the snapshot, unique within the snapshot file
+     * @param input - Input
+     */
+    async testTurn(name: string, input: IControlInput): Promise<TestResponseObject> {
+        const response = await this.invoker.invoke(input);
+        const snapshot: TurnSnapshot = {
+            prompt: response.prompt,
+            reprompt: response.reprompt,
+            directives: response.directive,
+            state: this.handler.getSerializableControlStates(),
+        };
+        expectToMatchSnapshot(snapshot, this.snapshotPath, name, this.options);
+        return response;
+    }
+}
+
+/**
+ * Creates a line diff of two texts, with three lines of context around each
+ * change.
+ */
+function lineDiff(expected: string, actual: string): string {
+    const a = expected.split('\n');
+    const b = actual.split('\n');
+
+    // lengths[i][j] = length of the longest common subsequence of a[i:] and b[j:]
+    const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] =
+                a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const lines: Array<{ prefix: ' ' | '-' | '+'; text: string }> = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            lines.push({ prefix: ' ', text: a[i++] });
+            j++;
+        } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+            lines.push({ prefix: '-', text: a[i++] });
+        } else {
+            lines.push({ prefix: '+', text: b[j++] });
+        }
+    }
+
+    const context = 3;
+    const isNearChange = (index: number) =>
+        lines.slice(Math.max(0, index - context), index + context + 1).some((line) => line.prefix !== ' ');
+    const output: string[] = [];
+    lines.forEach((line, index) => {
+        if (isNearChange(index)) {
+            output.push(`${line.prefix} ${line.text}`);
+        } else if (output[output.length - 1] !== '  ...') {
+            output.push('  ...');
+        }
+    });
+    return output.join('\n');
+}
@@ -21,6 +21,7 @@ import {
 } from 'ask-sdk-core';
 import { Intent, IntentRequest, interfaces, LaunchRequest, Request, RequestEnvelope } from 'ask-sdk-model';
 import { expect } from 'chai';
+import i18next from 'i18next';
 import _ from 'lodash';
 import { Control } from '../../controls/Control';
 import { ControlInput } from '../../controls/ControlInput';
@@ -28,6 +29,7 @@ import { ControlResultBuilder } from '../../controls/ControlResult';
 import { IControl } from '../../controls/interfaces/IControl';
 import { IControlInput } from '../../controls/interfaces/IControlInput';
 import { IControlResult } from '../../controls/interfaces/IControlResult';
+import { grammarForLocale } from '../../intl/Grammar';
 import { Logger } from '../../logging/Logger';
 import { ControlHandler } from '../../runtime/ControlHandler';
 import { IntentBuilder } from '../IntentUtils';
@@ -396,6 +398,9 @@ function dummyControlInput(request?: Request): ControlInput {
         request: handlerInput.requestEnvelope.request,
         turnNumber: TestInput.turnNumber,
         controls: {},
+        arbitrationRecords: [],
+        i18n: i18next,
+        grammar: grammarForLocale('en-US'),
     };
 }
 const dummyAttributesManager: AttributesManager = AttributesManagerFactory.init({
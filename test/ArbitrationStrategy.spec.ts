@@ -0,0 +1,112 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { suite, test } from 'mocha';
+import {
+    ContainerControl,
+    Control,
+    ControlHandler,
+    ControlManager,
+    SkillInvoker,
+    ValueControl,
+    ValueControlProps,
+    wrapRequestHandlerAsSkill,
+} from '../src';
+import {
+    ArbitrationStrategy,
+    DisambiguationArbitrationStrategy,
+    PriorityArbitrationStrategy,
+    RoundRobinArbitrationStrategy,
+    ScoreArbitrationStrategy,
+} from '../src/controls/ArbitrationStrategy';
+import { ValueControlIntent } from '../src/intents/ValueControlIntent';
+import { TestInput, waitForDebugger } from '../src/utils/testSupport/TestingUtils';
+
+waitForDebugger();
+
+suite('ContainerControl arbitration strategies', () => {
+    class ScoredValueControl extends ValueControl {
+        score: number;
+
+        constructor(props: ValueControlProps, score: number) {
+            super(props);
+            this.score = score;
+        }
+
+        getCanHandleScore() {
+            return this.score;
+        }
+    }
+
+    function createTree(handlingStrategy: ArbitrationStrategy): ContainerControl {
+        return new ContainerControl({ id: 'root', handlingStrategy })
+            .addChild(new ScoredValueControl({ id: 'origin', slotType: 'CITY' }, 0.2))
+            .addChild(new ScoredValueControl({ id: 'destination', slotType: 'CITY' }, 0.7))
+            .addChild(new ValueControl({ id: 'stopover', slotType: 'CITY' }));
+    }
+
+    async function decide(root: ContainerControl): Promise<string | undefined> {
+        const input = TestInput.of(ValueControlIntent.of('CITY', { CITY: 'Paris' }));
+        await root.canHandle(input);
+        return `${root.handlingArbitration?.winner}:${root.handlingArbitration?.rule}`;
+    }
+
+    test('priority', async () => {
+        const root = createTree(new PriorityArbitrationStrategy(['stopover', 'destination']));
+        expect(await decide(root)).equals('stopover:Priority');
+    });
+
+    test('score', async () => {
+        expect(await decide(createTree(new ScoreArbitrationStrategy()))).equals('destination:HighestScore');
+        const preferStopover = new ScoreArbitrationStrategy((control) => (control.id === 'stopover' ? 1 : 0));
+        expect(await decide(createTree(preferStopover))).equals('stopover:HighestScore');
+    });
+
+    test('round robin', async () => {
+        const root = createTree(new RoundRobinArbitrationStrategy());
+        expect(await decide(root)).equals('origin:RoundRobin');
+
+        root.state.lastHandlingControl = { controlId: 'destination', turnNumber: 1 };
+        expect(await decide(root)).equals('stopover:RoundRobin');
+
+        root.state.lastHandlingControl = { controlId: 'stopover', turnNumber: 2 };
+        expect(await decide(root)).equals('origin:RoundRobin');
+    });
+
+    test('disambiguation', async () => {
+        const root = createTree(new DisambiguationArbitrationStrategy());
+        const input = TestInput.of(ValueControlIntent.of('CITY', { CITY: 'Paris' }));
+        expect(await root.canHandle(input)).true;
+        expect(input.arbitrationRecords[0].rule).equals('DisambiguateTarget');
+        expect(input.arbitrationRecords[0].winner).undefined;
+        expect(input.arbitrationRecords[0].candidates).deep.equals(['origin', 'destination', 'stopover']);
+
+        root.state.lastInitiativeChild = { controlId: 'stopover', turnNumber: 1 };
+        expect(await decide(root)).equals('stopover:LastInitiativeChild');
+    });
+
+    test('disambiguation asks the user and keeps the session open', async () => {
+        class TripControlManager extends ControlManager {
+            createControlTree(): Control {
+                return createTree(new DisambiguationArbitrationStrategy());
+            }
+        }
+        const skill = new SkillInvoker(
+            wrapRequestHandlerAsSkill(new ControlHandler(new TripControlManager())),
+        );
+        const response = await skill.invoke(TestInput.of(ValueControlIntent.of('CITY', { CITY: 'Paris' })));
+        expect(response.prompt).equals('Did you mean the origin, the destination or the stopover?');
+        expect(response.responseEnvelope.response.shouldEndSession).not.equals(true);
+    });
+});
@@ -0,0 +1,84 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { suite, test } from 'mocha';
+import { ContainerControl, ValueControl } from '../src';
+import { Control } from '../src/controls/Control';
+import { ControlInput } from '../src/controls/ControlInput';
+import { ValueControlIntent } from '../src/intents/ValueControlIntent';
+import { generateControlTreeTextDiagram } from '../src/utils/ControlTreeVisualization';
+import { TestInput, waitForDebugger } from '../src/utils/testSupport/TestingUtils';
+
+waitForDebugger();
+
+suite('ContainerControl arbitration records', () => {
+    function createTree(root: ContainerControl): ContainerControl {
+        return root
+            .addChild(new ValueControl({ id: 'origin', slotType: 'CITY' }))
+            .addChild(new ValueControl({ id: 'destination', slotType: 'CITY' }));
+    }
+
+    const cityInput = () => TestInput.of(ValueControlIntent.of('CITY', { CITY: 'Paris' }));
+
+    test('records the candidates, rule and winner', async () => {
+        const root = createTree(new ContainerControl({ id: 'root' }));
+        const input = cityInput();
+        expect(await root.canHandle(input)).true;
+        expect(input.arbitrationRecords).deep.equals([
+            {
+                containerId: 'root',
+                phase: 'canHandle',
+                turnNumber: input.turnNumber,
+                candidates: ['origin', 'destination'],
+                rule: 'FirstCandidate',
+                winner: 'origin',
+            },
+        ]);
+    });
+
+    test('most recent initiative child is explained and shown in the diagram', async () => {
+        const root = createTree(new ContainerControl({ id: 'root' }));
+        root.state.lastInitiativeChild = { controlId: 'destination', turnNumber: 1 };
+        const input = cityInput();
+        await root.canHandle(input);
+
+        expect(root.handlingArbitration?.rule).equals('LastInitiativeChild');
+        expect(root.handlingArbitration?.winner).equals('destination');
+        expect(generateControlTreeTextDiagram(root, input.turnNumber)).contains(
+            'root (canHandle: destination by LastInitiativeChild from [origin, destination])',
+        );
+    });
+
+    test('custom decisions report their rule', async () => {
+        class LastCandidateContainer extends ContainerControl {
+            async decideHandlingChild(candidates: Control[], input: ControlInput) {
+                this.explainArbitration('LastCandidate');
+                return candidates[candidates.length - 1];
+            }
+        }
+        class UnexplainedContainer extends ContainerControl {
+            async decideHandlingChild(candidates: Control[], input: ControlInput) {
+                return candidates[0];
+            }
+        }
+
+        const input = cityInput();
+        await createTree(new LastCandidateContainer({ id: 'explained' })).canHandle(input);
+        await createTree(new UnexplainedContainer({ id: 'unexplained' })).canHandle(input);
+        expect(input.arbitrationRecords.map((record) => `${record.containerId}:${record.rule}`)).deep.equals([
+            'explained:LastCandidate',
+            'unexplained:Custom',
+        ]);
+    });
+});
@@ -0,0 +1,109 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { suite, test } from 'mocha';
+import { ContainerControl, ValueControl } from '../src';
+import { Control } from '../src/controls/Control';
+import { ControlInput } from '../src/controls/ControlInput';
+import { ControlManager } from '../src/controls/ControlManager';
+import { ValueControlIntent } from '../src/intents/ValueControlIntent';
+import { ControlResponseBuilder } from '../src/responseGeneration/ControlResponseBuilder';
+import { ControlHandler } from '../src/runtime/ControlHandler';
+import { ControlInterceptor } from '../src/runtime/ControlInterceptor';
+import { ValueSetAct } from '../src/systemActs/ContentActs';
+import { SkillInvoker } from '../src/utils/testSupport/SkillInvoker';
+import { TestInput, testTurn, waitForDebugger } from '../src/utils/testSupport/TestingUtils';
+
+waitForDebugger();
+
+suite('ControlHandler interceptors', () => {
+    class LoginControlManager extends ControlManager {
+        createControlTree(): Control {
+            return new ContainerControl({ id: 'root' }).addChild(
+                new ValueControl({
+                    id: 'userName',
+                    slotType: 'LOGIN.name',
+                    prompts: { valueSet: (act) => `OK, ${act.payload.value}.` },
+                }),
+            );
+        }
+
+        handleInternalError(
+            input: ControlInput | undefined,
+            error: any,
+            responseBuilder: ControlResponseBuilder,
+        ) {
+            responseBuilder.addPromptFragment('Sorry, something went wrong.');
+        }
+    }
+
+    const nameInput = () => TestInput.of(ValueControlIntent.of('LOGIN.name', { 'LOGIN.name': 'Amazon' }));
+
+    test('hooks are called in phase order', async () => {
+        const phases: string[] = [];
+        const recorder: ControlInterceptor = {
+            beforeHandle: () => {
+                phases.push('beforeHandle');
+            },
+            afterHandle: (input, resultBuilder) => {
+                phases.push(`afterHandle:${resultBuilder.acts.length}`);
+            },
+            beforeInitiative: () => {
+                phases.push('beforeInitiative');
+            },
+            afterRender: () => {
+                phases.push('afterRender');
+            },
+        };
+        const requestHandler = new ControlHandler(new LoginControlManager()).addInterceptor(recorder);
+        await testTurn(new SkillInvoker(requestHandler), 'U: Amazon', nameInput(), 'A: OK, Amazon.');
+        expect(phases).deep.equals(['beforeHandle', 'afterHandle:1', 'beforeInitiative', 'afterRender']);
+    });
+
+    test('interceptors can rewrite acts and amend the response', async () => {
+        const requestHandler = new ControlHandler(new LoginControlManager())
+            .addInterceptor({
+                afterHandle: (input, resultBuilder) => {
+                    const act = resultBuilder.acts[0] as ValueSetAct<string>;
+                    const value = act.payload.value.toUpperCase();
+                    resultBuilder.acts[0] = new ValueSetAct(act.control, { value, renderedValue: value });
+                },
+            })
+            .addInterceptor({
+                afterRender: (input, resultBuilder, responseBuilder) => {
+                    responseBuilder.addPromptFragment('Audited.');
+                },
+            });
+        await testTurn(new SkillInvoker(requestHandler), 'U: Amazon', nameInput(), 'A: OK, AMAZON. Audited.');
+    });
+
+    test('onError is called before the internal error handler', async () => {
+        const errors: string[] = [];
+        const requestHandler = new ControlHandler(new LoginControlManager()).addInterceptor({
+            beforeHandle: () => {
+                throw new Error('boom');
+            },
+            onError: (input, error) => {
+                errors.push(error.message);
+            },
+        });
+        await testTurn(
+            new SkillInvoker(requestHandler),
+            'U: Amazon',
+            nameInput(),
+            'A: Sorry, something went wrong.',
+        );
+        expect(errors).deep.equals(['boom']);
+    });
+});
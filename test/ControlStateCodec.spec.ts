@@ -0,0 +1,105 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { suite, test } from 'mocha';
+import { ContainerControl, ValueControl } from '../src';
+import { Control } from '../src/controls/Control';
+import { ControlManager, ControlManagerProps } from '../src/controls/ControlManager';
+import { ValueControlIntent } from '../src/intents/ValueControlIntent';
+import {
+    CompactJsonControlStateCodec,
+    GzipControlStateCodec,
+    JsonControlStateCodec,
+} from '../src/persistence/ControlStateCodec';
+import { InMemoryControlStateStore } from '../src/persistence/ControlStateStore';
+import { ControlHandler } from '../src/runtime/ControlHandler';
+import { SkillInvoker } from '../src/utils/testSupport/SkillInvoker';
+import { TestInput, testTurn, waitForDebugger } from '../src/utils/testSupport/TestingUtils';
+
+waitForDebugger();
+
+suite('Control state codecs', () => {
+    class LoginControlManager extends ControlManager {
+        constructor(props?: ControlManagerProps) {
+            super(props);
+        }
+
+        createControlTree(): Control {
+            const root = new ContainerControl({ id: 'root' });
+            for (const [id, slotType] of [
+                ['userName', 'LOGIN.name'],
+                ['city', 'LOGIN.city'],
+                ['country', 'LOGIN.country'],
+            ]) {
+                root.addChild(
+                    new ValueControl({
+                        id,
+                        slotType,
+                        required: id === 'userName',
+                        prompts: { valueSet: '' },
+                    }),
+                );
+            }
+            return root;
+        }
+    }
+
+    function createStateMap(manager: ControlManager): { [key: string]: any } {
+        const stateMap = manager.getDefaultControlStateMap();
+        stateMap.userName = { ...stateMap.userName, value: 'Amazon', isValueConfirmed: true };
+        delete stateMap.city.lastInitiative;
+        return JSON.parse(JSON.stringify(stateMap));
+    }
+
+    test('compact JSON omits default-valued fields and round trips', () => {
+        const manager = new LoginControlManager({ stateCodec: new CompactJsonControlStateCodec() });
+        const stateMap = createStateMap(manager);
+
+        const encoded = manager.encodeControlStateMap(stateMap);
+        expect(encoded.length).lessThan(JSON.stringify(stateMap).length);
+        expect(JSON.parse(encoded).country).deep.equals({});
+        expect(manager.decodeControlStateMap(encoded)).deep.equals(stateMap);
+    });
+
+    test('gzip round trips and accepts uncompressed JSON', () => {
+        const manager = new LoginControlManager({ stateCodec: new GzipControlStateCodec() });
+        const stateMap = createStateMap(manager);
+
+        const encoded = manager.encodeControlStateMap(stateMap);
+        expect(encoded.startsWith('{')).false;
+        expect(manager.decodeControlStateMap(encoded)).deep.equals(stateMap);
+
+        const legacy = new JsonControlStateCodec().encode(stateMap);
+        expect(manager.decodeControlStateMap(legacy)).deep.equals(stateMap);
+    });
+
+    test('state saved with the gzip codec is reestablished on the next turn', async () => {
+        const store = new InMemoryControlStateStore();
+        const props = { stateStore: store, stateCodec: new GzipControlStateCodec() };
+        for (const name of ['Amazon', 'Alexa']) {
+            const requestHandler = new ControlHandler(new LoginControlManager(props));
+            await testTurn(
+                new SkillInvoker(requestHandler),
+                `U: ${name}`,
+                TestInput.of(ValueControlIntent.of('LOGIN.name', { 'LOGIN.name': name })),
+                'A:',
+            );
+        }
+        const manager = new LoginControlManager(props);
+        const input = TestInput.launchRequest();
+        const stateMap = await manager.loadControlStateMap(input.handlerInput);
+        expect(stateMap.userName.value).equals('Alexa');
+        expect(stateMap.userName.previousValue).equals('Amazon');
+    });
+});
@@ -0,0 +1,116 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { expect } from 'chai';
+import _ from 'lodash';
+import { suite, test } from 'mocha';
+import { ContainerControl, ValueControl } from '../src';
+import { Control } from '../src/controls/Control';
+import { ControlManager } from '../src/controls/ControlManager';
+import { ControlStateMigrations, STATE_SCHEMA_VERSION_KEY } from '../src/controls/ControlStateMigrations';
+import { ValueControlIntent } from '../src/intents/ValueControlIntent';
+import { InMemoryControlStateStore } from '../src/persistence/ControlStateStore';
+import { ControlHandler } from '../src/runtime/ControlHandler';
+import { validateSerializedState } from '../src/utils/SerializationValidator';
+import { SkillInvoker } from '../src/utils/testSupport/SkillInvoker';
+import { TestInput, testTurn, waitForDebugger } from '../src/utils/testSupport/TestingUtils';
+
+waitForDebugger();
+
+suite('Control state migrations', () => {
+    class LoginControlManager extends ControlManager {
+        constructor(store?: InMemoryControlStateStore) {
+            super(store !== undefined ? { stateStore: store } : undefined);
+            this.stateMigrations
+                .renameControlId(1, 'name', 'userName')
+                .registerForControlType(2, ValueControl, (state) => ({
+                    ..._.omit(state, 'text'),
+                    value: state.text,
+                }));
+        }
+
+        createControlTree(): Control {
+            return new ContainerControl({ id: 'root' }).addChild(
+                new ValueControl({
+                    id: 'userName',
+                    slotType: 'LOGIN.name',
+                    prompts: { valueSet: '' },
+                }),
+            );
+        }
+    }
+
+    const legacyState = {
+        root: { lastInitiative: {} },
+        name: { text: 'Amazon', lastInitiative: {} },
+    };
+
+    test('legacy state is renamed and migrated', () => {
+        const manager = new LoginControlManager();
+        expect(manager.stateSchemaVersion).equals(2);
+
+        const migrated = manager.migrateControlStateMap(legacyState);
+        expect(migrated.name).undefined;
+        expect(migrated.userName).deep.equals({ value: 'Amazon', lastInitiative: {} });
+        expect(migrated[STATE_SCHEMA_VERSION_KEY]).undefined;
+        expect(legacyState.name.text).equals('Amazon'); // input is not mutated
+    });
+
+    test('state at the current version is not migrated', () => {
+        const manager = new LoginControlManager();
+        const stamped = { userName: { text: 'x' }, [STATE_SCHEMA_VERSION_KEY]: 2 };
+        expect(manager.migrateControlStateMap(stamped)).deep.equals({ userName: { text: 'x' } });
+    });
+
+    test('state from a newer version is rejected', () => {
+        const manager = new LoginControlManager();
+        expect(() => manager.migrateControlStateMap({ [STATE_SCHEMA_VERSION_KEY]: 3 })).throws();
+    });
+
+    test('validateSerializedState checks the migrated round trip', () => {
+        const manager = new LoginControlManager();
+        validateSerializedState(JSON.stringify(legacyState), manager, TestInput.launchRequest());
+    });
+
+    test('saved state is stamped and legacy state is migrated at runtime', async () => {
+        const store = new InMemoryControlStateStore();
+        const input = TestInput.of(ValueControlIntent.of('LOGIN.name', { 'LOGIN.name': 'Alexa' }));
+        await store.save(JSON.stringify(legacyState), input.handlerInput);
+
+        const requestHandler = new ControlHandler(new LoginControlManager(store));
+        await testTurn(new SkillInvoker(requestHandler), 'U: Alexa', input, 'A:');
+        expect(requestHandler.getSerializableControlStates().userName.previousValue).equals('Amazon');
+
+        const saved = JSON.parse((await store.load(input.handlerInput))!);
+        expect(saved[STATE_SCHEMA_VERSION_KEY]).equals(2);
+        expect(saved.name).undefined;
+    });
+
+    test('saved state is not stamped without migrations', async () => {
+        class UnversionedControlManager extends LoginControlManager {
+            readonly stateMigrations = new ControlStateMigrations();
+        }
+        const store = new InMemoryControlStateStore();
+        const input = TestInput.of(ValueControlIntent.of('LOGIN.name', { 'LOGIN.name': 'Alexa' }));
+
+        await testTurn(
+            new SkillInvoker(new ControlHandler(new UnversionedControlManager(store))),
+            'U: Alexa',
+            input,
+            'A:',
+        );
+        const saved = JSON.parse((await store.load(input.handlerInput))!);
+        expect(saved.userName.value).equals('Alexa');
+        expect(saved).not.have.property(STATE_SCHEMA_VERSION_KEY);
+    });
+});
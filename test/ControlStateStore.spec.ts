@@ -0,0 +1,126 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { expect } from 'chai';
+import fs from 'fs';
+import { suite, test } from 'mocha';
+import os from 'os';
+import path from 'path';
+import { ValueControl } from '../src/commonControls/ValueControl';
+import { Control } from '../src/controls/Control';
+import { ControlManager, ControlManagerProps } from '../src/controls/ControlManager';
+import { ValueControlIntent } from '../src/intents/ValueControlIntent';
+import {
+    InMemoryControlStateStore,
+    PersistentAttributesControlStateStore,
+} from '../src/persistence/ControlStateStore';
+import { ControlHandler } from '../src/runtime/ControlHandler';
+import { LocalFilePersistenceAdapter } from '../src/utils/testSupport/LocalFilePersistenceAdapter';
+import { SkillInvoker } from '../src/utils/testSupport/SkillInvoker';
+import { wrapRequestHandlerAsSkill } from '../src/utils/testSupport/SkillWrapper';
+import { TestInput, testTurn, waitForDebugger } from '../src/utils/testSupport/TestingUtils';
+
+waitForDebugger();
+
+suite('ControlStateStore', () => {
+    class NameControlManager extends ControlManager {
+        constructor(props?: ControlManagerProps) {
+            super(props);
+        }
+
+        createControlTree(): Control {
+            return new ValueControl({
+                id: 'userName',
+                slotType: 'LOGIN.name',
+                prompts: {
+                    requestValue: 'What is your login name?',
+                    valueSet: '',
+                },
+            });
+        }
+    }
+
+    test('default store keeps state in session attributes only', async () => {
+        const requestHandler = new ControlHandler(new NameControlManager());
+        const invoker = new SkillInvoker(requestHandler);
+        const response = await testTurn(
+            invoker,
+            'U: Amazon',
+            TestInput.of(ValueControlIntent.of('LOGIN.name', { 'LOGIN.name': 'Amazon' })),
+            'A:',
+        );
+        expect(response.responseEnvelope.sessionAttributes!.__controlState).not.undefined;
+
+        // new session: the previous value is not known.
+        await testTurn(
+            new SkillInvoker(requestHandler),
+            'U: Alexa',
+            TestInput.of(ValueControlIntent.of('LOGIN.name', { 'LOGIN.name': 'Alexa' })),
+            'A:',
+        );
+        expect(requestHandler.getSerializableControlStates().userName.previousValue).undefined;
+    });
+
+    test('in-memory store survives a new session', async () => {
+        const requestHandler = new ControlHandler(
+            new NameControlManager({ stateStore: new InMemoryControlStateStore() }),
+        );
+        const response = await testTurn(
+            new SkillInvoker(requestHandler),
+            'U: Amazon',
+            TestInput.of(ValueControlIntent.of('LOGIN.name', { 'LOGIN.name': 'Amazon' })),
+            'A:',
+        );
+        expect(response.responseEnvelope.sessionAttributes!.__controlState).undefined;
+
+        // new session: the previous value is known.
+        await testTurn(
+            new SkillInvoker(requestHandler),
+            'U: Alexa',
+            TestInput.of(ValueControlIntent.of('LOGIN.name', { 'LOGIN.name': 'Alexa' })),
+            'A:',
+        );
+        expect(requestHandler.getSerializableControlStates().userName.previousValue).equals('Amazon');
+    });
+
+    test('persistent attributes store with local file adapter survives a new session', async () => {
+        const filePath = path.join(os.tmpdir(), `controlStateStoreTest-${process.pid}.json`);
+        try {
+            const adapter = new LocalFilePersistenceAdapter(filePath);
+            const store = new PersistentAttributesControlStateStore();
+            const requestHandler = new ControlHandler(new NameControlManager({ stateStore: store }));
+
+            await testTurn(
+                new SkillInvoker(wrapRequestHandlerAsSkill(requestHandler, adapter)),
+                'U: Amazon',
+                TestInput.of(ValueControlIntent.of('LOGIN.name', { 'LOGIN.name': 'Amazon' })),
+                'A:',
+            );
+            expect(fs.existsSync(filePath)).equals(true);
+
+            // new session, new handler: state is read back from the file.
+            const requestHandler2 = new ControlHandler(new NameControlManager({ stateStore: store }));
+            await testTurn(
+                new SkillInvoker(wrapRequestHandlerAsSkill(requestHandler2, adapter)),
+                'U: Alexa',
+                TestInput.of(ValueControlIntent.of('LOGIN.name', { 'LOGIN.name': 'Alexa' })),
+                'A:',
+            );
+            expect(requestHandler2.getSerializableControlStates().userName.previousValue).equals('Amazon');
+        } finally {
+            if (fs.existsSync(filePath)) {
+                fs.unlinkSync(filePath);
+            }
+        }
+    });
+});
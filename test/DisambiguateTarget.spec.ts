@@ -0,0 +1,121 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { suite, test } from 'mocha';
+import {
+    ArbitrationStrategy,
+    ContainerControl,
+    DisambiguationArbitrationStrategy,
+    ValueControl,
+} from '../src';
+import { Strings as $ } from '../src/constants/Strings';
+import { Control } from '../src/controls/Control';
+import { ControlInput } from '../src/controls/ControlInput';
+import { ControlManager } from '../src/controls/ControlManager';
+import { ControlResultBuilder } from '../src/controls/ControlResult';
+import { GeneralControlIntent } from '../src/intents/GeneralControlIntent';
+import { ValueControlIntent } from '../src/intents/ValueControlIntent';
+import { ControlHandler } from '../src/runtime/ControlHandler';
+import { DisambiguateTargetAct } from '../src/systemActs/InitiativeActs';
+import { testE2E, TestInput, waitForDebugger } from '../src/utils/testSupport/TestingUtils';
+
+waitForDebugger();
+
+suite('ContainerControl target disambiguation', () => {
+    function createTree(handlingStrategy?: ArbitrationStrategy): ContainerControl {
+        return new ContainerControl({ id: 'trip', handlingStrategy })
+            .addChild(
+                new ValueControl({
+                    id: 'departure',
+                    slotType: 'CITY',
+                    interactionModel: { targets: ['departureCity', 'city'] },
+                    prompts: { requestValue: 'Where are you leaving from?' },
+                }),
+            )
+            .addChild(
+                new ValueControl({
+                    id: 'arrival',
+                    slotType: 'CITY',
+                    interactionModel: { targets: ['arrivalCity', 'city'] },
+                }),
+            );
+    }
+
+    class TripControlManager extends ControlManager {
+        createControlTree(): Control {
+            return createTree(new DisambiguationArbitrationStrategy());
+        }
+    }
+
+    test('ambiguous value is disambiguated by target', async () => {
+        const requestHandler = new ControlHandler(new TripControlManager());
+        await testE2E(requestHandler, [
+            'U: Paris',
+            TestInput.of(ValueControlIntent.of('CITY', { CITY: 'Paris' })),
+            'A: Did you mean the departure city or the arrival city?',
+            'U: The arrival city',
+            TestInput.of(GeneralControlIntent.of({ target: 'arrivalCity' })),
+            'A: OK, Paris. Where are you leaving from?',
+        ]);
+    });
+
+    test('act and arbitration record', async () => {
+        const root = createTree(new DisambiguationArbitrationStrategy());
+        const input = TestInput.of(ValueControlIntent.of('CITY', { CITY: 'Paris' }));
+        expect(await root.canHandle(input)).true;
+        expect(root.handlingArbitration?.rule).equals('DisambiguateTarget');
+
+        const resultBuilder = new ControlResultBuilder();
+        await root.handle(input, resultBuilder);
+        const act = resultBuilder.acts[0] as DisambiguateTargetAct;
+        expect(act).instanceOf(DisambiguateTargetAct);
+        expect(act.payload.targets).deep.equals(['departureCity', 'arrivalCity']);
+        expect(root.state.pendingDisambiguation?.controlIds).deep.equals(['departure', 'arrival']);
+
+        // the default behavior is unchanged unless the strategy is configured.
+        const defaultRoot = createTree();
+        expect(await defaultRoot.canHandle(input)).true;
+        expect(defaultRoot.selectedHandlingChild?.id).equals('departure');
+    });
+
+    test('targets are rendered in the language of the request', async () => {
+        const root = new ContainerControl({
+            id: 'range',
+            handlingStrategy: new DisambiguationArbitrationStrategy(),
+        })
+            .addChild(
+                new ValueControl({
+                    id: 'from',
+                    slotType: 'AMAZON.DATE',
+                    interactionModel: { targets: [$.Target.Start, $.Target.Date] },
+                }),
+            )
+            .addChild(
+                new ValueControl({
+                    id: 'until',
+                    slotType: 'AMAZON.DATE',
+                    interactionModel: { targets: ['untilDate', $.Target.Date] },
+                }),
+            );
+        const testInput = TestInput.of(ValueControlIntent.of('AMAZON.DATE', { 'AMAZON.DATE': '2020-01-01' }));
+        const german = new TripControlManager({ initGlobalI18n: false }).getI18nForLocale('de-DE');
+        const input = new ControlInput(testInput.handlerInput, 0, testInput.controls, undefined, german);
+        expect(await root.canHandle(input)).true;
+
+        const resultBuilder = new ControlResultBuilder();
+        await root.handle(input, resultBuilder);
+        const act = resultBuilder.acts[0] as DisambiguateTargetAct;
+        expect(act.payload.renderedTargets).deep.equals(['anfang', 'until date']);
+    });
+});
@@ -0,0 +1,134 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { suite, test } from 'mocha';
+import { grammarForLocale, IntlGrammar, ListControl, ListFormatting, QuestionnaireControl } from '../src';
+import { Strings as $ } from '../src/constants/Strings';
+import { Control } from '../src/controls/Control';
+import { ControlInput } from '../src/controls/ControlInput';
+import { ControlManager } from '../src/controls/ControlManager';
+import { GeneralControlIntent } from '../src/intents/GeneralControlIntent';
+import { ControlHandler } from '../src/runtime/ControlHandler';
+import { testE2E, TestInput, waitForDebugger } from '../src/utils/testSupport/TestingUtils';
+
+waitForDebugger();
+
+suite('Grammar', () => {
+    function inLocale(input: ControlInput, locale: string): ControlInput {
+        input.request.locale = locale;
+        return input;
+    }
+
+    test('lists are joined in the language of the locale', () => {
+        const items = ['a', 'b', 'c'];
+        expect(grammarForLocale('en-US').formatList(items)).equals('a, b or c');
+        expect(grammarForLocale('en-GB').formatList(items, 'and')).equals('a, b and c');
+        expect(grammarForLocale('de-DE').formatList(items)).equals('a, b oder c');
+        expect(grammarForLocale('fr-FR').formatList(items, 'and')).equals('a, b et c');
+        expect(grammarForLocale('es-MX').formatList(items)).equals('a, b o c');
+        expect(grammarForLocale('ja-JP').formatList(['a', 'b'], 'and')).equals('a、b');
+        expect(grammarForLocale('es-ES').formatList(['a'])).equals('a');
+        expect(grammarForLocale('de-DE').formatList([])).equals(ListFormatting.format([]));
+    });
+
+    test('plurals and articles', () => {
+        const english = grammarForLocale('en-US');
+        expect(english.renderNoun(1, { one: 'apple', other: 'apples' })).equals('apple');
+        expect(english.renderNoun(2, { one: 'apple', other: 'apples' })).equals('apples');
+        expect(english.withArticle('apple')).equals('an apple');
+        expect(english.withArticle('apple', { definite: true })).equals('the apple');
+
+        expect(grammarForLocale('fr-FR').pluralCategory(0)).equals('one');
+        expect(grammarForLocale('de-DE').withArticle('Apfel', { definite: true })).equals('der Apfel');
+        expect(grammarForLocale('de-DE').withArticle('Birne', { gender: 'feminine' })).equals('eine Birne');
+        expect(grammarForLocale('fr-FR').withArticle('orange', { definite: true })).equals("l'orange");
+        expect(grammarForLocale('fr-FR').withArticle('pomme', { gender: 'feminine' })).equals('une pomme');
+        expect(
+            grammarForLocale('es-ES').withArticle('manzanas', {
+                definite: true,
+                gender: 'feminine',
+                plural: true,
+            }),
+        ).equals('las manzanas');
+        expect(grammarForLocale('ja-JP').withArticle('りんご', { definite: true })).equals('りんご');
+        expect(grammarForLocale('pt-BR')).instanceOf(IntlGrammar);
+    });
+
+    class FruitControlManager extends ControlManager {
+        createControlTree(): Control {
+            return new ListControl({
+                id: 'fruit',
+                slotType: 'FRUIT',
+                listItemIDs: ['apple', 'pear', 'plum'],
+                pageSize: 3,
+            });
+        }
+    }
+
+    test('list controls render choices with the grammar of the request', async () => {
+        const requestHandler = new ControlHandler(new FruitControlManager());
+        await testE2E(requestHandler, [
+            'U: change it',
+            inLocale(TestInput.of(GeneralControlIntent.of({ action: $.Action.Change })), 'de-DE'),
+            'A: Worauf soll ich es ändern? Vorschläge sind apple, pear oder plum.',
+        ]);
+    });
+
+    test('grammars can be replaced per language', () => {
+        const grammar = new IntlGrammar('fr-CA');
+        const manager = new FruitControlManager({ grammars: { fr: grammar } });
+        const handlerInput = (locale: string) =>
+            inLocale(TestInput.of('AMAZON.HelpIntent'), locale).handlerInput;
+        expect(manager.getGrammar(handlerInput('fr-CA'))).equals(grammar);
+        expect(manager.getGrammar(handlerInput('fr-FR'))).equals(grammar);
+        expect(manager.getGrammar(handlerInput('de-DE')).formatList(['a', 'b'])).equals('a oder b');
+    });
+
+    test('questionnaire answers are summarized in the language of the request', () => {
+        const control = new QuestionnaireControl({
+            id: 'health',
+            questionnaireData: {
+                questions: ['headache', 'cough', 'fever'].map((id) => ({
+                    id,
+                    targets: [id],
+                    prompt: `${id}?`,
+                    visualLabel: id,
+                    promptShortForm: id,
+                })),
+                choices: [
+                    { id: 'yes', aplColumnHeader: 'Yes', prompt: 'yes' },
+                    { id: 'no', aplColumnHeader: 'No', prompt: 'no' },
+                ],
+            },
+            interactionModel: { slotType: 'YesNoMaybe', filteredSlotType: 'Maybe' },
+        });
+        control.state.value = { headache: { choiceId: 'yes' }, fever: { choiceId: 'no' } };
+
+        expect(control.renderAnswerSummary(TestInput.of('AMAZON.HelpIntent'))).equals(
+            'yes for headache and no for fever',
+        );
+
+        const manager = new FruitControlManager();
+        const handlerInput = inLocale(TestInput.of('AMAZON.HelpIntent'), 'de-DE').handlerInput;
+        const germanInput = new ControlInput(
+            handlerInput,
+            0,
+            {},
+            undefined,
+            manager.getI18n(handlerInput),
+            manager.getGrammar(handlerInput),
+        );
+        expect(control.renderAnswerSummary(germanInput)).equals('yes für headache und no für fever');
+    });
+});
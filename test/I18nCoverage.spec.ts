@@ -0,0 +1,70 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { suite, test } from 'mocha';
+import {
+    checkI18nCoverage,
+    defaultI18nResources,
+    hasI18nCoverageIssues,
+    i18nCoverageReportToString,
+} from '../src';
+
+suite('I18n coverage', () => {
+    test('built-in locales are complete', () => {
+        const reports = checkI18nCoverage(
+            { 'de-DE': {}, 'en-GB': {}, es: {}, 'fr-CA': {}, 'ja-JP': {} },
+            { locales: ['de-DE', 'en-GB', 'es', 'fr-CA', 'ja-JP'] },
+        );
+        expect(reports.filter(hasI18nCoverageIssues).map(i18nCoverageReportToString)).deep.equals([]);
+    });
+
+    test('missing and extra keys and placeholder mismatches are reported', () => {
+        const [report] = checkI18nCoverage({
+            en: { translation: { MY_SKILL_GREETING: 'Hello {{name}}!' } },
+            'pt-BR': {
+                translation: {
+                    MY_SKILL_GREETING: 'Olá {{nome}}!',
+                    VALUE_CONTROL_DEFAULT_PROMPT_VALUE_SET: 'OK, {{value}}.',
+                    VALUE_CONTROL_DEFAULT_PROMPT_VALUE_SETT: 'OK.',
+                },
+            },
+        });
+
+        expect(report.locale).equals('pt-BR');
+        expect(report.missingKeys).includes('VALUE_CONTROL_DEFAULT_PROMPT_VALUE_CHANGED');
+        expect(report.missingKeys).not.includes('VALUE_CONTROL_DEFAULT_PROMPT_VALUE_SET');
+        expect(report.missingKeys).not.includes('MY_SKILL_GREETING');
+        expect(report.extraKeys).deep.equals(['VALUE_CONTROL_DEFAULT_PROMPT_VALUE_SETT']);
+        expect(report.placeholderMismatches).deep.equals([
+            { key: 'MY_SKILL_GREETING', expected: ['name'], actual: ['nome'] },
+        ]);
+        expect(i18nCoverageReportToString(report).split('\n')[0]).equals(
+            `pt-BR: ${report.missingKeys.length} missing, 1 extra, 1 placeholder mismatch`,
+        );
+    });
+
+    test('regional locales are covered by their language', () => {
+        const reports = checkI18nCoverage({
+            pt: { translation: defaultI18nResources.en.translation },
+            'pt-PT': { translation: { LIST_CONTROL_DEFAULT_PROMPT_VALUE_SET: 'OK, {{valor}}.' } },
+        });
+
+        expect(reports.map((report) => report.locale)).deep.equals(['pt', 'pt-PT']);
+        expect(hasI18nCoverageIssues(reports[0])).false;
+        expect(reports[1].missingKeys).empty;
+        expect(reports[1].placeholderMismatches.map((mismatch) => mismatch.key)).deep.equals([
+            'LIST_CONTROL_DEFAULT_PROMPT_VALUE_SET',
+        ]);
+    });
+});
@@ -0,0 +1,73 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { suite, test } from 'mocha';
+import { ValueControl } from '../src';
+import { Strings as $ } from '../src/constants/Strings';
+import { Control } from '../src/controls/Control';
+import { ControlInput } from '../src/controls/ControlInput';
+import { ControlManager } from '../src/controls/ControlManager';
+import { GeneralControlIntent } from '../src/intents/GeneralControlIntent';
+import { ControlHandler } from '../src/runtime/ControlHandler';
+import { testE2E, TestInput, waitForDebugger } from '../src/utils/testSupport/TestingUtils';
+
+waitForDebugger();
+
+suite('Per-request locale', () => {
+    class NameControlManager extends ControlManager {
+        constructor() {
+            super({
+                i18nResources: {
+                    de: {
+                        translation: {
+                            VALUE_CONTROL_DEFAULT_PROMPT_VALUE_SET: 'OK, {{value}}.',
+                            VALUE_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE: 'Wie heißt du?',
+                            VALUE_CONTROL_DEFAULT_PROMPT_REQUEST_CHANGED_VALUE: 'Worauf soll ich es ändern?',
+                        },
+                    },
+                },
+            });
+        }
+
+        createControlTree(): Control {
+            return new ValueControl({ id: 'userName', slotType: 'NAME' });
+        }
+    }
+
+    function inLocale(input: ControlInput, locale: string): ControlInput {
+        input.request.locale = locale;
+        return input;
+    }
+
+    test('one handler serves several locales', async () => {
+        const requestHandler = new ControlHandler(new NameControlManager());
+        await testE2E(requestHandler, [
+            'U: change it',
+            inLocale(TestInput.of(GeneralControlIntent.of({ action: $.Action.Change })), 'de-DE'),
+            'A: Worauf soll ich es ändern?',
+            'U: change it',
+            inLocale(TestInput.of(GeneralControlIntent.of({ action: $.Action.Change })), 'en-US'),
+            'A: What should I change it to?',
+        ]);
+    });
+
+    test('an i18n instance is created per locale', () => {
+        const manager = new NameControlManager();
+        const german = manager.getI18n(inLocale(TestInput.of('AMAZON.HelpIntent'), 'de-DE').handlerInput);
+        const english = manager.getI18n(inLocale(TestInput.of('AMAZON.HelpIntent'), 'en-GB').handlerInput);
+        expect(german.t('VALUE_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE')).equals('Wie heißt du?');
+        expect(english.t('VALUE_CONTROL_DEFAULT_PROMPT_REQUEST_VALUE')).equals('What should i set it to?');
+        expect(manager.getI18n(TestInput.of('AMAZON.HelpIntent').handlerInput)).not.equals(german);
+    });
+});
@@ -0,0 +1,103 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { suite, test } from 'mocha';
+import { ContainerControl, ValueControl } from '../src';
+import { Control } from '../src/controls/Control';
+import { ControlManager } from '../src/controls/ControlManager';
+import { AmazonIntent } from '../src/intents/AmazonBuiltInIntent';
+import { ValueControlIntent } from '../src/intents/ValueControlIntent';
+import { InMemoryControlStateStore } from '../src/persistence/ControlStateStore';
+import { ControlHandler } from '../src/runtime/ControlHandler';
+import { IntentBuilder } from '../src/utils/IntentUtils';
+import { SkillInvoker } from '../src/utils/testSupport/SkillInvoker';
+import { TestInput, testTurn, waitForDebugger } from '../src/utils/testSupport/TestingUtils';
+
+waitForDebugger();
+
+suite('Resume flow', () => {
+    class LoginControlManager extends ControlManager {
+        createControlTree(): Control {
+            return new ContainerControl({ id: 'root' }).addChild(
+                new ValueControl({
+                    id: 'userName',
+                    slotType: 'LOGIN.name',
+                    confirmationRequired: true,
+                    prompts: {
+                        requestValue: 'What is your login name?',
+                        valueSet: '',
+                    },
+                }),
+            );
+        }
+    }
+
+    async function startIncompleteSession(store: InMemoryControlStateStore): Promise<void> {
+        const requestHandler = new ControlHandler(new LoginControlManager({ stateStore: store }));
+        await testTurn(
+            new SkillInvoker(requestHandler),
+            'U: Amazon',
+            TestInput.of(ValueControlIntent.of('LOGIN.name', { 'LOGIN.name': 'Amazon' })),
+            'A: Was that Amazon?',
+        );
+    }
+
+    function createResumingHandler(store: InMemoryControlStateStore): ControlHandler {
+        const requestHandler = new ControlHandler(new LoginControlManager({ stateStore: store }));
+        requestHandler.offerResumeOnLaunch = true;
+        return requestHandler;
+    }
+
+    test('yes rehydrates the saved state', async () => {
+        const store = new InMemoryControlStateStore();
+        await startIncompleteSession(store);
+
+        const requestHandler = createResumingHandler(store);
+        const invoker = new SkillInvoker(requestHandler);
+        await testTurn(
+            invoker,
+            'U: open login',
+            TestInput.launchRequest(),
+            'A: Would you like to pick up where you left off?',
+        );
+        await testTurn(
+            invoker,
+            'U: Yes',
+            TestInput.of(IntentBuilder.of(AmazonIntent.YesIntent)),
+            'A: Was that Amazon?',
+        );
+        expect(requestHandler.getSerializableControlStates().userName.value).equals('Amazon');
+    });
+
+    test('no clears the saved state', async () => {
+        const store = new InMemoryControlStateStore();
+        await startIncompleteSession(store);
+
+        const requestHandler = createResumingHandler(store);
+        const invoker = new SkillInvoker(requestHandler);
+        await testTurn(
+            invoker,
+            'U: open login',
+            TestInput.launchRequest(),
+            'A: Would you like to pick up where you left off?',
+        );
+        await testTurn(
+            invoker,
+            'U: No',
+            TestInput.of(IntentBuilder.of(AmazonIntent.NoIntent)),
+            'A: What is your login name?',
+        );
+        expect(requestHandler.getSerializableControlStates().userName.value).undefined;
+    });
+});
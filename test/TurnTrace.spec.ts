@@ -0,0 +1,129 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { suite, test } from 'mocha';
+import sinon from 'sinon';
+import { ContainerControl, ValueControl } from '../src';
+import { Control } from '../src/controls/Control';
+import { ControlManager } from '../src/controls/ControlManager';
+import { ValueControlIntent } from '../src/intents/ValueControlIntent';
+import { Logger } from '../src/logging/Logger';
+import { ControlHandler } from '../src/runtime/ControlHandler';
+import { TurnTrace } from '../src/runtime/TurnTrace';
+import { SpanTurnTraceSink, TurnTraceSpan } from '../src/runtime/TurnTraceSink';
+import { SkillInvoker } from '../src/utils/testSupport/SkillInvoker';
+import { TestInput, testTurn, waitForDebugger } from '../src/utils/testSupport/TestingUtils';
+
+waitForDebugger();
+
+suite('Turn traces', () => {
+    class LoginControlManager extends ControlManager {
+        createControlTree(): Control {
+            return new ContainerControl({ id: 'root' })
+                .addChild(
+                    new ValueControl({
+                        id: 'userName',
+                        slotType: 'LOGIN.name',
+                        prompts: { valueSet: '' },
+                    }),
+                )
+                .addChild(
+                    new ValueControl({
+                        id: 'city',
+                        slotType: 'LOGIN.city',
+                        prompts: { requestValue: 'Which city?' },
+                    }),
+                );
+        }
+    }
+
+    const nameInput = () => TestInput.of(ValueControlIntent.of('LOGIN.name', { 'LOGIN.name': 'Amazon' }));
+
+    test('trace records decisions, acts, state changes and timings', async () => {
+        const traces: TurnTrace[] = [];
+        const requestHandler = new ControlHandler(new LoginControlManager()).addTraceSink({
+            export: (trace) => {
+                traces.push(trace);
+            },
+        });
+        await testTurn(new SkillInvoker(requestHandler), 'U: Amazon', nameInput(), 'A: Which city?');
+
+        expect(traces.length).equals(1);
+        const trace = traces[0];
+        expect(trace.turnNumber).equals(1);
+        expect(trace.canHandleAnswers).deep.equals({ root: true, userName: true, city: false });
+        expect(trace.canTakeInitiativeAnswers).deep.equals({ root: true, userName: false, city: true });
+        expect(trace.handlingChain).deep.equals(['root', 'userName']);
+        expect(trace.initiativeChain).deep.equals(['root', 'city']);
+        expect(trace.inputHandlers.userName).equals('isBareValue (built-in)');
+        expect(trace.initiativeHandlers.city).equals('elicitValue');
+        expect(trace.arbitrations.map((record) => `${record.phase}:${record.winner}`)).deep.equals([
+            'canHandle:userName',
+            'canTakeInitiative:city',
+        ]);
+        expect(trace.acts.map((act) => `${act.name}:${act.controlId}`)).deep.equals([
+            'ValueSetAct:userName',
+            'RequestValueAct:city',
+        ]);
+        expect(trace.stateDiff.userName.after.value).equals('Amazon');
+        expect(Object.keys(trace.stateDiff).sort()).deep.equals(['city', 'root', 'userName']);
+        expect(trace.phases.map((phase) => phase.name)).deep.equals(['handle', 'initiative', 'render']);
+        expect(trace.endTime).gte(trace.startTime);
+    });
+
+    test('a turn whose canHandle throws is traced with the error', async () => {
+        class FailingControlManager extends LoginControlManager {
+            createControlTree(): Control {
+                const root = super.createControlTree();
+                root.canHandle = () => {
+                    throw new Error('canHandle failed');
+                };
+                return root;
+            }
+        }
+        const traces: TurnTrace[] = [];
+        const requestHandler = new ControlHandler(new FailingControlManager()).addTraceSink({
+            export: (trace) => {
+                traces.push(trace);
+            },
+        });
+        sinon.stub(Logger.prototype, 'error');
+        try {
+            const invoker = new SkillInvoker(requestHandler);
+            await invoker.invoke(nameInput());
+        } finally {
+            sinon.restore();
+        }
+
+        expect(traces.length).equals(1);
+        expect(traces[0].error).equals('canHandle failed');
+    });
+
+    test('span sink produces a turn span with a child span per phase', async () => {
+        const spans: TurnTraceSpan[] = [];
+        const requestHandler = new ControlHandler(new LoginControlManager()).addTraceSink(
+            new SpanTurnTraceSink((turnSpans) => {
+                spans.push(...turnSpans);
+            }),
+        );
+        await testTurn(new SkillInvoker(requestHandler), 'U: Amazon', nameInput(), 'A: Which city?');
+
+        expect(spans.map((span) => span.name)).deep.equals(['turn', 'handle', 'initiative', 'render']);
+        expect(spans[0].attributes['controls.handling_chain']).equals('root > userName');
+        for (const span of spans.slice(1)) {
+            expect(span.traceId).equals(spans[0].traceId);
+            expect(span.parentSpanId).equals(spans[0].spanId);
+        }
+    });
+});
@@ -0,0 +1,99 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { suite, test } from 'mocha';
+import { ContainerControl, ValueControl } from '../src';
+import { Strings as $ } from '../src/constants/Strings';
+import { Control } from '../src/controls/Control';
+import { ControlManager } from '../src/controls/ControlManager';
+import { GeneralControlIntent } from '../src/intents/GeneralControlIntent';
+import { ValueControlIntent } from '../src/intents/ValueControlIntent';
+import { ControlHandler } from '../src/runtime/ControlHandler';
+import { SkillInvoker } from '../src/utils/testSupport/SkillInvoker';
+import { wrapRequestHandlerAsSkill } from '../src/utils/testSupport/SkillWrapper';
+import { testE2E, TestInput, testTurn, waitForDebugger } from '../src/utils/testSupport/TestingUtils';
+
+waitForDebugger();
+
+suite('ControlHandler undo', () => {
+    class ProfileControlManager extends ControlManager {
+        createControlTree(): Control {
+            return new ContainerControl({ id: 'root' })
+                .addChild(
+                    new ValueControl({
+                        id: 'userName',
+                        slotType: 'NAME',
+                        prompts: { requestValue: 'What is your name?' },
+                    }),
+                )
+                .addChild(
+                    new ValueControl({
+                        id: 'city',
+                        slotType: 'CITY',
+                        prompts: { requestValue: 'Which city?' },
+                    }),
+                );
+        }
+    }
+
+    const undo = () => TestInput.of(GeneralControlIntent.of({ action: $.Action.GoBack }));
+
+    test('each undo reverts one turn', async () => {
+        const requestHandler = new ControlHandler(new ProfileControlManager());
+        requestHandler.undoStackSize = 2;
+        await testE2E(requestHandler, [
+            'U: Bob',
+            TestInput.of(ValueControlIntent.of('NAME', { NAME: 'Bob' })),
+            'A: OK, Bob. Which city?',
+            'U: Paris',
+            TestInput.of(ValueControlIntent.of('CITY', { CITY: 'Paris' })),
+            'A: OK, Paris.',
+            'U: Undo',
+            undo(),
+            'A: OK, I undid that. Which city?',
+            'U: Undo',
+            undo(),
+            'A: OK, I undid that. What is your name?',
+        ]);
+    });
+
+    test('only the states of the changed controls are kept', async () => {
+        const requestHandler = new ControlHandler(new ProfileControlManager());
+        requestHandler.undoStackSize = 2;
+        const invoker = new SkillInvoker(wrapRequestHandlerAsSkill(requestHandler));
+        await invoker.invoke(TestInput.of(ValueControlIntent.of('NAME', { NAME: 'Bob' })));
+        const response = await invoker.invoke(TestInput.of(ValueControlIntent.of('CITY', { CITY: 'Paris' })));
+        const context = JSON.parse(
+            response.responseEnvelope.sessionAttributes![ControlHandler.attributeNameContext],
+        );
+        expect(context.undoStack).length(2);
+        expect(context.undoStack[0].userName).equals(null);
+        expect(context.undoStack[1]).not.have.property('userName');
+        expect(context.undoStack[1].city.value).equals(undefined);
+    });
+
+    test('undo is disabled by default', async () => {
+        const invoker = new SkillInvoker(
+            wrapRequestHandlerAsSkill(new ControlHandler(new ProfileControlManager())),
+        );
+        await testTurn(
+            invoker,
+            'U: Bob',
+            TestInput.of(ValueControlIntent.of('NAME', { NAME: 'Bob' })),
+            'A: OK, Bob. Which city?',
+        );
+        const response = await invoker.invoke(undo());
+        expect(response.prompt).not.contains('undid');
+    });
+});
@@ -13,6 +13,7 @@
 
 import { ResponseFactory } from 'ask-sdk-core';
 import { expect } from 'chai';
+import { Resource } from 'i18next';
 import { suite, test } from 'mocha';
 import { ActiveAPLInitiativeAct, ControlResponseBuilder, GeneralControlIntent } from '../../src';
 import { QuestionnaireControl } from '../../src/commonControls/questionnaireControl/QuestionnaireControl';
@@ -39,6 +40,7 @@ waitForDebugger();
 suite('QuestionnaireControl e2e tests', () => {
     interface TestProps {
         confirmationRequired: boolean;
+        i18nResources?: Resource;
     }
 
     function createControlManager(props: TestProps): ControlManager {
@@ -89,7 +91,7 @@ suite('QuestionnaireControl e2e tests', () => {
                     },
                 });
             }
-        })();
+        })({ i18nResources: props.i18nResources, initGlobalI18n: props.i18nResources === undefined });
     }
 
     test('basics, confirmation=false', async () => {
@@ -142,6 +144,41 @@ suite('QuestionnaireControl e2e tests', () => {
         );
     });
 
+    test('the answers can be summarized when asking if complete', async () => {
+        const requestHandler = new ControlHandler(
+            createControlManager({
+                confirmationRequired: true,
+                i18nResources: {
+                    en: {
+                        translation: {
+                            QUESTIONNAIRE_CONTROL_DEFAULT_PROMPT_ASK_IF_COMPLETE:
+                                'You said {{answers}}. Are you happy with all answers?',
+                        },
+                    },
+                },
+            }),
+        );
+        const invoker = new SkillInvoker(requestHandler);
+        await testTurn(
+            invoker,
+            'U: __',
+            TestInput.of(GeneralControlIntent.of({ action: Strings.Action.Start })),
+            'A: Do you frequently have a headache?',
+        );
+        await testTurn(
+            invoker,
+            'U: yes',
+            TestInput.of(IntentBuilder.of('AMAZON.YesIntent')),
+            'A: Have you been coughing a lot?',
+        );
+        await testTurn(
+            invoker,
+            'U: no',
+            TestInput.of(IntentBuilder.of('AMAZON.NoIntent')),
+            'A: You said yes for headache and no for cough. Are you happy with all answers?',
+        );
+    });
+
     /**
      * User presses a radio button to answer an arbitrary question.
      * 1. state is updates
@@ -0,0 +1,146 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { v1 } from 'ask-smapi-model';
+import { expect } from 'chai';
+import i18next from 'i18next';
+import { suite, test } from 'mocha';
+import sinon from 'sinon';
+import {
+    ContainerControl,
+    Control,
+    ControlManager,
+    DateRangeControl,
+    defaultI18nResources,
+    ListControl,
+    NumberControl,
+} from '../../src';
+import { ControlInteractionModelGenerator } from '../../src/interactionModelGeneration/ControlInteractionModelGenerator';
+import { Logger } from '../../src/logging/Logger';
+import { TestInput } from '../../src/utils/testSupport/TestingUtils';
+
+import InteractionModelData = v1.skill.interactionModel.InteractionModelData;
+
+class AllIntentsControlManager extends ControlManager {
+    createControlTree(): Control {
+        return new ContainerControl({ id: 'root' })
+            .addChild(new DateRangeControl({ id: 'dates' }))
+            .addChild(new ListControl({ id: 'fruit', slotType: 'FRUIT', listItemIDs: ['apple'] }))
+            .addChild(new NumberControl({ id: 'count' }));
+    }
+}
+
+function buildModel(locale: string): InteractionModelData {
+    return new ControlInteractionModelGenerator()
+        .addOrMergeSlotTypes({ name: 'FRUIT', values: [{ id: 'apple', name: { value: 'apple' } }] })
+        .buildCoreModelForControls(new AllIntentsControlManager({ locale }))
+        .withInvocationName('test skill')
+        .build();
+}
+
+function placeholders(value: string): string[] {
+    return (value.match(/{{\w+}}/g) ?? []).sort();
+}
+
+suite('Built-in locales', () => {
+    const englishTranslation = defaultI18nResources.en.translation as { [key: string]: any };
+
+    afterEach(() => {
+        sinon.restore();
+    });
+
+    after(async () => {
+        await i18next.changeLanguage('en-US');
+    });
+
+    for (const language of ['de', 'es', 'fr', 'ja']) {
+        test(`${language} defines every key with the same placeholders as en`, () => {
+            const translation = defaultI18nResources[language].translation as { [key: string]: any };
+            for (const [key, value] of Object.entries(englishTranslation)) {
+                expect(translation, key).to.have.property(key);
+                if (typeof value === 'string') {
+                    expect(placeholders(translation[key]), key).deep.equals(placeholders(value));
+                }
+            }
+        });
+    }
+
+    for (const locale of ['de-DE', 'en-GB', 'es-ES', 'fr-FR', 'ja-JP']) {
+        test(`${locale} generates a valid model`, () => {
+            sinon.stub(Logger.prototype, 'warn');
+            const englishLanguageModel = buildModel('en-US').interactionModel!.languageModel!;
+            const languageModel = buildModel(locale).interactionModel!.languageModel!;
+
+            expect(languageModel.intents!.map((x) => x.name)).deep.equals(
+                englishLanguageModel.intents!.map((x) => x.name),
+            );
+            for (const intent of languageModel.intents!.filter((x) => !x.name!.startsWith('AMAZON.'))) {
+                const slotNames = (intent.slots ?? []).map((slot) => slot.name);
+                expect(intent.samples, intent.name).not.empty;
+                expect(new Set(intent.samples).size, intent.name).equals(intent.samples!.length);
+                for (const sample of intent.samples!) {
+                    expect(sample).not.contains('[[');
+                    for (const slot of sample.match(/{[^}]+}/g) ?? []) {
+                        expect(slotNames, `${intent.name}: ${sample}`).contains(slot.slice(1, -1));
+                    }
+                }
+            }
+
+            expect(languageModel.types).not.deep.equals(englishLanguageModel.types);
+            for (const englishSlotType of englishLanguageModel.types!) {
+                const slotType = languageModel.types!.find((x) => x.name === englishSlotType.name)!;
+                expect(slotType, englishSlotType.name).not.undefined;
+                expect(slotType.values!.map((x) => x.id)).deep.equals(
+                    englishSlotType.values!.map((x) => x.id),
+                );
+                for (const value of slotType.values!) {
+                    expect(value.name!.value, value.id).not.empty;
+                }
+            }
+        });
+    }
+
+    test('the model uses the locale of its control manager, not the global i18next instance', () => {
+        sinon.stub(Logger.prototype, 'warn');
+        const germanManager = new AllIntentsControlManager({ locale: 'de-DE' });
+        const language = i18next.language;
+        new AllIntentsControlManager({ locale: 'fr-FR', initGlobalI18n: false });
+        const model = new ControlInteractionModelGenerator()
+            .addOrMergeSlotTypes({ name: 'FRUIT', values: [{ id: 'apple', name: { value: 'apple' } }] })
+            .buildCoreModelForControls(germanManager)
+            .withInvocationName('test skill')
+            .build();
+
+        expect(i18next.language).equals(language);
+        expect(model.interactionModel!.languageModel!.types).deep.equals(
+            buildModel('de-DE').interactionModel!.languageModel!.types,
+        );
+    });
+
+    test('locales render their own prompts', () => {
+        const manager = new AllIntentsControlManager();
+        const render = (locale: string) => {
+            const input = TestInput.of('AMAZON.HelpIntent');
+            input.request.locale = locale;
+            return manager.getI18n(input.handlerInput).t('NON_UNDERSTANDING_ACT_DEFAULT_PROMPT');
+        };
+        expect(['en-US', 'en-GB', 'de-DE', 'fr-CA', 'es-MX', 'ja-JP'].map(render)).deep.equals([
+            "Sorry I didn't understand that.",
+            "Sorry I didn't understand that.",
+            'Das habe ich leider nicht verstanden.',
+            "Désolé, je n'ai pas compris.",
+            'Lo siento, no te he entendido.',
+            'すみません、よくわかりませんでした。',
+        ]);
+    });
+});
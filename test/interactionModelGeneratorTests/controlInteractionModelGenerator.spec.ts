@@ -89,7 +89,7 @@ suite('ControlInteractionModel Generator tests', () => {
 
         test('When locale is not supported, it should use default i18n resources ', () => {
             const interactionModel = new ControlInteractionModelGenerator()
-                .buildCoreModelForControls(new TestControlManager({ locale: 'fr-FR' }))
+                .buildCoreModelForControls(new TestControlManager({ locale: 'pt-BR' }))
                 .withInvocationName(TEST_INVOCATION_NAME)
                 .build();
 
@@ -0,0 +1,122 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { expect } from 'chai';
+import fs from 'fs';
+import { suite, test } from 'mocha';
+import os from 'os';
+import { join } from 'path';
+import {
+    applyInteractionModelTable,
+    InteractionModelGenerator,
+    interactionModelToTable,
+    joinInteractionModelFragments,
+    parseInteractionModelTable,
+    splitInteractionModel,
+} from '../../src';
+
+suite('Interaction model export', () => {
+    const createGenerator = () =>
+        new InteractionModelGenerator()
+            .withInvocationName('fruit shop')
+            .addIntent({
+                name: 'OrderIntent',
+                slots: [{ name: 'fruit', type: 'Fruit' }],
+                samples: ['i want {fruit}', 'order {fruit}, please'],
+            })
+            .addOrMergeSlotType({
+                name: 'Fruit',
+                values: [
+                    { id: 'apple', name: { value: 'apple', synonyms: ['green apple', 'the "big" apple'] } },
+                    { id: 'pear', name: { value: 'pear' } },
+                ],
+            });
+
+    test('samples and slot values are exported as CSV and TSV', () => {
+        const model = createGenerator().build();
+        expect(interactionModelToTable(model)).equals(
+            [
+                'kind,name,id,text',
+                'sample,OrderIntent,,i want {fruit}',
+                'sample,OrderIntent,,"order {fruit}, please"',
+                'value,Fruit,apple,apple',
+                'synonym,Fruit,apple,green apple',
+                'synonym,Fruit,apple,"the ""big"" apple"',
+                'value,Fruit,pear,pear',
+                '',
+            ].join('\n'),
+        );
+        expect(interactionModelToTable(model, 'tsv').split('\n')[2]).equals(
+            'sample\tOrderIntent\t\torder {fruit}, please',
+        );
+        for (const format of ['csv', 'tsv'] as const) {
+            expect(parseInteractionModelTable(interactionModelToTable(model, format), format)[5]).deep.equals(
+                {
+                    kind: 'value',
+                    name: 'Fruit',
+                    id: 'pear',
+                    text: 'pear',
+                },
+            );
+        }
+    });
+
+    test('a reviewed table replaces the samples and values of its intents and slot types', () => {
+        const model = createGenerator().build();
+        const reviewed = [
+            'id,kind,name,text,comment',
+            ',sample,OrderIntent,i would like {fruit},reworded',
+            'apple,value,Fruit,apple,',
+            'apple,synonym,Fruit,red apple,',
+        ].join('\r\n');
+
+        const updated = applyInteractionModelTable(model, reviewed);
+        const languageModel = updated.interactionModel!.languageModel!;
+        expect(languageModel.intents![0].samples).deep.equals(['i would like {fruit}']);
+        expect(languageModel.intents![0].slots).deep.equals([{ name: 'fruit', type: 'Fruit' }]);
+        expect(languageModel.types![0].values).deep.equals([
+            { id: 'apple', name: { value: 'apple', synonyms: ['red apple'] } },
+        ]);
+        expect(model.interactionModel!.languageModel!.intents![0].samples).length(2);
+
+        expect(() => applyInteractionModelTable(model, 'kind,name,id,text\nsample,HelpIntent,,help')).throws(
+            'undefined intent HelpIntent',
+        );
+        expect(() => applyInteractionModelTable(model, 'kind,name,text\nsample,OrderIntent,hi')).throws(
+            'no column id',
+        );
+        expect(() => applyInteractionModelTable(model, 'kind,name,id,text\nsynonym,Fruit,kiwi,')).throws(
+            'Row 2 of the interaction model table is incomplete.',
+        );
+    });
+
+    test('fragments are written per intent and slot type and read back', () => {
+        const model = createGenerator().build();
+        const fragments = splitInteractionModel(model);
+        expect(Object.keys(fragments.intents)).deep.equals(['OrderIntent']);
+        expect(Object.keys(fragments.slotTypes)).deep.equals(['Fruit']);
+        expect(fragments.base.interactionModel!.languageModel!.intents).undefined;
+        expect(joinInteractionModelFragments(fragments)).deep.equals(model);
+
+        const directory = fs.mkdtempSync(join(os.tmpdir(), 'im-'));
+        createGenerator().buildAndWriteFragments(directory);
+        expect(fs.readdirSync(join(directory, 'intents'))).deep.equals(['OrderIntent.json']);
+        expect(new InteractionModelGenerator().loadFromFragments(directory).build()).deep.equals(model);
+
+        const table = join(directory, 'review.tsv');
+        createGenerator().buildAndWriteTable(table);
+        fs.writeFileSync(table, fs.readFileSync(table, 'utf8').replace('i want', 'i need'));
+        const reviewed = createGenerator().loadFromTable(table).build();
+        expect(reviewed.interactionModel!.languageModel!.intents![0].samples![0]).equals('i need {fruit}');
+    });
+});
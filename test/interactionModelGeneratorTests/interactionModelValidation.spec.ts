@@ -0,0 +1,138 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { expect } from 'chai';
+import fs from 'fs';
+import { suite, test } from 'mocha';
+import os from 'os';
+import { join } from 'path';
+import {
+    ContainerControl,
+    Control,
+    ControlManager,
+    DateRangeControl,
+    interactionModelDiagnosticToString,
+    interactionModelDiffToString,
+    InteractionModelGenerator,
+    ListControl,
+    NumberControl,
+} from '../../src';
+import { ControlInteractionModelGenerator } from '../../src/interactionModelGeneration/ControlInteractionModelGenerator';
+
+suite('Interaction model validation and diff', () => {
+    function createGenerator(): InteractionModelGenerator {
+        return new InteractionModelGenerator()
+            .withInvocationName('fruit shop')
+            .addIntent({
+                name: 'OrderIntent',
+                slots: [{ name: 'fruit', type: 'Fruit' }],
+                samples: ['order {fruit}', 'i want {fruit}'],
+            })
+            .addOrMergeSlotTypes({
+                name: 'Fruit',
+                values: [
+                    { id: 'apple', name: { value: 'apple', synonyms: ['apples'] } },
+                    { id: 'pear', name: { value: 'pear' } },
+                ],
+            });
+    }
+
+    test('a valid model has no diagnostics', () => {
+        expect(createGenerator().validate()).deep.equals([]);
+    });
+
+    test('the built-in controls produce a valid model', () => {
+        class FruitControlManager extends ControlManager {
+            createControlTree(): Control {
+                return new ContainerControl({ id: 'root' })
+                    .addChild(new DateRangeControl({ id: 'dates' }))
+                    .addChild(new ListControl({ id: 'fruit', slotType: 'Fruit', listItemIDs: ['apple'] }))
+                    .addChild(new NumberControl({ id: 'count' }));
+            }
+        }
+        const diagnostics = new ControlInteractionModelGenerator()
+            .addOrMergeSlotTypes({ name: 'Fruit', values: [{ id: 'apple', name: { value: 'apple' } }] })
+            .buildCoreModelForControls(new FruitControlManager())
+            .withInvocationName('fruit shop')
+            .validate();
+        expect(
+            diagnostics.filter((x) => x.severity === 'error').map(interactionModelDiagnosticToString),
+        ).deep.equals([]);
+    });
+
+    test('problems are reported with typed diagnostics', () => {
+        const diagnostics = createGenerator()
+            .addIntent({
+                name: 'BuyIntent',
+                slots: [{ name: 'item', type: 'Item' }],
+                samples: ['Order  {fruit}', 'buy {item}', 'buy {item}', 'buy {quantity} {item}'],
+            })
+            .addOrMergeSlotTypes(
+                { name: 'Item', values: [] },
+                {
+                    name: 'Vegetable',
+                    values: [
+                        { id: 'potato', name: { value: 'potato' } },
+                        { id: 'tomato', name: { value: 'tomato', synonyms: ['Potato'] } },
+                    ],
+                },
+            )
+            .validate();
+
+        expect(diagnostics.map((x) => `${x.severity} ${x.code} ${x.intent ?? x.slotType}`)).deep.equals([
+            'error ConflictingSample BuyIntent',
+            'error UndefinedSlotInSample BuyIntent',
+            'warning DuplicateSample BuyIntent',
+            'error UndefinedSlotInSample BuyIntent',
+            'error EmptySlotType Item',
+            'warning DuplicateSlotValue Vegetable',
+        ]);
+        expect(interactionModelDiagnosticToString(diagnostics[0])).equals(
+            "error ConflictingSample: The sample 'Order  {fruit}' of intent BuyIntent is also a sample of intent OrderIntent.",
+        );
+    });
+
+    test('diff against the previous model file', () => {
+        const previousModelFile = join(fs.mkdtempSync(join(os.tmpdir(), 'im-')), 'en-US.json');
+        fs.writeFileSync(previousModelFile, JSON.stringify(createGenerator().build()));
+
+        expect(interactionModelDiffToString(createGenerator().diff(previousModelFile))).equals('No changes.');
+
+        const generator = createGenerator()
+            .addIntent({ name: 'AMAZON.HelpIntent' })
+            .addValuesToSlotType(
+                'Fruit',
+                { id: 'plum', name: { value: 'plum' } },
+                { id: 'apple', name: { value: 'apple', synonyms: ['green apple'] } },
+            );
+        const diff = generator.diff(previousModelFile);
+        expect(diff.addedIntents).deep.equals(['AMAZON.HelpIntent']);
+        expect(diff.changedSlotTypes).deep.equals([
+            { name: 'Fruit', addedValues: ['plum'], removedValues: [], changedValues: ['apple'] },
+        ]);
+        expect(interactionModelDiffToString(diff)).equals(
+            [
+                '### Intents',
+                '- added: AMAZON.HelpIntent',
+                '### Slot types',
+                '- changed: Fruit',
+                '  - added values: plum',
+                '  - changed values: apple',
+            ].join('\n'),
+        );
+
+        expect(createGenerator().diff(join(os.tmpdir(), 'does-not-exist.json')).addedIntents).deep.equals([
+            'OrderIntent',
+        ]);
+    });
+});
@@ -0,0 +1,148 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { suite, test } from 'mocha';
+import {
+    ContainerControl,
+    Control,
+    ControlManager,
+    DateControl,
+    ListControl,
+    ModelData,
+    NumberControl,
+    ValueControl,
+} from '../../src';
+import { ControlInteractionModelGenerator } from '../../src/interactionModelGeneration/ControlInteractionModelGenerator';
+
+suite('Utterance conflicts', () => {
+    class HotelControl extends ValueControl {
+        updateInteractionModel(generator: ControlInteractionModelGenerator, imData: ModelData) {
+            super.updateInteractionModel(generator, imData);
+            generator.addIntent({ name: 'BookHotelIntent', samples: ['Book it', 'book a hotel'] });
+        }
+    }
+
+    class TripControlManager extends ControlManager {
+        createControlTree(): Control {
+            return new ContainerControl({ id: 'trip' })
+                .addChild(
+                    new ValueControl({
+                        id: 'departure',
+                        slotType: 'CITY',
+                        interactionModel: { targets: ['departureCity'] },
+                    }),
+                )
+                .addChild(
+                    new ValueControl({
+                        id: 'arrival',
+                        slotType: 'CITY',
+                        interactionModel: { targets: ['arrivalCity'] },
+                    }),
+                )
+                .addChild(
+                    new HotelControl({
+                        id: 'hotel',
+                        slotType: 'CITY',
+                        interactionModel: { targets: ['arrivalCity'] },
+                    }),
+                );
+        }
+    }
+
+    function createGenerator(): ControlInteractionModelGenerator {
+        return new ControlInteractionModelGenerator()
+            .addOrMergeSlotTypes({ name: 'CITY', values: [{ id: 'paris', name: { value: 'paris' } }] })
+            .addOrMergeSlotTypes({
+                name: 'target',
+                values: [
+                    { id: 'departureCity', name: { value: 'departure city', synonyms: ['city', 'origin'] } },
+                    { id: 'arrivalCity', name: { value: 'arrival city', synonyms: ['City', 'destination'] } },
+                ],
+            })
+            .addIntent({ name: 'BookingIntent', samples: ['book it'] })
+            .buildCoreModelForControls(new TripControlManager())
+            .withInvocationName('trip planner');
+    }
+
+    test('contributions are attributed to controls', () => {
+        const generator = createGenerator();
+        expect(generator.controlContributions.intents.BookHotelIntent).deep.equals(['hotel']);
+        expect(generator.controlContributions.intents.CITY_ValueControlIntent).deep.equals([
+            'departure',
+            'arrival',
+            'hotel',
+        ]);
+        expect(generator.controlContributions.intents.BookingIntent).undefined;
+        expect(generator.controlContributions.slotValues.target.arrivalCity).deep.equals([
+            'arrival',
+            'hotel',
+        ]);
+        expect(generator.contributingControlId).undefined;
+    });
+
+    test('collisions and identical samples are reported', () => {
+        const conflicts = createGenerator().findUtteranceConflicts();
+        expect(conflicts.map((x) => x.message)).deep.equals([
+            "'city' is a synonym of target values departureCity, arrivalCity used by controls arrival, departure, hotel.",
+            'Target arrivalCity is used by controls arrival, hotel.',
+            "'book it' is a sample of intents BookingIntent, BookHotelIntent used by controls hotel.",
+        ]);
+        expect(conflicts[0]).deep.include({
+            kind: 'SynonymCollision',
+            phrase: 'city',
+            slotType: 'target',
+            slotValueIds: ['departureCity', 'arrivalCity'],
+        });
+        expect(conflicts[2]).deep.include({
+            kind: 'IdenticalSample',
+            intents: ['BookingIntent', 'BookHotelIntent'],
+            controlIds: ['hotel'],
+        });
+    });
+
+    test('identical samples with differently named slots of the same type are reported', () => {
+        const conflicts = createGenerator()
+            .addIntent({
+                name: 'FlyToIntent',
+                slots: [{ name: 'DESTINATION', type: 'CITY' }],
+                samples: ['fly to {DESTINATION}'],
+            })
+            .addIntent({
+                name: 'TravelToIntent',
+                slots: [{ name: 'ArrivalCity', type: 'CITY' }],
+                samples: ['Fly to {ArrivalCity}'],
+            })
+            .findUtteranceConflicts();
+        expect(conflicts.map((x) => x.message)).includes(
+            "'fly to {DESTINATION}' is a sample of intents FlyToIntent, TravelToIntent.",
+        );
+    });
+
+    test('the built-in controls do not conflict', () => {
+        class BuiltInControlManager extends ControlManager {
+            createControlTree(): Control {
+                return new ContainerControl({ id: 'root' })
+                    .addChild(new DateControl({ id: 'date' }))
+                    .addChild(new ListControl({ id: 'fruit', slotType: 'Fruit', listItemIDs: ['apple'] }))
+                    .addChild(new NumberControl({ id: 'count' }));
+            }
+        }
+        const conflicts = new ControlInteractionModelGenerator()
+            .addOrMergeSlotTypes({ name: 'Fruit', values: [{ id: 'apple', name: { value: 'apple' } }] })
+            .buildCoreModelForControls(new BuiltInControlManager())
+            .withInvocationName('fruit shop')
+            .findUtteranceConflicts();
+        expect(conflicts.map((x) => x.message)).deep.equals([]);
+    });
+});
@@ -0,0 +1,126 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { suite, test } from 'mocha';
+import { ContainerControl, Control, ControlManager, UtteranceGenerator, ValueControl } from '../../src';
+import { ControlInteractionModelGenerator } from '../../src/interactionModelGeneration/ControlInteractionModelGenerator';
+
+suite('Utterance generator', () => {
+    const slotTypes = [
+        {
+            name: 'head',
+            values: [{ id: 'head', name: { value: 'head', synonyms: ['I want', 'just', 'please'] } }],
+        },
+        {
+            name: 'preposition',
+            values: [{ id: 'preposition', name: { value: 'preposition', synonyms: ['to', 'the'] } }],
+        },
+    ];
+
+    test('carrier slots are expanded into literal phrases', () => {
+        const generator = new UtteranceGenerator({ maxPhrasesPerSlot: 2 });
+        expect(generator.expandSamples(['{CITY}', '{head} {preposition} {CITY}'], slotTypes)).deep.equals([
+            '{CITY}',
+            '{head} {preposition} {CITY}',
+            '{head} to {CITY}',
+            '{head} the {CITY}',
+            'I want {preposition} {CITY}',
+            'I want to {CITY}',
+            'I want the {CITY}',
+            'just {preposition} {CITY}',
+            'just to {CITY}',
+            'just the {CITY}',
+        ]);
+    });
+
+    test('samples are capped and picked from every template', () => {
+        const templates = ['{head} {CITY}', '{preposition} {CITY}', '{CITY} {head}'];
+        const samples = new UtteranceGenerator({ maxSamplesPerIntent: 5 }).expandSamples(
+            templates,
+            slotTypes,
+        );
+        expect(samples).deep.equals([
+            '{head} {CITY}',
+            '{preposition} {CITY}',
+            '{CITY} {head}',
+            'I want {CITY}',
+            'to {CITY}',
+        ]);
+
+        const seeded = new UtteranceGenerator({ maxSamplesPerIntent: 5, seed: 42 });
+        expect(seeded.expandSamples(templates, slotTypes)).deep.equals(
+            seeded.expandSamples(templates, slotTypes),
+        );
+        expect(seeded.expandSamples(templates, slotTypes).slice(0, 3)).deep.equals(templates);
+    });
+
+    test('duplicate templates are dropped when picking at random', () => {
+        const generator = new UtteranceGenerator({ seed: 1 });
+        expect(generator.expandSamples(['{CITY}', '{CITY}', '{head} {CITY}'], slotTypes)).deep.equals([
+            '{CITY}',
+            '{head} {CITY}',
+            'please {CITY}',
+            'I want {CITY}',
+            'just {CITY}',
+        ]);
+    });
+
+    test('value control intents and custom targets are generated from control props', () => {
+        class TripControlManager extends ControlManager {
+            createControlTree(): Control {
+                return new ContainerControl({ id: 'trip' }).addChild(
+                    new ValueControl({
+                        id: 'departure',
+                        slotType: 'CITY',
+                        interactionModel: { targets: ['departureCity'], actions: { set: ['leaveFrom'] } },
+                    }),
+                );
+            }
+        }
+        const model = new ControlInteractionModelGenerator()
+            .addOrMergeSlotTypes({ name: 'CITY', values: [{ id: 'paris', name: { value: 'paris' } }] })
+            .withUtteranceGenerator(new UtteranceGenerator({ maxPhrasesPerSlot: 1 }))
+            .buildCoreModelForControls(new TripControlManager())
+            .withInvocationName('trip planner')
+            .build();
+
+        const languageModel = model.interactionModel!.languageModel!;
+        const intent = languageModel.intents!.find((x) => x.name === 'CITY_ValueControlIntent')!;
+        expect(intent.samples).includes('{action} {target} {preposition} {CITY}');
+        expect(intent.samples).includes('{action} {target} the {CITY}');
+        expect(intent.samples).includes('{action} {target} the {CITY} please');
+        const valueOf = (slotType: string, id: string) =>
+            languageModel.types!.find((x) => x.name === slotType)!.values!.find((x) => x.id === id)?.name
+                ?.value;
+        expect(valueOf('target', 'departureCity')).equals('departure city');
+        expect(valueOf('action', 'leaveFrom')).equals('leave from');
+    });
+
+    test('without a generator, undefined targets are an error', () => {
+        class TripControlManager extends ControlManager {
+            createControlTree(): Control {
+                return new ValueControl({
+                    id: 'departure',
+                    slotType: 'CITY',
+                    interactionModel: { targets: ['departureCity'] },
+                });
+            }
+        }
+        expect(() =>
+            new ControlInteractionModelGenerator()
+                .addOrMergeSlotTypes({ name: 'CITY', values: [{ id: 'paris', name: { value: 'paris' } }] })
+                .buildCoreModelForControls(new TripControlManager()),
+        ).throws('requires slot type target to contain value departureCity');
+    });
+});
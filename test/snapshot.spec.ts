@@ -0,0 +1,145 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { expect } from 'chai';
+import fs from 'fs';
+import { suite, test } from 'mocha';
+import os from 'os';
+import { join } from 'path';
+import {
+    Control,
+    ControlHandler,
+    ControlManager,
+    expectToMatchSnapshot,
+    GeneralControlIntent,
+    ListControl,
+    NumberControl,
+    SnapshotTester,
+    TestInput,
+    ValueControlIntent,
+} from '../src';
+import { MultiValueListControl } from '../src/commonControls/multiValueListControl/MultiValueListControl';
+import { Strings as $ } from '../src/constants/Strings';
+
+suite('Snapshots', () => {
+    test('snapshots are recorded, compared and updated', () => {
+        const snapshotPath = join(
+            fs.mkdtempSync(join(os.tmpdir(), 'snapshot-')),
+            '__snapshots__',
+            'x.snap.json',
+        );
+        const value = { prompt: 'What is your name?', items: ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i'] };
+
+        expectToMatchSnapshot(value, snapshotPath, 'first', { update: true });
+        expect(JSON.parse(fs.readFileSync(snapshotPath, 'utf8'))).deep.equals({ first: value });
+        expectToMatchSnapshot(value, snapshotPath, 'first', { update: false });
+
+        const changed = { ...value, items: ['a', 'b', 'c', 'd', 'e', 'f', 'G', 'h', 'i'] };
+        expect(() => expectToMatchSnapshot(changed, snapshotPath, 'first', { update: false })).throws(
+            [
+                `Snapshot 'first' in ${snapshotPath} does not match (- snapshot, + actual). Run with UPDATE_SNAPSHOTS=1 to update it.`,
+                '  ...',
+                '      "d",',
+                '      "e",',
+                '      "f",',
+                '-     "g",',
+                '+     "G",',
+                '      "h",',
+                '      "i"',
+                '    ]',
+            ].join('\n'),
+        );
+
+        expectToMatchSnapshot(changed, snapshotPath, 'first', { update: true });
+        expectToMatchSnapshot(changed, snapshotPath, 'first', { update: false });
+    });
+
+    test('missing snapshots are only recorded outside CI', () => {
+        const snapshotPath = join(fs.mkdtempSync(join(os.tmpdir(), 'snapshot-')), 'x.snap.json');
+        const ci = process.env.CI;
+        try {
+            process.env.CI = '1';
+            expect(() => expectToMatchSnapshot({ a: 1 }, snapshotPath, 'first', { update: false })).throws(
+                `Snapshot 'first' is missing in ${snapshotPath}. Missing snapshots are not recorded when CI is set; run with UPDATE_SNAPSHOTS=1 to record it.`,
+            );
+            expect(fs.existsSync(snapshotPath)).false;
+
+            delete process.env.CI;
+            expectToMatchSnapshot({ a: 1 }, snapshotPath, 'first', { update: false });
+            expect(JSON.parse(fs.readFileSync(snapshotPath, 'utf8'))).deep.equals({ first: { a: 1 } });
+        } finally {
+            if (ci === undefined) {
+                delete process.env.CI;
+            } else {
+                process.env.CI = ci;
+            }
+        }
+    });
+
+    test('undefined values are rejected', () => {
+        const snapshotPath = join(fs.mkdtempSync(join(os.tmpdir(), 'snapshot-')), 'x.snap.json');
+        expect(() => expectToMatchSnapshot(undefined, snapshotPath, 'first', { update: true })).throws(
+            "Snapshot 'first' cannot be compared: the value is undefined or cannot be represented as JSON.",
+        );
+    });
+
+    suite('APL documents', () => {
+        const snapshotPath = join(__dirname, '__snapshots__', 'snapshot.spec.snap.json');
+
+        const testControl = async (
+            name: string,
+            createControl: () => Control,
+            input = TestInput.of(GeneralControlIntent.of({ action: $.Action.Set })),
+        ) => {
+            class SnapshotControlManager extends ControlManager {
+                createControlTree(): Control {
+                    return createControl();
+                }
+            }
+            const tester = new SnapshotTester(new ControlHandler(new SnapshotControlManager()), snapshotPath);
+            const response = await tester.testTurn(name, input);
+            expect(response.directive!.map((directive) => directive.type)).includes(
+                'Alexa.Presentation.APL.RenderDocument',
+            );
+        };
+
+        test('ListControl', async () => {
+            await testControl(
+                'ListControl requests a value',
+                () =>
+                    new ListControl({
+                        id: 'fruit',
+                        slotType: 'Fruit',
+                        listItemIDs: ['apple', 'banana', 'cherry'],
+                    }),
+            );
+        });
+
+        test('MultiValueListControl', async () => {
+            await testControl(
+                'MultiValueListControl adds a value',
+                () =>
+                    new MultiValueListControl({
+                        id: 'fruits',
+                        slotType: 'Fruit',
+                        listItemIDs: ['apple', 'banana', 'cherry'],
+                    }),
+                TestInput.of(ValueControlIntent.of('Fruit', { Fruit: 'apple', action: $.Action.Add })),
+            );
+        });
+
+        test('NumberControl', async () => {
+            await testControl('NumberControl requests a value', () => new NumberControl({ id: 'count' }));
+        });
+    });
+});
@@ -0,0 +1,118 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { suite, test } from 'mocha';
+import {
+    ContainerControl,
+    Control,
+    ControlHandler,
+    ControlInteractionModelGenerator,
+    ControlManager,
+    ControlRepl,
+    NluSimulator,
+    parseDialogScript,
+    runDialogScript,
+    ValueControl,
+} from '../../src';
+import { ControlInput } from '../../src/controls/ControlInput';
+import { ControlResultBuilder } from '../../src/controls/ControlResult';
+import { LiteralInitiativeAct } from '../../src/systemActs/InitiativeActs';
+
+suite('ControlRepl', () => {
+    class LoginControlManager extends ControlManager {
+        createControlTree(): Control {
+            return new ValueControl({ id: 'userName', slotType: 'LOGIN.name', confirmationRequired: true });
+        }
+    }
+
+    test('typed intents show the response, the tree and the acts, and can be undone', async () => {
+        const repl = new ControlRepl(new LoginControlManager());
+
+        const output = await repl.execute('Alexa => LOGIN_name_ValueControlIntent LOGIN.name=Alexa');
+        expect(output).contains('A: OK, Alexa. Was that Alexa?');
+        expect(output).contains('Acts: ValueSetAct, ConfirmValueAct');
+        expect(output).contains('userName');
+        expect(JSON.parse(await repl.execute(':state')).userName.value).equals('Alexa');
+
+        await repl.execute('no => AMAZON.NoIntent');
+        expect(await repl.execute(':undo')).equals('Reverted the last turn.');
+        expect(await repl.execute('yes please => AMAZON.YesIntent')).contains('A: Great.');
+        expect(JSON.parse(await repl.execute(':state')).userName.isValueConfirmed).equals(true);
+
+        const transcript = repl.getTranscript();
+        expect(transcript).not.contains('AMAZON.NoIntent');
+        await runDialogScript(
+            new ControlHandler(new LoginControlManager()),
+            parseDialogScript(transcript, 'transcript'),
+        );
+    });
+
+    test('text is recognized with the simulator', async () => {
+        const model = new ControlInteractionModelGenerator()
+            .addOrMergeSlotTypes({ name: 'LOGIN.name', values: [{ id: 'alexa', name: { value: 'Alexa' } }] })
+            .buildCoreModelForControls(new LoginControlManager())
+            .build();
+        const repl = new ControlRepl(new LoginControlManager(), { simulator: new NluSimulator(model) });
+
+        expect(await repl.execute('Alexa')).contains('A: OK, alexa. Was that alexa?');
+        expect(await repl.execute(':save transcript /nonexistent/dir/x.dialog')).contains(
+            'The transcript could not be saved: ENOENT',
+        );
+        expect(await repl.execute(':unknown')).equals(
+            'Unknown command :unknown. Enter :help for the commands.',
+        );
+        expect(await new ControlRepl(new LoginControlManager()).execute('Alexa')).contains(
+            'Text cannot be recognized without an interaction model.',
+        );
+    });
+
+    test('unhandled turns are not recorded', async () => {
+        const repl = new ControlRepl(new LoginControlManager());
+
+        expect(await repl.execute('hello => HelloIntent')).equals('(not handled)');
+        expect(await repl.execute(':undo')).equals('Nothing to undo.');
+        expect(repl.getTranscript()).not.contains('HelloIntent');
+    });
+
+    test('the state is cleared when the session ends', async () => {
+        class CheckoutControl extends Control {
+            canHandle(input: ControlInput): boolean {
+                return false;
+            }
+
+            handle(input: ControlInput, resultBuilder: ControlResultBuilder): void {}
+
+            canTakeInitiative(input: ControlInput): boolean {
+                return true;
+            }
+
+            takeInitiative(input: ControlInput, resultBuilder: ControlResultBuilder): void {
+                resultBuilder.addAct(new LiteralInitiativeAct(this, { promptFragment: 'Welcome.' }));
+                resultBuilder.endSession();
+            }
+        }
+        class CheckoutControlManager extends ControlManager {
+            createControlTree(): Control {
+                return new ContainerControl({ id: 'root' })
+                    .addChild(new ValueControl({ id: 'userName', slotType: 'LOGIN.name' }))
+                    .addChild(new CheckoutControl('checkout'));
+            }
+        }
+        const repl = new ControlRepl(new CheckoutControlManager());
+
+        const output = await repl.execute('Alexa => LOGIN_name_ValueControlIntent LOGIN.name=Alexa');
+        expect(output).contains('(The session ended. Enter __ to start a new one.)');
+        expect(JSON.parse(await repl.execute(':state'))).deep.equals({});
+    });
+});
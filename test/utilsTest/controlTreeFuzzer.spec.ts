@@ -0,0 +1,132 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { suite, test } from 'mocha';
+import {
+    ContainerControl,
+    Control,
+    ControlInput,
+    ControlManager,
+    ControlResultBuilder,
+    fuzzControlTree,
+    fuzzFailureToString,
+    ListControl,
+    LiteralContentAct,
+    LiteralInitiativeAct,
+    ValueControl,
+} from '../../src';
+
+suite('ControlTreeFuzzer', () => {
+    const fruitSlotType = {
+        name: 'Fruit',
+        values: [
+            { id: 'apple', name: { value: 'apple' } },
+            { id: 'banana', name: { value: 'banana' } },
+        ],
+    };
+
+    test('a tree that ends the session when it has nothing to ask keeps the invariants', async () => {
+        class CheckoutControl extends Control {
+            canHandle(input: ControlInput): boolean {
+                return false;
+            }
+
+            handle(input: ControlInput, resultBuilder: ControlResultBuilder): void {}
+
+            canTakeInitiative(input: ControlInput): boolean {
+                return true;
+            }
+
+            takeInitiative(input: ControlInput, resultBuilder: ControlResultBuilder): void {
+                resultBuilder.addAct(
+                    new LiteralInitiativeAct(this, { promptFragment: 'Your order is placed.' }),
+                );
+                resultBuilder.endSession();
+            }
+        }
+        class OrderControlManager extends ControlManager {
+            createControlTree(): Control {
+                return new ContainerControl({ id: 'root' })
+                    .addChild(
+                        new ValueControl({ id: 'fruit', slotType: 'Fruit', confirmationRequired: true }),
+                    )
+                    .addChild(new CheckoutControl('checkout'));
+            }
+        }
+
+        const report = await fuzzControlTree(new OrderControlManager(), {
+            runs: 10,
+            slotTypes: [fruitSlotType],
+        });
+
+        expect(report.failures.map(fuzzFailureToString)).deep.equals([]);
+        expect(report.turns).greaterThan(report.runs);
+        expect(report.unhandledTurns).lessThan(report.turns);
+    });
+
+    test('touch events on items that are not listed are reported with a reproducible seed', async () => {
+        class FruitControlManager extends ControlManager {
+            createControlTree(): Control {
+                return new ListControl({ id: 'fruit', slotType: 'Fruit', listItemIDs: ['apple', 'banana'] });
+            }
+        }
+        const options = { runs: 10, touchEventProbability: 0.5, slotTypes: [fruitSlotType] };
+
+        const report = await fuzzControlTree(new FruitControlManager(), options);
+
+        expect(report.failures.length).greaterThan(0);
+        const failure = report.failures[0];
+        expect(failure.invariant).equals('Exception');
+        expect(failure.message).contains('APL Ordinal out of range');
+        expect(fuzzFailureToString(failure)).contains('APL.UserEvent: ["fruit",');
+
+        const rerun = await fuzzControlTree(new FruitControlManager(), {
+            ...options,
+            seed: failure.seed,
+            runs: 1,
+        });
+        expect(rerun.failures.map((x) => x.inputs)).deep.equals([failure.inputs]);
+    });
+
+    test('a control that answers without asking anything fails NoInitiative', async () => {
+        class EchoControl extends Control {
+            canHandle(input: ControlInput): boolean {
+                return true;
+            }
+
+            handle(input: ControlInput, resultBuilder: ControlResultBuilder): void {
+                resultBuilder.addAct(new LiteralContentAct(this, { promptFragment: 'OK.' }));
+            }
+
+            canTakeInitiative(input: ControlInput): boolean {
+                return false;
+            }
+
+            takeInitiative(input: ControlInput, resultBuilder: ControlResultBuilder): void {}
+        }
+        class EchoControlManager extends ControlManager {
+            createControlTree(): Control {
+                return new EchoControl('echo');
+            }
+        }
+
+        const report = await fuzzControlTree(new EchoControlManager(), { runs: 2 });
+
+        expect(report.failures.map((x) => [x.invariant, x.turn])).deep.equals([
+            ['NoInitiative', 0],
+            ['NoInitiative', 0],
+        ]);
+        expect(report.failures[0].inputs).deep.equals(['LaunchRequest']);
+    });
+});
@@ -0,0 +1,115 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { suite, test } from 'mocha';
+import sinon from 'sinon';
+import {
+    Control,
+    ControlManager,
+    conversationGraphToDot,
+    conversationGraphToMermaid,
+    exploreConversationGraph,
+    InputUtil,
+    ValueControl,
+} from '../../src';
+import { Logger } from '../../src/logging/Logger';
+
+suite('ConversationGraph', () => {
+    class LoginControlManager extends ControlManager {
+        createControlTree(): Control {
+            return new ValueControl({ id: 'userName', slotType: 'LOGIN.name', confirmationRequired: true });
+        }
+    }
+    const slotTypes = [{ name: 'LOGIN.name', values: [{ id: 'Alexa', name: { value: 'Alexa' } }] }];
+
+    test('states and transitions are found by simulated input', async () => {
+        const graph = await exploreConversationGraph(new LoginControlManager(), { slotTypes });
+
+        const bareValue = graph.transitions.find(
+            (x) => x.from === 'Start' && x.inputs.includes('LOGIN_name_ValueControlIntent(LOGIN.name=Alexa)'),
+        )!;
+        expect(bareValue.handlers).deep.equals(['userName: isBareValue (built-in)']);
+        expect(bareValue.acts).deep.equals(['ValueSetAct', 'ConfirmValueAct']);
+
+        const valueSet = graph.states.find((x) => x.id === bareValue.to)!;
+        expect(valueSet.label).equals('userName: Alexa[eliciting, builtin_set]');
+        expect(valueSet.stateMap.userName.isValueConfirmed).equals(false);
+
+        const yes = graph.transitions.find(
+            (x) => x.from === valueSet.id && x.inputs.includes('AMAZON.YesIntent'),
+        )!;
+        expect(yes.acts).deep.equals(['ValueConfirmedAct']);
+        expect(graph.states.find((x) => x.id === yes.to)!.stateMap.userName.isValueConfirmed).equals(true);
+
+        // Inputs that the control does not handle, such as the launch request, are left out
+        expect(graph.transitions.some((x) => x.inputs.includes('LaunchRequest'))).equals(false);
+    });
+
+    test('the exploration is limited by maxStates', async () => {
+        const graph = await exploreConversationGraph(new LoginControlManager(), { slotTypes, maxStates: 3 });
+
+        expect(graph.states.map((x) => x.id)).deep.equals(['Start', 'S0', 'S1']);
+        expect(graph.transitions.every((x) => ['Start', 'S0', 'S1'].includes(x.to))).equals(true);
+    });
+
+    test('inputs whose canHandle throws lead to the Error state', async () => {
+        class FailingControlManager extends LoginControlManager {
+            createControlTree(): Control {
+                const control = super.createControlTree();
+                control.canHandle = async (input) => {
+                    if (InputUtil.isIntent(input, 'AMAZON.YesIntent')) {
+                        throw new Error('canHandle failed');
+                    }
+                    return ValueControl.prototype.canHandle.call(control, input);
+                };
+                return control;
+            }
+        }
+        sinon.stub(Logger.prototype, 'error');
+        try {
+            const graph = await exploreConversationGraph(new FailingControlManager(), { slotTypes });
+
+            const yes = graph.transitions.find((x) => x.inputs.includes('AMAZON.YesIntent'))!;
+            expect(graph.states.find((x) => x.id === yes.to)!.label).equals('Error');
+        } finally {
+            sinon.restore();
+        }
+    });
+
+    test('the exploration is limited by maxDepth', async () => {
+        const graph = await exploreConversationGraph(new LoginControlManager(), { slotTypes, maxDepth: 1 });
+
+        expect(Math.max(...graph.states.map((x) => x.depth))).equals(1);
+    });
+
+    test('graphs are formatted as DOT and Mermaid', async () => {
+        const graph = await exploreConversationGraph(new LoginControlManager(), { slotTypes, maxStates: 2 });
+
+        expect(conversationGraphToDot(graph)).equals(
+            [
+                'digraph conversation {',
+                '    node [shape=box];',
+                '    Start [label="Start", shape=ellipse];',
+                '    S0 [label="S0\\nuserName: Alexa[eliciting, builtin_set]"];',
+                '    Start -> S0 [label="LOGIN_name_ValueControlIntent(LOGIN.name=Alexa)\\nuserName: isBareValue (built-in)\\nValueSetAct, ConfirmValueAct"];',
+                '    Start -> S0 [label="LOGIN_name_ValueControlIntent(action=set, LOGIN.name=Alexa)\\nuserName: SetWithValue (built-in)\\nValueSetAct, ConfirmValueAct"];',
+                '}',
+                '',
+            ].join('\n'),
+        );
+        expect(conversationGraphToMermaid(graph)).contains(
+            '    Start -->|"LOGIN_name_ValueControlIntent(LOGIN.name=Alexa)<br/>userName: isBareValue (built-in)<br/>ValueSetAct, ConfirmValueAct"| S0',
+        );
+    });
+});
@@ -0,0 +1,113 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { suite, test } from 'mocha';
+import {
+    ContainerControl,
+    Control,
+    ControlHandler,
+    ControlManager,
+    DateRangeControl,
+    DialogCoverage,
+    SkillInvoker,
+    TestInput,
+    ValueControl,
+    ValueControlIntent,
+} from '../../src';
+
+suite('DialogCoverage', () => {
+    class LoginControlManager extends ControlManager {
+        createControlTree(): Control {
+            return new ContainerControl({ id: 'root' })
+                .addChild(
+                    new ValueControl({ id: 'userName', slotType: 'CUSTOM.name', confirmationRequired: true }),
+                )
+                .addChild(new ValueControl({ id: 'password', slotType: 'CUSTOM.password' }));
+        }
+    }
+
+    test('records the handlers and acts of the controls that were selected', async () => {
+        const coverage = new DialogCoverage();
+        const invoker = new SkillInvoker(coverage.attach(new ControlHandler(new LoginControlManager())));
+
+        await invoker.invoke(TestInput.of(ValueControlIntent.of('CUSTOM.name', { 'CUSTOM.name': 'Alexa' })));
+        await invoker.invoke(TestInput.of('AMAZON.YesIntent'));
+
+        const [password, root, userName] = coverage.getCoverage();
+        expect(root.controlType).equals('ContainerControl');
+        expect(userName.inputHandlers).deep.equals({
+            'SetWithValue (built-in)': 0,
+            'ChangeWithValue (built-in)': 0,
+            'SetWithoutValue (built-in)': 0,
+            'ChangeWithoutValue (built-in)': 0,
+            'isBareValue (built-in)': 1,
+            'ConfirmationAffirmed (built-in)': 1,
+            'ConfirmationDisaffirmed (built-in)': 0,
+        });
+        // The confirmation is requested while handling the value, not in the initiative phase
+        expect(userName.initiativeHandlers).deep.equals({
+            confirmValue: 0,
+            fixInvalidValue: 0,
+            elicitValue: 0,
+        });
+        expect(userName.acts).deep.equals({ ValueSetAct: 1, ConfirmValueAct: 1, ValueConfirmedAct: 1 });
+
+        // The password control was asked but not selected until it took the initiative
+        expect(Object.values(password.inputHandlers).every((n) => n === 0)).equals(true);
+        expect(password.initiativeHandlers).deep.equals({
+            confirmValue: 0,
+            fixInvalidValue: 0,
+            elicitValue: 1,
+        });
+        expect(password.acts).deep.equals({ RequestValueAct: 1 });
+    });
+
+    test('the report lists the handlers that were not exercised', async () => {
+        const coverage = new DialogCoverage();
+        const invoker = new SkillInvoker(coverage.attach(new ControlHandler(new LoginControlManager())));
+
+        await invoker.invoke(TestInput.of(ValueControlIntent.of('CUSTOM.name', { 'CUSTOM.name': 'Alexa' })));
+
+        const report = coverage.toString();
+        expect(report).contains('userName (ValueControl): 1 of 7 input handlers, 0 of 3 initiative handlers');
+        expect(report).contains('  input         1  isBareValue (built-in)');
+        expect(report).contains('  input         0  ConfirmationDisaffirmed (built-in)');
+        expect(report).contains('  initiative    0  fixInvalidValue');
+        expect(report).contains('  act           1  ConfirmValueAct');
+    });
+
+    test('controls without handler lists report their declared handlers', async () => {
+        class TripControlManager extends ControlManager {
+            createControlTree(): Control {
+                return new DateRangeControl({ id: 'trip' });
+            }
+        }
+        const coverage = new DialogCoverage();
+        const invoker = new SkillInvoker(coverage.attach(new ControlHandler(new TripControlManager())));
+
+        await invoker.invoke(
+            TestInput.of(ValueControlIntent.of('AMAZON.DATE', { 'AMAZON.DATE': '2020-01' })),
+        );
+
+        const trip = coverage.getCoverage().find((item) => item.controlId === 'trip')!;
+        expect(trip.inputHandlers).deep.equals({
+            'TwoValueInput (built-in)': 0,
+            'DateInterpretedAsDateRange (built-in)': 1,
+            'ChangeBoth (built-in)': 0,
+            'ChangeRange (built-in)': 0,
+            'ConfirmationAffirmed (built-in)': 0,
+            'ConfirmationDisAffirmed (built-in)': 0,
+        });
+    });
+});
@@ -0,0 +1,109 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { suite, test } from 'mocha';
+import { join } from 'path';
+import {
+    Control,
+    ControlHandler,
+    ControlManager,
+    loadDialogScripts,
+    parseDialogScript,
+    runDialogScript,
+    ValueControl,
+} from '../../src';
+
+suite('Dialog scripts', () => {
+    class LoginControlManager extends ControlManager {
+        createControlTree(): Control {
+            return new ValueControl({ id: 'userName', slotType: 'LOGIN.name', confirmationRequired: true });
+        }
+    }
+
+    test('scripts are parsed into turns and expectations', () => {
+        const script = parseDialogScript(
+            [
+                '# comment',
+                'U: add a "big" apple => AddIntent fruit="big apple" count=1',
+                'A: /^OK/i',
+                'R: ~ anything else',
+                'ACTS: ValueAddedAct, RequestValueAct',
+                'STATE: cart.items = ["big apple"]',
+                'APL: present',
+            ].join('\n'),
+            'cart',
+        );
+        expect(script).deep.equals({
+            name: 'cart',
+            turns: [
+                {
+                    line: 2,
+                    utterance: 'add a "big" apple',
+                    intent: { name: 'AddIntent', slots: { fruit: 'big apple', count: '1' } },
+                    expectations: [
+                        { kind: 'prompt', line: 3, target: 'prompt', match: 'regex', text: '/^OK/i' },
+                        {
+                            kind: 'prompt',
+                            line: 4,
+                            target: 'reprompt',
+                            match: 'contains',
+                            text: 'anything else',
+                        },
+                        { kind: 'acts', line: 5, acts: ['ValueAddedAct', 'RequestValueAct'] },
+                        { kind: 'state', line: 6, path: 'cart.items', value: ['big apple'] },
+                        { kind: 'apl', line: 7, present: true },
+                    ],
+                },
+            ],
+        });
+
+        expect(() => parseDialogScript('A: Hello.', 'greeting')).throws(
+            'greeting:1: A: must follow a U: line.',
+        );
+        expect(() => parseDialogScript('U: hi\nSTATE: x = {', 'greeting')).throws(
+            'greeting:2: Invalid JSON {.',
+        );
+    });
+
+    for (const script of loadDialogScripts(join(__dirname, '..', 'mock'))) {
+        test(`${script.name}.dialog`, async () => {
+            await runDialogScript(new ControlHandler(new LoginControlManager()), script);
+        });
+    }
+
+    test('failed expectations report the line of the script', async () => {
+        const script = parseDialogScript(
+            'U: Alexa => LOGIN_name_ValueControlIntent LOGIN.name=Alexa\nA: ~ Redfox',
+            'login',
+        );
+        let error: Error | undefined;
+        try {
+            await runDialogScript(new ControlHandler(new LoginControlManager()), script);
+        } catch (e) {
+            error = e;
+        }
+        expect(error?.message).contains("login:2: expected 'OK, Alexa. Was that Alexa?' to include 'Redfox'");
+
+        const unrecognized = parseDialogScript('U: Alexa', 'login');
+        let unrecognizedError: Error | undefined;
+        try {
+            await runDialogScript(new ControlHandler(new LoginControlManager()), unrecognized);
+        } catch (e) {
+            unrecognizedError = e;
+        }
+        expect(unrecognizedError?.message).equals(
+            'login:1: The utterance has no intent (=> ...) and no NluSimulator is configured.',
+        );
+    });
+});
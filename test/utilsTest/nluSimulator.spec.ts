@@ -0,0 +1,114 @@
+/*
+ * Copyright 2020 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * or in the "license" file accompanying this file. This file is distributed
+ * on an "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either
+ * express or implied. See the License for the specific language governing
+ * permissions and limitations under the License.
+ */
+
+import { expect } from 'chai';
+import { suite, test } from 'mocha';
+import {
+    Control,
+    ControlHandler,
+    ControlManager,
+    InteractionModelGenerator,
+    NluSimulator,
+    SimplifiedMVSIntent,
+    testE2EWithNlu,
+    ValueControl,
+} from '../../src';
+import { ControlInteractionModelGenerator } from '../../src/interactionModelGeneration/ControlInteractionModelGenerator';
+
+suite('NLU simulator', () => {
+    class LoginControlManager extends ControlManager {
+        createControlTree(): Control {
+            return new ValueControl({
+                id: 'userName',
+                slotType: 'LOGIN.name',
+                confirmationRequired: true,
+                interactionModel: { targets: ['builtin_it', 'loginName'] },
+            });
+        }
+    }
+
+    const createSimulator = () =>
+        new NluSimulator(
+            new ControlInteractionModelGenerator()
+                .addOrMergeSlotTypes(
+                    {
+                        name: 'LOGIN.name',
+                        values: [
+                            { id: 'Alexa', name: { value: 'Alexa' } },
+                            { id: 'Redfox', name: { value: 'Redfox', synonyms: ['red fox'] } },
+                        ],
+                    },
+                    { name: 'target', values: [{ id: 'loginName', name: { value: 'login name' } }] },
+                )
+                .buildCoreModelForControls(new LoginControlManager())
+                .withInvocationName('login')
+                .build(),
+        );
+
+    test('utterances are resolved to intents with entity resolution', () => {
+        const simulator = createSimulator();
+
+        const match = simulator.match('Just change it to red fox, please.')!;
+        expect(match.sample).equals('{head} {action} {target} {preposition} {LOGIN.name} {tail}');
+        expect(SimplifiedMVSIntent.fromIntent(match.intent)).deep.equals(
+            new SimplifiedMVSIntent('LOGIN_name_ValueControlIntent', {
+                head: { slotValue: 'builtin_head', isEntityResolutionMatch: true },
+                action: { slotValue: 'builtin_change', isEntityResolutionMatch: true },
+                target: { slotValue: 'builtin_it', isEntityResolutionMatch: true },
+                preposition: { slotValue: 'builtin_preposition', isEntityResolutionMatch: true },
+                'LOGIN.name': { slotValue: 'Redfox', isEntityResolutionMatch: true },
+                tail: { slotValue: 'builtin_tail', isEntityResolutionMatch: true },
+            }),
+        );
+
+        expect(simulator.recognize('yeah')!.name).equals('AMAZON.YesIntent');
+        expect(SimplifiedMVSIntent.fromIntent(simulator.recognize('Bob')!).slotResolutions).deep.equals({
+            'LOGIN.name': { slotValue: 'bob', isEntityResolutionMatch: false },
+        });
+    });
+
+    test('built-in slot types and fallback', () => {
+        const simulator = new NluSimulator(
+            new InteractionModelGenerator()
+                .addIntent({
+                    name: 'OrderIntent',
+                    slots: [
+                        { name: 'count', type: 'AMAZON.NUMBER' },
+                        { name: 'food', type: 'AMAZON.Food' },
+                    ],
+                    samples: ['order {count} {food}'],
+                })
+                .addIntent({ name: 'AMAZON.FallbackIntent', samples: [] })
+                .withInvocationName('shop')
+                .build(),
+        );
+        expect(simulator.recognize('order three pizza slices')!.slots).deep.equals({
+            count: { name: 'count', value: '3', confirmationStatus: 'NONE' },
+            food: { name: 'food', value: 'pizza slices', confirmationStatus: 'NONE' },
+        });
+        expect(simulator.match('order many pizzas')).deep.equals({
+            intent: { name: 'AMAZON.FallbackIntent', confirmationStatus: 'NONE', slots: {} },
+        });
+    });
+
+    test('scenarios are written as text conversations', async () => {
+        await testE2EWithNlu(new ControlHandler(new LoginControlManager()), createSimulator(), [
+            'U: Alexa',
+            'A: OK, Alexa. Was that Alexa?',
+            'U: Yeah.',
+            'A: Great.',
+            'U: Change login name to red fox.',
+            'A: OK, I changed it to Redfox. Was that Redfox?',
+        ]);
+    });
+});